@@ -17,14 +17,17 @@
  *   --dry-run       Parse & validate only, do not write to DB
  */
 
-import { PrismaClient, ApplicationStatus, ApplicationDocumentType, EducationLevel, WhoLivesWith, HouseholdIncomeRange, OrphanStatus, UserRole, Prisma } from '@prisma/client';
+import { PrismaClient, ApplicationStatus, ApplicationDocumentType, EducationLevel, WhoLivesWith, HouseholdIncomeRange, UserRole, Prisma } from '@prisma/client';
+import { OrphanStatus } from '../src/types/api.types';
+import { fieldEncryption } from '../src/utils/fieldEncryption';
 import * as fs from 'fs';
 import * as path from 'path';
 import * as readline from 'readline';
 // @ts-ignore
 import bcrypt from 'bcrypt';
 
-const prisma = new PrismaClient();
+// Encrypts ID numbers, guardian phone and other sensitive fields as the API does
+const prisma = new PrismaClient().$extends(fieldEncryption);
 
 // ─── CLI args ────────────────────────────────────────────────────────────────
 
@@ -445,6 +448,8 @@ async function processRow(row: Record<string, string>, rowIndex: number): Promis
                 phone = generatePhone(rowIndex + 90000); // bump to avoid collision
                 flags.push(`Phone collision resolved – using: ${phone}`);
             }
+            // Imported contacts stay unverified (emailVerifiedAt / phoneVerifiedAt null):
+            // the student must confirm a real email and phone before applying
             user = await prisma.user.create({
                 data: {
                     email,
@@ -0,0 +1,74 @@
+-- Migration: disbursement_ledger
+-- Replaces the single disbursedAmount / disbursedAt / disbursementNotes columns on
+-- applications with a per-application ledger that supports tranches and reversals.
+
+-- CreateEnum
+CREATE TYPE "PaymentMethod" AS ENUM ('BANK_TRANSFER', 'MPESA', 'CHEQUE', 'OTHER');
+
+-- CreateTable
+CREATE TABLE "disbursements" (
+    "id" TEXT NOT NULL,
+    "applicationId" TEXT NOT NULL,
+    "amount" DECIMAL(12,2) NOT NULL,
+    "payeeInstitution" TEXT NOT NULL,
+    "paymentMethod" "PaymentMethod" NOT NULL,
+    "paymentReference" TEXT NOT NULL,
+    "term" TEXT,
+    "notes" TEXT,
+    "disbursedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "recordedBy" TEXT,
+    "reversalOfId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "disbursements_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "disbursements_reversalOfId_key" ON "disbursements"("reversalOfId");
+
+-- CreateIndex
+CREATE INDEX "disbursements_applicationId_idx" ON "disbursements"("applicationId");
+
+-- CreateIndex
+CREATE INDEX "disbursements_disbursedAt_idx" ON "disbursements"("disbursedAt");
+
+-- CreateIndex
+CREATE INDEX "disbursements_paymentReference_idx" ON "disbursements"("paymentReference");
+
+-- AddForeignKey
+ALTER TABLE "disbursements" ADD CONSTRAINT "disbursements_applicationId_fkey" FOREIGN KEY ("applicationId") REFERENCES "applications"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "disbursements" ADD CONSTRAINT "disbursements_recordedBy_fkey" FOREIGN KEY ("recordedBy") REFERENCES "users"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "disbursements" ADD CONSTRAINT "disbursements_reversalOfId_fkey" FOREIGN KEY ("reversalOfId") REFERENCES "disbursements"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- Backfill: carry each existing single disbursement over as the first ledger entry.
+-- The recording admin falls back to the oldest ADMIN account when reviewedBy is unset,
+-- and is left NULL (recorder unknown) when there is no ADMIN account either.
+INSERT INTO "disbursements" (
+    "id", "applicationId", "amount", "payeeInstitution", "paymentMethod",
+    "paymentReference", "notes", "disbursedAt", "recordedBy", "createdAt"
+)
+SELECT
+    gen_random_uuid()::text,
+    a."id",
+    a."disbursedAmount",
+    COALESCE(a."snapshotInstitution", 'Unknown'),
+    'OTHER',
+    'LEGACY-' || a."applicationNumber",
+    a."disbursementNotes",
+    COALESCE(a."disbursedAt", a."updatedAt"),
+    COALESCE(
+        a."reviewedBy",
+        (SELECT u."id" FROM "users" u WHERE u."role" = 'ADMIN' ORDER BY u."createdAt" ASC LIMIT 1)
+    ),
+    CURRENT_TIMESTAMP
+FROM "applications" a
+WHERE a."disbursedAmount" IS NOT NULL;
+
+-- Drop the superseded columns
+ALTER TABLE "applications" DROP COLUMN "disbursedAmount";
+ALTER TABLE "applications" DROP COLUMN "disbursedAt";
+ALTER TABLE "applications" DROP COLUMN "disbursementNotes";
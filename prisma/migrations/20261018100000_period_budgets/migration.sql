@@ -0,0 +1,51 @@
+-- Migration: period_budgets
+-- Adds a total budget to application periods, optional per-education-level and
+-- per-county caps, the awarded amount committed on approval, and override reasons
+-- for transitions / tranches allowed past the budget.
+
+-- AlterTable
+ALTER TABLE "application_periods" ADD COLUMN "totalBudget" DECIMAL(14,2);
+
+-- AlterTable
+ALTER TABLE "applications" ADD COLUMN "awardedAmount" DECIMAL(12,2);
+
+-- AlterTable
+ALTER TABLE "application_status_history" ADD COLUMN "budgetOverrideReason" TEXT;
+
+-- AlterTable
+ALTER TABLE "disbursements" ADD COLUMN "budgetOverrideReason" TEXT;
+
+-- CreateTable
+CREATE TABLE "period_budget_caps" (
+    "id" TEXT NOT NULL,
+    "applicationPeriodId" TEXT NOT NULL,
+    "educationLevel" "EducationLevel",
+    "countyId" TEXT,
+    "amount" DECIMAL(14,2) NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "period_budget_caps_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "period_budget_caps_applicationPeriodId_educationLevel_countyId_key" ON "period_budget_caps"("applicationPeriodId", "educationLevel", "countyId");
+
+-- CreateIndex
+CREATE INDEX "period_budget_caps_applicationPeriodId_idx" ON "period_budget_caps"("applicationPeriodId");
+
+-- AddForeignKey
+ALTER TABLE "period_budget_caps" ADD CONSTRAINT "period_budget_caps_applicationPeriodId_fkey" FOREIGN KEY ("applicationPeriodId") REFERENCES "application_periods"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "period_budget_caps" ADD CONSTRAINT "period_budget_caps_countyId_fkey" FOREIGN KEY ("countyId") REFERENCES "counties"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- Backfill: treat amounts already disbursed as the award for existing decisions
+UPDATE "applications" a
+SET "awardedAmount" = d."net_amount"
+FROM (
+    SELECT "applicationId", SUM("amount") AS "net_amount"
+    FROM "disbursements"
+    GROUP BY "applicationId"
+) d
+WHERE d."applicationId" = a."id" AND d."net_amount" > 0;
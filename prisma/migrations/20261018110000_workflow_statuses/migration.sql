@@ -0,0 +1,11 @@
+-- Migration: workflow_statuses
+-- Adds the extra application states used by the configurable workflow.
+-- Kept separate from the transition table so the new enum values are
+-- committed before the seed rows reference them.
+
+-- AlterEnum
+ALTER TYPE "ApplicationStatus" ADD VALUE 'RETURNED_FOR_CORRECTION';
+ALTER TYPE "ApplicationStatus" ADD VALUE 'SHORTLISTED';
+ALTER TYPE "ApplicationStatus" ADD VALUE 'WAITLISTED';
+ALTER TYPE "ApplicationStatus" ADD VALUE 'WITHDRAWN';
+ALTER TYPE "ApplicationStatus" ADD VALUE 'APPEALED';
@@ -0,0 +1,53 @@
+-- Migration: workflow_transitions
+-- Replaces the hard-coded VALID_STATUS_TRANSITIONS map with a table of allowed
+-- transitions, each with its permitted roles, reason requirement and notifications.
+
+-- CreateTable
+CREATE TABLE "workflow_transitions" (
+    "id" TEXT NOT NULL,
+    "fromStatus" "ApplicationStatus" NOT NULL,
+    "toStatus" "ApplicationStatus" NOT NULL,
+    "allowedRoles" "UserRole"[] DEFAULT ARRAY['ADMIN']::"UserRole"[],
+    "requiresReason" BOOLEAN NOT NULL DEFAULT false,
+    "notifyStudent" BOOLEAN NOT NULL DEFAULT true,
+    "emailStudent" BOOLEAN NOT NULL DEFAULT true,
+    "notifyAdmins" BOOLEAN NOT NULL DEFAULT false,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "description" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "workflow_transitions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "workflow_transitions_fromStatus_toStatus_key" ON "workflow_transitions"("fromStatus", "toStatus");
+
+-- CreateIndex
+CREATE INDEX "workflow_transitions_fromStatus_idx" ON "workflow_transitions"("fromStatus");
+
+-- Seed the default workflow (the previous fixed transitions plus the new states)
+INSERT INTO "workflow_transitions" ("id", "fromStatus", "toStatus", "allowedRoles", "requiresReason", "notifyStudent", "emailStudent", "notifyAdmins", "isActive", "description", "updatedAt") VALUES
+    (gen_random_uuid()::text, 'DRAFT', 'PENDING', ARRAY['STUDENT']::"UserRole"[], false, false, false, false, true, 'Student submits the application', CURRENT_TIMESTAMP),
+    (gen_random_uuid()::text, 'PENDING', 'UNDER_REVIEW', ARRAY['ADMIN']::"UserRole"[], false, true, true, false, true, 'Review started', CURRENT_TIMESTAMP),
+    (gen_random_uuid()::text, 'PENDING', 'RETURNED_FOR_CORRECTION', ARRAY['ADMIN']::"UserRole"[], true, true, true, false, true, 'Returned to the student before review', CURRENT_TIMESTAMP),
+    (gen_random_uuid()::text, 'UNDER_REVIEW', 'RETURNED_FOR_CORRECTION', ARRAY['ADMIN']::"UserRole"[], true, true, true, false, true, 'Returned to the student during review', CURRENT_TIMESTAMP),
+    (gen_random_uuid()::text, 'RETURNED_FOR_CORRECTION', 'PENDING', ARRAY['STUDENT']::"UserRole"[], false, false, false, true, true, 'Student resubmits after corrections', CURRENT_TIMESTAMP),
+    (gen_random_uuid()::text, 'UNDER_REVIEW', 'SHORTLISTED', ARRAY['ADMIN', 'BOARD']::"UserRole"[], false, true, false, false, true, 'Shortlisted for the board', CURRENT_TIMESTAMP),
+    (gen_random_uuid()::text, 'UNDER_REVIEW', 'WAITLISTED', ARRAY['ADMIN']::"UserRole"[], false, true, true, false, true, 'Waitlisted pending funds', CURRENT_TIMESTAMP),
+    (gen_random_uuid()::text, 'UNDER_REVIEW', 'APPROVED', ARRAY['ADMIN']::"UserRole"[], false, true, true, false, true, 'Approved', CURRENT_TIMESTAMP),
+    (gen_random_uuid()::text, 'UNDER_REVIEW', 'REJECTED', ARRAY['ADMIN']::"UserRole"[], true, true, true, false, true, 'Rejected', CURRENT_TIMESTAMP),
+    (gen_random_uuid()::text, 'SHORTLISTED', 'APPROVED', ARRAY['ADMIN']::"UserRole"[], false, true, true, false, true, 'Approved from the shortlist', CURRENT_TIMESTAMP),
+    (gen_random_uuid()::text, 'SHORTLISTED', 'WAITLISTED', ARRAY['ADMIN']::"UserRole"[], false, true, true, false, true, 'Waitlisted from the shortlist', CURRENT_TIMESTAMP),
+    (gen_random_uuid()::text, 'SHORTLISTED', 'REJECTED', ARRAY['ADMIN']::"UserRole"[], true, true, true, false, true, 'Rejected from the shortlist', CURRENT_TIMESTAMP),
+    (gen_random_uuid()::text, 'WAITLISTED', 'APPROVED', ARRAY['ADMIN']::"UserRole"[], false, true, true, false, true, 'Approved from the waitlist', CURRENT_TIMESTAMP),
+    (gen_random_uuid()::text, 'WAITLISTED', 'REJECTED', ARRAY['ADMIN']::"UserRole"[], true, true, true, false, true, 'Rejected from the waitlist', CURRENT_TIMESTAMP),
+    (gen_random_uuid()::text, 'APPROVED', 'DISBURSED', ARRAY['ADMIN']::"UserRole"[], false, true, true, false, true, 'First disbursement recorded', CURRENT_TIMESTAMP),
+    (gen_random_uuid()::text, 'PENDING', 'WITHDRAWN', ARRAY['STUDENT']::"UserRole"[], true, false, false, true, true, 'Withdrawn by the student', CURRENT_TIMESTAMP),
+    (gen_random_uuid()::text, 'UNDER_REVIEW', 'WITHDRAWN', ARRAY['STUDENT']::"UserRole"[], true, false, false, true, true, 'Withdrawn by the student', CURRENT_TIMESTAMP),
+    (gen_random_uuid()::text, 'RETURNED_FOR_CORRECTION', 'WITHDRAWN', ARRAY['STUDENT']::"UserRole"[], true, false, false, true, true, 'Withdrawn by the student', CURRENT_TIMESTAMP),
+    (gen_random_uuid()::text, 'SHORTLISTED', 'WITHDRAWN', ARRAY['STUDENT']::"UserRole"[], true, false, false, true, true, 'Withdrawn by the student', CURRENT_TIMESTAMP),
+    (gen_random_uuid()::text, 'WAITLISTED', 'WITHDRAWN', ARRAY['STUDENT']::"UserRole"[], true, false, false, true, true, 'Withdrawn by the student', CURRENT_TIMESTAMP),
+    (gen_random_uuid()::text, 'REJECTED', 'APPEALED', ARRAY['STUDENT']::"UserRole"[], true, false, false, true, true, 'Student appeals the rejection', CURRENT_TIMESTAMP),
+    (gen_random_uuid()::text, 'APPEALED', 'UNDER_REVIEW', ARRAY['ADMIN']::"UserRole"[], false, true, true, false, true, 'Appeal upheld; application re-opened', CURRENT_TIMESTAMP),
+    (gen_random_uuid()::text, 'APPEALED', 'REJECTED', ARRAY['ADMIN']::"UserRole"[], true, true, true, false, true, 'Appeal dismissed', CURRENT_TIMESTAMP);
@@ -0,0 +1,34 @@
+-- Migration: correction_requests
+-- Records each return-for-correction round: what the admin flagged, and the
+-- form data / snapshot before the student's corrections and after resubmission.
+
+-- CreateTable
+CREATE TABLE "correction_requests" (
+    "id" TEXT NOT NULL,
+    "applicationId" TEXT NOT NULL,
+    "round" INTEGER NOT NULL,
+    "reason" TEXT NOT NULL,
+    "flaggedFields" TEXT[],
+    "flaggedDocuments" "ApplicationDocumentType"[],
+    "requestedBy" TEXT NOT NULL,
+    "requestedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "resolvedAt" TIMESTAMP(3),
+    "formDataBefore" JSONB NOT NULL,
+    "formDataAfter" JSONB,
+    "snapshotBefore" JSONB NOT NULL,
+    "snapshotAfter" JSONB,
+
+    CONSTRAINT "correction_requests_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "correction_requests_applicationId_round_key" ON "correction_requests"("applicationId", "round");
+
+-- CreateIndex
+CREATE INDEX "correction_requests_applicationId_idx" ON "correction_requests"("applicationId");
+
+-- AddForeignKey
+ALTER TABLE "correction_requests" ADD CONSTRAINT "correction_requests_applicationId_fkey" FOREIGN KEY ("applicationId") REFERENCES "applications"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "correction_requests" ADD CONSTRAINT "correction_requests_requestedBy_fkey" FOREIGN KEY ("requestedBy") REFERENCES "users"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
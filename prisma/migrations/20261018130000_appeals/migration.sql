@@ -0,0 +1,67 @@
+-- Migration: appeals
+-- Appeals against rejected applications, with supporting documents, and a
+-- configurable appeal window per application period.
+
+-- CreateEnum
+CREATE TYPE "AppealStatus" AS ENUM ('PENDING', 'UPHELD', 'DISMISSED', 'CLOSED');
+
+-- AlterTable
+ALTER TABLE "application_periods" ADD COLUMN "appealWindowDays" INTEGER NOT NULL DEFAULT 14;
+
+-- CreateTable
+CREATE TABLE "appeals" (
+    "id" TEXT NOT NULL,
+    "applicationId" TEXT NOT NULL,
+    "statement" TEXT NOT NULL,
+    "status" "AppealStatus" NOT NULL DEFAULT 'PENDING',
+    "submittedBy" TEXT NOT NULL,
+    "submittedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "decidedBy" TEXT,
+    "decidedAt" TIMESTAMP(3),
+    "decisionNotes" TEXT,
+
+    CONSTRAINT "appeals_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "appeal_documents" (
+    "id" TEXT NOT NULL,
+    "appealId" TEXT NOT NULL,
+    "originalFilename" TEXT NOT NULL,
+    "storedFilename" TEXT NOT NULL,
+    "filePath" TEXT NOT NULL,
+    "fileSize" INTEGER NOT NULL,
+    "mimeType" TEXT NOT NULL,
+    "uploadedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "appeal_documents_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "appeals_applicationId_idx" ON "appeals"("applicationId");
+
+-- CreateIndex
+CREATE INDEX "appeals_status_idx" ON "appeals"("status");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "appeal_documents_storedFilename_key" ON "appeal_documents"("storedFilename");
+
+-- CreateIndex
+CREATE INDEX "appeal_documents_appealId_idx" ON "appeal_documents"("appealId");
+
+-- AddForeignKey
+ALTER TABLE "appeals" ADD CONSTRAINT "appeals_applicationId_fkey" FOREIGN KEY ("applicationId") REFERENCES "applications"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "appeals" ADD CONSTRAINT "appeals_submittedBy_fkey" FOREIGN KEY ("submittedBy") REFERENCES "users"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "appeals" ADD CONSTRAINT "appeals_decidedBy_fkey" FOREIGN KEY ("decidedBy") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "appeal_documents" ADD CONSTRAINT "appeal_documents_appealId_fkey" FOREIGN KEY ("appealId") REFERENCES "appeals"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Appeal outcomes are announced by the appeal decision email; avoid a second generic status email
+UPDATE "workflow_transitions"
+SET "notifyStudent" = false, "emailStudent" = false, "updatedAt" = CURRENT_TIMESTAMP
+WHERE "fromStatus" = 'APPEALED' AND "toStatus" IN ('UNDER_REVIEW', 'REJECTED');
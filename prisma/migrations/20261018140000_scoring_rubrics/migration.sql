@@ -0,0 +1,104 @@
+-- Migration: scoring_rubrics
+-- Replaces the four hard-coded 1-5 review criteria with versioned rubrics
+-- (global or per application period). Existing scores are moved onto a global
+-- "Legacy" rubric holding the old criteria, with their values kept in
+-- criterionScores and overallScore recomputed as a weighted 0-100 percentage.
+
+-- CreateTable
+CREATE TABLE "scoring_rubrics" (
+    "id" TEXT NOT NULL,
+    "applicationPeriodId" TEXT,
+    "version" INTEGER NOT NULL,
+    "name" TEXT NOT NULL,
+    "description" TEXT,
+    "createdBy" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "scoring_rubrics_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "rubric_criteria" (
+    "id" TEXT NOT NULL,
+    "rubricId" TEXT NOT NULL,
+    "key" TEXT NOT NULL,
+    "label" TEXT NOT NULL,
+    "description" TEXT,
+    "minScore" INTEGER NOT NULL,
+    "maxScore" INTEGER NOT NULL,
+    "weight" DOUBLE PRECISION NOT NULL,
+    "anchors" JSONB NOT NULL DEFAULT '[]',
+    "sortOrder" INTEGER NOT NULL DEFAULT 0,
+
+    CONSTRAINT "rubric_criteria_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "scoring_rubrics_applicationPeriodId_version_key" ON "scoring_rubrics"("applicationPeriodId", "version");
+
+-- CreateIndex
+CREATE INDEX "scoring_rubrics_applicationPeriodId_idx" ON "scoring_rubrics"("applicationPeriodId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "rubric_criteria_rubricId_key_key" ON "rubric_criteria"("rubricId", "key");
+
+-- CreateIndex
+CREATE INDEX "rubric_criteria_rubricId_idx" ON "rubric_criteria"("rubricId");
+
+-- AddForeignKey
+ALTER TABLE "scoring_rubrics" ADD CONSTRAINT "scoring_rubrics_applicationPeriodId_fkey" FOREIGN KEY ("applicationPeriodId") REFERENCES "application_periods"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "scoring_rubrics" ADD CONSTRAINT "scoring_rubrics_createdBy_fkey" FOREIGN KEY ("createdBy") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "rubric_criteria" ADD CONSTRAINT "rubric_criteria_rubricId_fkey" FOREIGN KEY ("rubricId") REFERENCES "scoring_rubrics"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Seed the global default rubric with the original criteria
+INSERT INTO "scoring_rubrics" ("id", "applicationPeriodId", "version", "name", "description")
+VALUES (gen_random_uuid()::text, NULL, 1, 'Legacy', 'Original four-criterion rubric (equal weights, 1-5)');
+
+INSERT INTO "rubric_criteria" ("id", "rubricId", "key", "label", "description", "minScore", "maxScore", "weight", "sortOrder")
+SELECT gen_random_uuid()::text, r."id", c."key", c."label", c."description", 1, 5, 0.25, c."sortOrder"
+FROM "scoring_rubrics" r
+CROSS JOIN (VALUES
+    ('financialNeed', 'Financial Need', 'Level of financial hardship and need for bursary support', 0),
+    ('academicMerit', 'Academic Merit', 'Academic performance and potential', 1),
+    ('communityImpact', 'Community Impact', 'Community involvement and potential to give back', 2),
+    ('vulnerability', 'Vulnerability', 'Orphan status, disability, and social vulnerability', 3)
+) AS c("key", "label", "description", "sortOrder")
+WHERE r."applicationPeriodId" IS NULL AND r."version" = 1;
+
+-- AlterTable
+ALTER TABLE "review_scores" ADD COLUMN "rubricId" TEXT,
+ADD COLUMN "criterionScores" JSONB;
+
+-- Move existing scores onto the legacy rubric
+UPDATE "review_scores" s
+SET "rubricId" = r."id",
+    "criterionScores" = jsonb_build_object(
+        'financialNeed', s."financialNeed",
+        'academicMerit', s."academicMerit",
+        'communityImpact', s."communityImpact",
+        'vulnerability', s."vulnerability"
+    ),
+    "overallScore" = ROUND(((
+        (s."financialNeed" - 1) + (s."academicMerit" - 1) +
+        (s."communityImpact" - 1) + (s."vulnerability" - 1)
+    ) / 16.0 * 100)::numeric, 2)
+FROM "scoring_rubrics" r
+WHERE r."applicationPeriodId" IS NULL AND r."version" = 1;
+
+-- AlterTable
+ALTER TABLE "review_scores" ALTER COLUMN "rubricId" SET NOT NULL,
+ALTER COLUMN "criterionScores" SET NOT NULL,
+DROP COLUMN "financialNeed",
+DROP COLUMN "academicMerit",
+DROP COLUMN "communityImpact",
+DROP COLUMN "vulnerability";
+
+-- CreateIndex
+CREATE INDEX "review_scores_rubricId_idx" ON "review_scores"("rubricId");
+
+-- AddForeignKey
+ALTER TABLE "review_scores" ADD CONSTRAINT "review_scores_rubricId_fkey" FOREIGN KEY ("rubricId") REFERENCES "scoring_rubrics"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
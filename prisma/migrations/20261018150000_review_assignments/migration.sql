@@ -0,0 +1,68 @@
+-- Migration: review_assignments
+-- Reviewers (ADMIN or BOARD users) assigned to score applications, with due
+-- dates, and declared reviewer conflicts of interest by county or institution.
+
+-- AlterEnum
+ALTER TYPE "NotificationType" ADD VALUE 'REVIEW_ASSIGNED';
+
+-- CreateTable
+CREATE TABLE "review_assignments" (
+    "id" TEXT NOT NULL,
+    "applicationId" TEXT NOT NULL,
+    "reviewerId" TEXT NOT NULL,
+    "assignedBy" TEXT NOT NULL,
+    "assignedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "dueDate" TIMESTAMP(3) NOT NULL,
+    "completedAt" TIMESTAMP(3),
+
+    CONSTRAINT "review_assignments_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "reviewer_conflicts" (
+    "id" TEXT NOT NULL,
+    "reviewerId" TEXT NOT NULL,
+    "countyId" TEXT,
+    "institutionId" TEXT,
+    "reason" TEXT,
+    "createdBy" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "reviewer_conflicts_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "review_assignments_applicationId_reviewerId_key" ON "review_assignments"("applicationId", "reviewerId");
+
+-- CreateIndex
+CREATE INDEX "review_assignments_reviewerId_completedAt_idx" ON "review_assignments"("reviewerId", "completedAt");
+
+-- CreateIndex
+CREATE INDEX "review_assignments_dueDate_idx" ON "review_assignments"("dueDate");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "reviewer_conflicts_reviewerId_countyId_institutionId_key" ON "reviewer_conflicts"("reviewerId", "countyId", "institutionId");
+
+-- CreateIndex
+CREATE INDEX "reviewer_conflicts_reviewerId_idx" ON "reviewer_conflicts"("reviewerId");
+
+-- AddForeignKey
+ALTER TABLE "review_assignments" ADD CONSTRAINT "review_assignments_applicationId_fkey" FOREIGN KEY ("applicationId") REFERENCES "applications"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "review_assignments" ADD CONSTRAINT "review_assignments_reviewerId_fkey" FOREIGN KEY ("reviewerId") REFERENCES "users"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "review_assignments" ADD CONSTRAINT "review_assignments_assignedBy_fkey" FOREIGN KEY ("assignedBy") REFERENCES "users"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "reviewer_conflicts" ADD CONSTRAINT "reviewer_conflicts_reviewerId_fkey" FOREIGN KEY ("reviewerId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "reviewer_conflicts" ADD CONSTRAINT "reviewer_conflicts_createdBy_fkey" FOREIGN KEY ("createdBy") REFERENCES "users"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "reviewer_conflicts" ADD CONSTRAINT "reviewer_conflicts_countyId_fkey" FOREIGN KEY ("countyId") REFERENCES "counties"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "reviewer_conflicts" ADD CONSTRAINT "reviewer_conflicts_institutionId_fkey" FOREIGN KEY ("institutionId") REFERENCES "institutions"("id") ON DELETE CASCADE ON UPDATE CASCADE;
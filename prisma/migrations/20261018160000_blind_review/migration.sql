@@ -0,0 +1,9 @@
+-- Migration: blind_review
+-- Per-period blind review setting, and per-user permission grants (pii.read
+-- lets a reviewer see applicant identity in blind-review periods).
+
+-- AlterTable
+ALTER TABLE "application_periods" ADD COLUMN "blindReview" BOOLEAN NOT NULL DEFAULT false;
+
+-- AlterTable
+ALTER TABLE "users" ADD COLUMN "permissions" TEXT[] DEFAULT ARRAY[]::TEXT[];
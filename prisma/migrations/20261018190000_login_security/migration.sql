@@ -0,0 +1,34 @@
+-- Migration: login_security
+-- Per-account failed-login counter with progressive lockout, a login history
+-- table, and a notification type for logins from a new device.
+
+-- AlterEnum
+ALTER TYPE "NotificationType" ADD VALUE 'NEW_DEVICE_LOGIN';
+
+-- AlterTable
+ALTER TABLE "users" ADD COLUMN "failedLoginAttempts" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN "lockedUntil" TIMESTAMP(3);
+
+-- CreateTable
+CREATE TABLE "login_events" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT,
+    "email" TEXT NOT NULL,
+    "ipAddress" TEXT,
+    "userAgent" TEXT,
+    "success" BOOLEAN NOT NULL,
+    "failureReason" TEXT,
+    "newDevice" BOOLEAN NOT NULL DEFAULT false,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "login_events_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "login_events_userId_createdAt_idx" ON "login_events"("userId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "login_events_email_idx" ON "login_events"("email");
+
+-- AddForeignKey
+ALTER TABLE "login_events" ADD CONSTRAINT "login_events_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,31 @@
+-- Migration: contact_verification
+-- Email and phone verification. Existing users start unverified (imported
+-- accounts carry placeholder addresses) and must confirm both before applying.
+
+-- CreateEnum
+CREATE TYPE "VerificationChannel" AS ENUM ('EMAIL', 'PHONE');
+
+-- AlterTable
+ALTER TABLE "users" ADD COLUMN "emailVerifiedAt" TIMESTAMP(3),
+ADD COLUMN "phoneVerifiedAt" TIMESTAMP(3);
+
+-- CreateTable
+CREATE TABLE "verification_codes" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "channel" "VerificationChannel" NOT NULL,
+    "target" TEXT NOT NULL,
+    "codeHash" TEXT NOT NULL,
+    "attempts" INTEGER NOT NULL DEFAULT 0,
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+    "consumedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "verification_codes_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "verification_codes_userId_channel_idx" ON "verification_codes"("userId", "channel");
+
+-- AddForeignKey
+ALTER TABLE "verification_codes" ADD CONSTRAINT "verification_codes_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
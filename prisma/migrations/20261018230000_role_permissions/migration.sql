@@ -0,0 +1,46 @@
+-- Migration: role_permissions
+-- Role-to-permission mappings stored in the database and editable by
+-- super-admins. Seeds the defaults: ADMIN keeps everything it could do before
+-- except pii.read, BOARD can score assigned applications and view analytics.
+
+-- AlterTable
+ALTER TABLE "users" ADD COLUMN "isSuperAdmin" BOOLEAN NOT NULL DEFAULT false;
+
+-- CreateTable
+CREATE TABLE "role_permissions" (
+    "role" "UserRole" NOT NULL,
+    "permission" TEXT NOT NULL,
+    "grantedById" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "role_permissions_pkey" PRIMARY KEY ("role","permission")
+);
+
+-- AddForeignKey
+ALTER TABLE "role_permissions" ADD CONSTRAINT "role_permissions_grantedById_fkey" FOREIGN KEY ("grantedById") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- Seed default role permissions
+INSERT INTO "role_permissions" ("role", "permission") VALUES
+    ('ADMIN', 'applications.read'),
+    ('ADMIN', 'applications.decide'),
+    ('ADMIN', 'applications.export'),
+    ('ADMIN', 'notes.write'),
+    ('ADMIN', 'reviews.score'),
+    ('ADMIN', 'reviews.assign'),
+    ('ADMIN', 'disbursements.read'),
+    ('ADMIN', 'disbursements.write'),
+    ('ADMIN', 'periods.manage'),
+    ('ADMIN', 'workflow.manage'),
+    ('ADMIN', 'users.manage'),
+    ('ADMIN', 'analytics.read'),
+    ('BOARD', 'reviews.score'),
+    ('BOARD', 'analytics.read');
+
+-- The longest-standing active admin becomes the first super-admin
+UPDATE "users" SET "isSuperAdmin" = true
+WHERE "id" = (
+    SELECT "id" FROM "users"
+    WHERE "role" = 'ADMIN' AND "isActive" = true AND "deletedAt" IS NULL
+    ORDER BY "createdAt" ASC
+    LIMIT 1
+);
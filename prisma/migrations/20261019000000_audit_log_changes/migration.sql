@@ -0,0 +1,29 @@
+-- Migration: audit_log_changes
+-- Before/after field diffs on audit log entries, an append-only guard on
+-- audit_logs, and the audit.read permission for admins.
+
+-- AlterTable
+ALTER TABLE "audit_logs" ADD COLUMN "changes" JSONB;
+
+-- CreateIndex
+CREATE INDEX "audit_logs_action_idx" ON "audit_logs"("action");
+
+-- Append-only: entries can never be edited or removed. Clearing actorId is the
+-- one update allowed, so the ON DELETE SET NULL foreign key keeps working.
+CREATE OR REPLACE FUNCTION audit_logs_append_only() RETURNS trigger AS $$
+BEGIN
+    IF TG_OP = 'UPDATE'
+        AND NEW."actorId" IS NULL
+        AND (to_jsonb(NEW) - 'actorId') = (to_jsonb(OLD) - 'actorId') THEN
+        RETURN NEW;
+    END IF;
+    RAISE EXCEPTION 'audit_logs is append-only';
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER "audit_logs_append_only"
+    BEFORE UPDATE OR DELETE ON "audit_logs"
+    FOR EACH ROW EXECUTE FUNCTION audit_logs_append_only();
+
+-- Seed permission
+INSERT INTO "role_permissions" ("role", "permission") VALUES ('ADMIN', 'audit.read');
@@ -0,0 +1,69 @@
+-- Migration: data_retention
+-- Retention policies enforced by the scheduled purge job, student erasure
+-- requests, and anonymisation markers on users and student profiles.
+-- Policies are seeded disabled; admins enable them once the periods are agreed.
+
+-- CreateEnum
+CREATE TYPE "RetentionTarget" AS ENUM ('APPLICATION_DOCUMENTS', 'PROFILE_DOCUMENTS', 'APPLICANT_PII', 'NOTIFICATIONS', 'LOGIN_EVENTS');
+
+-- CreateEnum
+CREATE TYPE "ErasureRequestStatus" AS ENUM ('PENDING', 'COMPLETED', 'REJECTED');
+
+-- AlterTable
+ALTER TABLE "users" ADD COLUMN "anonymisedAt" TIMESTAMP(3);
+
+-- AlterTable
+ALTER TABLE "student_profiles" ADD COLUMN "anonymisedAt" TIMESTAMP(3);
+
+-- CreateTable
+CREATE TABLE "retention_policies" (
+    "target" "RetentionTarget" NOT NULL,
+    "retentionMonths" INTEGER NOT NULL,
+    "statuses" "ApplicationStatus"[] DEFAULT ARRAY[]::"ApplicationStatus"[],
+    "isEnabled" BOOLEAN NOT NULL DEFAULT false,
+    "updatedById" TEXT,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "retention_policies_pkey" PRIMARY KEY ("target")
+);
+
+-- CreateTable
+CREATE TABLE "erasure_requests" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "status" "ErasureRequestStatus" NOT NULL DEFAULT 'PENDING',
+    "reason" TEXT,
+    "requestedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "reviewedById" TEXT,
+    "reviewedAt" TIMESTAMP(3),
+    "reviewNotes" TEXT,
+    "completedAt" TIMESTAMP(3),
+
+    CONSTRAINT "erasure_requests_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "erasure_requests_userId_idx" ON "erasure_requests"("userId");
+
+-- CreateIndex
+CREATE INDEX "erasure_requests_status_idx" ON "erasure_requests"("status");
+
+-- AddForeignKey
+ALTER TABLE "retention_policies" ADD CONSTRAINT "retention_policies_updatedById_fkey" FOREIGN KEY ("updatedById") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "erasure_requests" ADD CONSTRAINT "erasure_requests_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "erasure_requests" ADD CONSTRAINT "erasure_requests_reviewedById_fkey" FOREIGN KEY ("reviewedById") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- Seed default policies (disabled)
+INSERT INTO "retention_policies" ("target", "retentionMonths", "statuses", "updatedAt") VALUES
+    ('APPLICATION_DOCUMENTS', 24, ARRAY['REJECTED', 'WITHDRAWN']::"ApplicationStatus"[], CURRENT_TIMESTAMP),
+    ('PROFILE_DOCUMENTS', 36, ARRAY['REJECTED', 'WITHDRAWN']::"ApplicationStatus"[], CURRENT_TIMESTAMP),
+    ('APPLICANT_PII', 84, ARRAY['REJECTED', 'WITHDRAWN', 'DISBURSED']::"ApplicationStatus"[], CURRENT_TIMESTAMP),
+    ('NOTIFICATIONS', 24, ARRAY[]::"ApplicationStatus"[], CURRENT_TIMESTAMP),
+    ('LOGIN_EVENTS', 12, ARRAY[]::"ApplicationStatus"[], CURRENT_TIMESTAMP);
+
+-- Seed permission
+INSERT INTO "role_permissions" ("role", "permission") VALUES ('ADMIN', 'privacy.manage');
@@ -0,0 +1,64 @@
+-- Migration: consent_documents
+-- Versioned data protection notices with per-purpose consent. Each user's current
+-- consent per purpose is kept in user_consents; data_consent_logs stays the history.
+-- Consents logged before this migration covered data processing only.
+
+-- CreateEnum
+CREATE TYPE "ConsentPurpose" AS ENUM ('DATA_PROCESSING', 'INSTITUTION_SHARING', 'MARKETING');
+
+-- CreateEnum
+CREATE TYPE "ConsentAction" AS ENUM ('GRANTED', 'WITHDRAWN');
+
+-- AlterTable
+ALTER TABLE "data_consent_logs" ADD COLUMN "consentDocumentId" TEXT,
+ADD COLUMN "purposes" "ConsentPurpose"[] DEFAULT ARRAY[]::"ConsentPurpose"[],
+ADD COLUMN "action" "ConsentAction" NOT NULL DEFAULT 'GRANTED';
+
+UPDATE "data_consent_logs" SET "purposes" = ARRAY['DATA_PROCESSING']::"ConsentPurpose"[];
+
+-- CreateTable
+CREATE TABLE "consent_documents" (
+    "id" TEXT NOT NULL,
+    "version" TEXT NOT NULL,
+    "title" TEXT NOT NULL,
+    "content" TEXT NOT NULL,
+    "purposes" "ConsentPurpose"[],
+    "effectiveFrom" TIMESTAMP(3) NOT NULL,
+    "createdById" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "consent_documents_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "user_consents" (
+    "userId" TEXT NOT NULL,
+    "purpose" "ConsentPurpose" NOT NULL,
+    "consentDocumentId" TEXT NOT NULL,
+    "grantedAt" TIMESTAMP(3) NOT NULL,
+    "withdrawnAt" TIMESTAMP(3),
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "user_consents_pkey" PRIMARY KEY ("userId","purpose")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "consent_documents_version_key" ON "consent_documents"("version");
+
+-- CreateIndex
+CREATE INDEX "consent_documents_effectiveFrom_idx" ON "consent_documents"("effectiveFrom");
+
+-- CreateIndex
+CREATE INDEX "user_consents_consentDocumentId_idx" ON "user_consents"("consentDocumentId");
+
+-- AddForeignKey
+ALTER TABLE "data_consent_logs" ADD CONSTRAINT "data_consent_logs_consentDocumentId_fkey" FOREIGN KEY ("consentDocumentId") REFERENCES "consent_documents"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "consent_documents" ADD CONSTRAINT "consent_documents_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "user_consents" ADD CONSTRAINT "user_consents_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "user_consents" ADD CONSTRAINT "user_consents_consentDocumentId_fkey" FOREIGN KEY ("consentDocumentId") REFERENCES "consent_documents"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
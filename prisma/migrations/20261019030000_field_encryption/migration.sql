@@ -0,0 +1,42 @@
+-- Migration: field_encryption
+-- National ID, passport number, guardian phone, disability type and orphan status
+-- on student profiles, and the ID snapshots on applications, are now stored
+-- AES-256-GCM encrypted. Uniqueness and exact-match search move to keyed
+-- blind-index columns. Existing rows stay plaintext (still readable) until
+-- `npm run encryption:rotate` encrypts them and fills in the blind indexes.
+
+-- DropIndex
+DROP INDEX "student_profiles_nationalIdNumber_key";
+
+-- DropIndex
+DROP INDEX "student_profiles_passportNumber_key";
+
+-- DropIndex
+DROP INDEX "student_profiles_nationalIdNumber_idx";
+
+-- DropIndex
+DROP INDEX "student_profiles_passportNumber_idx";
+
+-- AlterTable
+ALTER TABLE "student_profiles" ADD COLUMN "nationalIdNumberHash" TEXT,
+ADD COLUMN "passportNumberHash" TEXT,
+ADD COLUMN "orphanStatusHash" TEXT,
+ALTER COLUMN "orphanStatus" SET DATA TYPE TEXT USING "orphanStatus"::TEXT;
+
+-- DropEnum
+DROP TYPE "OrphanStatus";
+
+-- AlterTable
+ALTER TABLE "applications" ADD COLUMN "snapshotNationalIdHash" TEXT;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "student_profiles_nationalIdNumberHash_key" ON "student_profiles"("nationalIdNumberHash");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "student_profiles_passportNumberHash_key" ON "student_profiles"("passportNumberHash");
+
+-- CreateIndex
+CREATE INDEX "student_profiles_orphanStatusHash_idx" ON "student_profiles"("orphanStatusHash");
+
+-- CreateIndex
+CREATE INDEX "applications_snapshotNationalIdHash_idx" ON "applications"("snapshotNationalIdHash");
@@ -0,0 +1,38 @@
+-- Migration: correction_snapshot_pii
+-- Correction requests kept plain JSON copies of the encrypted ID snapshots and of
+-- the formData answers mirrored by encrypted profile fields (ID numbers, guardian
+-- phone, orphan status, disability). Remove them from existing rows; new rows leave
+-- them out. Only top-level formData keys are scrubbed here.
+-- The orphan status blind index is dropped: with three possible values it was
+-- trivially reversible.
+
+-- Scrub
+UPDATE "correction_requests"
+SET "snapshotBefore" = "snapshotBefore" - 'snapshotNationalId' - 'snapshotPassportNumber'
+WHERE jsonb_typeof("snapshotBefore") = 'object';
+
+UPDATE "correction_requests"
+SET "snapshotAfter" = "snapshotAfter" - 'snapshotNationalId' - 'snapshotPassportNumber'
+WHERE jsonb_typeof("snapshotAfter") = 'object';
+
+UPDATE "correction_requests"
+SET "formDataBefore" = (
+    SELECT COALESCE(jsonb_object_agg(key, value), '{}'::jsonb)
+    FROM jsonb_each("formDataBefore")
+    WHERE key !~* '(national_?id|passport|guardian_?(phone|mobile|contact)|orphan|disab)'
+)
+WHERE jsonb_typeof("formDataBefore") = 'object';
+
+UPDATE "correction_requests"
+SET "formDataAfter" = (
+    SELECT COALESCE(jsonb_object_agg(key, value), '{}'::jsonb)
+    FROM jsonb_each("formDataAfter")
+    WHERE key !~* '(national_?id|passport|guardian_?(phone|mobile|contact)|orphan|disab)'
+)
+WHERE jsonb_typeof("formDataAfter") = 'object';
+
+-- DropIndex
+DROP INDEX "student_profiles_orphanStatusHash_idx";
+
+-- AlterTable
+ALTER TABLE "student_profiles" DROP COLUMN "orphanStatusHash";
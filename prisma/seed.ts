@@ -16,6 +16,7 @@ async function main() {
             phone: '+254700000000',
             password: adminPassword,
             role: UserRole.ADMIN,
+            isSuperAdmin: true,
             consentLogs: {
                 create: { ipAddress: '127.0.0.1', consentVersion: '1.0' },
             },
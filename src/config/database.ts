@@ -1,7 +1,11 @@
 import { PrismaClient } from '@prisma/client';
+import { fieldEncryption } from '../utils/fieldEncryption';
 
 const prisma = new PrismaClient({
     log: process.env.NODE_ENV === 'development' ? ['query', 'error', 'warn'] : ['error'],
-});
+}).$extends(fieldEncryption);
+
+// The client passed to interactive transaction callbacks
+export type TransactionClient = Omit<typeof prisma, '$connect' | '$disconnect' | '$on' | '$transaction' | '$use' | '$extends'>;
 
 export default prisma;
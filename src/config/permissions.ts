@@ -0,0 +1,49 @@
+import { UserRole } from '@prisma/client';
+
+/**
+ * Named permissions checked by requirePermission() in rbac.ts and by services.
+ * Which roles hold which permissions is stored in the role_permissions table
+ * and edited by super-admins; individual users can be granted more.
+ */
+export const Permissions = {
+    // List and view applications, student records and scores
+    APPLICATIONS_READ: 'applications.read',
+    // Change application status, return for correction, decide appeals, confirm shortlists
+    APPLICATIONS_DECIDE: 'applications.decide',
+    // Download the applications CSV export
+    APPLICATIONS_EXPORT: 'applications.export',
+    // Add, edit and delete admin notes
+    NOTES_WRITE: 'notes.write',
+    // Score assigned applications from the review queue
+    REVIEWS_SCORE: 'reviews.score',
+    // Assign reviewers and record reviewer conflicts
+    REVIEWS_ASSIGN: 'reviews.assign',
+    // View the disbursement ledger and period budgets
+    DISBURSEMENTS_READ: 'disbursements.read',
+    // Record and reverse disbursements
+    DISBURSEMENTS_WRITE: 'disbursements.write',
+    // Manage application periods, budgets and scoring rubrics
+    PERIODS_MANAGE: 'periods.manage',
+    // Manage the application status workflow
+    WORKFLOW_MANAGE: 'workflow.manage',
+    // Invite, edit, lock out and deactivate staff and student accounts
+    USERS_MANAGE: 'users.manage',
+    // Configure data retention, decide erasure requests and publish data protection notices
+    PRIVACY_MANAGE: 'privacy.manage',
+    // View and export the audit log
+    AUDIT_READ: 'audit.read',
+    // View analytics dashboards
+    ANALYTICS_READ: 'analytics.read',
+    // See applicant identity (names, IDs, contacts, guardian data) in blind-review periods
+    PII_READ: 'pii.read',
+} as const;
+
+export type Permission = typeof Permissions[keyof typeof Permissions];
+
+export const ALL_PERMISSIONS: Permission[] = Object.values(Permissions);
+
+// Roles whose permissions a super-admin can edit. Students never reach the admin API.
+export const CONFIGURABLE_ROLES: UserRole[] = [UserRole.ADMIN, UserRole.BOARD];
+
+export const isPermission = (value: string): value is Permission =>
+    (ALL_PERMISSIONS as string[]).includes(value);
@@ -148,9 +148,68 @@ const options = {
                         },
                         newStatus: {
                             type: 'string',
-                            enum: ['PENDING', 'UNDER_REVIEW', 'APPROVED', 'REJECTED', 'DISBURSED']
+                            enum: ['PENDING', 'UNDER_REVIEW', 'RETURNED_FOR_CORRECTION', 'SHORTLISTED', 'WAITLISTED', 'APPROVED', 'REJECTED', 'DISBURSED', 'WITHDRAWN', 'APPEALED']
                         },
-                        note: { type: 'string' }
+                        note: { type: 'string' },
+                        awardedAmount: { type: 'number' },
+                        budgetOverrideReason: { type: 'string' }
+                    }
+                },
+                WorkflowTransition: {
+                    type: 'object',
+                    required: ['fromStatus', 'toStatus', 'allowedRoles'],
+                    properties: {
+                        id: { type: 'string', format: 'uuid', readOnly: true },
+                        fromStatus: { type: 'string', example: 'UNDER_REVIEW' },
+                        toStatus: { type: 'string', example: 'RETURNED_FOR_CORRECTION' },
+                        allowedRoles: {
+                            type: 'array',
+                            items: { type: 'string', enum: ['STUDENT', 'ADMIN', 'BOARD'] }
+                        },
+                        requiresReason: { type: 'boolean', default: false },
+                        notifyStudent: { type: 'boolean', default: true },
+                        emailStudent: { type: 'boolean', default: true },
+                        notifyAdmins: { type: 'boolean', default: false },
+                        isActive: { type: 'boolean', default: true },
+                        description: { type: 'string' }
+                    }
+                },
+                RubricCriterion: {
+                    type: 'object',
+                    required: ['key', 'label', 'minScore', 'maxScore', 'weight'],
+                    properties: {
+                        key: { type: 'string', example: 'financialNeed' },
+                        label: { type: 'string', example: 'Financial Need' },
+                        description: { type: 'string' },
+                        minScore: { type: 'integer', example: 1 },
+                        maxScore: { type: 'integer', example: 5 },
+                        weight: { type: 'number', example: 0.4 },
+                        anchors: {
+                            type: 'array',
+                            items: {
+                                type: 'object',
+                                properties: {
+                                    score: { type: 'integer', example: 5 },
+                                    label: { type: 'string', example: 'Severe hardship' },
+                                    description: { type: 'string' }
+                                }
+                            }
+                        }
+                    }
+                },
+                ScoringRubric: {
+                    type: 'object',
+                    properties: {
+                        id: { type: 'string', format: 'uuid' },
+                        applicationPeriodId: { type: 'string', format: 'uuid', nullable: true },
+                        version: { type: 'integer', example: 2 },
+                        name: { type: 'string' },
+                        description: { type: 'string', nullable: true },
+                        criteria: {
+                            type: 'array',
+                            items: { $ref: '#/components/schemas/RubricCriterion' }
+                        },
+                        createdAt: { type: 'string', format: 'date-time' }
                     }
                 },
                 Institution: {
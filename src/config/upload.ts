@@ -1,24 +1,24 @@
 import multer from 'multer';
 import path from 'path';
-import fs from 'fs';
 import { v4 as uuidv4 } from 'uuid';
+import storageService from '../services/storage.service';
 
-// Ensure upload directory exists
-const uploadDir = process.env.UPLOAD_DIR || './uploads';
-if (!fs.existsSync(uploadDir)) {
-    fs.mkdirSync(uploadDir, { recursive: true });
-}
+// Stream uploads straight to the active storage backend. file.path is set to the
+// stored location, which services save as the document's filePath.
+const storage: multer.StorageEngine = {
+    _handleFile: (_req, file, cb) => {
+        const filename = `${uuidv4()}${path.extname(file.originalname)}`;
 
-// Configure storage
-const storage = multer.diskStorage({
-    destination: (_req, _file, cb) => {
-        cb(null, uploadDir);
+        storageService.save(filename, file.stream, file.mimetype)
+            .then(({ location, size }) => cb(null, { filename, path: location, size }))
+            .catch(cb);
     },
-    filename: (_req, file, cb) => {
-        const uniqueName = `${uuidv4()}${path.extname(file.originalname)}`;
-        cb(null, uniqueName);
+    _removeFile: (_req, file, cb) => {
+        storageService.delete(file.path)
+            .then(() => cb(null))
+            .catch(cb);
     },
-});
+};
 
 // File filter
 const fileFilter = (_req: any, file: Express.Multer.File, cb: multer.FileFilterCallback) => {
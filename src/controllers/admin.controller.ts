@@ -1,7 +1,24 @@
 import { Request, Response } from 'express';
 import adminService from '../services/admin.service';
+import disbursementService from '../services/disbursement.service';
+import budgetService from '../services/budget.service';
+import workflowService from '../services/workflow.service';
+import appealService from '../services/appeal.service';
+import rubricService from '../services/rubric.service';
+import reviewService from '../services/review.service';
+import rankingService from '../services/ranking.service';
+import reliabilityService from '../services/reliability.service';
+import securityService from '../services/security.service';
+import twoFactorService from '../services/twoFactor.service';
+import userService from '../services/user.service';
+import permissionService from '../services/permission.service';
+import auditService from '../services/audit.service';
+import retentionService from '../services/retention.service';
+import erasureService from '../services/erasure.service';
+import consentService from '../services/consent.service';
 import logger from '../config/logger';
-import { ApplicationStatus } from '@prisma/client';
+import { ApplicationStatus, ErasureRequestStatus, RetentionTarget, UserRole } from '@prisma/client';
+import { auditContext } from '../utils/requestContext';
 
 // ==================== APPLICATION MANAGEMENT ====================
 
@@ -33,6 +50,7 @@ import { ApplicationStatus } from '@prisma/client';
  *         name: search
  *         schema:
  *           type: string
+ *         description: Partial name, institution or application number, or a full national ID number
  *       - in: query
  *         name: county
  *         schema:
@@ -55,6 +73,11 @@ import { ApplicationStatus } from '@prisma/client';
  *         schema:
  *           type: string
  *           format: date
+ *       - in: query
+ *         name: unverifiedContacts
+ *         schema:
+ *           type: boolean
+ *         description: Only applicants whose email or phone is unverified. Every application carries an `unverifiedContacts` list (EMAIL / PHONE).
  */
 export const listApplications = async (req: Request, res: Response): Promise<void> => {
     try {
@@ -85,6 +108,7 @@ export const listApplications = async (req: Request, res: Response): Promise<voi
  *   get:
  *     tags: [Admin]
  *     summary: Get application details
+ *     description: In blind-review periods, admins who are assigned reviewers of the application and lack the pii.read permission receive it with applicant identity redacted.
  *     security:
  *       - bearerAuth: []
  *     parameters:
@@ -100,7 +124,8 @@ export const listApplications = async (req: Request, res: Response): Promise<voi
 export const getApplication = async (req: Request, res: Response): Promise<void> => {
     try {
         const { id } = req.params;
-        const application = await adminService.getApplication(id as string);
+        const user = (req as any).user!;
+        const application = await adminService.getApplication(id as string, { id: user.id, role: user.role });
 
         res.status(200).json({
             success: true,
@@ -147,22 +172,30 @@ export const getApplication = async (req: Request, res: Response): Promise<void>
  *                 type: string
  *               notes:
  *                 type: string
+ *               awardedAmount:
+ *                 type: number
+ *                 description: Award committed against the period budget. Required when approving in a budgeted period.
+ *               budgetOverrideReason:
+ *                 type: string
+ *                 description: Allows the change even if it exceeds the period budget; recorded in the status history
  *     responses:
  *       200:
  *         description: Status updated successfully
+ *       400:
+ *         description: Invalid transition, validation error, or BUDGET_EXCEEDED
  */
 export const updateApplicationStatus = async (req: Request, res: Response): Promise<void> => {
     try {
         const { id } = req.params;
         const adminId = (req as any).user!.id;
-        const { status, notes, disbursedAmount } = req.body;
+        const { status, notes, awardedAmount, budgetOverrideReason } = req.body;
 
         const updated = await adminService.updateApplicationStatus(
             id as string,
             adminId,
             status as ApplicationStatus,
             notes,
-            disbursedAmount
+            { awardedAmount, budgetOverrideReason, actorRole: (req as any).user!.role, context: auditContext(req) }
         );
 
         logger.info(`Application ${id} status updated to ${status} by admin ${adminId}`);
@@ -178,7 +211,9 @@ export const updateApplicationStatus = async (req: Request, res: Response): Prom
         res.status(400).json({
             success: false,
             error: {
-                code: error.message.includes('Invalid status') ? 'INVALID_STATE_TRANSITION' : 'VALIDATION_ERROR',
+                code: error.message.includes('status transition')
+                    ? 'INVALID_STATE_TRANSITION'
+                    : error.message.startsWith('Budget exceeded') ? 'BUDGET_EXCEEDED' : 'VALIDATION_ERROR',
                 message: error.message || 'Failed to update status',
             },
             timestamp: new Date().toISOString(),
@@ -186,6 +221,87 @@ export const updateApplicationStatus = async (req: Request, res: Response): Prom
     }
 };
 
+/**
+ * @swagger
+ * /api/admin/applications/{id}/return:
+ *   post:
+ *     tags: [Admin]
+ *     summary: Return an application to the student for corrections
+ *     description: Moves the application to RETURNED_FOR_CORRECTION and opens a new correction round. The student may then change only the flagged formData paths and upload only the flagged document types, and resubmits via the normal submit endpoint. Each round is recorded with the form data and snapshot before and after the corrections.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - reason
+ *             properties:
+ *               reason:
+ *                 type: string
+ *                 example: "The fee structure uploaded is for the previous academic year"
+ *               flaggedFields:
+ *                 type: array
+ *                 description: formData paths the student may change (a parent path covers its children)
+ *                 items:
+ *                   type: string
+ *                 example: ["fees.outstandingBalance"]
+ *               flaggedDocuments:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *                   enum: [SCHOOL_STAMP_LETTER, ADMISSION_LETTER, FEE_STRUCTURE, BIRTH_CERTIFICATE_NID, GUARDIAN_ID, DEATH_CERTIFICATE]
+ *                 example: ["FEE_STRUCTURE"]
+ *     responses:
+ *       200:
+ *         description: Application returned; includes the new correction request
+ *       400:
+ *         description: Invalid transition or nothing flagged
+ *       404:
+ *         description: Application not found
+ */
+export const returnForCorrection = async (req: Request, res: Response): Promise<void> => {
+    try {
+        const adminId = (req as any).user!.id;
+        const result = await adminService.returnForCorrection(
+            req.params.id as string,
+            adminId,
+            req.body,
+            (req as any).user!.role,
+            auditContext(req)
+        );
+
+        res.status(200).json({
+            success: true,
+            message: 'Application returned for correction',
+            data: result,
+            timestamp: new Date().toISOString(),
+        });
+    } catch (error: any) {
+        logger.error('Return for correction error:', error);
+        const status = error.message.includes('not found') ? 404 : 400;
+        res.status(status).json({
+            success: false,
+            error: {
+                code: status === 404
+                    ? 'RESOURCE_NOT_FOUND'
+                    : error.message.includes('status transition') ? 'INVALID_STATE_TRANSITION' : 'VALIDATION_ERROR',
+                message: error.message,
+            },
+            timestamp: new Date().toISOString(),
+        });
+    }
+};
+
 /**
  * @swagger
  * /api/admin/applications/bulk-update:
@@ -207,7 +323,7 @@ export const updateApplicationStatus = async (req: Request, res: Response): Prom
 export const bulkUpdate = async (req: Request, res: Response): Promise<void> => {
     try {
         const adminId = (req as any).user!.id;
-        const result = await adminService.bulkUpdate(adminId, req.body);
+        const result = await adminService.bulkUpdate(adminId, req.body, (req as any).user!.role, auditContext(req));
 
         res.status(200).json({
             success: true,
@@ -257,7 +373,7 @@ export const bulkUpdate = async (req: Request, res: Response): Promise<void> =>
  */
 export const exportApplications = async (req: Request, res: Response): Promise<void> => {
     try {
-        const result = await adminService.exportApplications(req.query as any);
+        const result = await adminService.exportApplications(req.query as any, auditContext(req));
 
         res.setHeader('Content-Type', 'text/csv');
         res.setHeader('Content-Disposition', `attachment; filename=${result.filename}`);
@@ -457,6 +573,7 @@ export const getStudentTimeline = async (req: Request, res: Response): Promise<v
  *         required: true
  *         schema:
  *           type: string
+ *         description: Partial name, institution, email or phone; national ID and passport numbers must match in full
  *       - in: query
  *         name: page
  *         schema:
@@ -589,7 +706,7 @@ export const addNote = async (req: Request, res: Response): Promise<void> => {
         const applicationId = req.params.id || req.body.applicationId;
         const { noteText, isPrivate, section } = req.body;
 
-        const note = await adminService.addNote(applicationId as string, adminId, noteText, isPrivate, section);
+        const note = await adminService.addNote(applicationId as string, adminId, noteText, isPrivate, section, auditContext(req));
 
         res.status(201).json({
             success: true,
@@ -653,7 +770,7 @@ export const updateNote = async (req: Request, res: Response): Promise<void> =>
         const noteId = req.params.id;
         const { noteText } = req.body;
 
-        const note = await adminService.updateNote(noteId as string, adminId, noteText);
+        const note = await adminService.updateNote(noteId as string, adminId, noteText, auditContext(req));
 
         res.status(200).json({
             success: true,
@@ -704,7 +821,7 @@ export const deleteNote = async (req: Request, res: Response): Promise<void> =>
         const adminId = (req as any).user!.id;
         const noteId = req.params.id;
 
-        await adminService.deleteNote(noteId as string, adminId);
+        await adminService.deleteNote(noteId as string, adminId, auditContext(req));
 
         res.status(200).json({
             success: true,
@@ -959,6 +1076,14 @@ export const getApplicationPeriods = async (_req: Request, res: Response): Promi
  *                 type: string
  *                 maxLength: 500
  *                 example: "Application window for the 2025/26 academic year"
+ *               appealWindowDays:
+ *                 type: integer
+ *                 default: 14
+ *                 description: Days after a rejection during which the student may appeal
+ *               blindReview:
+ *                 type: boolean
+ *                 default: false
+ *                 description: Hide applicant identity from assigned reviewers who lack the pii.read permission
  *     responses:
  *       201:
  *         description: Application period created successfully
@@ -967,7 +1092,7 @@ export const getApplicationPeriods = async (_req: Request, res: Response): Promi
  */
 export const createApplicationPeriod = async (req: Request, res: Response): Promise<void> => {
     try {
-        const period = await adminService.createApplicationPeriod(req.body);
+        const period = await adminService.createApplicationPeriod(req.body, auditContext(req));
         res.status(201).json({ success: true, message: 'Application period created', data: period, timestamp: new Date().toISOString() });
     } catch (error: any) {
         logger.error('Create application period error:', error);
@@ -1010,6 +1135,10 @@ export const createApplicationPeriod = async (req: Request, res: Response): Prom
  *                 format: date-time
  *               description:
  *                 type: string
+ *               appealWindowDays:
+ *                 type: integer
+ *               blindReview:
+ *                 type: boolean
  *     responses:
  *       200:
  *         description: Application period updated
@@ -1018,7 +1147,7 @@ export const createApplicationPeriod = async (req: Request, res: Response): Prom
  */
 export const updateApplicationPeriod = async (req: Request, res: Response): Promise<void> => {
     try {
-        const period = await adminService.updateApplicationPeriod(req.params.id as string, req.body);
+        const period = await adminService.updateApplicationPeriod(req.params.id as string, req.body, auditContext(req));
         res.status(200).json({ success: true, message: 'Application period updated', data: period, timestamp: new Date().toISOString() });
     } catch (error: any) {
         logger.error('Update application period error:', error);
@@ -1051,7 +1180,7 @@ export const updateApplicationPeriod = async (req: Request, res: Response): Prom
  */
 export const deleteApplicationPeriod = async (req: Request, res: Response): Promise<void> => {
     try {
-        await adminService.deleteApplicationPeriod(req.params.id as string);
+        await adminService.deleteApplicationPeriod(req.params.id as string, auditContext(req));
         res.status(200).json({ success: true, message: 'Application period deleted', timestamp: new Date().toISOString() });
     } catch (error: any) {
         logger.error('Delete application period error:', error);
@@ -1085,7 +1214,7 @@ export const deleteApplicationPeriod = async (req: Request, res: Response): Prom
  */
 export const activateApplicationPeriod = async (req: Request, res: Response): Promise<void> => {
     try {
-        const period = await adminService.activateApplicationPeriod(req.params.id as string);
+        const period = await adminService.activateApplicationPeriod(req.params.id as string, auditContext(req));
         res.status(200).json({ success: true, message: 'Application period activated', data: period, timestamp: new Date().toISOString() });
     } catch (error: any) {
         logger.error('Activate application period error:', error);
@@ -1094,15 +1223,82 @@ export const activateApplicationPeriod = async (req: Request, res: Response): Pr
     }
 };
 
-// ==================== SCORING ====================
+/**
+ * @swagger
+ * /api/admin/application-periods/{id}/budget:
+ *   get:
+ *     tags: [Admin - Application Periods]
+ *     summary: Get the budget of an application period
+ *     description: Reports the total budget and each education level / county cap, with the amount committed by approved and disbursed applications, the net amount disbursed, and what remains. An application commits the larger of its awarded amount and its net disbursements.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: Application period ID
+ *     responses:
+ *       200:
+ *         description: Period budget report
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     periodId:
+ *                       type: string
+ *                     total:
+ *                       type: object
+ *                       properties:
+ *                         budget:
+ *                           type: number
+ *                           nullable: true
+ *                         committed:
+ *                           type: number
+ *                         disbursed:
+ *                           type: number
+ *                         remaining:
+ *                           type: number
+ *                           nullable: true
+ *                         applications:
+ *                           type: integer
+ *                     byEducationLevel:
+ *                       type: array
+ *                       items:
+ *                         type: object
+ *                     byCounty:
+ *                       type: array
+ *                       items:
+ *                         type: object
+ *       404:
+ *         description: Period not found
+ */
+export const getPeriodBudget = async (req: Request, res: Response): Promise<void> => {
+    try {
+        const budget = await budgetService.getPeriodBudget(req.params.id as string);
+        res.status(200).json({ success: true, data: budget, timestamp: new Date().toISOString() });
+    } catch (error: any) {
+        logger.error('Get period budget error:', error);
+        const status = error.message.includes('not found') ? 404 : 500;
+        res.status(status).json({ success: false, error: { code: status === 404 ? 'RESOURCE_NOT_FOUND' : 'INTERNAL_SERVER_ERROR', message: error.message }, timestamp: new Date().toISOString() });
+    }
+};
 
 /**
  * @swagger
- * /api/admin/applications/{id}/scores:
- *   post:
- *     tags: [Admin - Scoring]
- *     summary: Score an application
- *     description: Submit or update a review score for an application. Each reviewer can only submit one score per application.
+ * /api/admin/application-periods/{id}/budget:
+ *   put:
+ *     tags: [Admin - Application Periods]
+ *     summary: Set the budget of an application period
+ *     description: Sets the total budget and replaces all caps. Each cap targets exactly one education level or one county. Once a period has a budget, approvals must carry an awardedAmount and are refused when they would exceed a budget unless a budgetOverrideReason is given.
  *     security:
  *       - bearerAuth: []
  *     parameters:
@@ -1112,7 +1308,7 @@ export const activateApplicationPeriod = async (req: Request, res: Response): Pr
  *         schema:
  *           type: string
  *           format: uuid
- *         description: Application ID
+ *         description: Application period ID
  *     requestBody:
  *       required: true
  *       content:
@@ -1120,61 +1316,60 @@ export const activateApplicationPeriod = async (req: Request, res: Response): Pr
  *           schema:
  *             type: object
  *             required:
- *               - financialNeed
- *               - academicMerit
- *               - communityImpact
- *               - vulnerability
+ *               - totalBudget
  *             properties:
- *               financialNeed:
- *                 type: integer
- *                 minimum: 1
- *                 maximum: 5
- *                 description: Financial need score (1-5)
- *               academicMerit:
- *                 type: integer
- *                 minimum: 1
- *                 maximum: 5
- *                 description: Academic merit score (1-5)
- *               communityImpact:
- *                 type: integer
- *                 minimum: 1
- *                 maximum: 5
- *                 description: Community impact score (1-5)
- *               vulnerability:
- *                 type: integer
- *                 minimum: 1
- *                 maximum: 5
- *                 description: Vulnerability score (1-5)
- *               comments:
- *                 type: string
- *                 description: Optional reviewer comments
+ *               totalBudget:
+ *                 type: number
+ *                 nullable: true
+ *                 example: 5000000
+ *               caps:
+ *                 type: array
+ *                 items:
+ *                   type: object
+ *                   required:
+ *                     - amount
+ *                   properties:
+ *                     educationLevel:
+ *                       type: string
+ *                       enum: [HIGH_SCHOOL, UNIVERSITY, COLLEGE, TVET]
+ *                     countyId:
+ *                       type: string
+ *                       format: uuid
+ *                     amount:
+ *                       type: number
+ *                       example: 1500000
  *     responses:
- *       201:
- *         description: Score submitted successfully
- *       404:
- *         description: Application not found
+ *       200:
+ *         description: Budget updated; returns the budget report
  *       400:
  *         description: Validation error
+ *       404:
+ *         description: Period or county not found
  */
-export const scoreApplication = async (req: Request, res: Response): Promise<void> => {
+export const setPeriodBudget = async (req: Request, res: Response): Promise<void> => {
     try {
-        const adminId = (req as any).user!.id;
-        const score = await adminService.scoreApplication(req.params.id as string, adminId, req.body);
-        res.status(201).json({ success: true, message: 'Score submitted', data: score, timestamp: new Date().toISOString() });
+        const budget = await budgetService.setPeriodBudget(req.params.id as string, req.body, auditContext(req));
+        res.status(200).json({ success: true, message: 'Application period budget updated', data: budget, timestamp: new Date().toISOString() });
     } catch (error: any) {
-        logger.error('Score application error:', error);
+        logger.error('Set period budget error:', error);
         const status = error.message.includes('not found') ? 404 : 400;
         res.status(status).json({ success: false, error: { code: status === 404 ? 'RESOURCE_NOT_FOUND' : 'VALIDATION_ERROR', message: error.message }, timestamp: new Date().toISOString() });
     }
 };
 
+// ==================== RANKING & SHORTLIST ====================
+
 /**
  * @swagger
- * /api/admin/applications/{id}/scores:
- *   get:
+ * /api/admin/application-periods/{id}/shortlist/propose:
+ *   post:
  *     tags: [Admin - Scoring]
- *     summary: Get all review scores for an application
- *     description: Returns all review scores and the computed average for the given application.
+ *     summary: Rank a period's applications and propose a shortlist
+ *     description: |
+ *       Ranks every UNDER_REVIEW application in the period by its aggregated review score (mean, trimmed mean or median
+ *       of the reviewers' 0-100 overall scores). Ties are broken by the given tie-breakers in order, then by earliest
+ *       submission. Walking the ranking in order, applications are proposed for the shortlist while their award fits
+ *       the remaining period budget and their education level / county caps. Nothing is changed until the shortlist is confirmed.
  *     security:
  *       - bearerAuth: []
  *     parameters:
@@ -1184,121 +1379,2576 @@ export const scoreApplication = async (req: Request, res: Response): Promise<voi
  *         schema:
  *           type: string
  *           format: uuid
- *         description: Application ID
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               aggregation:
+ *                 type: string
+ *                 enum: [mean, trimmed_mean, median]
+ *                 default: mean
+ *               trimPercent:
+ *                 type: number
+ *                 default: 20
+ *                 description: For trimmed_mean, the share of scores dropped from each end
+ *               tieBreakers:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *                   enum: [orphanStatus, disability, householdIncome]
+ *                 default: [orphanStatus, disability, householdIncome]
+ *               minReviews:
+ *                 type: integer
+ *                 default: 1
+ *                 description: Applications with fewer scores are listed under insufficientReviews
+ *               awardAmount:
+ *                 type: number
+ *                 description: Flat award per application. Without it, the outstanding fee balance from the form is used.
+ *               maxAward:
+ *                 type: number
+ *                 description: Cap on the fee-balance based award
+ *               maxShortlisted:
+ *                 type: integer
  *     responses:
  *       200:
- *         description: Application scores with average
- *         content:
- *           application/json:
- *             schema:
- *               type: object
- *               properties:
- *                 success:
- *                   type: boolean
- *                 data:
- *                   type: object
- *                   properties:
- *                     scores:
- *                       type: array
- *                       items:
- *                         type: object
- *                         properties:
- *                           id:
- *                             type: string
- *                           financialNeed:
- *                             type: integer
- *                           academicMerit:
- *                             type: integer
- *                           communityImpact:
- *                             type: integer
- *                           vulnerability:
- *                             type: integer
- *                           overallScore:
- *                             type: number
- *                           comments:
- *                             type: string
- *                             nullable: true
- *                     averageScore:
- *                       type: number
- *                       nullable: true
+ *         description: Ranked applications with the proposed shortlist
+ *       404:
+ *         description: Application period not found
  */
-export const getApplicationScores = async (req: Request, res: Response): Promise<void> => {
+export const proposeShortlist = async (req: Request, res: Response): Promise<void> => {
     try {
-        const result = await adminService.getApplicationScores(req.params.id as string);
-        res.status(200).json({ success: true, data: result, timestamp: new Date().toISOString() });
+        const proposal = await rankingService.proposeShortlist(req.params.id as string, req.body);
+        res.status(200).json({ success: true, data: proposal, timestamp: new Date().toISOString() });
     } catch (error: any) {
-        logger.error('Get application scores error:', error);
-        res.status(500).json({ success: false, error: { code: 'INTERNAL_SERVER_ERROR', message: error.message }, timestamp: new Date().toISOString() });
+        logger.error('Propose shortlist error:', error);
+        const status = error.message.includes('not found') ? 404 : 400;
+        res.status(status).json({ success: false, error: { code: status === 404 ? 'RESOURCE_NOT_FOUND' : 'VALIDATION_ERROR', message: error.message }, timestamp: new Date().toISOString() });
     }
 };
 
 /**
  * @swagger
- * /api/admin/scoring-rubric:
- *   get:
+ * /api/admin/application-periods/{id}/shortlist/confirm:
+ *   post:
  *     tags: [Admin - Scoring]
- *     summary: Get the scoring rubric criteria definitions
- *     description: Returns the scoring rubric with criteria names, descriptions, and the min/max scale.
+ *     summary: Confirm a shortlist
+ *     description: >
+ *       Moves the chosen applications to SHORTLISTED, and optionally others to WAITLISTED, through the normal status workflow.
+ *       The chosen applications are ranked and fitted to the budget again with the given ranking options (send the ones used
+ *       for the proposal), and each award is stored as the application's awardedAmount. Every application must be UNDER_REVIEW
+ *       and fit the budget; otherwise nothing is changed.
  *     security:
  *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - applicationIds
+ *             properties:
+ *               applicationIds:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *                   format: uuid
+ *                 description: Applications to shortlist, in rank order
+ *               waitlistIds:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *                   format: uuid
+ *               note:
+ *                 type: string
+ *               aggregation:
+ *                 type: string
+ *                 enum: [mean, trimmed_mean, median]
+ *               trimPercent:
+ *                 type: number
+ *               tieBreakers:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *                   enum: [orphanStatus, disability, householdIncome]
+ *               minReviews:
+ *                 type: integer
+ *               awardAmount:
+ *                 type: number
+ *               maxAward:
+ *                 type: number
  *     responses:
  *       200:
- *         description: Scoring rubric criteria
- *         content:
- *           application/json:
- *             schema:
- *               type: object
- *               properties:
- *                 success:
- *                   type: boolean
- *                 data:
- *                   type: object
- *                   properties:
- *                     criteria:
- *                       type: array
- *                       items:
- *                         type: object
- *                         properties:
- *                           name:
- *                             type: string
- *                           description:
- *                             type: string
- *                           minScore:
- *                             type: integer
- *                           maxScore:
- *                             type: integer
+ *         description: All applications moved
+ *       400:
+ *         description: An application is not UNDER_REVIEW, lacks reviews or does not fit the budget
+ *       404:
+ *         description: Application period not found
  */
-export const getScoringRubric = async (_req: Request, res: Response): Promise<void> => {
+export const confirmShortlist = async (req: Request, res: Response): Promise<void> => {
     try {
-        const rubric = adminService.getScoringRubric();
-        res.status(200).json({ success: true, data: rubric, timestamp: new Date().toISOString() });
+        const adminId = (req as any).user!.id;
+        const result = await rankingService.confirmShortlist(
+            req.params.id as string,
+            adminId,
+            req.body,
+            (req as any).user!.role,
+            auditContext(req)
+        );
+        res.status(200).json({ success: true, data: result, message: `Shortlist confirmed: ${result.updated} updated, ${result.failed} failed`, timestamp: new Date().toISOString() });
     } catch (error: any) {
-        logger.error('Get scoring rubric error:', error);
-        res.status(500).json({ success: false, error: { code: 'INTERNAL_SERVER_ERROR', message: error.message }, timestamp: new Date().toISOString() });
+        logger.error('Confirm shortlist error:', error);
+        const status = error.message.includes('not found') ? 404 : 400;
+        res.status(status).json({ success: false, error: { code: status === 404 ? 'RESOURCE_NOT_FOUND' : 'VALIDATION_ERROR', message: error.message }, timestamp: new Date().toISOString() });
     }
 };
 
-// ==================== ENHANCED ANALYTICS ====================
-
 /**
  * @swagger
- * /api/admin/analytics/gender:
+ * /api/admin/application-periods/{id}/reliability:
  *   get:
- *     tags: [Admin - Analytics]
- *     summary: Get gender breakdown analytics
- *     description: Returns application count and approval rates grouped by gender.
+ *     tags: [Admin - Scoring]
+ *     summary: Inter-rater reliability report for a period
+ *     description: |
+ *       Scoring consistency across the period's reviews, using overall scores (0-100):
+ *       - per-reviewer mean, standard deviation and range, plus `meanDeviation` (how far the reviewer scores above (+) or below (-) the other reviewers on shared applications)
+ *       - agreement across applications with two or more reviews: ICC(1) (one-way random effects) and Krippendorff's alpha (interval)
+ *       - `disagreements`: applications whose scores spread by more than `threshold` points, for moderation
  *     security:
  *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *       - in: query
+ *         name: threshold
+ *         schema:
+ *           type: number
+ *           default: 20
+ *         description: Maximum acceptable score range (max - min) before an application is flagged
  *     responses:
  *       200:
- *         description: Gender breakdown
- *         content:
- *           application/json:
- *             schema:
- *               type: object
- *               properties:
- *                 success:
- *                   type: boolean
+ *         description: Reliability report
+ *       404:
+ *         description: Application period not found
+ */
+export const getReliabilityReport = async (req: Request, res: Response): Promise<void> => {
+    try {
+        const threshold = req.query.threshold ? Number(req.query.threshold) : undefined;
+        const report = await reliabilityService.getReliabilityReport(req.params.id as string, threshold);
+        res.status(200).json({ success: true, data: report, timestamp: new Date().toISOString() });
+    } catch (error: any) {
+        logger.error('Get reliability report error:', error);
+        const status = error.message.includes('not found') ? 404 : 500;
+        res.status(status).json({ success: false, error: { code: status === 404 ? 'RESOURCE_NOT_FOUND' : 'INTERNAL_SERVER_ERROR', message: error.message }, timestamp: new Date().toISOString() });
+    }
+};
+
+// ==================== DISBURSEMENT LEDGER ====================
+
+/**
+ * @swagger
+ * /api/admin/disbursements:
+ *   get:
+ *     tags: [Admin - Disbursements]
+ *     summary: List disbursement ledger entries
+ *     description: Returns ledger entries across all applications, newest first, with the net amount for the filtered set. Reversal entries carry negative amounts.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *       - in: query
+ *         name: paymentMethod
+ *         schema:
+ *           type: string
+ *           enum: [BANK_TRANSFER, MPESA, CHEQUE, OTHER]
+ *       - in: query
+ *         name: applicationPeriodId
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *       - in: query
+ *         name: disbursedAfter
+ *         schema:
+ *           type: string
+ *           format: date
+ *       - in: query
+ *         name: disbursedBefore
+ *         schema:
+ *           type: string
+ *           format: date
+ *       - in: query
+ *         name: search
+ *         schema:
+ *           type: string
+ *         description: Matches payment reference, payee institution or application number
+ *     responses:
+ *       200:
+ *         description: Paginated ledger entries
+ */
+export const listDisbursements = async (req: Request, res: Response): Promise<void> => {
+    try {
+        const result = await disbursementService.listLedger(req.query as any);
+
+        res.status(200).json({
+            success: true,
+            data: result.data,
+            netAmount: result.netAmount,
+            pagination: result.pagination,
+            timestamp: new Date().toISOString(),
+        });
+    } catch (error: any) {
+        logger.error('List disbursements error:', error);
+        res.status(500).json({ success: false, error: { code: 'INTERNAL_SERVER_ERROR', message: error.message }, timestamp: new Date().toISOString() });
+    }
+};
+
+/**
+ * @swagger
+ * /api/admin/applications/{id}/disbursements:
+ *   get:
+ *     tags: [Admin - Disbursements]
+ *     summary: Get the disbursement ledger for an application
+ *     description: Returns all tranches and reversals for the application together with gross, reversed and net totals.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: Application ID
+ *     responses:
+ *       200:
+ *         description: Ledger entries and summary
+ *       404:
+ *         description: Application not found
+ */
+export const getApplicationDisbursements = async (req: Request, res: Response): Promise<void> => {
+    try {
+        const result = await disbursementService.getApplicationLedger(req.params.id as string);
+        res.status(200).json({ success: true, data: result, timestamp: new Date().toISOString() });
+    } catch (error: any) {
+        logger.error('Get application disbursements error:', error);
+        const status = error.message.includes('not found') ? 404 : 500;
+        res.status(status).json({ success: false, error: { code: status === 404 ? 'RESOURCE_NOT_FOUND' : 'INTERNAL_SERVER_ERROR', message: error.message }, timestamp: new Date().toISOString() });
+    }
+};
+
+/**
+ * @swagger
+ * /api/admin/applications/{id}/disbursements:
+ *   post:
+ *     tags: [Admin - Disbursements]
+ *     summary: Record a disbursement tranche
+ *     description: Adds a payment to the application's ledger. The application must be APPROVED or DISBURSED; the first tranche moves an APPROVED application to DISBURSED.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: Application ID
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - amount
+ *               - payeeInstitution
+ *               - paymentMethod
+ *               - paymentReference
+ *             properties:
+ *               amount:
+ *                 type: number
+ *                 example: 25000
+ *               payeeInstitution:
+ *                 type: string
+ *                 example: "University of Nairobi"
+ *               paymentMethod:
+ *                 type: string
+ *                 enum: [BANK_TRANSFER, MPESA, CHEQUE, OTHER]
+ *               paymentReference:
+ *                 type: string
+ *                 example: "QJK4H7X2LP"
+ *               term:
+ *                 type: string
+ *                 example: "2025/26 Term 1"
+ *               notes:
+ *                 type: string
+ *               disbursedAt:
+ *                 type: string
+ *                 format: date-time
+ *               budgetOverrideReason:
+ *                 type: string
+ *                 description: Allows a tranche that would exceed the period budget
+ *     responses:
+ *       201:
+ *         description: Disbursement recorded
+ *       400:
+ *         description: Application not in a disbursable status, duplicate payment reference, or BUDGET_EXCEEDED
+ *       404:
+ *         description: Application not found
+ */
+export const createDisbursement = async (req: Request, res: Response): Promise<void> => {
+    try {
+        const adminId = (req as any).user!.id;
+        const entry = await disbursementService.addEntry(
+            req.params.id as string,
+            adminId,
+            req.body,
+            (req as any).user!.role,
+            auditContext(req)
+        );
+        res.status(201).json({ success: true, message: 'Disbursement recorded', data: entry, timestamp: new Date().toISOString() });
+    } catch (error: any) {
+        logger.error('Create disbursement error:', error);
+        const status = error.message.includes('not found') ? 404 : 400;
+        const code = status === 404
+            ? 'RESOURCE_NOT_FOUND'
+            : error.message.startsWith('Budget exceeded') ? 'BUDGET_EXCEEDED' : 'VALIDATION_ERROR';
+        res.status(status).json({ success: false, error: { code, message: error.message }, timestamp: new Date().toISOString() });
+    }
+};
+
+/**
+ * @swagger
+ * /api/admin/disbursements/{id}/reverse:
+ *   post:
+ *     tags: [Admin - Disbursements]
+ *     summary: Reverse a disbursement entry
+ *     description: Posts an offsetting entry linked to the original (e.g. for a bounced payment). Each entry can be reversed once; reversal entries cannot themselves be reversed.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: Disbursement entry ID
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - reason
+ *             properties:
+ *               reason:
+ *                 type: string
+ *                 example: "Payment bounced - incorrect account number"
+ *     responses:
+ *       201:
+ *         description: Reversal entry created
+ *       400:
+ *         description: Entry already reversed or is itself a reversal
+ *       404:
+ *         description: Disbursement entry not found
+ */
+export const reverseDisbursement = async (req: Request, res: Response): Promise<void> => {
+    try {
+        const adminId = (req as any).user!.id;
+        const reversal = await disbursementService.reverseEntry(
+            req.params.id as string,
+            adminId,
+            req.body.reason,
+            auditContext(req)
+        );
+        res.status(201).json({ success: true, message: 'Disbursement reversed', data: reversal, timestamp: new Date().toISOString() });
+    } catch (error: any) {
+        logger.error('Reverse disbursement error:', error);
+        const status = error.message.includes('not found') ? 404 : 400;
+        res.status(status).json({ success: false, error: { code: status === 404 ? 'RESOURCE_NOT_FOUND' : 'VALIDATION_ERROR', message: error.message }, timestamp: new Date().toISOString() });
+    }
+};
+
+// ==================== APPEALS ====================
+
+/**
+ * @swagger
+ * /api/admin/appeals:
+ *   get:
+ *     tags: [Admin - Appeals]
+ *     summary: List appeals (appeals queue)
+ *     description: Returns appeals, oldest first. Filter by status=PENDING for the open queue.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [PENDING, UPHELD, DISMISSED, CLOSED]
+ *     responses:
+ *       200:
+ *         description: Paginated appeals
+ */
+export const listAppeals = async (req: Request, res: Response): Promise<void> => {
+    try {
+        const result = await appealService.listAppeals(req.query as any);
+
+        res.status(200).json({
+            success: true,
+            data: result.data,
+            pagination: result.pagination,
+            timestamp: new Date().toISOString(),
+        });
+    } catch (error: any) {
+        logger.error('List appeals error:', error);
+        res.status(500).json({ success: false, error: { code: 'INTERNAL_SERVER_ERROR', message: error.message }, timestamp: new Date().toISOString() });
+    }
+};
+
+/**
+ * @swagger
+ * /api/admin/appeals/{id}:
+ *   get:
+ *     tags: [Admin - Appeals]
+ *     summary: Get an appeal
+ *     description: Returns the appeal statement, supporting documents (download via /api/files/appeal/{documentId}) and decision.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Appeal details
+ *       404:
+ *         description: Appeal not found
+ */
+export const getAppeal = async (req: Request, res: Response): Promise<void> => {
+    try {
+        const appeal = await appealService.getAppeal(req.params.id as string);
+        res.status(200).json({ success: true, data: appeal, timestamp: new Date().toISOString() });
+    } catch (error: any) {
+        logger.error('Get appeal error:', error);
+        const status = error.message.includes('not found') ? 404 : 500;
+        res.status(status).json({ success: false, error: { code: status === 404 ? 'RESOURCE_NOT_FOUND' : 'INTERNAL_SERVER_ERROR', message: error.message }, timestamp: new Date().toISOString() });
+    }
+};
+
+/**
+ * @swagger
+ * /api/admin/appeals/{id}/decide:
+ *   post:
+ *     tags: [Admin - Appeals]
+ *     summary: Decide an appeal
+ *     description: UPHELD moves the application from APPEALED back to UNDER_REVIEW. DISMISSED restores the rejection. The student is notified in-app and by email.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - decision
+ *               - notes
+ *             properties:
+ *               decision:
+ *                 type: string
+ *                 enum: [UPHELD, DISMISSED]
+ *               notes:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Appeal decided
+ *       400:
+ *         description: Appeal already resolved or invalid transition
+ *       404:
+ *         description: Appeal not found
+ */
+export const decideAppeal = async (req: Request, res: Response): Promise<void> => {
+    try {
+        const adminId = (req as any).user!.id;
+        const appeal = await appealService.decideAppeal(
+            req.params.id as string,
+            adminId,
+            req.body.decision,
+            req.body.notes,
+            (req as any).user!.role,
+            auditContext(req)
+        );
+        res.status(200).json({ success: true, message: 'Appeal decided', data: appeal, timestamp: new Date().toISOString() });
+    } catch (error: any) {
+        logger.error('Decide appeal error:', error);
+        const status = error.message.includes('not found') ? 404 : 400;
+        res.status(status).json({ success: false, error: { code: status === 404 ? 'RESOURCE_NOT_FOUND' : 'INVALID_STATE_TRANSITION', message: error.message }, timestamp: new Date().toISOString() });
+    }
+};
+
+/**
+ * @swagger
+ * /api/admin/appeals/{id}/close:
+ *   post:
+ *     tags: [Admin - Appeals]
+ *     summary: Close an appeal without a decision on its merits
+ *     description: For appeals that are out of scope or duplicates. The application returns to REJECTED and the student is notified.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - reason
+ *             properties:
+ *               reason:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Appeal closed
+ *       400:
+ *         description: Appeal already resolved
+ *       404:
+ *         description: Appeal not found
+ */
+export const closeAppeal = async (req: Request, res: Response): Promise<void> => {
+    try {
+        const adminId = (req as any).user!.id;
+        const appeal = await appealService.closeAppeal(
+            req.params.id as string,
+            adminId,
+            req.body.reason,
+            (req as any).user!.role,
+            auditContext(req)
+        );
+        res.status(200).json({ success: true, message: 'Appeal closed', data: appeal, timestamp: new Date().toISOString() });
+    } catch (error: any) {
+        logger.error('Close appeal error:', error);
+        const status = error.message.includes('not found') ? 404 : 400;
+        res.status(status).json({ success: false, error: { code: status === 404 ? 'RESOURCE_NOT_FOUND' : 'INVALID_STATE_TRANSITION', message: error.message }, timestamp: new Date().toISOString() });
+    }
+};
+
+// ==================== WORKFLOW ====================
+
+/**
+ * @swagger
+ * /api/admin/workflow/transitions:
+ *   get:
+ *     tags: [Admin - Workflow]
+ *     summary: List workflow transitions
+ *     description: Returns every status transition in the application workflow, including inactive ones. Each transition lists the roles allowed to perform it, whether a reason is required, and which notifications it sends.
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: List of transitions
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/WorkflowTransition'
+ */
+export const listWorkflowTransitions = async (_req: Request, res: Response): Promise<void> => {
+    try {
+        const transitions = await workflowService.listTransitions();
+        res.status(200).json({ success: true, data: transitions, timestamp: new Date().toISOString() });
+    } catch (error: any) {
+        logger.error('List workflow transitions error:', error);
+        res.status(500).json({ success: false, error: { code: 'INTERNAL_SERVER_ERROR', message: error.message }, timestamp: new Date().toISOString() });
+    }
+};
+
+/**
+ * @swagger
+ * /api/admin/workflow/transitions:
+ *   post:
+ *     tags: [Admin - Workflow]
+ *     summary: Add a workflow transition
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/WorkflowTransition'
+ *     responses:
+ *       201:
+ *         description: Transition created
+ *       400:
+ *         description: Validation error
+ *       409:
+ *         description: A transition between these statuses already exists
+ */
+export const createWorkflowTransition = async (req: Request, res: Response): Promise<void> => {
+    try {
+        const transition = await workflowService.createTransition(req.body, auditContext(req));
+        res.status(201).json({ success: true, message: 'Workflow transition created', data: transition, timestamp: new Date().toISOString() });
+    } catch (error: any) {
+        logger.error('Create workflow transition error:', error);
+        const status = error.message.includes('already exists') ? 409 : 400;
+        res.status(status).json({ success: false, error: { code: status === 409 ? 'DUPLICATE_RESOURCE' : 'VALIDATION_ERROR', message: error.message }, timestamp: new Date().toISOString() });
+    }
+};
+
+/**
+ * @swagger
+ * /api/admin/workflow/transitions/{id}:
+ *   put:
+ *     tags: [Admin - Workflow]
+ *     summary: Update a workflow transition
+ *     description: Updates the rules of a transition. The from and to statuses cannot be changed; delete and re-create the transition instead. Set isActive to false to disable a transition without deleting it.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: Transition ID
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               allowedRoles:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *                   enum: [STUDENT, ADMIN, BOARD]
+ *               requiresReason:
+ *                 type: boolean
+ *               notifyStudent:
+ *                 type: boolean
+ *               emailStudent:
+ *                 type: boolean
+ *               notifyAdmins:
+ *                 type: boolean
+ *               isActive:
+ *                 type: boolean
+ *               description:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Transition updated
+ *       404:
+ *         description: Transition not found
+ */
+export const updateWorkflowTransition = async (req: Request, res: Response): Promise<void> => {
+    try {
+        const transition = await workflowService.updateTransition(req.params.id as string, req.body, auditContext(req));
+        res.status(200).json({ success: true, message: 'Workflow transition updated', data: transition, timestamp: new Date().toISOString() });
+    } catch (error: any) {
+        logger.error('Update workflow transition error:', error);
+        const status = error.message.includes('not found') ? 404 : 400;
+        res.status(status).json({ success: false, error: { code: status === 404 ? 'RESOURCE_NOT_FOUND' : 'VALIDATION_ERROR', message: error.message }, timestamp: new Date().toISOString() });
+    }
+};
+
+/**
+ * @swagger
+ * /api/admin/workflow/transitions/{id}:
+ *   delete:
+ *     tags: [Admin - Workflow]
+ *     summary: Delete a workflow transition
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: Transition ID
+ *     responses:
+ *       200:
+ *         description: Transition deleted
+ *       404:
+ *         description: Transition not found
+ */
+export const deleteWorkflowTransition = async (req: Request, res: Response): Promise<void> => {
+    try {
+        await workflowService.deleteTransition(req.params.id as string, auditContext(req));
+        res.status(200).json({ success: true, message: 'Workflow transition deleted', timestamp: new Date().toISOString() });
+    } catch (error: any) {
+        logger.error('Delete workflow transition error:', error);
+        const status = error.message.includes('not found') ? 404 : 400;
+        res.status(status).json({ success: false, error: { code: status === 404 ? 'RESOURCE_NOT_FOUND' : 'VALIDATION_ERROR', message: error.message }, timestamp: new Date().toISOString() });
+    }
+};
+
+// ==================== REVIEWER ASSIGNMENT ====================
+
+/**
+ * @swagger
+ * /api/admin/reviewers:
+ *   get:
+ *     tags: [Admin - Review Assignment]
+ *     summary: List active reviewers
+ *     description: Returns active ADMIN and BOARD users with their open review workload and declared conflicts of interest.
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Reviewers with workload
+ */
+export const listReviewers = async (_req: Request, res: Response): Promise<void> => {
+    try {
+        const reviewers = await reviewService.listReviewers();
+        res.status(200).json({ success: true, data: reviewers, timestamp: new Date().toISOString() });
+    } catch (error: any) {
+        logger.error('List reviewers error:', error);
+        res.status(500).json({ success: false, error: { code: 'INTERNAL_SERVER_ERROR', message: error.message }, timestamp: new Date().toISOString() });
+    }
+};
+
+/**
+ * @swagger
+ * /api/admin/applications/{id}/reviewers:
+ *   get:
+ *     tags: [Admin - Review Assignment]
+ *     summary: List the reviewers assigned to an application
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Review assignments with due dates and completion
+ */
+export const getApplicationReviewers = async (req: Request, res: Response): Promise<void> => {
+    try {
+        const assignments = await reviewService.getApplicationAssignments(req.params.id as string);
+        res.status(200).json({ success: true, data: assignments, timestamp: new Date().toISOString() });
+    } catch (error: any) {
+        logger.error('Get application reviewers error:', error);
+        res.status(500).json({ success: false, error: { code: 'INTERNAL_SERVER_ERROR', message: error.message }, timestamp: new Date().toISOString() });
+    }
+};
+
+/**
+ * @swagger
+ * /api/admin/applications/{id}/reviewers:
+ *   post:
+ *     tags: [Admin - Review Assignment]
+ *     summary: Assign reviewers to an application
+ *     description: |
+ *       Assign specific reviewers (`reviewerIds`) or the next `count` reviewers in round-robin order
+ *       (fewest open reviews first). Reviewers with a declared conflict of interest with the applicant's
+ *       county or institution are never assigned. The due date defaults to 14 days from now.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               reviewerIds:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *                   format: uuid
+ *               count:
+ *                 type: integer
+ *                 minimum: 1
+ *                 description: Number of additional reviewers to assign round-robin (default 1)
+ *               dueDate:
+ *                 type: string
+ *                 format: date-time
+ *     responses:
+ *       201:
+ *         description: Reviewers assigned
+ *       400:
+ *         description: Conflict of interest, already assigned, or not enough eligible reviewers
+ *       404:
+ *         description: Application or reviewer not found
+ */
+export const assignReviewers = async (req: Request, res: Response): Promise<void> => {
+    try {
+        const adminId = (req as any).user!.id;
+        const assignments = await reviewService.assignReviewers(req.params.id as string, req.body, adminId, auditContext(req));
+        res.status(201).json({ success: true, message: `${assignments.length} reviewer(s) assigned`, data: assignments, timestamp: new Date().toISOString() });
+    } catch (error: any) {
+        logger.error('Assign reviewers error:', error);
+        const status = error.message.includes('not found') ? 404 : 400;
+        res.status(status).json({ success: false, error: { code: status === 404 ? 'RESOURCE_NOT_FOUND' : 'VALIDATION_ERROR', message: error.message }, timestamp: new Date().toISOString() });
+    }
+};
+
+/**
+ * @swagger
+ * /api/admin/reviews/auto-assign:
+ *   post:
+ *     tags: [Admin - Review Assignment]
+ *     summary: Round-robin assign reviewers to many applications
+ *     description: Tops each application up to `reviewersPerApplication` assigned reviewers, balancing open workload across reviewers and skipping conflicts of interest.
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - applicationIds
+ *               - reviewersPerApplication
+ *             properties:
+ *               applicationIds:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *                   format: uuid
+ *               reviewersPerApplication:
+ *                 type: integer
+ *                 minimum: 1
+ *               dueDate:
+ *                 type: string
+ *                 format: date-time
+ *     responses:
+ *       200:
+ *         description: Per-application assignment results
+ */
+export const autoAssignReviewers = async (req: Request, res: Response): Promise<void> => {
+    try {
+        const adminId = (req as any).user!.id;
+        const result = await reviewService.autoAssignReviewers(req.body, adminId, auditContext(req));
+        res.status(200).json({ success: true, message: `${result.assigned} review(s) assigned`, data: result, timestamp: new Date().toISOString() });
+    } catch (error: any) {
+        logger.error('Auto-assign reviewers error:', error);
+        res.status(400).json({ success: false, error: { code: 'VALIDATION_ERROR', message: error.message }, timestamp: new Date().toISOString() });
+    }
+};
+
+/**
+ * @swagger
+ * /api/admin/applications/{id}/reviewers/{reviewerId}:
+ *   delete:
+ *     tags: [Admin - Review Assignment]
+ *     summary: Unassign a reviewer from an application
+ *     description: Only reviews that have not been completed can be unassigned.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *       - in: path
+ *         name: reviewerId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Reviewer unassigned
+ *       400:
+ *         description: Review already completed
+ *       404:
+ *         description: Assignment not found
+ */
+export const unassignReviewer = async (req: Request, res: Response): Promise<void> => {
+    try {
+        await reviewService.unassignReviewer(
+            req.params.id as string,
+            req.params.reviewerId as string,
+            auditContext(req)
+        );
+        res.status(200).json({ success: true, message: 'Reviewer unassigned', timestamp: new Date().toISOString() });
+    } catch (error: any) {
+        logger.error('Unassign reviewer error:', error);
+        const status = error.message.includes('not found') ? 404 : 400;
+        res.status(status).json({ success: false, error: { code: status === 404 ? 'RESOURCE_NOT_FOUND' : 'VALIDATION_ERROR', message: error.message }, timestamp: new Date().toISOString() });
+    }
+};
+
+/**
+ * @swagger
+ * /api/admin/reviewer-conflicts:
+ *   get:
+ *     tags: [Admin - Review Assignment]
+ *     summary: List declared reviewer conflicts of interest
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: reviewerId
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Conflicts of interest
+ */
+export const listReviewerConflicts = async (req: Request, res: Response): Promise<void> => {
+    try {
+        const conflicts = await reviewService.listConflicts(req.query.reviewerId as string | undefined);
+        res.status(200).json({ success: true, data: conflicts, timestamp: new Date().toISOString() });
+    } catch (error: any) {
+        logger.error('List reviewer conflicts error:', error);
+        res.status(500).json({ success: false, error: { code: 'INTERNAL_SERVER_ERROR', message: error.message }, timestamp: new Date().toISOString() });
+    }
+};
+
+/**
+ * @swagger
+ * /api/admin/reviewer-conflicts:
+ *   post:
+ *     tags: [Admin - Review Assignment]
+ *     summary: Declare a reviewer conflict of interest
+ *     description: The reviewer will not be assigned applications from the given county or institution. Existing assignments are not changed.
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - reviewerId
+ *             properties:
+ *               reviewerId:
+ *                 type: string
+ *                 format: uuid
+ *               countyId:
+ *                 type: string
+ *                 format: uuid
+ *               institutionId:
+ *                 type: string
+ *                 format: uuid
+ *               reason:
+ *                 type: string
+ *     responses:
+ *       201:
+ *         description: Conflict recorded
+ *       404:
+ *         description: Reviewer, county or institution not found
+ */
+export const createReviewerConflict = async (req: Request, res: Response): Promise<void> => {
+    try {
+        const adminId = (req as any).user!.id;
+        const conflict = await reviewService.addConflict(req.body, adminId, auditContext(req));
+        res.status(201).json({ success: true, message: 'Conflict of interest recorded', data: conflict, timestamp: new Date().toISOString() });
+    } catch (error: any) {
+        logger.error('Create reviewer conflict error:', error);
+        const status = error.message.includes('not found') ? 404 : error.message.includes('already recorded') ? 409 : 400;
+        const code = status === 404 ? 'RESOURCE_NOT_FOUND' : status === 409 ? 'DUPLICATE_RESOURCE' : 'VALIDATION_ERROR';
+        res.status(status).json({ success: false, error: { code, message: error.message }, timestamp: new Date().toISOString() });
+    }
+};
+
+/**
+ * @swagger
+ * /api/admin/reviewer-conflicts/{id}:
+ *   delete:
+ *     tags: [Admin - Review Assignment]
+ *     summary: Remove a reviewer conflict of interest
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Conflict removed
+ *       404:
+ *         description: Conflict not found
+ */
+export const deleteReviewerConflict = async (req: Request, res: Response): Promise<void> => {
+    try {
+        await reviewService.removeConflict(req.params.id as string, auditContext(req));
+        res.status(200).json({ success: true, message: 'Conflict of interest removed', timestamp: new Date().toISOString() });
+    } catch (error: any) {
+        logger.error('Delete reviewer conflict error:', error);
+        const status = error.message.includes('not found') ? 404 : 400;
+        res.status(status).json({ success: false, error: { code: status === 404 ? 'RESOURCE_NOT_FOUND' : 'VALIDATION_ERROR', message: error.message }, timestamp: new Date().toISOString() });
+    }
+};
+
+// ==================== REVIEW QUEUE ====================
+
+/**
+ * @swagger
+ * /api/admin/my-reviews:
+ *   get:
+ *     tags: [Admin - Review Queue]
+ *     summary: Get my review queue
+ *     description: Applications assigned to the current ADMIN or BOARD user, earliest due date first.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [pending, completed, all]
+ *           default: pending
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           default: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 20
+ *     responses:
+ *       200:
+ *         description: Review assignments with due dates, overdue flags and pending/overdue totals
+ */
+export const getMyReviews = async (req: Request, res: Response): Promise<void> => {
+    try {
+        const user = (req as any).user!;
+        const result = await reviewService.getMyReviews(user.id, user.role, req.query as any);
+        res.status(200).json({ success: true, data: result.data, summary: result.summary, pagination: result.pagination, timestamp: new Date().toISOString() });
+    } catch (error: any) {
+        logger.error('Get my reviews error:', error);
+        res.status(500).json({ success: false, error: { code: 'INTERNAL_SERVER_ERROR', message: error.message }, timestamp: new Date().toISOString() });
+    }
+};
+
+/**
+ * @swagger
+ * /api/admin/my-reviews/{applicationId}:
+ *   get:
+ *     tags: [Admin - Review Queue]
+ *     summary: Get an application assigned to me for review
+ *     description: Returns the application, its document list, my assignment and my current score.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: applicationId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Application for review
+ *       403:
+ *         description: Not assigned to this application
+ */
+export const getReviewApplication = async (req: Request, res: Response): Promise<void> => {
+    try {
+        const user = (req as any).user!;
+        const application = await reviewService.getReviewApplication(user.id, user.role, req.params.applicationId as string);
+        res.status(200).json({ success: true, data: application, timestamp: new Date().toISOString() });
+    } catch (error: any) {
+        logger.error('Get review application error:', error);
+        const status = error.message.includes('not assigned') ? 403 : error.message.includes('not found') ? 404 : 500;
+        const code = status === 403 ? 'AUTHORIZATION_DENIED' : status === 404 ? 'RESOURCE_NOT_FOUND' : 'INTERNAL_SERVER_ERROR';
+        res.status(status).json({ success: false, error: { code, message: error.message }, timestamp: new Date().toISOString() });
+    }
+};
+
+/**
+ * @swagger
+ * /api/admin/my-reviews/{applicationId}/documents:
+ *   get:
+ *     tags: [Admin - Review Queue]
+ *     summary: List the documents of an application assigned to me
+ *     description: In blind-review periods, reviewers without the pii.read permission do not see identity documents, and filenames are replaced by the document type.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: applicationId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Application documents (download via /api/files/application/{documentId})
+ *       403:
+ *         description: Not assigned to this application
+ */
+export const getReviewDocuments = async (req: Request, res: Response): Promise<void> => {
+    try {
+        const user = (req as any).user!;
+        const documents = await reviewService.getReviewDocuments(user.id, user.role, req.params.applicationId as string);
+        res.status(200).json({ success: true, data: documents, timestamp: new Date().toISOString() });
+    } catch (error: any) {
+        logger.error('Get review documents error:', error);
+        const status = error.message.includes('not assigned') ? 403 : 500;
+        res.status(status).json({ success: false, error: { code: status === 403 ? 'AUTHORIZATION_DENIED' : 'INTERNAL_SERVER_ERROR', message: error.message }, timestamp: new Date().toISOString() });
+    }
+};
+
+// ==================== USER PERMISSIONS ====================
+
+/**
+ * @swagger
+ * /api/admin/users/{id}/permissions:
+ *   put:
+ *     tags: [Admin - Review Assignment]
+ *     summary: Set the permissions granted to a staff user
+ *     description: Super-admin only. Replaces the user's personal permission grants, held on top of their role's permissions. `pii.read` lets a reviewer see applicant identity in blind-review periods. A super-admin cannot change their own grants.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - permissions
+ *             properties:
+ *               permissions:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *                   example: pii.read
+ *     responses:
+ *       200:
+ *         description: Permissions updated
+ *       404:
+ *         description: User not found
+ */
+export const setUserPermissions = async (req: Request, res: Response): Promise<void> => {
+    try {
+        const adminId = (req as any).user!.id;
+        const user = await adminService.setUserPermissions(req.params.id as string, req.body.permissions, adminId, auditContext(req));
+        res.status(200).json({ success: true, message: 'Permissions updated', data: user, timestamp: new Date().toISOString() });
+    } catch (error: any) {
+        logger.error('Set user permissions error:', error);
+        const status = error.message.includes('not found') ? 404 : 400;
+        res.status(status).json({ success: false, error: { code: status === 404 ? 'RESOURCE_NOT_FOUND' : 'VALIDATION_ERROR', message: error.message }, timestamp: new Date().toISOString() });
+    }
+};
+
+// ==================== USER MANAGEMENT ====================
+
+/**
+ * @swagger
+ * /api/admin/users:
+ *   get:
+ *     tags: [Admin - Users]
+ *     summary: List users
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           default: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 20
+ *       - in: query
+ *         name: role
+ *         schema:
+ *           type: string
+ *           enum: [STUDENT, ADMIN, BOARD]
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [active, inactive, locked, deleted]
+ *         description: Deleted users are only listed with status=deleted
+ *       - in: query
+ *         name: search
+ *         schema:
+ *           type: string
+ *         description: Matches email or phone
+ *     responses:
+ *       200:
+ *         description: Paginated users
+ */
+export const listUsers = async (req: Request, res: Response): Promise<void> => {
+    try {
+        const page = req.query.page ? Math.max(Number(req.query.page), 1) : 1;
+        const limit = req.query.limit ? Math.min(Math.max(Number(req.query.limit), 1), 100) : 20;
+        const result = await userService.listUsers({
+            page,
+            limit,
+            role: req.query.role as UserRole | undefined,
+            status: req.query.status as 'active' | 'inactive' | 'locked' | 'deleted' | undefined,
+            search: req.query.search as string | undefined,
+        });
+        res.status(200).json({ success: true, data: result.data, pagination: result.pagination, timestamp: new Date().toISOString() });
+    } catch (error: any) {
+        logger.error('List users error:', error);
+        res.status(500).json({ success: false, error: { code: 'INTERNAL_SERVER_ERROR', message: 'Failed to list users' }, timestamp: new Date().toISOString() });
+    }
+};
+
+/**
+ * @swagger
+ * /api/admin/users/invite:
+ *   post:
+ *     tags: [Admin - Users]
+ *     summary: Invite a staff user
+ *     description: |
+ *       Creates an ADMIN or BOARD account and emails the invitee a link to set their password
+ *       (valid for 72 hours, completed through POST /api/auth/reset-password). The account cannot
+ *       log in until the password is set.
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - email
+ *               - phone
+ *               - role
+ *             properties:
+ *               email:
+ *                 type: string
+ *               phone:
+ *                 type: string
+ *               role:
+ *                 type: string
+ *                 enum: [ADMIN, BOARD]
+ *     responses:
+ *       201:
+ *         description: User invited
+ *       400:
+ *         description: Email or phone already in use
+ */
+export const inviteStaffUser = async (req: Request, res: Response): Promise<void> => {
+    try {
+        const user = await userService.inviteStaff(req.body, auditContext(req));
+        res.status(201).json({ success: true, message: 'Invitation sent', data: user, timestamp: new Date().toISOString() });
+    } catch (error: any) {
+        logger.error('Invite staff user error:', error);
+        res.status(400).json({ success: false, error: { code: 'VALIDATION_ERROR', message: error.message }, timestamp: new Date().toISOString() });
+    }
+};
+
+/**
+ * @swagger
+ * /api/admin/users/{id}:
+ *   get:
+ *     tags: [Admin - Users]
+ *     summary: Get a user
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: User details
+ *       404:
+ *         description: User not found
+ */
+export const getUser = async (req: Request, res: Response): Promise<void> => {
+    try {
+        const user = await userService.getUser(req.params.id as string);
+        res.status(200).json({ success: true, data: user, timestamp: new Date().toISOString() });
+    } catch (error: any) {
+        logger.error('Get user error:', error);
+        const status = error.message.includes('not found') ? 404 : 500;
+        res.status(status).json({ success: false, error: { code: status === 404 ? 'RESOURCE_NOT_FOUND' : 'INTERNAL_SERVER_ERROR', message: error.message }, timestamp: new Date().toISOString() });
+    }
+};
+
+/**
+ * @swagger
+ * /api/admin/users/{id}:
+ *   delete:
+ *     tags: [Admin - Users]
+ *     summary: Delete a user
+ *     description: Soft-deletes the account (sets deletedAt), deactivates it and signs out all its sessions. Admins cannot delete themselves.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: User deleted
+ *       404:
+ *         description: User not found
+ */
+export const deleteUser = async (req: Request, res: Response): Promise<void> => {
+    try {
+        await userService.deleteUser(req.params.id as string, auditContext(req));
+        res.status(200).json({ success: true, message: 'User deleted', timestamp: new Date().toISOString() });
+    } catch (error: any) {
+        logger.error('Delete user error:', error);
+        const status = error.message.includes('not found') ? 404 : 400;
+        res.status(status).json({ success: false, error: { code: status === 404 ? 'RESOURCE_NOT_FOUND' : 'VALIDATION_ERROR', message: error.message }, timestamp: new Date().toISOString() });
+    }
+};
+
+/**
+ * @swagger
+ * /api/admin/users/{id}/role:
+ *   put:
+ *     tags: [Admin - Users]
+ *     summary: Change a staff user's role
+ *     description: Switches a staff user between ADMIN and BOARD. Their sessions are signed out so the new role applies immediately.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - role
+ *             properties:
+ *               role:
+ *                 type: string
+ *                 enum: [ADMIN, BOARD]
+ *     responses:
+ *       200:
+ *         description: Role changed
+ *       404:
+ *         description: User not found
+ */
+export const changeUserRole = async (req: Request, res: Response): Promise<void> => {
+    try {
+        const user = await userService.changeRole(req.params.id as string, req.body.role, auditContext(req));
+        res.status(200).json({ success: true, message: 'Role changed', data: user, timestamp: new Date().toISOString() });
+    } catch (error: any) {
+        logger.error('Change user role error:', error);
+        const status = error.message.includes('not found') ? 404 : 400;
+        res.status(status).json({ success: false, error: { code: status === 404 ? 'RESOURCE_NOT_FOUND' : 'VALIDATION_ERROR', message: error.message }, timestamp: new Date().toISOString() });
+    }
+};
+
+/**
+ * @swagger
+ * /api/admin/users/{id}/status:
+ *   put:
+ *     tags: [Admin - Users]
+ *     summary: Activate or deactivate a user
+ *     description: Deactivated users cannot log in and are signed out of all sessions.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - isActive
+ *             properties:
+ *               isActive:
+ *                 type: boolean
+ *     responses:
+ *       200:
+ *         description: Status updated
+ *       404:
+ *         description: User not found
+ */
+export const setUserStatus = async (req: Request, res: Response): Promise<void> => {
+    try {
+        const user = await userService.setActive(req.params.id as string, req.body.isActive, auditContext(req));
+        res.status(200).json({ success: true, message: user.isActive ? 'User activated' : 'User deactivated', data: user, timestamp: new Date().toISOString() });
+    } catch (error: any) {
+        logger.error('Set user status error:', error);
+        const status = error.message.includes('not found') ? 404 : 400;
+        res.status(status).json({ success: false, error: { code: status === 404 ? 'RESOURCE_NOT_FOUND' : 'VALIDATION_ERROR', message: error.message }, timestamp: new Date().toISOString() });
+    }
+};
+
+/**
+ * @swagger
+ * /api/admin/users/{id}/force-password-reset:
+ *   post:
+ *     tags: [Admin - Users]
+ *     summary: Force a password reset
+ *     description: Signs the user out everywhere, blocks password logins and emails a reset link. The user can log in again once the password is reset.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Reset required and link sent
+ *       404:
+ *         description: User not found
+ */
+export const forcePasswordReset = async (req: Request, res: Response): Promise<void> => {
+    try {
+        await userService.forcePasswordReset(req.params.id as string, auditContext(req));
+        res.status(200).json({ success: true, message: 'Password reset required; a reset link was sent to the user', timestamp: new Date().toISOString() });
+    } catch (error: any) {
+        logger.error('Force password reset error:', error);
+        const status = error.message.includes('not found') ? 404 : 400;
+        res.status(status).json({ success: false, error: { code: status === 404 ? 'RESOURCE_NOT_FOUND' : 'VALIDATION_ERROR', message: error.message }, timestamp: new Date().toISOString() });
+    }
+};
+
+/**
+ * @swagger
+ * /api/admin/users/{id}/resend-invite:
+ *   post:
+ *     tags: [Admin - Users]
+ *     summary: Resend a staff invitation
+ *     description: Emails a new set-password link to an invited staff user who has not set a password yet. Earlier links stop working.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Invitation sent
+ *       404:
+ *         description: User not found
+ */
+export const resendStaffInvite = async (req: Request, res: Response): Promise<void> => {
+    try {
+        await userService.resendInvite(req.params.id as string, auditContext(req));
+        res.status(200).json({ success: true, message: 'Invitation sent', timestamp: new Date().toISOString() });
+    } catch (error: any) {
+        logger.error('Resend staff invite error:', error);
+        const status = error.message.includes('not found') ? 404 : 400;
+        res.status(status).json({ success: false, error: { code: status === 404 ? 'RESOURCE_NOT_FOUND' : 'VALIDATION_ERROR', message: error.message }, timestamp: new Date().toISOString() });
+    }
+};
+
+/**
+ * @swagger
+ * /api/admin/users/{id}/super-admin:
+ *   put:
+ *     tags: [Admin - Users]
+ *     summary: Grant or revoke super-admin status (super-admin only)
+ *     description: Super-admins hold every permission and can edit role permissions. Only admins can be super-admins, and the last active super-admin cannot be removed.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - isSuperAdmin
+ *             properties:
+ *               isSuperAdmin:
+ *                 type: boolean
+ *     responses:
+ *       200:
+ *         description: Super-admin status updated
+ *       403:
+ *         description: Super-admin access required
+ *       404:
+ *         description: User not found
+ */
+export const setSuperAdmin = async (req: Request, res: Response): Promise<void> => {
+    try {
+        const user = await permissionService.setSuperAdmin(req.params.id as string, req.body.isSuperAdmin, auditContext(req));
+        res.status(200).json({ success: true, message: 'Super-admin status updated', data: user, timestamp: new Date().toISOString() });
+    } catch (error: any) {
+        logger.error('Set super-admin error:', error);
+        const status = error.message.includes('not found') ? 404 : 400;
+        res.status(status).json({ success: false, error: { code: status === 404 ? 'RESOURCE_NOT_FOUND' : 'VALIDATION_ERROR', message: error.message }, timestamp: new Date().toISOString() });
+    }
+};
+
+// ==================== ROLE PERMISSIONS ====================
+
+/**
+ * @swagger
+ * /api/admin/roles/permissions:
+ *   get:
+ *     tags: [Admin - Users]
+ *     summary: List the permission catalogue and each staff role's permissions (super-admin only)
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Permissions and role mappings
+ *       403:
+ *         description: Super-admin access required
+ */
+export const listRolePermissions = async (_req: Request, res: Response): Promise<void> => {
+    try {
+        const data = await permissionService.listRolePermissions();
+        res.status(200).json({ success: true, data, timestamp: new Date().toISOString() });
+    } catch (error: any) {
+        logger.error('List role permissions error:', error);
+        res.status(500).json({ success: false, error: { code: 'INTERNAL_SERVER_ERROR', message: error.message }, timestamp: new Date().toISOString() });
+    }
+};
+
+/**
+ * @swagger
+ * /api/admin/roles/{role}/permissions:
+ *   put:
+ *     tags: [Admin - Users]
+ *     summary: Replace the permissions held by a staff role (super-admin only)
+ *     description: Applies to every user of the role on their next request.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: role
+ *         required: true
+ *         schema:
+ *           type: string
+ *           enum: [ADMIN, BOARD]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - permissions
+ *             properties:
+ *               permissions:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *                   example: analytics.read
+ *     responses:
+ *       200:
+ *         description: Role permissions updated
+ *       403:
+ *         description: Super-admin access required
+ */
+export const setRolePermissions = async (req: Request, res: Response): Promise<void> => {
+    try {
+        const data = await permissionService.setRolePermissions(req.params.role as UserRole, req.body.permissions, auditContext(req));
+        res.status(200).json({ success: true, message: 'Role permissions updated', data, timestamp: new Date().toISOString() });
+    } catch (error: any) {
+        logger.error('Set role permissions error:', error);
+        res.status(400).json({ success: false, error: { code: 'VALIDATION_ERROR', message: error.message }, timestamp: new Date().toISOString() });
+    }
+};
+
+// ==================== AUDIT LOG ====================
+
+// Filters shared by the audit log listing and CSV export
+const auditLogFilters = (req: Request) => ({
+    actorId: req.query.actorId as string | undefined,
+    action: req.query.action as string | undefined,
+    entityType: req.query.entityType as string | undefined,
+    entityId: req.query.entityId as string | undefined,
+    from: req.query.from ? new Date(req.query.from as string) : undefined,
+    to: req.query.to ? new Date(req.query.to as string) : undefined,
+});
+
+/**
+ * @swagger
+ * /api/admin/audit-log:
+ *   get:
+ *     tags: [Admin - Audit Log]
+ *     summary: List audit log entries
+ *     description: Administrative actions with actor, entity, before/after changes, IP address and user agent, newest first.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: actorId
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *       - in: query
+ *         name: action
+ *         description: Action or action prefix, e.g. `note` or `application.status_change`
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: entityType
+ *         schema:
+ *           type: string
+ *           example: Application
+ *       - in: query
+ *         name: entityId
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: from
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *       - in: query
+ *         name: to
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           default: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 50
+ *     responses:
+ *       200:
+ *         description: Paginated audit log entries
+ */
+export const listAuditLog = async (req: Request, res: Response): Promise<void> => {
+    try {
+        const page = req.query.page ? Math.max(Number(req.query.page), 1) : 1;
+        const limit = req.query.limit ? Math.min(Math.max(Number(req.query.limit), 1), 200) : 50;
+        const result = await auditService.list({ page, limit, ...auditLogFilters(req) });
+        res.status(200).json({ success: true, data: result.data, pagination: result.pagination, timestamp: new Date().toISOString() });
+    } catch (error: any) {
+        logger.error('List audit log error:', error);
+        res.status(500).json({ success: false, error: { code: 'INTERNAL_SERVER_ERROR', message: error.message }, timestamp: new Date().toISOString() });
+    }
+};
+
+/**
+ * @swagger
+ * /api/admin/audit-log/export:
+ *   get:
+ *     tags: [Admin - Audit Log]
+ *     summary: Export audit log entries to CSV
+ *     description: Takes the same filters as the listing. At most 10,000 entries are exported; the `X-Export-Truncated` header is `true` when more matched.
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: CSV file download
+ *         content:
+ *           text/csv:
+ *             schema:
+ *               type: string
+ */
+export const exportAuditLog = async (req: Request, res: Response): Promise<void> => {
+    try {
+        const filters = auditLogFilters(req);
+        const result = await auditService.exportCsv(filters);
+
+        await auditService.record(auditContext(req), {
+            action: 'audit_log.export',
+            entityType: 'AuditLog',
+            metadata: { filters, count: result.count },
+        });
+
+        res.setHeader('Content-Type', 'text/csv');
+        res.setHeader('Content-Disposition', `attachment; filename=${result.filename}`);
+        res.setHeader('X-Export-Truncated', String(result.truncated));
+        res.send(result.csv);
+    } catch (error: any) {
+        logger.error('Export audit log error:', error);
+        res.status(500).json({ success: false, error: { code: 'INTERNAL_SERVER_ERROR', message: error.message }, timestamp: new Date().toISOString() });
+    }
+};
+
+// ==================== DATA RETENTION ====================
+
+/**
+ * @swagger
+ * /api/admin/retention-policies:
+ *   get:
+ *     tags: [Admin - Data Protection]
+ *     summary: List data retention policies
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Retention policy per target
+ */
+export const listRetentionPolicies = async (_req: Request, res: Response): Promise<void> => {
+    try {
+        const policies = await retentionService.listPolicies();
+        res.status(200).json({ success: true, data: policies, timestamp: new Date().toISOString() });
+    } catch (error: any) {
+        logger.error('List retention policies error:', error);
+        res.status(500).json({ success: false, error: { code: 'INTERNAL_SERVER_ERROR', message: error.message }, timestamp: new Date().toISOString() });
+    }
+};
+
+/**
+ * @swagger
+ * /api/admin/retention-policies/{target}:
+ *   put:
+ *     tags: [Admin - Data Protection]
+ *     summary: Update a data retention policy
+ *     description: >
+ *       Application-based targets (APPLICATION_DOCUMENTS, PROFILE_DOCUMENTS, APPLICANT_PII) apply
+ *       `retentionMonths` after the application period closes, to applicants whose applications
+ *       are all in `statuses`. NOTIFICATIONS and LOGIN_EVENTS apply to records older than `retentionMonths`.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: target
+ *         required: true
+ *         schema:
+ *           type: string
+ *           enum: [APPLICATION_DOCUMENTS, PROFILE_DOCUMENTS, APPLICANT_PII, NOTIFICATIONS, LOGIN_EVENTS]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               retentionMonths:
+ *                 type: integer
+ *                 example: 24
+ *               statuses:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *                 example: [REJECTED, WITHDRAWN]
+ *               isEnabled:
+ *                 type: boolean
+ *     responses:
+ *       200:
+ *         description: Policy updated
+ *       404:
+ *         description: Policy not found
+ */
+export const updateRetentionPolicy = async (req: Request, res: Response): Promise<void> => {
+    try {
+        const policy = await retentionService.updatePolicy(req.params.target as RetentionTarget, req.body, auditContext(req));
+        res.status(200).json({ success: true, message: 'Retention policy updated', data: policy, timestamp: new Date().toISOString() });
+    } catch (error: any) {
+        logger.error('Update retention policy error:', error);
+        const status = error.message.includes('not found') ? 404 : 400;
+        res.status(status).json({ success: false, error: { code: status === 404 ? 'RESOURCE_NOT_FOUND' : 'VALIDATION_ERROR', message: error.message }, timestamp: new Date().toISOString() });
+    }
+};
+
+/**
+ * @swagger
+ * /api/admin/retention/run:
+ *   post:
+ *     tags: [Admin - Data Protection]
+ *     summary: Run the retention purge now
+ *     description: Applies every enabled policy, as the scheduled job does. Defaults to a dry run that only counts what would be purged.
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               dryRun:
+ *                 type: boolean
+ *                 default: true
+ *     responses:
+ *       200:
+ *         description: Records purged (or that would be purged) per policy
+ */
+export const runRetention = async (req: Request, res: Response): Promise<void> => {
+    try {
+        const results = await retentionService.run(auditContext(req), { dryRun: req.body.dryRun });
+        res.status(200).json({ success: true, data: { dryRun: req.body.dryRun, results }, timestamp: new Date().toISOString() });
+    } catch (error: any) {
+        logger.error('Run retention error:', error);
+        const status = error.message.includes('in progress') ? 400 : 500;
+        res.status(status).json({ success: false, error: { code: status === 400 ? 'VALIDATION_ERROR' : 'INTERNAL_SERVER_ERROR', message: error.message }, timestamp: new Date().toISOString() });
+    }
+};
+
+// ==================== ERASURE REQUESTS ====================
+
+/**
+ * @swagger
+ * /api/admin/erasure-requests:
+ *   get:
+ *     tags: [Admin - Data Protection]
+ *     summary: List student data erasure requests
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [PENDING, COMPLETED, REJECTED]
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           default: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 20
+ *     responses:
+ *       200:
+ *         description: Paginated erasure requests
+ */
+export const listErasureRequests = async (req: Request, res: Response): Promise<void> => {
+    try {
+        const page = req.query.page ? Math.max(Number(req.query.page), 1) : 1;
+        const limit = req.query.limit ? Math.min(Math.max(Number(req.query.limit), 1), 100) : 20;
+        const result = await erasureService.listRequests({
+            page,
+            limit,
+            status: req.query.status as ErasureRequestStatus | undefined,
+        });
+        res.status(200).json({ success: true, data: result.data, pagination: result.pagination, timestamp: new Date().toISOString() });
+    } catch (error: any) {
+        logger.error('List erasure requests error:', error);
+        res.status(500).json({ success: false, error: { code: 'INTERNAL_SERVER_ERROR', message: error.message }, timestamp: new Date().toISOString() });
+    }
+};
+
+/**
+ * @swagger
+ * /api/admin/erasure-requests/{id}/approve:
+ *   post:
+ *     tags: [Admin - Data Protection]
+ *     summary: Approve an erasure request and anonymise the student
+ *     description: >
+ *       Deletes the student's documents, notifications and login history and clears their
+ *       identity from the account, profile and applications. Location, education, household
+ *       and award data are kept for analytics. Refused while an application is still being processed.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               notes:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Student data erased
+ *       400:
+ *         description: Request not pending, or an application is in progress
+ *       404:
+ *         description: Erasure request not found
+ */
+export const approveErasureRequest = async (req: Request, res: Response): Promise<void> => {
+    try {
+        const request = await erasureService.approveRequest(req.params.id as string, req.body.notes, auditContext(req));
+        res.status(200).json({ success: true, message: 'Student data erased', data: request, timestamp: new Date().toISOString() });
+    } catch (error: any) {
+        logger.error('Approve erasure request error:', error);
+        const status = error.message.includes('not found') ? 404 : 400;
+        res.status(status).json({ success: false, error: { code: status === 404 ? 'RESOURCE_NOT_FOUND' : 'VALIDATION_ERROR', message: error.message }, timestamp: new Date().toISOString() });
+    }
+};
+
+/**
+ * @swagger
+ * /api/admin/erasure-requests/{id}/reject:
+ *   post:
+ *     tags: [Admin - Data Protection]
+ *     summary: Reject an erasure request
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - notes
+ *             properties:
+ *               notes:
+ *                 type: string
+ *                 description: Reason shared with the student
+ *     responses:
+ *       200:
+ *         description: Request rejected
+ *       404:
+ *         description: Erasure request not found
+ */
+export const rejectErasureRequest = async (req: Request, res: Response): Promise<void> => {
+    try {
+        const request = await erasureService.rejectRequest(req.params.id as string, req.body.notes, auditContext(req));
+        res.status(200).json({ success: true, message: 'Erasure request rejected', data: request, timestamp: new Date().toISOString() });
+    } catch (error: any) {
+        logger.error('Reject erasure request error:', error);
+        const status = error.message.includes('not found') ? 404 : 400;
+        res.status(status).json({ success: false, error: { code: status === 404 ? 'RESOURCE_NOT_FOUND' : 'VALIDATION_ERROR', message: error.message }, timestamp: new Date().toISOString() });
+    }
+};
+
+// ==================== CONSENT ====================
+
+/**
+ * @swagger
+ * /api/admin/consent-documents:
+ *   get:
+ *     tags: [Admin - Data Protection]
+ *     summary: List data protection notice versions
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Notices, newest effective date first
+ */
+export const listConsentDocuments = async (_req: Request, res: Response): Promise<void> => {
+    try {
+        const documents = await consentService.listDocuments();
+        res.status(200).json({ success: true, data: documents, timestamp: new Date().toISOString() });
+    } catch (error: any) {
+        logger.error('List consent documents error:', error);
+        res.status(500).json({ success: false, error: { code: 'INTERNAL_SERVER_ERROR', message: error.message }, timestamp: new Date().toISOString() });
+    }
+};
+
+/**
+ * @swagger
+ * /api/admin/consent-documents:
+ *   post:
+ *     tags: [Admin - Data Protection]
+ *     summary: Publish a new version of the data protection notice
+ *     description: >
+ *       Notices cannot be edited once published. When the new version takes effect, students
+ *       must accept it before using the student API again.
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - version
+ *               - title
+ *               - content
+ *               - purposes
+ *             properties:
+ *               version:
+ *                 type: string
+ *                 example: "2.0"
+ *               title:
+ *                 type: string
+ *               content:
+ *                 type: string
+ *               purposes:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *                   enum: [DATA_PROCESSING, INSTITUTION_SHARING, MARKETING]
+ *               effectiveFrom:
+ *                 type: string
+ *                 format: date-time
+ *                 description: Defaults to now
+ *     responses:
+ *       201:
+ *         description: Notice published
+ *       400:
+ *         description: Version exists, DATA_PROCESSING missing, or effective date in the past
+ */
+export const createConsentDocument = async (req: Request, res: Response): Promise<void> => {
+    try {
+        const document = await consentService.createDocument(req.body, auditContext(req));
+        res.status(201).json({ success: true, message: 'Data protection notice published', data: document, timestamp: new Date().toISOString() });
+    } catch (error: any) {
+        logger.error('Create consent document error:', error);
+        const status = error.message.includes('already exists') ? 409 : 400;
+        res.status(status).json({ success: false, error: { code: status === 409 ? 'DUPLICATE_RESOURCE' : 'VALIDATION_ERROR', message: error.message }, timestamp: new Date().toISOString() });
+    }
+};
+
+/**
+ * @swagger
+ * /api/admin/consent/report:
+ *   get:
+ *     tags: [Admin - Data Protection]
+ *     summary: Consent compliance report
+ *     description: >
+ *       Active students who accepted the current notice, are on an older version, or have no recorded
+ *       consent to a stored notice; students per version; and grants and withdrawals per purpose.
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Compliance report
+ */
+export const getConsentReport = async (_req: Request, res: Response): Promise<void> => {
+    try {
+        const report = await consentService.getComplianceReport();
+        res.status(200).json({ success: true, data: report, timestamp: new Date().toISOString() });
+    } catch (error: any) {
+        logger.error('Consent report error:', error);
+        res.status(500).json({ success: false, error: { code: 'INTERNAL_SERVER_ERROR', message: error.message }, timestamp: new Date().toISOString() });
+    }
+};
+
+// ==================== ACCOUNT SECURITY ====================
+
+/**
+ * @swagger
+ * /api/admin/users/{id}/unlock:
+ *   post:
+ *     tags: [Admin - Account Security]
+ *     summary: Unlock a user account
+ *     description: Lifts a login lockout and resets the user's failed-login counter.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Account unlocked
+ *       404:
+ *         description: User not found
+ */
+export const unlockUser = async (req: Request, res: Response): Promise<void> => {
+    try {
+        const user = await securityService.unlockAccount(req.params.id as string, auditContext(req));
+        res.status(200).json({ success: true, message: 'Account unlocked', data: user, timestamp: new Date().toISOString() });
+    } catch (error: any) {
+        logger.error('Unlock user error:', error);
+        const status = error.message.includes('not found') ? 404 : 400;
+        res.status(status).json({ success: false, error: { code: status === 404 ? 'RESOURCE_NOT_FOUND' : 'VALIDATION_ERROR', message: error.message }, timestamp: new Date().toISOString() });
+    }
+};
+
+/**
+ * @swagger
+ * /api/admin/users/{id}/2fa:
+ *   delete:
+ *     tags: [Admin - Account Security]
+ *     summary: Reset a user's two-factor authentication
+ *     description: Removes the user's authenticator secret and recovery codes (e.g. after a lost phone). If their role requires two-factor they enrol again at next login.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Two-factor reset
+ *       404:
+ *         description: User not found
+ */
+export const resetUserTwoFactor = async (req: Request, res: Response): Promise<void> => {
+    try {
+        await twoFactorService.reset(req.params.id as string, auditContext(req));
+        res.status(200).json({ success: true, message: 'Two-factor authentication reset', timestamp: new Date().toISOString() });
+    } catch (error: any) {
+        logger.error('Reset two-factor error:', error);
+        const status = error.message.includes('not found') ? 404 : 400;
+        res.status(status).json({ success: false, error: { code: status === 404 ? 'RESOURCE_NOT_FOUND' : 'VALIDATION_ERROR', message: error.message }, timestamp: new Date().toISOString() });
+    }
+};
+
+/**
+ * @swagger
+ * /api/admin/users/{id}/login-history:
+ *   get:
+ *     tags: [Admin - Account Security]
+ *     summary: Get a user's login history
+ *     description: Login attempts (successful and failed) with IP and user agent, newest first, plus the current lockout state.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           default: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 20
+ *     responses:
+ *       200:
+ *         description: Login history
+ *       404:
+ *         description: User not found
+ */
+export const getUserLoginHistory = async (req: Request, res: Response): Promise<void> => {
+    try {
+        const page = req.query.page ? Math.max(Number(req.query.page), 1) : 1;
+        const limit = req.query.limit ? Math.min(Math.max(Number(req.query.limit), 1), 100) : 20;
+        const result = await securityService.getLoginHistory(req.params.id as string, page, limit);
+        res.status(200).json({ success: true, data: result.data, summary: result.summary, pagination: result.pagination, timestamp: new Date().toISOString() });
+    } catch (error: any) {
+        logger.error('Get login history error:', error);
+        const status = error.message.includes('not found') ? 404 : 500;
+        res.status(status).json({ success: false, error: { code: status === 404 ? 'RESOURCE_NOT_FOUND' : 'INTERNAL_SERVER_ERROR', message: error.message }, timestamp: new Date().toISOString() });
+    }
+};
+
+// ==================== SCORING ====================
+
+/**
+ * @swagger
+ * /api/admin/applications/{id}/scores:
+ *   post:
+ *     tags: [Admin - Scoring]
+ *     summary: Score an application
+ *     description: |
+ *       Submit or update a review score for an application. Only reviewers assigned to the application may score it,
+ *       and each reviewer can only submit one score per application. Submitting a score completes the assignment.
+ *       Scores are recorded against the rubric currently in force for the application's period (or the global rubric),
+ *       and every criterion of that rubric must be scored within its range. The overall score is the weighted
+ *       mean of the criterion scores, normalised to 0-100.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: Application ID
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - scores
+ *             properties:
+ *               scores:
+ *                 type: object
+ *                 additionalProperties:
+ *                   type: integer
+ *                 description: Score per rubric criterion key
+ *                 example: { "financialNeed": 4, "academicMerit": 3, "communityImpact": 5, "vulnerability": 4 }
+ *               comments:
+ *                 type: string
+ *                 description: Optional reviewer comments
+ *     responses:
+ *       201:
+ *         description: Score submitted successfully
+ *       403:
+ *         description: Not assigned to review this application
+ *       404:
+ *         description: Application or rubric not found
+ *       400:
+ *         description: Validation error (missing, unknown or out-of-range criteria)
+ */
+export const scoreApplication = async (req: Request, res: Response): Promise<void> => {
+    try {
+        const adminId = (req as any).user!.id;
+        const score = await adminService.scoreApplication(req.params.id as string, adminId, req.body, auditContext(req));
+        res.status(201).json({ success: true, message: 'Score submitted', data: score, timestamp: new Date().toISOString() });
+    } catch (error: any) {
+        logger.error('Score application error:', error);
+        const status = error.message.includes('not assigned') ? 403 : error.message.includes('not found') ? 404 : 400;
+        const code = status === 403 ? 'AUTHORIZATION_DENIED' : status === 404 ? 'RESOURCE_NOT_FOUND' : 'VALIDATION_ERROR';
+        res.status(status).json({ success: false, error: { code, message: error.message }, timestamp: new Date().toISOString() });
+    }
+};
+
+/**
+ * @swagger
+ * /api/admin/applications/{id}/scores:
+ *   get:
+ *     tags: [Admin - Scoring]
+ *     summary: Get all review scores for an application
+ *     description: Returns all review scores, each with the rubric version it was recorded against, and the average overall score.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: Application ID
+ *     responses:
+ *       200:
+ *         description: Application scores with average
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     scores:
+ *                       type: array
+ *                       items:
+ *                         type: object
+ *                         properties:
+ *                           id:
+ *                             type: string
+ *                           criterionScores:
+ *                             type: object
+ *                             additionalProperties:
+ *                               type: integer
+ *                           overallScore:
+ *                             type: number
+ *                             description: Weighted score, 0-100
+ *                           comments:
+ *                             type: string
+ *                             nullable: true
+ *                           rubric:
+ *                             $ref: '#/components/schemas/ScoringRubric'
+ *                     averageScore:
+ *                       type: number
+ *                       nullable: true
+ */
+export const getApplicationScores = async (req: Request, res: Response): Promise<void> => {
+    try {
+        const result = await adminService.getApplicationScores(req.params.id as string);
+        res.status(200).json({ success: true, data: result, timestamp: new Date().toISOString() });
+    } catch (error: any) {
+        logger.error('Get application scores error:', error);
+        res.status(500).json({ success: false, error: { code: 'INTERNAL_SERVER_ERROR', message: error.message }, timestamp: new Date().toISOString() });
+    }
+};
+
+/**
+ * @swagger
+ * /api/admin/scoring-rubric:
+ *   get:
+ *     tags: [Admin - Scoring]
+ *     summary: Get the scoring rubric currently in force
+ *     description: Returns the latest rubric version for the given period, falling back to the latest global rubric.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: periodId
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: Application period (omit for the global rubric)
+ *     responses:
+ *       200:
+ *         description: Scoring rubric with criteria
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   $ref: '#/components/schemas/ScoringRubric'
+ *       404:
+ *         description: No rubric defined
+ */
+export const getScoringRubric = async (req: Request, res: Response): Promise<void> => {
+    try {
+        const rubric = await rubricService.getCurrentRubric(req.query.periodId as string | undefined);
+        res.status(200).json({ success: true, data: rubric, timestamp: new Date().toISOString() });
+    } catch (error: any) {
+        logger.error('Get scoring rubric error:', error);
+        const status = error.message.includes('not found') ? 404 : 500;
+        res.status(status).json({ success: false, error: { code: status === 404 ? 'RESOURCE_NOT_FOUND' : 'INTERNAL_SERVER_ERROR', message: error.message }, timestamp: new Date().toISOString() });
+    }
+};
+
+/**
+ * @swagger
+ * /api/admin/scoring-rubrics:
+ *   get:
+ *     tags: [Admin - Scoring]
+ *     summary: List scoring rubric versions
+ *     description: Returns every rubric version, newest first, with the number of scores recorded against each.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: periodId
+ *         schema:
+ *           type: string
+ *         description: Application period ID, or "global" for the global rubrics only
+ *     responses:
+ *       200:
+ *         description: Rubric versions
+ */
+export const listScoringRubrics = async (req: Request, res: Response): Promise<void> => {
+    try {
+        const rubrics = await rubricService.listRubrics(req.query.periodId as string | undefined);
+        res.status(200).json({ success: true, data: rubrics, timestamp: new Date().toISOString() });
+    } catch (error: any) {
+        logger.error('List scoring rubrics error:', error);
+        res.status(500).json({ success: false, error: { code: 'INTERNAL_SERVER_ERROR', message: error.message }, timestamp: new Date().toISOString() });
+    }
+};
+
+/**
+ * @swagger
+ * /api/admin/scoring-rubrics:
+ *   post:
+ *     tags: [Admin - Scoring]
+ *     summary: Publish a new scoring rubric version
+ *     description: |
+ *       Creates the next version of the rubric for a period (or of the global rubric when no period is given).
+ *       Rubrics are not edited in place: existing scores stay linked to the version they were recorded against,
+ *       and new scores use the new version.
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - name
+ *               - criteria
+ *             properties:
+ *               applicationPeriodId:
+ *                 type: string
+ *                 format: uuid
+ *                 nullable: true
+ *               name:
+ *                 type: string
+ *               description:
+ *                 type: string
+ *               criteria:
+ *                 type: array
+ *                 items:
+ *                   $ref: '#/components/schemas/RubricCriterion'
+ *     responses:
+ *       201:
+ *         description: Rubric version created
+ *       400:
+ *         description: Validation error
+ *       404:
+ *         description: Application period not found
+ */
+export const createScoringRubric = async (req: Request, res: Response): Promise<void> => {
+    try {
+        const adminId = (req as any).user!.id;
+        const rubric = await rubricService.createRubricVersion(req.body, adminId, auditContext(req));
+        res.status(201).json({ success: true, message: `Rubric version ${rubric.version} created`, data: rubric, timestamp: new Date().toISOString() });
+    } catch (error: any) {
+        logger.error('Create scoring rubric error:', error);
+        const status = error.message.includes('not found') ? 404 : 400;
+        res.status(status).json({ success: false, error: { code: status === 404 ? 'RESOURCE_NOT_FOUND' : 'VALIDATION_ERROR', message: error.message }, timestamp: new Date().toISOString() });
+    }
+};
+
+/**
+ * @swagger
+ * /api/admin/scoring-rubrics/{id}:
+ *   get:
+ *     tags: [Admin - Scoring]
+ *     summary: Get a specific scoring rubric version
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Rubric version with criteria
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   $ref: '#/components/schemas/ScoringRubric'
+ *       404:
+ *         description: Rubric not found
+ */
+export const getScoringRubricVersion = async (req: Request, res: Response): Promise<void> => {
+    try {
+        const rubric = await rubricService.getRubric(req.params.id as string);
+        res.status(200).json({ success: true, data: rubric, timestamp: new Date().toISOString() });
+    } catch (error: any) {
+        logger.error('Get scoring rubric version error:', error);
+        const status = error.message.includes('not found') ? 404 : 500;
+        res.status(status).json({ success: false, error: { code: status === 404 ? 'RESOURCE_NOT_FOUND' : 'INTERNAL_SERVER_ERROR', message: error.message }, timestamp: new Date().toISOString() });
+    }
+};
+
+// ==================== ENHANCED ANALYTICS ====================
+
+/**
+ * @swagger
+ * /api/admin/analytics/gender:
+ *   get:
+ *     tags: [Admin - Analytics]
+ *     summary: Get gender breakdown analytics
+ *     description: Returns application count and approval rates grouped by gender.
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Gender breakdown
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
  *                 data:
  *                   type: array
  *                   items:
@@ -1329,7 +3979,7 @@ export const getGenderAnalytics = async (_req: Request, res: Response): Promise<
  *   get:
  *     tags: [Admin - Analytics]
  *     summary: Get application funnel analytics
- *     description: Returns the count of applications at each stage of the review pipeline (draft, submitted, under review, approved, rejected, disbursed).
+ *     description: Returns the count of applications at each stage of the review pipeline (draft, submitted, under review, approved, disbursed). Withdrawn applications are excluded from the stages and reported separately, as a share of all submitted applications.
  *     security:
  *       - bearerAuth: []
  *     responses:
@@ -1343,14 +3993,26 @@ export const getGenderAnalytics = async (_req: Request, res: Response): Promise<
  *                 success:
  *                   type: boolean
  *                 data:
- *                   type: array
- *                   items:
- *                     type: object
- *                     properties:
- *                       status:
- *                         type: string
- *                       count:
- *                         type: integer
+ *                   type: object
+ *                   properties:
+ *                     stages:
+ *                       type: array
+ *                       items:
+ *                         type: object
+ *                         properties:
+ *                           stage:
+ *                             type: string
+ *                           count:
+ *                             type: integer
+ *                           percentage:
+ *                             type: integer
+ *                     withdrawn:
+ *                       type: object
+ *                       properties:
+ *                         count:
+ *                           type: integer
+ *                         percentage:
+ *                           type: integer
  */
 export const getFunnelAnalytics = async (_req: Request, res: Response): Promise<void> => {
     try {
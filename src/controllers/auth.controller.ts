@@ -1,6 +1,39 @@
 import { Request, Response } from 'express';
 import authService from '../services/auth.service';
+import twoFactorService from '../services/twoFactor.service';
+import verificationService from '../services/verification.service';
 import logger from '../config/logger';
+import { SessionContext } from '../types/auth.types';
+
+// Device / network details recorded against the session a request starts or refreshes
+const sessionContext = (req: Request): SessionContext => {
+    const userAgent = req.get('user-agent') || undefined;
+    return {
+        deviceLabel: req.body?.deviceLabel || describeUserAgent(userAgent),
+        ipAddress: req.ip || req.socket.remoteAddress || undefined,
+        userAgent,
+    };
+};
+
+// Rough "Browser on OS" label for clients that do not name their device
+const describeUserAgent = (userAgent?: string): string | undefined => {
+    if (!userAgent) {
+        return undefined;
+    }
+
+    const browser = [
+        ['Edg/', 'Edge'], ['OPR/', 'Opera'], ['Chrome/', 'Chrome'], ['Firefox/', 'Firefox'], ['Safari/', 'Safari'],
+    ].find(([token]) => userAgent.includes(token))?.[1];
+    const os = [
+        ['Android', 'Android'], ['iPhone', 'iOS'], ['iPad', 'iOS'], ['Windows', 'Windows'], ['Mac OS', 'macOS'], ['Linux', 'Linux'],
+    ].find(([token]) => userAgent.includes(token))?.[1];
+
+    if (!browser && !os) {
+        return undefined;
+    }
+
+    return [browser, os].filter(Boolean).join(' on ');
+};
 
 /**
  * @swagger
@@ -28,6 +61,16 @@ import logger from '../config/logger';
  *                 type: string
  *               consentVersion:
  *                 type: string
+ *                 description: Version of the data protection notice shown, from GET /api/config/consent
+ *               consentPurposes:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *                   enum: [INSTITUTION_SHARING, MARKETING]
+ *                 description: Optional purposes the student opted in to. Data processing is always included.
+ *               deviceLabel:
+ *                 type: string
+ *                 description: Name shown for this session in the session list
  *     responses:
  *       201:
  *         description: User registered successfully
@@ -36,10 +79,10 @@ import logger from '../config/logger';
  */
 export const register = async (req: Request, res: Response): Promise<void> => {
     try {
-        const { email, phone, password, consentVersion } = req.body;
+        const { email, phone, password, consentVersion, consentPurposes } = req.body;
         const ipAddress = req.ip || req.socket.remoteAddress || 'unknown';
 
-        const result = await authService.register(email, phone, password, consentVersion, ipAddress);
+        const result = await authService.register(email, phone, password, consentVersion, ipAddress, sessionContext(req), consentPurposes);
 
         logger.info('User registered successfully', { userId: result.user.id, email });
 
@@ -80,17 +123,39 @@ export const register = async (req: Request, res: Response): Promise<void> => {
  *                 type: string
  *               password:
  *                 type: string
+ *               deviceLabel:
+ *                 type: string
+ *                 description: Name shown for this session in the session list
  *     responses:
  *       200:
- *         description: Login successful
+ *         description: |
+ *           Login successful. For accounts with two-factor enabled the response instead carries
+ *           `twoFactorRequired: true` and a `challengeToken` for POST /api/auth/2fa/verify. When the
+ *           account's role requires two-factor (TWO_FACTOR_REQUIRED_ROLES) but it is not set up yet,
+ *           `setupRequired` is true and the challenge is used with /api/auth/2fa/enroll.
  *       401:
  *         description: Invalid credentials
+ *       423:
+ *         description: |
+ *           Account locked after too many failed logins (LOGIN_MAX_FAILED_ATTEMPTS, default 5).
+ *           The first lock lasts LOGIN_LOCKOUT_MINUTES (default 15); each further failure doubles it, up to 24 hours.
  */
 export const login = async (req: Request, res: Response): Promise<void> => {
     try {
         const { email, password } = req.body;
 
-        const result = await authService.login(email, password);
+        const result = await authService.login(email, password, sessionContext(req));
+
+        if ('challenge' in result) {
+            res.status(200).json({
+                success: true,
+                message: result.challenge.setupRequired
+                    ? 'Two-factor enrolment required'
+                    : 'Two-factor authentication required',
+                data: result.challenge,
+            });
+            return;
+        }
 
         logger.info('User logged in successfully', { userId: result.user.id, email });
 
@@ -104,19 +169,170 @@ export const login = async (req: Request, res: Response): Promise<void> => {
         });
     } catch (error: any) {
         logger.error('Login error:', error);
-        res.status(401).json({
+        res.status(error.message?.includes('locked') ? 423 : 401).json({
             success: false,
             message: error.message || 'Login failed',
         });
     }
 };
 
+// ==================== TWO-FACTOR LOGIN ====================
+
+/**
+ * @swagger
+ * /api/auth/2fa/verify:
+ *   post:
+ *     tags: [Authentication]
+ *     summary: Complete a two-factor login
+ *     description: Exchanges the challenge token from /login and an authenticator code (or an unused recovery code) for tokens. Wrong codes count towards the account lockout.
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - challengeToken
+ *               - code
+ *             properties:
+ *               challengeToken:
+ *                 type: string
+ *               code:
+ *                 type: string
+ *                 description: 6-digit authenticator code or a recovery code (xxxx-xxxx-xxxx)
+ *               deviceLabel:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Login successful
+ *       401:
+ *         description: Invalid code or expired challenge
+ *       423:
+ *         description: Account locked
+ */
+export const verifyTwoFactor = async (req: Request, res: Response): Promise<void> => {
+    try {
+        const { challengeToken, code } = req.body;
+
+        const result = await authService.verifyTwoFactorLogin(challengeToken, code, sessionContext(req));
+
+        res.status(200).json({
+            success: true,
+            message: 'Login successful',
+            data: result,
+        });
+    } catch (error: any) {
+        logger.error('Two-factor verification error:', error);
+        res.status(error.message?.includes('locked') ? 423 : 401).json({
+            success: false,
+            message: error.message || 'Two-factor verification failed',
+        });
+    }
+};
+
+/**
+ * @swagger
+ * /api/auth/2fa/enroll:
+ *   post:
+ *     tags: [Authentication]
+ *     summary: Start two-factor enrolment during login
+ *     description: For accounts whose role requires two-factor. Takes the setup challenge token from /login and returns a new secret and otpauth URL to show as a QR code.
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - challengeToken
+ *             properties:
+ *               challengeToken:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Secret and otpauth URL
+ *       401:
+ *         description: Invalid or expired challenge
+ */
+export const startTwoFactorEnrollment = async (req: Request, res: Response): Promise<void> => {
+    try {
+        const setup = await authService.startTwoFactorEnrollment(req.body.challengeToken);
+
+        res.status(200).json({
+            success: true,
+            message: 'Scan the QR code with your authenticator app, then confirm with a code',
+            data: setup,
+        });
+    } catch (error: any) {
+        logger.error('Two-factor enrolment error:', error);
+        res.status(error.message?.includes('challenge') ? 401 : 400).json({
+            success: false,
+            message: error.message || 'Two-factor enrolment failed',
+        });
+    }
+};
+
+/**
+ * @swagger
+ * /api/auth/2fa/enroll/confirm:
+ *   post:
+ *     tags: [Authentication]
+ *     summary: Confirm two-factor enrolment during login
+ *     description: Enables two-factor with a code from the authenticator app and completes the login. The recovery codes are returned only this once.
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - challengeToken
+ *               - code
+ *             properties:
+ *               challengeToken:
+ *                 type: string
+ *               code:
+ *                 type: string
+ *               deviceLabel:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Two-factor enabled and login successful
+ *       400:
+ *         description: Invalid code
+ *       401:
+ *         description: Invalid or expired challenge
+ */
+export const completeTwoFactorEnrollment = async (req: Request, res: Response): Promise<void> => {
+    try {
+        const { challengeToken, code } = req.body;
+
+        const result = await authService.completeTwoFactorEnrollment(challengeToken, code, sessionContext(req));
+
+        res.status(200).json({
+            success: true,
+            message: 'Two-factor authentication enabled. Store your recovery codes somewhere safe.',
+            data: result,
+        });
+    } catch (error: any) {
+        logger.error('Two-factor enrolment error:', error);
+        const status = error.message?.includes('locked') ? 423 : error.message?.includes('challenge') ? 401 : 400;
+        res.status(status).json({
+            success: false,
+            message: error.message || 'Two-factor enrolment failed',
+        });
+    }
+};
+
 /**
  * @swagger
  * /api/auth/refresh:
  *   post:
  *     tags: [Authentication]
  *     summary: Refresh access token
+ *     description: |
+ *       Refresh tokens are single-use. Each call returns a new refresh token and retires
+ *       the one presented; presenting a retired token again revokes the whole session.
  *     requestBody:
  *       required: true
  *       content:
@@ -128,6 +344,8 @@ export const login = async (req: Request, res: Response): Promise<void> => {
  *             properties:
  *               refreshToken:
  *                 type: string
+ *               deviceLabel:
+ *                 type: string
  *     responses:
  *       200:
  *         description: Token refreshed successfully
@@ -138,7 +356,7 @@ export const refreshToken = async (req: Request, res: Response): Promise<void> =
     try {
         const { refreshToken } = req.body;
 
-        const tokens = await authService.refreshToken(refreshToken);
+        const tokens = await authService.refreshToken(refreshToken, sessionContext(req));
 
         res.status(200).json({
             success: true,
@@ -160,8 +378,17 @@ export const refreshToken = async (req: Request, res: Response): Promise<void> =
  *   post:
  *     tags: [Authentication]
  *     summary: Logout user
+ *     description: Revokes the current session. Pass the refresh token to revoke the session it belongs to instead.
  *     security:
  *       - bearerAuth: []
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               refreshToken:
+ *                 type: string
  *     responses:
  *       200:
  *         description: Logout successful
@@ -170,7 +397,7 @@ export const logout = async (req: Request, res: Response): Promise<void> => {
     try {
         const user = (req as any).user;
         if (user) {
-            await authService.logout(user.id);
+            await authService.logout(user.id, user.sessionId, req.body?.refreshToken);
             logger.info('User logged out', { userId: user.id });
         }
 
@@ -243,6 +470,7 @@ export const changePassword = async (req: Request, res: Response): Promise<void>
  *   post:
  *     tags: [Authentication]
  *     summary: Request password reset link
+ *     description: Emails a single-use reset link (valid for PASSWORD_RESET_TTL_MINUTES, default 30). The response is the same whether or not the account exists.
  *     requestBody:
  *       required: true
  *       content:
@@ -262,7 +490,9 @@ export const requestPasswordReset = async (req: Request, res: Response): Promise
     try {
         const { email } = req.body;
 
-        const message = await authService.requestPasswordReset(email);
+        const ipAddress = req.ip || req.socket.remoteAddress || undefined;
+
+        const message = await authService.requestPasswordReset(email, ipAddress);
 
         res.status(200).json({
             success: true,
@@ -283,6 +513,7 @@ export const requestPasswordReset = async (req: Request, res: Response): Promise
  *   post:
  *     tags: [Authentication]
  *     summary: Reset password with token
+ *     description: Consumes the reset token and signs out every session of the account.
  *     requestBody:
  *       required: true
  *       content:
@@ -319,3 +550,435 @@ export const resetPassword = async (req: Request, res: Response): Promise<void>
         });
     }
 };
+
+// ==================== CONTACT VERIFICATION ====================
+
+/**
+ * @swagger
+ * /api/auth/verification:
+ *   get:
+ *     tags: [Authentication]
+ *     summary: Get email / phone verification status
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Verification status of the email address and phone number
+ */
+export const getVerificationStatus = async (req: Request, res: Response): Promise<void> => {
+    try {
+        const status = await verificationService.getStatus(req.user!.id);
+
+        res.status(200).json({
+            success: true,
+            message: 'Verification status retrieved successfully',
+            data: status,
+        });
+    } catch (error: any) {
+        logger.error('Get verification status error:', error);
+        res.status(error.message?.includes('not found') ? 404 : 500).json({
+            success: false,
+            message: error.message || 'Failed to retrieve verification status',
+        });
+    }
+};
+
+/**
+ * @swagger
+ * /api/auth/verification/send:
+ *   post:
+ *     tags: [Authentication]
+ *     summary: Send a verification code
+ *     description: Sends a 6-digit code by email (EMAIL) or SMS (PHONE). Codes expire after 15 minutes; a new code can be requested once a minute.
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - channel
+ *             properties:
+ *               channel:
+ *                 type: string
+ *                 enum: [EMAIL, PHONE]
+ *     responses:
+ *       200:
+ *         description: Code sent
+ *       400:
+ *         description: Already verified, or requested too soon
+ */
+export const sendVerificationCode = async (req: Request, res: Response): Promise<void> => {
+    try {
+        const result = await verificationService.sendCode(req.user!.id, req.body.channel);
+
+        res.status(200).json({
+            success: true,
+            message: 'Verification code sent',
+            data: result,
+        });
+    } catch (error: any) {
+        logger.error('Send verification code error:', error);
+        res.status(400).json({
+            success: false,
+            message: error.message || 'Failed to send verification code',
+        });
+    }
+};
+
+/**
+ * @swagger
+ * /api/auth/verification/verify:
+ *   post:
+ *     tags: [Authentication]
+ *     summary: Verify email or phone with a code
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - channel
+ *               - code
+ *             properties:
+ *               channel:
+ *                 type: string
+ *                 enum: [EMAIL, PHONE]
+ *               code:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Verified; returns the updated verification status
+ *       400:
+ *         description: Invalid, expired or exhausted code
+ */
+export const verifyContact = async (req: Request, res: Response): Promise<void> => {
+    try {
+        const { channel, code } = req.body;
+
+        const status = await verificationService.verifyCode(req.user!.id, channel, code);
+
+        res.status(200).json({
+            success: true,
+            message: 'Verification successful',
+            data: status,
+        });
+    } catch (error: any) {
+        logger.error('Verify contact error:', error);
+        res.status(400).json({
+            success: false,
+            message: error.message || 'Verification failed',
+        });
+    }
+};
+
+// ==================== TWO-FACTOR MANAGEMENT ====================
+
+/**
+ * @swagger
+ * /api/auth/2fa:
+ *   get:
+ *     tags: [Authentication]
+ *     summary: Get two-factor status
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Whether two-factor is enabled or required, and how many recovery codes are left
+ */
+export const getTwoFactorStatus = async (req: Request, res: Response): Promise<void> => {
+    try {
+        const status = await twoFactorService.getStatus(req.user!.id);
+
+        res.status(200).json({
+            success: true,
+            message: 'Two-factor status retrieved successfully',
+            data: status,
+        });
+    } catch (error: any) {
+        logger.error('Get two-factor status error:', error);
+        res.status(error.message?.includes('not found') ? 404 : 500).json({
+            success: false,
+            message: error.message || 'Failed to retrieve two-factor status',
+        });
+    }
+};
+
+/**
+ * @swagger
+ * /api/auth/2fa/setup:
+ *   post:
+ *     tags: [Authentication]
+ *     summary: Start two-factor enrolment
+ *     description: Returns a new secret and an otpauth URL to show as a QR code. Two-factor is enabled once a code is confirmed.
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Secret and otpauth URL
+ *       400:
+ *         description: Two-factor already enabled
+ */
+export const setupTwoFactor = async (req: Request, res: Response): Promise<void> => {
+    try {
+        const setup = await twoFactorService.startEnrollment(req.user!.id);
+
+        res.status(200).json({
+            success: true,
+            message: 'Scan the QR code with your authenticator app, then confirm with a code',
+            data: setup,
+        });
+    } catch (error: any) {
+        logger.error('Two-factor setup error:', error);
+        res.status(400).json({
+            success: false,
+            message: error.message || 'Two-factor setup failed',
+        });
+    }
+};
+
+/**
+ * @swagger
+ * /api/auth/2fa/confirm:
+ *   post:
+ *     tags: [Authentication]
+ *     summary: Confirm two-factor enrolment
+ *     description: Enables two-factor with a code from the authenticator app. The recovery codes are returned only this once.
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - code
+ *             properties:
+ *               code:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Two-factor enabled; recovery codes returned
+ *       400:
+ *         description: Invalid code
+ */
+export const confirmTwoFactor = async (req: Request, res: Response): Promise<void> => {
+    try {
+        const recoveryCodes = await twoFactorService.confirmEnrollment(req.user!.id, req.body.code);
+
+        res.status(200).json({
+            success: true,
+            message: 'Two-factor authentication enabled. Store your recovery codes somewhere safe.',
+            data: { recoveryCodes },
+        });
+    } catch (error: any) {
+        logger.error('Two-factor confirm error:', error);
+        res.status(400).json({
+            success: false,
+            message: error.message || 'Two-factor confirmation failed',
+        });
+    }
+};
+
+/**
+ * @swagger
+ * /api/auth/2fa/disable:
+ *   post:
+ *     tags: [Authentication]
+ *     summary: Disable two-factor authentication
+ *     description: Requires the password and a current code or recovery code. Not allowed for roles that require two-factor.
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - password
+ *               - code
+ *             properties:
+ *               password:
+ *                 type: string
+ *               code:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Two-factor disabled
+ *       400:
+ *         description: Invalid password or code, or two-factor is required for the role
+ */
+export const disableTwoFactor = async (req: Request, res: Response): Promise<void> => {
+    try {
+        const { password, code } = req.body;
+
+        await twoFactorService.disable(req.user!.id, password, code);
+
+        res.status(200).json({
+            success: true,
+            message: 'Two-factor authentication disabled',
+        });
+    } catch (error: any) {
+        logger.error('Two-factor disable error:', error);
+        res.status(400).json({
+            success: false,
+            message: error.message || 'Failed to disable two-factor authentication',
+        });
+    }
+};
+
+/**
+ * @swagger
+ * /api/auth/2fa/recovery-codes:
+ *   post:
+ *     tags: [Authentication]
+ *     summary: Regenerate recovery codes
+ *     description: Replaces all recovery codes. Requires a current authenticator code.
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - code
+ *             properties:
+ *               code:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: New recovery codes
+ *       400:
+ *         description: Invalid code or two-factor not enabled
+ */
+export const regenerateRecoveryCodes = async (req: Request, res: Response): Promise<void> => {
+    try {
+        const recoveryCodes = await twoFactorService.regenerateRecoveryCodes(req.user!.id, req.body.code);
+
+        res.status(200).json({
+            success: true,
+            message: 'Recovery codes regenerated',
+            data: { recoveryCodes },
+        });
+    } catch (error: any) {
+        logger.error('Regenerate recovery codes error:', error);
+        res.status(400).json({
+            success: false,
+            message: error.message || 'Failed to regenerate recovery codes',
+        });
+    }
+};
+
+/**
+ * @swagger
+ * /api/auth/sessions:
+ *   get:
+ *     tags: [Authentication]
+ *     summary: List active sessions (signed-in devices)
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Active sessions, most recently used first. The session of the calling token has current=true.
+ */
+export const getSessions = async (req: Request, res: Response): Promise<void> => {
+    try {
+        const user = req.user!;
+
+        const sessions = await authService.getSessions(user.id, user.sessionId);
+
+        res.status(200).json({
+            success: true,
+            message: 'Sessions retrieved successfully',
+            data: sessions,
+        });
+    } catch (error: any) {
+        logger.error('Get sessions error:', error);
+        res.status(500).json({
+            success: false,
+            message: 'Failed to retrieve sessions',
+        });
+    }
+};
+
+/**
+ * @swagger
+ * /api/auth/sessions:
+ *   delete:
+ *     tags: [Authentication]
+ *     summary: Sign out all other sessions
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Every session except the current one was revoked
+ */
+export const revokeOtherSessions = async (req: Request, res: Response): Promise<void> => {
+    try {
+        const user = req.user!;
+
+        const revoked = await authService.revokeOtherSessions(user.id, user.sessionId);
+
+        res.status(200).json({
+            success: true,
+            message: 'Other sessions signed out',
+            data: { revoked },
+        });
+    } catch (error: any) {
+        logger.error('Revoke sessions error:', error);
+        res.status(500).json({
+            success: false,
+            message: 'Failed to revoke sessions',
+        });
+    }
+};
+
+/**
+ * @swagger
+ * /api/auth/sessions/{id}:
+ *   delete:
+ *     tags: [Authentication]
+ *     summary: Sign out a session
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Session revoked
+ *       404:
+ *         description: Session not found
+ */
+export const revokeSession = async (req: Request, res: Response): Promise<void> => {
+    try {
+        const user = req.user!;
+
+        await authService.revokeSession(user.id, req.params.id as string);
+
+        res.status(200).json({
+            success: true,
+            message: 'Session signed out',
+        });
+    } catch (error: any) {
+        logger.error('Revoke session error:', error);
+        const status = error.message.includes('not found') ? 404 : 400;
+        res.status(status).json({
+            success: false,
+            message: error.message || 'Failed to revoke session',
+        });
+    }
+};
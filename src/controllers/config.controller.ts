@@ -1,5 +1,6 @@
 import { Request, Response } from 'express';
 import configService from '../services/config.service';
+import consentService from '../services/consent.service';
 import logger from '../config/logger';
 
 /**
@@ -61,3 +62,39 @@ export const getCurrentConfig = async (_req: Request, res: Response): Promise<vo
         });
     }
 };
+
+/**
+ * @swagger
+ * /api/config/consent:
+ *   get:
+ *     tags: [Configuration]
+ *     summary: Get the current data protection notice
+ *     description: The notice to show at registration. Its `version` is sent as `consentVersion`. `data` is null until a notice is published. No authentication required.
+ *     responses:
+ *       200:
+ *         description: Current data protection notice
+ */
+export const getConsentDocument = async (_req: Request, res: Response): Promise<void> => {
+    try {
+        const document = await consentService.getCurrentDocument();
+
+        res.status(200).json({
+            success: true,
+            data: document && {
+                version: document.version,
+                title: document.title,
+                content: document.content,
+                purposes: document.purposes,
+                effectiveFrom: document.effectiveFrom,
+            },
+            timestamp: new Date().toISOString(),
+        });
+    } catch (error: any) {
+        logger.error('Get consent document error:', error);
+        res.status(500).json({
+            success: false,
+            message: 'Failed to get data protection notice',
+            timestamp: new Date().toISOString(),
+        });
+    }
+};
@@ -1,6 +1,38 @@
 import { Request, Response } from 'express';
 import fileService from '../services/file.service';
+import storageService from '../services/storage.service';
 import logger from '../config/logger';
+import { auditContext } from '../utils/requestContext';
+import { DocumentLinkKind, DocumentLinkParams } from '../types/api.types';
+
+const LINK_KINDS: DocumentLinkKind[] = ['profile', 'application'];
+
+// Types a signed link may show in the browser; anything else is downloaded
+const INLINE_TYPES = ['application/pdf', 'image/jpeg', 'image/png', 'image/gif', 'image/webp'];
+
+/**
+ * Stream a stored document to the client, as an attachment or for display in the browser
+ */
+const sendDocument = async (
+    res: Response,
+    fileInfo: { location: string; filename: string; mimeType: string },
+    disposition: 'attachment' | 'inline' = 'attachment'
+): Promise<void> => {
+    const stream = await storageService.read(fileInfo.location);
+
+    res.attachment(fileInfo.filename);
+    if (disposition === 'inline') {
+        // Same encoded filename, shown in the browser instead of saved
+        res.set('Content-Disposition', res.get('Content-Disposition')!.replace(/^attachment/, 'inline'));
+    }
+    res.type(fileInfo.mimeType);
+
+    stream.on('error', (err) => {
+        logger.error(`Document stream error for ${fileInfo.location}: ${err.message}`);
+        res.destroy(err);
+    });
+    stream.pipe(res);
+};
 
 /**
  * @swagger
@@ -32,10 +64,11 @@ export const downloadProfileDocument = async (req: Request, res: Response): Prom
         const fileInfo = await fileService.getProfileDocumentPath(
             user.id,
             user.role,
-            documentId as string
+            documentId as string,
+            auditContext(req)
         );
 
-        res.download(fileInfo.path, fileInfo.filename);
+        await sendDocument(res, fileInfo);
     } catch (error: any) {
         logger.error(`Download profile document error: ${error.message}`);
 
@@ -101,10 +134,11 @@ export const downloadApplicationDocument = async (req: Request, res: Response):
         const fileInfo = await fileService.getApplicationDocumentPath(
             user.id,
             user.role,
-            documentId as string
+            documentId as string,
+            auditContext(req)
         );
 
-        res.download(fileInfo.path, fileInfo.filename);
+        await sendDocument(res, fileInfo);
     } catch (error: any) {
         logger.error(`Download application document error: ${error.message}`);
 
@@ -139,3 +173,280 @@ export const downloadApplicationDocument = async (req: Request, res: Response):
         });
     }
 };
+
+/**
+ * @swagger
+ * /api/files/appeal/{documentId}:
+ *   get:
+ *     tags: [Files]
+ *     summary: Download an appeal supporting document
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: documentId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: File download
+ *       403:
+ *         description: Access denied
+ *       404:
+ *         description: Document or file not found
+ */
+export const downloadAppealDocument = async (req: Request, res: Response): Promise<void> => {
+    try {
+        const { documentId } = req.params;
+        const user = (req as any).user!;
+
+        const fileInfo = await fileService.getAppealDocumentPath(
+            user.id,
+            user.role,
+            documentId as string,
+            auditContext(req)
+        );
+
+        await sendDocument(res, fileInfo);
+    } catch (error: any) {
+        logger.error(`Download appeal document error: ${error.message}`);
+
+        if (error.message === 'Access denied') {
+            res.status(403).json({
+                success: false,
+                error: {
+                    code: 'AUTHORIZATION_DENIED',
+                    message: 'You do not have permission to access this document',
+                },
+            });
+            return;
+        }
+
+        if (error.message === 'Document not found' || error.message === 'File not found on server') {
+            res.status(404).json({
+                success: false,
+                error: {
+                    code: 'RESOURCE_NOT_FOUND',
+                    message: 'Document not found',
+                },
+            });
+            return;
+        }
+
+        res.status(500).json({
+            success: false,
+            error: {
+                code: 'INTERNAL_SERVER_ERROR',
+                message: 'Failed to download document',
+            },
+        });
+    }
+};
+
+/**
+ * @swagger
+ * /api/files/{kind}/{documentId}/link:
+ *   post:
+ *     tags: [Files]
+ *     summary: Create a signed download link
+ *     description: Returns a short-lived URL (FILE_LINK_TTL_SECONDS, 5 minutes by default) that downloads this one document without a bearer token, e.g. in a new browser tab or an embedded PDF viewer. The same access checks as the download endpoints apply.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: kind
+ *         required: true
+ *         schema:
+ *           type: string
+ *           enum: [profile, application]
+ *       - in: path
+ *         name: documentId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       201:
+ *         description: Signed URL and its expiry
+ *       403:
+ *         description: Access denied
+ *       404:
+ *         description: Document or file not found
+ */
+export const createDocumentLink = async (req: Request, res: Response): Promise<void> => {
+    try {
+        const { kind, documentId } = req.params;
+        const user = (req as any).user!;
+
+        if (!LINK_KINDS.includes(kind as DocumentLinkKind)) {
+            res.status(404).json({
+                success: false,
+                error: {
+                    code: 'RESOURCE_NOT_FOUND',
+                    message: `Signed links are available for ${LINK_KINDS.join(' and ')} documents`,
+                },
+            });
+            return;
+        }
+
+        const link = await fileService.createDownloadLink(
+            user.id,
+            user.role,
+            kind as DocumentLinkKind,
+            documentId as string,
+            auditContext(req)
+        );
+
+        res.status(201).json({
+            success: true,
+            data: link,
+            timestamp: new Date().toISOString(),
+        });
+    } catch (error: any) {
+        logger.error(`Create document link error: ${error.message}`);
+
+        if (error.message === 'Access denied') {
+            res.status(403).json({
+                success: false,
+                error: {
+                    code: 'AUTHORIZATION_DENIED',
+                    message: 'You do not have permission to access this document',
+                },
+            });
+            return;
+        }
+
+        if (error.message === 'Document not found' || error.message === 'File not found on server') {
+            res.status(404).json({
+                success: false,
+                error: {
+                    code: 'RESOURCE_NOT_FOUND',
+                    message: 'Document not found',
+                },
+            });
+            return;
+        }
+
+        res.status(500).json({
+            success: false,
+            error: {
+                code: 'INTERNAL_SERVER_ERROR',
+                message: 'Failed to create document link',
+            },
+        });
+    }
+};
+
+/**
+ * @swagger
+ * /api/files/signed/{kind}/{documentId}:
+ *   get:
+ *     tags: [Files]
+ *     summary: Open a document through a signed link
+ *     description: No bearer token. The signature and expiry are checked, access is re-checked for the user the link was issued to, and the download is recorded in the audit log. PDFs and images are served inline; other types are downloaded.
+ *     parameters:
+ *       - in: path
+ *         name: kind
+ *         required: true
+ *         schema:
+ *           type: string
+ *           enum: [profile, application]
+ *       - in: path
+ *         name: documentId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: uid
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: exp
+ *         required: true
+ *         schema:
+ *           type: integer
+ *       - in: query
+ *         name: sig
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: File contents
+ *       403:
+ *         description: Invalid or expired link, or access revoked
+ *       404:
+ *         description: Document or file not found
+ */
+export const downloadSignedDocument = async (req: Request, res: Response): Promise<void> => {
+    try {
+        const { kind, documentId } = req.params;
+        const { uid, exp, sig } = req.query;
+
+        if (!LINK_KINDS.includes(kind as DocumentLinkKind)) {
+            res.status(404).json({
+                success: false,
+                error: {
+                    code: 'RESOURCE_NOT_FOUND',
+                    message: 'Document not found',
+                },
+            });
+            return;
+        }
+
+        const params: Partial<DocumentLinkParams> = {
+            uid: typeof uid === 'string' ? uid : undefined,
+            exp: typeof exp === 'string' ? exp : undefined,
+            sig: typeof sig === 'string' ? sig : undefined,
+        };
+
+        const fileInfo = await fileService.getSignedDocument(kind as DocumentLinkKind, documentId as string, params, {
+            ipAddress: req.ip || req.socket.remoteAddress || undefined,
+            userAgent: req.get('user-agent') || undefined,
+        });
+
+        // The link is the credential: keep it out of caches, and let the configured frontends embed the document.
+        // The document itself may not load or run anything, and is never sniffed into another type.
+        const frontends = process.env.CORS_ORIGIN?.split(',').map(o => o.trim()).filter(Boolean) || [];
+        res.set('Cache-Control', 'private, no-store');
+        res.set('Cross-Origin-Resource-Policy', 'cross-origin');
+        res.set('Content-Security-Policy', `default-src 'none'; frame-ancestors 'self' ${frontends.join(' ')}`.trim());
+        res.set('X-Content-Type-Options', 'nosniff');
+        res.removeHeader('X-Frame-Options');
+
+        await sendDocument(res, fileInfo, INLINE_TYPES.includes(fileInfo.mimeType) ? 'inline' : 'attachment');
+    } catch (error: any) {
+        logger.error(`Signed document download error: ${error.message}`);
+
+        if (error.message === 'Invalid or expired link' || error.message === 'Access denied') {
+            res.status(403).json({
+                success: false,
+                error: {
+                    code: 'AUTHORIZATION_DENIED',
+                    message: 'This link is invalid or has expired',
+                },
+            });
+            return;
+        }
+
+        if (error.message === 'Document not found' || error.message === 'File not found on server') {
+            res.status(404).json({
+                success: false,
+                error: {
+                    code: 'RESOURCE_NOT_FOUND',
+                    message: 'Document not found',
+                },
+            });
+            return;
+        }
+
+        res.status(500).json({
+            success: false,
+            error: {
+                code: 'INTERNAL_SERVER_ERROR',
+                message: 'Failed to download document',
+            },
+        });
+    }
+};
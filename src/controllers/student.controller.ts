@@ -1,8 +1,13 @@
 import { Request, Response } from 'express';
 import studentService from '../services/student.service';
+import appealService from '../services/appeal.service';
+import dataExportService from '../services/dataExport.service';
+import erasureService from '../services/erasure.service';
+import consentService from '../services/consent.service';
 import { ProfileDocumentType, ApplicationDocumentType } from '@prisma/client';
 import logger from '../config/logger';
 import { validateFileUpload } from '../utils/validators';
+import { auditContext, consentContext } from '../utils/requestContext';
 
 // ==================== PROFILE ====================
 
@@ -502,6 +507,7 @@ export const createDraft = async (req: Request, res: Response): Promise<void> =>
  *   put:
  *     tags: [Student]
  *     summary: Update draft application
+ *     description: Updates a DRAFT application. An application RETURNED_FOR_CORRECTION can also be updated, but only the formData paths flagged in its open correction round may change.
  *     security:
  *       - bearerAuth: []
  *     parameters:
@@ -519,6 +525,8 @@ export const createDraft = async (req: Request, res: Response): Promise<void> =>
  *     responses:
  *       200:
  *         description: Draft updated successfully
+ *       400:
+ *         description: Not a draft, or a field not flagged for correction was changed
  */
 export const updateDraft = async (req: Request, res: Response): Promise<void> => {
     try {
@@ -568,7 +576,7 @@ export const updateDraft = async (req: Request, res: Response): Promise<void> =>
  *       | `DEATH_CERTIFICATE` | Optional | Death certificate (if applicable for orphan status) |
  *
  *       **Rules:**
- *       - The application must be in `DRAFT` status.
+ *       - The application must be in `DRAFT` status, or in `RETURNED_FOR_CORRECTION` for a document type flagged in the open correction round.
  *       - Only `BIRTH_CERTIFICATE_NID` blocks submission if missing — all others are optional.
  *       - Send as `multipart/form-data` with a `file` field (PDF, JPG, PNG; max 10MB) and a `documentType` field.
  *       - Multiple documents of different types can be uploaded.
@@ -809,7 +817,7 @@ export const linkProfileDocument = async (req: Request, res: Response): Promise<
  * /api/student/applications/{id}/submit:
  *   post:
  *     tags: [Student]
- *     summary: Submit application (DRAFT → PENDING)
+ *     summary: Submit application (DRAFT or RETURNED_FOR_CORRECTION → PENDING)
  *     description: |
  *       Transitions the application from `DRAFT` to `PENDING` status for admin review.
  *
@@ -827,6 +835,10 @@ export const linkProfileDocument = async (req: Request, res: Response): Promise<
  *
  *       After submission, a snapshot of the student profile is saved and the application
  *       can no longer be edited. The student will receive a notification.
+ *
+ *       **Resubmission:** an application in `RETURNED_FOR_CORRECTION` is resubmitted through
+ *       this endpoint once every flagged document has been re-uploaded. The snapshot is
+ *       refreshed and the correction round is closed.
  *     security:
  *       - bearerAuth: []
  *     parameters:
@@ -869,6 +881,289 @@ export const submitApplication = async (req: Request, res: Response): Promise<vo
     }
 };
 
+// ==================== APPLICATION WITHDRAWAL ====================
+
+/**
+ * @swagger
+ * /api/student/applications/{id}/withdraw:
+ *   post:
+ *     tags: [Student]
+ *     summary: Withdraw an application
+ *     description: |
+ *       Withdraws an application that has not been decided yet (by default from `PENDING`,
+ *       `UNDER_REVIEW`, `RETURNED_FOR_CORRECTION`, `SHORTLISTED` or `WAITLISTED`). A reason is
+ *       required and is recorded in the status history. Admins are notified.
+ *
+ *       A withdrawn application no longer counts as active. The student can apply again
+ *       in a later application period.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         description: Application UUID
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - reason
+ *             properties:
+ *               reason:
+ *                 type: string
+ *                 example: "I received a full scholarship from my county"
+ *     responses:
+ *       200:
+ *         description: Application withdrawn — status is now WITHDRAWN
+ *       400:
+ *         description: Missing reason or the application can no longer be withdrawn
+ *       404:
+ *         description: Application not found
+ */
+export const withdrawApplication = async (req: Request, res: Response): Promise<void> => {
+    try {
+        const userId = (req as any).user!.id;
+        const { id } = req.params;
+        const application = await studentService.withdrawApplication(userId, id as string, req.body.reason);
+
+        logger.info('Application withdrawn', { userId, applicationId: application.id });
+
+        res.status(200).json({
+            success: true,
+            message: 'Application withdrawn successfully',
+            data: application,
+            timestamp: new Date().toISOString(),
+        });
+    } catch (error: any) {
+        logger.error('Withdraw application error:', error);
+        const status = error.message.includes('not found') ? 404 : 400;
+        res.status(status).json({
+            success: false,
+            error: {
+                code: status === 404
+                    ? 'RESOURCE_NOT_FOUND'
+                    : error.message.includes('status transition') ? 'INVALID_STATE_TRANSITION' : 'VALIDATION_ERROR',
+                message: error.message || 'Failed to withdraw application',
+            },
+            timestamp: new Date().toISOString(),
+        });
+    }
+};
+
+// ==================== APPEALS ====================
+
+/**
+ * @swagger
+ * /api/student/applications/{id}/appeal:
+ *   post:
+ *     tags: [Student]
+ *     summary: Appeal a rejected application
+ *     description: |
+ *       Moves a `REJECTED` application to `APPEALED` and opens an appeal. Appeals must be submitted
+ *       within the appeal window of the application period (14 days after the rejection by default).
+ *       Supporting documents can then be attached with `POST /api/student/appeals/{appealId}/documents`.
+ *
+ *       A dismissed or closed appeal is final.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         description: Application UUID
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - statement
+ *             properties:
+ *               statement:
+ *                 type: string
+ *                 minLength: 50
+ *                 maxLength: 5000
+ *     responses:
+ *       201:
+ *         description: Appeal submitted — application status is now APPEALED
+ *       400:
+ *         description: Not rejected, appeal window closed, or already appealed
+ *       404:
+ *         description: Application not found
+ */
+export const submitAppeal = async (req: Request, res: Response): Promise<void> => {
+    try {
+        const userId = (req as any).user!.id;
+        const { id } = req.params;
+        const appeal = await appealService.submitAppeal(userId, id as string, req.body.statement);
+
+        res.status(201).json({
+            success: true,
+            message: 'Appeal submitted successfully',
+            data: appeal,
+            timestamp: new Date().toISOString(),
+        });
+    } catch (error: any) {
+        logger.error('Submit appeal error:', error);
+        const status = error.message.includes('not found') ? 404 : 400;
+        res.status(status).json({
+            success: false,
+            error: {
+                code: status === 404
+                    ? 'RESOURCE_NOT_FOUND'
+                    : error.message.includes('status transition') || error.message.includes('Only rejected')
+                        ? 'INVALID_STATE_TRANSITION'
+                        : 'VALIDATION_ERROR',
+                message: error.message || 'Failed to submit appeal',
+            },
+            timestamp: new Date().toISOString(),
+        });
+    }
+};
+
+/**
+ * @swagger
+ * /api/student/applications/{id}/appeals:
+ *   get:
+ *     tags: [Student]
+ *     summary: Get the appeals of an application
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Appeals with their documents and outcomes
+ *       404:
+ *         description: Application not found
+ */
+export const getApplicationAppeals = async (req: Request, res: Response): Promise<void> => {
+    try {
+        const userId = (req as any).user!.id;
+        const { id } = req.params;
+        const appeals = await appealService.getStudentAppeals(userId, id as string);
+
+        res.status(200).json({
+            success: true,
+            data: appeals,
+            timestamp: new Date().toISOString(),
+        });
+    } catch (error: any) {
+        logger.error('Get application appeals error:', error);
+        res.status(404).json({
+            success: false,
+            error: {
+                code: 'RESOURCE_NOT_FOUND',
+                message: error.message || 'Application not found',
+            },
+            timestamp: new Date().toISOString(),
+        });
+    }
+};
+
+/**
+ * @swagger
+ * /api/student/appeals/{appealId}/documents:
+ *   post:
+ *     tags: [Student]
+ *     summary: Upload a supporting document for an appeal
+ *     description: Attaches a document to a PENDING appeal. Same file type and size limits as application documents.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: appealId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         multipart/form-data:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - file
+ *             properties:
+ *               file:
+ *                 type: string
+ *                 format: binary
+ *     responses:
+ *       201:
+ *         description: Document uploaded
+ *       400:
+ *         description: No file, invalid file, or appeal no longer pending
+ */
+export const uploadAppealDocument = async (req: Request, res: Response): Promise<void> => {
+    try {
+        const userId = (req as any).user!.id;
+        const { appealId } = req.params;
+        const file = (req as any).file;
+
+        if (!file) {
+            res.status(400).json({
+                success: false,
+                error: {
+                    code: 'FILE_UPLOAD_FAILED',
+                    message: 'No file uploaded',
+                },
+                timestamp: new Date().toISOString(),
+            });
+            return;
+        }
+
+        const validation = validateFileUpload(file);
+        if (!validation.valid) {
+            res.status(400).json({
+                success: false,
+                error: {
+                    code: 'FILE_UPLOAD_FAILED',
+                    message: validation.error,
+                },
+                timestamp: new Date().toISOString(),
+            });
+            return;
+        }
+
+        const document = await appealService.uploadAppealDocument(userId, appealId as string, {
+            originalname: file.originalname,
+            filename: file.filename,
+            path: file.path,
+            size: file.size,
+            mimetype: file.mimetype,
+        });
+
+        res.status(201).json({
+            success: true,
+            message: 'Document uploaded successfully',
+            data: document,
+            timestamp: new Date().toISOString(),
+        });
+    } catch (error: any) {
+        logger.error('Upload appeal document error:', error);
+        res.status(400).json({
+            success: false,
+            error: {
+                code: 'FILE_UPLOAD_FAILED',
+                message: error.message || 'Failed to upload document',
+            },
+            timestamp: new Date().toISOString(),
+        });
+    }
+};
+
 // ==================== APPLICATION HISTORY ====================
 
 /**
@@ -990,3 +1285,292 @@ export const getApplicationHistory = async (req: Request, res: Response): Promis
         });
     }
 };
+
+// ==================== DATA EXPORT ====================
+
+/**
+ * @swagger
+ * /api/student/data-export:
+ *   get:
+ *     tags: [Student]
+ *     summary: Download a copy of all your data
+ *     description: >
+ *       Data-subject access request under the Kenya Data Protection Act. Returns a ZIP
+ *       with your account, profile, applications (form data, snapshots, status history,
+ *       appeals, disbursements), notifications, consent logs and uploaded documents,
+ *       plus a manifest.json describing every file.
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: ZIP archive download
+ *         content:
+ *           application/zip:
+ *             schema:
+ *               type: string
+ *               format: binary
+ */
+export const exportMyData = async (req: Request, res: Response): Promise<void> => {
+    try {
+        const { archive, filename } = await dataExportService.createExport((req as any).user!.id, auditContext(req));
+
+        archive.on('error', (err) => {
+            logger.error('Data export archive error:', err);
+            res.destroy(err);
+        });
+
+        res.setHeader('Content-Type', 'application/zip');
+        res.setHeader('Content-Disposition', `attachment; filename=${filename}`);
+        archive.pipe(res);
+        await archive.finalize();
+    } catch (error: any) {
+        logger.error('Data export error:', error);
+        if (res.headersSent) {
+            res.destroy(error);
+            return;
+        }
+        res.status(500).json({
+            success: false,
+            error: {
+                code: 'INTERNAL_SERVER_ERROR',
+                message: error.message || 'Failed to export data',
+            },
+            timestamp: new Date().toISOString(),
+        });
+    }
+};
+
+// ==================== DATA ERASURE ====================
+
+/**
+ * @swagger
+ * /api/student/erasure-requests:
+ *   post:
+ *     tags: [Student]
+ *     summary: Ask for your personal data to be erased
+ *     description: >
+ *       An admin reviews the request. Once approved, your documents are deleted, your identity is
+ *       removed from your profile and applications, and your account is closed. Requests cannot be
+ *       approved while one of your applications is still being processed.
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               reason:
+ *                 type: string
+ *     responses:
+ *       201:
+ *         description: Erasure request submitted
+ *       400:
+ *         description: A request is already pending
+ */
+export const requestErasure = async (req: Request, res: Response): Promise<void> => {
+    try {
+        const userId = (req as any).user!.id;
+        const request = await erasureService.requestErasure(userId, req.body.reason, auditContext(req));
+
+        res.status(201).json({
+            success: true,
+            message: 'Erasure request submitted',
+            data: request,
+            timestamp: new Date().toISOString(),
+        });
+    } catch (error: any) {
+        logger.error('Request erasure error:', error);
+        res.status(400).json({
+            success: false,
+            error: {
+                code: 'VALIDATION_ERROR',
+                message: error.message || 'Failed to submit erasure request',
+            },
+            timestamp: new Date().toISOString(),
+        });
+    }
+};
+
+/**
+ * @swagger
+ * /api/student/erasure-requests:
+ *   get:
+ *     tags: [Student]
+ *     summary: List your erasure requests
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Erasure requests, newest first
+ */
+export const getErasureRequests = async (req: Request, res: Response): Promise<void> => {
+    try {
+        const userId = (req as any).user!.id;
+        const requests = await erasureService.getMyRequests(userId);
+
+        res.status(200).json({
+            success: true,
+            data: requests,
+            timestamp: new Date().toISOString(),
+        });
+    } catch (error: any) {
+        logger.error('Get erasure requests error:', error);
+        res.status(500).json({
+            success: false,
+            error: {
+                code: 'INTERNAL_SERVER_ERROR',
+                message: error.message || 'Failed to get erasure requests',
+            },
+            timestamp: new Date().toISOString(),
+        });
+    }
+};
+
+// ==================== CONSENT ====================
+
+/**
+ * @swagger
+ * /api/student/consent:
+ *   get:
+ *     tags: [Student]
+ *     summary: Get the current data protection notice and your consents
+ *     description: >
+ *       `upToDate` is false when a newer notice has taken effect. Until it is accepted,
+ *       other student routes (except data export and erasure) return 403 with code CONSENT_REQUIRED.
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Current notice, whether it has been accepted, and consent per purpose
+ */
+export const getConsent = async (req: Request, res: Response): Promise<void> => {
+    try {
+        const userId = (req as any).user!.id;
+        const status = await consentService.getStatus(userId);
+
+        res.status(200).json({
+            success: true,
+            data: status,
+            timestamp: new Date().toISOString(),
+        });
+    } catch (error: any) {
+        logger.error('Get consent error:', error);
+        res.status(500).json({
+            success: false,
+            error: {
+                code: 'INTERNAL_SERVER_ERROR',
+                message: error.message || 'Failed to get consent',
+            },
+            timestamp: new Date().toISOString(),
+        });
+    }
+};
+
+/**
+ * @swagger
+ * /api/student/consent:
+ *   post:
+ *     tags: [Student]
+ *     summary: Accept the current data protection notice
+ *     description: Data processing is always granted. Optional purposes of the notice left out of `purposes` are withdrawn.
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - version
+ *             properties:
+ *               version:
+ *                 type: string
+ *               purposes:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *                   enum: [INSTITUTION_SHARING, MARKETING]
+ *     responses:
+ *       200:
+ *         description: Consent recorded
+ *       400:
+ *         description: Version is not the current notice
+ */
+export const acceptConsent = async (req: Request, res: Response): Promise<void> => {
+    try {
+        const userId = (req as any).user!.id;
+        const status = await consentService.acceptDocument(userId, req.body.version, req.body.purposes, consentContext(req));
+
+        res.status(200).json({
+            success: true,
+            message: 'Consent recorded',
+            data: status,
+            timestamp: new Date().toISOString(),
+        });
+    } catch (error: any) {
+        logger.error('Accept consent error:', error);
+        res.status(400).json({
+            success: false,
+            error: {
+                code: 'VALIDATION_ERROR',
+                message: error.message || 'Failed to record consent',
+            },
+            timestamp: new Date().toISOString(),
+        });
+    }
+};
+
+/**
+ * @swagger
+ * /api/student/consent/withdraw:
+ *   post:
+ *     tags: [Student]
+ *     summary: Withdraw consent for optional purposes
+ *     description: Consent to data processing cannot be withdrawn; request erasure instead.
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - purposes
+ *             properties:
+ *               purposes:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *                   enum: [INSTITUTION_SHARING, MARKETING]
+ *     responses:
+ *       200:
+ *         description: Consent withdrawn
+ *       400:
+ *         description: Purpose is required or was not consented to
+ */
+export const withdrawConsent = async (req: Request, res: Response): Promise<void> => {
+    try {
+        const userId = (req as any).user!.id;
+        const status = await consentService.withdraw(userId, req.body.purposes, consentContext(req));
+
+        res.status(200).json({
+            success: true,
+            message: 'Consent withdrawn',
+            data: status,
+            timestamp: new Date().toISOString(),
+        });
+    } catch (error: any) {
+        logger.error('Withdraw consent error:', error);
+        res.status(400).json({
+            success: false,
+            error: {
+                code: 'VALIDATION_ERROR',
+                message: error.message || 'Failed to withdraw consent',
+            },
+            timestamp: new Date().toISOString(),
+        });
+    }
+};
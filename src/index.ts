@@ -8,6 +8,9 @@ import { apiLimiter } from './middleware/rateLimiter';
 import { errorHandler, notFoundHandler } from './middleware/errorHandler';
 import logger from './config/logger';
 import { ensureUploadDir } from './utils/fileStorage';
+import { startRetentionJob } from './jobs/retention.job';
+import prisma from './config/database';
+import { countMissingBlindIndexes } from './utils/fieldEncryption';
 
 // Import routes
 import authRoutes from './routes/auth.routes';
@@ -90,10 +93,27 @@ app.use(notFoundHandler);
 app.use(errorHandler);
 
 // Start server
-app.listen(PORT, () => {
-    logger.info(`Server is running on port ${PORT}`);
-    logger.info(`API Documentation available at http://localhost:${PORT}/api-docs`);
-    logger.info(`Environment: ${process.env.NODE_ENV || 'development'}`);
+const start = async () => {
+    // Rows without blind indexes would slip past the national ID / passport uniqueness checks
+    const missingBlindIndexes = await countMissingBlindIndexes(prisma);
+    if (missingBlindIndexes > 0) {
+        logger.error(`${missingBlindIndexes} encrypted values have no blind index yet. Run \`npm run encryption:rotate\` before starting the app.`);
+        process.exit(1);
+    }
+
+    app.listen(PORT, () => {
+        logger.info(`Server is running on port ${PORT}`);
+        logger.info(`API Documentation available at http://localhost:${PORT}/api-docs`);
+        logger.info(`Environment: ${process.env.NODE_ENV || 'development'}`);
+
+        // Scheduled jobs
+        startRetentionJob();
+    });
+};
+
+start().catch(err => {
+    logger.error('Failed to start server:', err);
+    process.exit(1);
 });
 
 // Graceful shutdown
@@ -0,0 +1,30 @@
+import logger from '../config/logger';
+import retentionService from '../services/retention.service';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// Give the server a few minutes to settle before the first run
+const FIRST_RUN_DELAY_MS = 5 * 60 * 1000;
+
+/**
+ * Run the retention purge on a fixed interval (RETENTION_JOB_INTERVAL_HOURS, daily by
+ * default). Set RETENTION_JOB_ENABLED=false on all but one instance when scaling out.
+ */
+export const startRetentionJob = (): void => {
+    if (process.env.RETENTION_JOB_ENABLED === 'false') {
+        logger.info('Retention job disabled');
+        return;
+    }
+
+    const intervalHours = Number(process.env.RETENTION_JOB_INTERVAL_HOURS) || 24;
+
+    const run = () => {
+        retentionService.run({ actorId: null })
+            .catch(err => logger.error('Retention job failed', err));
+    };
+
+    setTimeout(run, FIRST_RUN_DELAY_MS).unref();
+    setInterval(run, intervalHours * HOUR_MS).unref();
+
+    logger.info(`Retention job scheduled every ${intervalHours}h`);
+};
@@ -1,9 +1,13 @@
 import { Request, Response, NextFunction } from 'express';
 import jwt from 'jsonwebtoken';
 import { JwtPayload } from '../types/auth.types';
-import { UserRole } from '@prisma/client';
+import sessionService from '../services/session.service';
 
-export const authenticate = (req: Request, res: Response, next: NextFunction): void => {
+/**
+ * Verify the access token and load the user from the database. The session must
+ * still be live and the account active; the role comes from the database, not the token.
+ */
+export const authenticate = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
     try {
         const authHeader = req.headers.authorization;
 
@@ -24,10 +28,30 @@ export const authenticate = (req: Request, res: Response, next: NextFunction): v
 
         const decoded = jwt.verify(token, secret) as JwtPayload;
 
+        // Two-factor challenge tokens only unlock the second login step
+        if (decoded.purpose) {
+            res.status(401).json({
+                success: false,
+                message: 'Invalid token',
+            });
+            return;
+        }
+
+        const user = decoded.sid ? await sessionService.findActiveSessionUser(decoded.id, decoded.sid) : null;
+
+        if (!user) {
+            res.status(401).json({
+                success: false,
+                message: 'Session has ended',
+            });
+            return;
+        }
+
         (req as any).user = {
-            id: decoded.id,
-            email: decoded.email,
-            role: decoded.role as UserRole,
+            id: user.id,
+            email: user.email,
+            role: user.role,
+            sessionId: decoded.sid,
         };
 
         next();
@@ -0,0 +1,40 @@
+import { Request, Response, NextFunction } from 'express';
+import consentService from '../services/consent.service';
+
+/**
+ * Middleware to stop users who have not accepted the current data protection
+ * notice until they do (POST /api/student/consent)
+ */
+export const requireCurrentConsent = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+        const user = (req as any).user;
+
+        if (!user) {
+            res.status(401).json({
+                success: false,
+                message: 'Authentication required'
+            });
+            return;
+        }
+
+        if (!(await consentService.hasCurrentConsent(user.id))) {
+            const document = await consentService.getCurrentDocument();
+            res.status(403).json({
+                success: false,
+                message: 'Please accept the updated data protection notice to continue',
+                error: {
+                    code: 'CONSENT_REQUIRED',
+                    details: { version: document?.version },
+                },
+            });
+            return;
+        }
+
+        next();
+    } catch (error) {
+        res.status(500).json({
+            success: false,
+            message: 'Internal server error'
+        });
+    }
+};
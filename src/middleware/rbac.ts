@@ -1,5 +1,7 @@
 import { Request, Response, NextFunction } from 'express';
 import { UserRole } from '@prisma/client';
+import { Permission } from '../config/permissions';
+import permissionService from '../services/permission.service';
 
 /**
  * Middleware to check if user has admin role
@@ -98,3 +100,72 @@ export const requireBoard = (req: Request, res: Response, next: NextFunction): v
         });
     }
 };
+
+/**
+ * Middleware to check that the user holds every listed permission, through
+ * their role, a personal grant or super-admin status
+ */
+export const requirePermission = (...permissions: Permission[]) =>
+    async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+        try {
+            const user = (req as any).user;
+
+            if (!user) {
+                res.status(401).json({
+                    success: false,
+                    message: 'Authentication required'
+                });
+                return;
+            }
+
+            const held = await permissionService.getUserPermissions(user.id, user.role);
+            const missing = permissions.filter(permission => !held.includes(permission));
+
+            if (missing.length > 0) {
+                res.status(403).json({
+                    success: false,
+                    message: `Missing permission: ${missing.join(', ')}`
+                });
+                return;
+            }
+
+            next();
+        } catch (error) {
+            res.status(500).json({
+                success: false,
+                message: 'Internal server error'
+            });
+        }
+    };
+
+/**
+ * Middleware to check if user is a super-admin
+ */
+export const requireSuperAdmin = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+        const user = (req as any).user;
+
+        if (!user) {
+            res.status(401).json({
+                success: false,
+                message: 'Authentication required'
+            });
+            return;
+        }
+
+        if (!(await permissionService.isSuperAdmin(user.id))) {
+            res.status(403).json({
+                success: false,
+                message: 'Super-admin access required'
+            });
+            return;
+        }
+
+        next();
+    } catch (error) {
+        res.status(500).json({
+            success: false,
+            message: 'Internal server error'
+        });
+    }
+};
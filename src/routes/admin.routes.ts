@@ -1,11 +1,13 @@
 import { Router } from 'express';
 import * as adminController from '../controllers/admin.controller';
 import { authenticate } from '../middleware/auth';
-import { requireAdmin } from '../middleware/rbac';
+import { requirePermission, requireSuperAdmin } from '../middleware/rbac';
+import { Permissions } from '../config/permissions';
 import { validate } from '../middleware/validation';
 import {
     listApplicationsSchema,
     updateApplicationStatusSchema,
+    returnForCorrectionSchema,
     bulkUpdateSchema,
     getApplicationSchema,
     getStudentSchema,
@@ -17,98 +19,564 @@ import {
     exportApplicationsSchema,
     analyticsFilterSchema,
     scoreApplicationSchema,
+    setUserPermissionsSchema,
+    unlockUserSchema,
+    resetTwoFactorSchema,
+    loginHistorySchema,
+    listAuditLogSchema,
+    exportAuditLogSchema,
 } from '../validators/admin.validator';
 import {
     createPeriodSchema,
     updatePeriodSchema,
     getPeriodSchema,
     activatePeriodSchema,
+    getPeriodBudgetSchema,
+    setPeriodBudgetSchema,
 } from '../validators/period.validator';
+import {
+    listDisbursementsSchema,
+    getApplicationDisbursementsSchema,
+    createDisbursementSchema,
+    reverseDisbursementSchema,
+} from '../validators/disbursement.validator';
+import {
+    listAppealsSchema,
+    getAppealSchema,
+    decideAppealSchema,
+    closeAppealSchema,
+} from '../validators/appeal.validator';
+import {
+    proposeShortlistSchema,
+    confirmShortlistSchema,
+    reliabilityReportSchema,
+} from '../validators/ranking.validator';
+import {
+    getCurrentRubricSchema,
+    listRubricsSchema,
+    getRubricSchema,
+    createRubricSchema,
+} from '../validators/rubric.validator';
+import {
+    assignReviewersSchema,
+    autoAssignReviewersSchema,
+    getApplicationReviewersSchema,
+    unassignReviewerSchema,
+    myReviewsSchema,
+    getReviewApplicationSchema,
+    listConflictsSchema,
+    createConflictSchema,
+    deleteConflictSchema,
+} from '../validators/review.validator';
+import {
+    listUsersSchema,
+    getUserSchema,
+    inviteStaffSchema,
+    changeUserRoleSchema,
+    setUserStatusSchema,
+    setSuperAdminSchema,
+    setRolePermissionsSchema,
+} from '../validators/user.validator';
+import {
+    updateRetentionPolicySchema,
+    runRetentionSchema,
+    listErasureRequestsSchema,
+    approveErasureRequestSchema,
+    rejectErasureRequestSchema,
+    createConsentDocumentSchema,
+} from '../validators/privacy.validator';
+import {
+    createTransitionSchema,
+    updateTransitionSchema,
+    deleteTransitionSchema,
+} from '../validators/workflow.validator';
 
 const router = Router();
 
-// All admin routes require authentication and admin role
-router.use(authenticate, requireAdmin);
+// All admin routes require authentication
+router.use(authenticate);
+
+// Each route requires a named permission; see src/config/permissions.ts
+
+// ==================== REVIEW QUEUE ====================
+// Scoring is further limited to assigned reviewers
+
+router.get(
+    '/my-reviews',
+    requirePermission(Permissions.REVIEWS_SCORE),
+    validate(myReviewsSchema),
+    adminController.getMyReviews
+);
+
+router.get(
+    '/my-reviews/:applicationId',
+    requirePermission(Permissions.REVIEWS_SCORE),
+    validate(getReviewApplicationSchema),
+    adminController.getReviewApplication
+);
+
+router.get(
+    '/my-reviews/:applicationId/documents',
+    requirePermission(Permissions.REVIEWS_SCORE),
+    validate(getReviewApplicationSchema),
+    adminController.getReviewDocuments
+);
+
+router.post(
+    '/applications/:id/scores',
+    requirePermission(Permissions.REVIEWS_SCORE),
+    validate(scoreApplicationSchema),
+    adminController.scoreApplication
+);
+
+router.get(
+    '/scoring-rubric',
+    requirePermission(Permissions.REVIEWS_SCORE),
+    validate(getCurrentRubricSchema),
+    adminController.getScoringRubric
+);
 
 // ==================== APPLICATION MANAGEMENT ====================
 
 router.get(
     '/applications',
+    requirePermission(Permissions.APPLICATIONS_READ),
     validate(listApplicationsSchema),
     adminController.listApplications
 );
 
 router.get(
     '/applications/export',
+    requirePermission(Permissions.APPLICATIONS_EXPORT),
     validate(exportApplicationsSchema),
     adminController.exportApplications
 );
 
 router.post(
     '/applications/bulk-update',
+    requirePermission(Permissions.APPLICATIONS_DECIDE),
     validate(bulkUpdateSchema),
     adminController.bulkUpdate
 );
 
 router.get(
     '/applications/:id',
+    requirePermission(Permissions.APPLICATIONS_READ),
     validate(getApplicationSchema),
     adminController.getApplication
 );
 
 router.put(
     '/applications/:id/status',
+    requirePermission(Permissions.APPLICATIONS_DECIDE),
     validate(updateApplicationStatusSchema),
     adminController.updateApplicationStatus
 );
 
-// ==================== APPLICATION SCORING ====================
+router.post(
+    '/applications/:id/return',
+    requirePermission(Permissions.APPLICATIONS_DECIDE),
+    validate(returnForCorrectionSchema),
+    adminController.returnForCorrection
+);
+
+// ==================== DISBURSEMENT LEDGER ====================
+
+router.get(
+    '/disbursements',
+    requirePermission(Permissions.DISBURSEMENTS_READ),
+    validate(listDisbursementsSchema),
+    adminController.listDisbursements
+);
+
+router.get(
+    '/applications/:id/disbursements',
+    requirePermission(Permissions.DISBURSEMENTS_READ),
+    validate(getApplicationDisbursementsSchema),
+    adminController.getApplicationDisbursements
+);
 
 router.post(
-    '/applications/:id/scores',
-    validate(scoreApplicationSchema),
-    adminController.scoreApplication
+    '/applications/:id/disbursements',
+    requirePermission(Permissions.DISBURSEMENTS_WRITE),
+    validate(createDisbursementSchema),
+    adminController.createDisbursement
+);
+
+router.post(
+    '/disbursements/:id/reverse',
+    requirePermission(Permissions.DISBURSEMENTS_WRITE),
+    validate(reverseDisbursementSchema),
+    adminController.reverseDisbursement
+);
+
+// ==================== APPEALS ====================
+
+router.get(
+    '/appeals',
+    requirePermission(Permissions.APPLICATIONS_READ),
+    validate(listAppealsSchema),
+    adminController.listAppeals
+);
+
+router.get(
+    '/appeals/:id',
+    requirePermission(Permissions.APPLICATIONS_READ),
+    validate(getAppealSchema),
+    adminController.getAppeal
+);
+
+router.post(
+    '/appeals/:id/decide',
+    requirePermission(Permissions.APPLICATIONS_DECIDE),
+    validate(decideAppealSchema),
+    adminController.decideAppeal
+);
+
+router.post(
+    '/appeals/:id/close',
+    requirePermission(Permissions.APPLICATIONS_DECIDE),
+    validate(closeAppealSchema),
+    adminController.closeAppeal
+);
+
+// ==================== WORKFLOW ====================
+
+router.get(
+    '/workflow/transitions',
+    requirePermission(Permissions.WORKFLOW_MANAGE),
+    adminController.listWorkflowTransitions
+);
+
+router.post(
+    '/workflow/transitions',
+    requirePermission(Permissions.WORKFLOW_MANAGE),
+    validate(createTransitionSchema),
+    adminController.createWorkflowTransition
+);
+
+router.put(
+    '/workflow/transitions/:id',
+    requirePermission(Permissions.WORKFLOW_MANAGE),
+    validate(updateTransitionSchema),
+    adminController.updateWorkflowTransition
+);
+
+router.delete(
+    '/workflow/transitions/:id',
+    requirePermission(Permissions.WORKFLOW_MANAGE),
+    validate(deleteTransitionSchema),
+    adminController.deleteWorkflowTransition
+);
+
+// ==================== REVIEWER ASSIGNMENT ====================
+
+router.get(
+    '/reviewers',
+    requirePermission(Permissions.REVIEWS_ASSIGN),
+    adminController.listReviewers
+);
+
+router.post(
+    '/reviews/auto-assign',
+    requirePermission(Permissions.REVIEWS_ASSIGN),
+    validate(autoAssignReviewersSchema),
+    adminController.autoAssignReviewers
+);
+
+router.get(
+    '/applications/:id/reviewers',
+    requirePermission(Permissions.REVIEWS_ASSIGN),
+    validate(getApplicationReviewersSchema),
+    adminController.getApplicationReviewers
+);
+
+router.post(
+    '/applications/:id/reviewers',
+    requirePermission(Permissions.REVIEWS_ASSIGN),
+    validate(assignReviewersSchema),
+    adminController.assignReviewers
+);
+
+router.delete(
+    '/applications/:id/reviewers/:reviewerId',
+    requirePermission(Permissions.REVIEWS_ASSIGN),
+    validate(unassignReviewerSchema),
+    adminController.unassignReviewer
+);
+
+router.get(
+    '/reviewer-conflicts',
+    requirePermission(Permissions.REVIEWS_ASSIGN),
+    validate(listConflictsSchema),
+    adminController.listReviewerConflicts
+);
+
+router.post(
+    '/reviewer-conflicts',
+    requirePermission(Permissions.REVIEWS_ASSIGN),
+    validate(createConflictSchema),
+    adminController.createReviewerConflict
+);
+
+router.delete(
+    '/reviewer-conflicts/:id',
+    requirePermission(Permissions.REVIEWS_ASSIGN),
+    validate(deleteConflictSchema),
+    adminController.deleteReviewerConflict
+);
+
+// ==================== USER MANAGEMENT ====================
+
+router.get(
+    '/users',
+    requirePermission(Permissions.USERS_MANAGE),
+    validate(listUsersSchema),
+    adminController.listUsers
+);
+
+router.post(
+    '/users/invite',
+    requirePermission(Permissions.USERS_MANAGE),
+    validate(inviteStaffSchema),
+    adminController.inviteStaffUser
+);
+
+router.get(
+    '/users/:id',
+    requirePermission(Permissions.USERS_MANAGE),
+    validate(getUserSchema),
+    adminController.getUser
+);
+
+router.delete(
+    '/users/:id',
+    requirePermission(Permissions.USERS_MANAGE),
+    validate(getUserSchema),
+    adminController.deleteUser
+);
+
+router.put(
+    '/users/:id/role',
+    requirePermission(Permissions.USERS_MANAGE),
+    validate(changeUserRoleSchema),
+    adminController.changeUserRole
+);
+
+router.put(
+    '/users/:id/status',
+    requirePermission(Permissions.USERS_MANAGE),
+    validate(setUserStatusSchema),
+    adminController.setUserStatus
+);
+
+router.post(
+    '/users/:id/force-password-reset',
+    requirePermission(Permissions.USERS_MANAGE),
+    validate(getUserSchema),
+    adminController.forcePasswordReset
+);
+
+router.post(
+    '/users/:id/resend-invite',
+    requirePermission(Permissions.USERS_MANAGE),
+    validate(getUserSchema),
+    adminController.resendStaffInvite
+);
+
+// Personal grants can carry any permission, so only super-admins hand them out
+router.put(
+    '/users/:id/permissions',
+    requireSuperAdmin,
+    validate(setUserPermissionsSchema),
+    adminController.setUserPermissions
+);
+
+router.post(
+    '/users/:id/unlock',
+    requirePermission(Permissions.USERS_MANAGE),
+    validate(unlockUserSchema),
+    adminController.unlockUser
+);
+
+router.delete(
+    '/users/:id/2fa',
+    requirePermission(Permissions.USERS_MANAGE),
+    validate(resetTwoFactorSchema),
+    adminController.resetUserTwoFactor
+);
+
+router.get(
+    '/users/:id/login-history',
+    requirePermission(Permissions.USERS_MANAGE),
+    validate(loginHistorySchema),
+    adminController.getUserLoginHistory
+);
+
+router.put(
+    '/users/:id/super-admin',
+    requireSuperAdmin,
+    validate(setSuperAdminSchema),
+    adminController.setSuperAdmin
+);
+
+// ==================== ROLE PERMISSIONS ====================
+// Super-admin only
+
+router.get(
+    '/roles/permissions',
+    requireSuperAdmin,
+    adminController.listRolePermissions
+);
+
+router.put(
+    '/roles/:role/permissions',
+    requireSuperAdmin,
+    validate(setRolePermissionsSchema),
+    adminController.setRolePermissions
+);
+
+// ==================== AUDIT LOG ====================
+
+router.get(
+    '/audit-log',
+    requirePermission(Permissions.AUDIT_READ),
+    validate(listAuditLogSchema),
+    adminController.listAuditLog
+);
+
+router.get(
+    '/audit-log/export',
+    requirePermission(Permissions.AUDIT_READ),
+    validate(exportAuditLogSchema),
+    adminController.exportAuditLog
+);
+
+// ==================== DATA RETENTION & ERASURE ====================
+
+router.get(
+    '/retention-policies',
+    requirePermission(Permissions.PRIVACY_MANAGE),
+    adminController.listRetentionPolicies
+);
+
+router.put(
+    '/retention-policies/:target',
+    requirePermission(Permissions.PRIVACY_MANAGE),
+    validate(updateRetentionPolicySchema),
+    adminController.updateRetentionPolicy
+);
+
+router.post(
+    '/retention/run',
+    requirePermission(Permissions.PRIVACY_MANAGE),
+    validate(runRetentionSchema),
+    adminController.runRetention
+);
+
+router.get(
+    '/erasure-requests',
+    requirePermission(Permissions.PRIVACY_MANAGE),
+    validate(listErasureRequestsSchema),
+    adminController.listErasureRequests
+);
+
+router.post(
+    '/erasure-requests/:id/approve',
+    requirePermission(Permissions.PRIVACY_MANAGE),
+    validate(approveErasureRequestSchema),
+    adminController.approveErasureRequest
+);
+
+router.post(
+    '/erasure-requests/:id/reject',
+    requirePermission(Permissions.PRIVACY_MANAGE),
+    validate(rejectErasureRequestSchema),
+    adminController.rejectErasureRequest
 );
 
+router.get(
+    '/consent-documents',
+    requirePermission(Permissions.PRIVACY_MANAGE),
+    adminController.listConsentDocuments
+);
+
+router.post(
+    '/consent-documents',
+    requirePermission(Permissions.PRIVACY_MANAGE),
+    validate(createConsentDocumentSchema),
+    adminController.createConsentDocument
+);
+
+router.get(
+    '/consent/report',
+    requirePermission(Permissions.PRIVACY_MANAGE),
+    adminController.getConsentReport
+);
+
+// ==================== APPLICATION SCORING ====================
+
 router.get(
     '/applications/:id/scores',
+    requirePermission(Permissions.APPLICATIONS_READ),
     validate(getApplicationSchema),
     adminController.getApplicationScores
 );
 
 router.get(
-    '/scoring-rubric',
-    adminController.getScoringRubric
+    '/scoring-rubrics',
+    requirePermission(Permissions.PERIODS_MANAGE),
+    validate(listRubricsSchema),
+    adminController.listScoringRubrics
+);
+
+router.post(
+    '/scoring-rubrics',
+    requirePermission(Permissions.PERIODS_MANAGE),
+    validate(createRubricSchema),
+    adminController.createScoringRubric
+);
+
+router.get(
+    '/scoring-rubrics/:id',
+    requirePermission(Permissions.PERIODS_MANAGE),
+    validate(getRubricSchema),
+    adminController.getScoringRubricVersion
 );
 
 // ==================== STUDENT MANAGEMENT ====================
 
 router.get(
     '/search',
+    requirePermission(Permissions.APPLICATIONS_READ),
     validate(searchStudentsSchema),
     adminController.searchStudents
 );
 
 router.get(
     '/students/:profileId',
+    requirePermission(Permissions.APPLICATIONS_READ),
     validate(getStudentSchema),
     adminController.getStudentOverview
 );
 
 router.get(
     '/students/:profileId/applications',
+    requirePermission(Permissions.APPLICATIONS_READ),
     validate(getStudentSchema),
     adminController.getStudentApplications
 );
 
 router.get(
     '/students/:profileId/documents',
+    requirePermission(Permissions.APPLICATIONS_READ),
     validate(getStudentSchema),
     adminController.getStudentDocuments
 );
 
 router.get(
     '/students/:profileId/timeline',
+    requirePermission(Permissions.APPLICATIONS_READ),
     validate(getStudentSchema),
     adminController.getStudentTimeline
 );
@@ -117,24 +585,28 @@ router.get(
 
 router.post(
     '/notes',
+    requirePermission(Permissions.NOTES_WRITE),
     validate(addGeneralNoteSchema),
     adminController.addNote
 );
 
 router.post(
     '/applications/:id/notes',
+    requirePermission(Permissions.NOTES_WRITE),
     validate(addNoteSchema),
     adminController.addNote
 );
 
 router.put(
     '/notes/:id',
+    requirePermission(Permissions.NOTES_WRITE),
     validate(updateNoteSchema),
     adminController.updateNote
 );
 
 router.delete(
     '/notes/:id',
+    requirePermission(Permissions.NOTES_WRITE),
     validate(deleteNoteSchema),
     adminController.deleteNote
 );
@@ -143,75 +615,123 @@ router.delete(
 
 router.get(
     '/application-periods',
+    requirePermission(Permissions.APPLICATIONS_READ),
     adminController.getApplicationPeriods
 );
 
 router.post(
     '/application-periods',
+    requirePermission(Permissions.PERIODS_MANAGE),
     validate(createPeriodSchema),
     adminController.createApplicationPeriod
 );
 
 router.put(
     '/application-periods/:id',
+    requirePermission(Permissions.PERIODS_MANAGE),
     validate(updatePeriodSchema),
     adminController.updateApplicationPeriod
 );
 
 router.delete(
     '/application-periods/:id',
+    requirePermission(Permissions.PERIODS_MANAGE),
     validate(getPeriodSchema),
     adminController.deleteApplicationPeriod
 );
 
 router.put(
     '/application-periods/:id/activate',
+    requirePermission(Permissions.PERIODS_MANAGE),
     validate(activatePeriodSchema),
     adminController.activateApplicationPeriod
 );
 
+router.get(
+    '/application-periods/:id/budget',
+    requirePermission(Permissions.DISBURSEMENTS_READ),
+    validate(getPeriodBudgetSchema),
+    adminController.getPeriodBudget
+);
+
+router.put(
+    '/application-periods/:id/budget',
+    requirePermission(Permissions.PERIODS_MANAGE),
+    validate(setPeriodBudgetSchema),
+    adminController.setPeriodBudget
+);
+
+router.post(
+    '/application-periods/:id/shortlist/propose',
+    requirePermission(Permissions.APPLICATIONS_DECIDE),
+    validate(proposeShortlistSchema),
+    adminController.proposeShortlist
+);
+
+router.post(
+    '/application-periods/:id/shortlist/confirm',
+    requirePermission(Permissions.APPLICATIONS_DECIDE),
+    validate(confirmShortlistSchema),
+    adminController.confirmShortlist
+);
+
+router.get(
+    '/application-periods/:id/reliability',
+    requirePermission(Permissions.APPLICATIONS_READ),
+    validate(reliabilityReportSchema),
+    adminController.getReliabilityReport
+);
+
 // ==================== ANALYTICS ====================
 
 router.get(
     '/analytics/summary',
+    requirePermission(Permissions.ANALYTICS_READ),
     adminController.getAnalyticsSummary
 );
 
 router.get(
     '/analytics/by-county',
+    requirePermission(Permissions.ANALYTICS_READ),
     validate(analyticsFilterSchema),
     adminController.getAnalyticsByCounty
 );
 
 router.get(
     '/analytics/by-institution',
+    requirePermission(Permissions.ANALYTICS_READ),
     validate(analyticsFilterSchema),
     adminController.getAnalyticsByInstitution
 );
 
 router.get(
     '/analytics/disbursement',
+    requirePermission(Permissions.ANALYTICS_READ),
     validate(analyticsFilterSchema),
     adminController.getDisbursementAnalytics
 );
 
 router.get(
     '/analytics/gender',
+    requirePermission(Permissions.ANALYTICS_READ),
     adminController.getGenderAnalytics
 );
 
 router.get(
     '/analytics/funnel',
+    requirePermission(Permissions.ANALYTICS_READ),
     adminController.getFunnelAnalytics
 );
 
 router.get(
     '/analytics/time-to-decision',
+    requirePermission(Permissions.ANALYTICS_READ),
     adminController.getTimeToDecisionAnalytics
 );
 
 router.get(
     '/analytics/demographics',
+    requirePermission(Permissions.ANALYTICS_READ),
     adminController.getDemographicsAnalytics
 );
 
@@ -9,7 +9,15 @@ import {
     changePasswordSchema,
     logoutSchema,
     requestPasswordResetSchema,
-    resetPasswordSchema
+    resetPasswordSchema,
+    revokeSessionSchema,
+    verifyTwoFactorSchema,
+    twoFactorEnrollSchema,
+    twoFactorEnrollConfirmSchema,
+    twoFactorConfirmSchema,
+    twoFactorDisableSchema,
+    sendVerificationCodeSchema,
+    verifyContactSchema
 } from '../validators/auth.validator';
 
 const router = Router();
@@ -28,6 +36,26 @@ router.post(
     authController.login
 );
 
+// Two-factor login step (challenge token from /login)
+router.post(
+    '/2fa/verify',
+    validate(verifyTwoFactorSchema),
+    authController.verifyTwoFactor
+);
+
+// Enrolment during login, for roles that require two-factor
+router.post(
+    '/2fa/enroll',
+    validate(twoFactorEnrollSchema),
+    authController.startTwoFactorEnrollment
+);
+
+router.post(
+    '/2fa/enroll/confirm',
+    validate(twoFactorEnrollConfirmSchema),
+    authController.completeTwoFactorEnrollment
+);
+
 // Refresh Token
 router.post(
     '/refresh',
@@ -63,4 +91,79 @@ router.post(
     authController.resetPassword
 );
 
+// Email / phone verification
+router.get(
+    '/verification',
+    authenticate,
+    authController.getVerificationStatus
+);
+
+router.post(
+    '/verification/send',
+    authenticate,
+    validate(sendVerificationCodeSchema),
+    authController.sendVerificationCode
+);
+
+router.post(
+    '/verification/verify',
+    authenticate,
+    validate(verifyContactSchema),
+    authController.verifyContact
+);
+
+// Two-factor management
+router.get(
+    '/2fa',
+    authenticate,
+    authController.getTwoFactorStatus
+);
+
+router.post(
+    '/2fa/setup',
+    authenticate,
+    authController.setupTwoFactor
+);
+
+router.post(
+    '/2fa/confirm',
+    authenticate,
+    validate(twoFactorConfirmSchema),
+    authController.confirmTwoFactor
+);
+
+router.post(
+    '/2fa/disable',
+    authenticate,
+    validate(twoFactorDisableSchema),
+    authController.disableTwoFactor
+);
+
+router.post(
+    '/2fa/recovery-codes',
+    authenticate,
+    validate(twoFactorConfirmSchema),
+    authController.regenerateRecoveryCodes
+);
+
+// Sessions
+router.get(
+    '/sessions',
+    authenticate,
+    authController.getSessions
+);
+
+router.delete(
+    '/sessions',
+    authenticate,
+    authController.revokeOtherSessions
+);
+
+router.delete(
+    '/sessions/:id',
+    authenticate,
+    validate(revokeSessionSchema),
+    authController.revokeSession
+);
+
 export default router;
@@ -5,5 +5,6 @@ const router = Router();
 
 // Public config routes (no authentication required)
 router.get('/current', configController.getCurrentConfig);
+router.get('/consent', configController.getConsentDocument);
 
 export default router;
@@ -4,7 +4,10 @@ import { authenticate } from '../middleware/auth';
 
 const router = Router();
 
-// All file routes require authentication
+// Signed links carry their own authorization (see POST /:kind/:documentId/link)
+router.get('/signed/:kind/:documentId', fileController.downloadSignedDocument);
+
+// All other file routes require authentication
 router.use(authenticate);
 
 // Profile documents
@@ -13,4 +16,10 @@ router.get('/profile/:documentId', fileController.downloadProfileDocument);
 // Application documents
 router.get('/application/:documentId', fileController.downloadApplicationDocument);
 
+// Appeal documents
+router.get('/appeal/:documentId', fileController.downloadAppealDocument);
+
+// Short-lived signed link to a profile or application document
+router.post('/:kind/:documentId/link', fileController.createDocumentLink);
+
 export default router;
@@ -2,8 +2,14 @@ import { Router } from 'express';
 import * as studentController from '../controllers/student.controller';
 import { authenticate } from '../middleware/auth';
 import { requireStudent } from '../middleware/rbac';
+import { requireCurrentConsent } from '../middleware/consent';
 import { validate } from '../middleware/validation';
 import { upload } from '../config/upload';
+import {
+    createErasureRequestSchema,
+    acceptConsentSchema,
+    withdrawConsentSchema,
+} from '../validators/privacy.validator';
 import {
     createProfileSchema,
     updateProfileSchema,
@@ -14,13 +20,35 @@ import {
     uploadApplicationDocumentSchema,
     linkProfileDocumentSchema,
     submitApplicationSchema,
+    withdrawApplicationSchema,
 } from '../validators/student.validator';
+import {
+    submitAppealSchema,
+    getApplicationAppealsSchema,
+    uploadAppealDocumentSchema,
+} from '../validators/appeal.validator';
 
 const router = Router();
 
 // All student routes require authentication and student role
 router.use(authenticate, requireStudent);
 
+// ==================== CONSENT & DATA RIGHTS ====================
+
+// Reachable without current consent, so a student can accept the notice, or
+// decline it and still take their data or have it erased
+router.get('/consent', studentController.getConsent);
+router.post('/consent', validate(acceptConsentSchema), studentController.acceptConsent);
+router.post('/consent/withdraw', validate(withdrawConsentSchema), studentController.withdrawConsent);
+
+router.get('/data-export', studentController.exportMyData);
+
+router.post('/erasure-requests', validate(createErasureRequestSchema), studentController.requestErasure);
+router.get('/erasure-requests', studentController.getErasureRequests);
+
+// Everything below requires acceptance of the current data protection notice
+router.use(requireCurrentConsent);
+
 // ==================== PROFILE ROUTES ====================
 
 router.get('/profile', studentController.getProfile);
@@ -82,6 +110,31 @@ router.post(
     studentController.submitApplication
 );
 
+// Withdrawal
+router.post(
+    '/applications/:id/withdraw',
+    validate(withdrawApplicationSchema),
+    studentController.withdrawApplication
+);
+
+// Appeals
+router.post(
+    '/applications/:id/appeal',
+    validate(submitAppealSchema),
+    studentController.submitAppeal
+);
+router.get(
+    '/applications/:id/appeals',
+    validate(getApplicationAppealsSchema),
+    studentController.getApplicationAppeals
+);
+router.post(
+    '/appeals/:appealId/documents',
+    upload.single('file'),
+    validate(uploadAppealDocumentSchema),
+    studentController.uploadAppealDocument
+);
+
 // History & Details
 router.get('/applications/:id', studentController.getApplication);
 router.get('/applications/:id/history', studentController.getApplicationHistory);
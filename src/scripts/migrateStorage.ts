@@ -0,0 +1,131 @@
+/**
+ * migrateStorage.ts
+ *
+ * Copies every stored document (profile, application and appeal documents) that is
+ * not yet in the target backend into it, and points the row's filePath at the copy.
+ * Rows already in the target are skipped, so the command can be re-run after a
+ * failure. Set STORAGE_DRIVER to the target once a run finishes without errors.
+ *
+ * Usage:
+ *   npm run storage:migrate -- --to s3
+ *   npm run storage:migrate -- --to s3 --dry-run          Count what would move, write nothing
+ *   npm run storage:migrate -- --to s3 --delete-source    Remove each original once its row is updated
+ */
+
+import dotenv from 'dotenv';
+import { PrismaClient } from '@prisma/client';
+import storageService, { STORAGE_DRIVERS } from '../services/storage.service';
+import { StorageDriver, StorageDriverName } from '../types/storage.types';
+
+dotenv.config();
+
+const prisma = new PrismaClient();
+
+const DRY_RUN = process.argv.includes('--dry-run');
+const DELETE_SOURCE = process.argv.includes('--delete-source');
+const BATCH_SIZE = 100;
+
+interface MigrationResult {
+    scanned: number;
+    moved: number;
+    failed: number;
+}
+
+interface DocumentRow {
+    id: string;
+    storedFilename: string;
+    filePath: string;
+    mimeType: string;
+}
+
+const argValue = (flag: string): string | undefined => {
+    const index = process.argv.indexOf(flag);
+    return index === -1 ? undefined : process.argv[index + 1];
+};
+
+/**
+ * Walk a document table by id and copy each file held elsewhere into the target.
+ * A row whose file is missing or fails to copy is logged and left as it is.
+ */
+async function migrateModel(
+    model: 'profileDocument' | 'applicationDocument' | 'appealDocument',
+    target: StorageDriver
+): Promise<MigrationResult> {
+    const delegate = (prisma as any)[model];
+    const result: MigrationResult = { scanned: 0, moved: 0, failed: 0 };
+    let cursor: string | undefined;
+
+    for (;;) {
+        const rows: DocumentRow[] = await delegate.findMany({
+            select: { id: true, storedFilename: true, filePath: true, mimeType: true },
+            orderBy: { id: 'asc' },
+            take: BATCH_SIZE,
+            ...(cursor ? { cursor: { id: cursor }, skip: 1 } : {}),
+        });
+
+        if (rows.length === 0) break;
+
+        for (const row of rows) {
+            if (target.owns(row.filePath)) continue;
+
+            try {
+                if (DRY_RUN) {
+                    if (!(await storageService.exists(row.filePath))) {
+                        throw new Error('File not found on server');
+                    }
+                } else {
+                    const body = await storageService.read(row.filePath);
+                    const stored = await target.put(row.storedFilename, body, row.mimeType);
+
+                    await delegate.update({ where: { id: row.id }, data: { filePath: stored.location } });
+
+                    if (DELETE_SOURCE) {
+                        await storageService.delete(row.filePath);
+                    }
+                }
+                result.moved++;
+            } catch (error: any) {
+                result.failed++;
+                console.error(`  ✖ ${model} ${row.id} (${row.filePath}): ${error.message}`);
+            }
+        }
+
+        result.scanned += rows.length;
+        cursor = rows[rows.length - 1].id;
+    }
+
+    return result;
+}
+
+async function main() {
+    const targetName = argValue('--to') as StorageDriverName | undefined;
+
+    if (!targetName || !STORAGE_DRIVERS.includes(targetName)) {
+        throw new Error(`Pass the target backend with --to (${STORAGE_DRIVERS.join(' or ')})`);
+    }
+
+    const target = storageService.getDriver(targetName);
+    console.log(`📦 Moving stored documents to ${target.name}${DRY_RUN ? ' (dry run)' : ''}\n`);
+
+    const results = {
+        profileDocument: await migrateModel('profileDocument', target),
+        applicationDocument: await migrateModel('applicationDocument', target),
+        appealDocument: await migrateModel('appealDocument', target),
+    };
+
+    for (const [model, result] of Object.entries(results)) {
+        console.log(`  ${model}: ${result.moved} of ${result.scanned} files ${DRY_RUN ? 'to move' : 'moved'}, ${result.failed} failed`);
+    }
+
+    if (Object.values(results).some(result => result.failed > 0)) {
+        console.log('\n⚠️  Some files failed. Fix them and run the command again before switching STORAGE_DRIVER.');
+        process.exitCode = 1;
+    }
+}
+
+main()
+    .catch(err => {
+        console.error('\n❌ Fatal error:', err);
+        process.exit(1);
+    })
+    .finally(() => prisma.$disconnect());
@@ -0,0 +1,127 @@
+/**
+ * rotateEncryptionKeys.ts
+ *
+ * Re-encrypts every encrypted column with the active key (ENCRYPTION_KEY_VERSION,
+ * or the highest version in ENCRYPTION_KEYS). Along the way it encrypts rows stored
+ * before field encryption existed, fills in their blind indexes, and moves two-factor
+ * secrets off the old AES-256-CBC format. Older keys can be removed from
+ * ENCRYPTION_KEYS once a run finishes without errors.
+ *
+ * The app refuses to start while any row is missing a blind index, so run this
+ * right after deploying the field encryption migration.
+ *
+ * Usage:
+ *   npm run encryption:rotate
+ *   npm run encryption:rotate -- --dry-run    Count what would change, write nothing
+ */
+
+import dotenv from 'dotenv';
+import { PrismaClient } from '@prisma/client';
+import { ENCRYPTED_FIELDS, decryptField } from '../utils/fieldEncryption';
+import { activeKeyVersion, blindIndex, decrypt, encrypt, needsRotation } from '../utils/encryption';
+
+dotenv.config();
+
+// Reads stored values as they are, without the decrypting extension
+const prisma = new PrismaClient();
+
+const DRY_RUN = process.argv.includes('--dry-run');
+const BATCH_SIZE = 200;
+
+interface RotationResult {
+    scanned: number;
+    updated: number;
+    failed: number;
+}
+
+/**
+ * Walk a table by id and rewrite every value that is not under the active key or
+ * has no blind index yet. A row that fails (an undecryptable value, or two profiles
+ * whose IDs differ only in spacing now clashing on the blind index) is logged and skipped.
+ */
+async function rotateModel(
+    model: 'studentProfile' | 'application' | 'user',
+    fields: Record<string, string | null>,
+    read: (value: string) => string | null
+): Promise<RotationResult> {
+    const delegate = (prisma as any)[model];
+    const columns = Object.entries(fields).flatMap(([field, hashField]) => (hashField ? [field, hashField] : [field]));
+    const select = { id: true, ...Object.fromEntries(columns.map(column => [column, true])) };
+    const result: RotationResult = { scanned: 0, updated: 0, failed: 0 };
+    let cursor: string | undefined;
+
+    for (;;) {
+        const rows: Record<string, string | null>[] = await delegate.findMany({
+            select,
+            orderBy: { id: 'asc' },
+            take: BATCH_SIZE,
+            ...(cursor ? { cursor: { id: cursor }, skip: 1 } : {}),
+        });
+
+        if (rows.length === 0) break;
+
+        for (const row of rows) {
+            const pending = Object.entries(fields).filter(([field, hashField]) => {
+                const value = row[field];
+                return value !== null && (needsRotation(value) || (hashField !== null && row[hashField] === null));
+            });
+
+            if (pending.length === 0) continue;
+
+            try {
+                const data: Record<string, string> = {};
+
+                for (const [field, hashField] of pending) {
+                    const plaintext = read(row[field]!);
+                    if (plaintext === null) {
+                        throw new Error(`${field} could not be decrypted`);
+                    }
+
+                    data[field] = encrypt(plaintext);
+                    if (hashField) {
+                        data[hashField] = blindIndex(plaintext);
+                    }
+                }
+
+                if (!DRY_RUN) {
+                    await delegate.update({ where: { id: row.id }, data });
+                }
+                result.updated++;
+            } catch (error: any) {
+                result.failed++;
+                console.error(`  ✖ ${model} ${row.id}: ${error.message}`);
+            }
+        }
+
+        result.scanned += rows.length;
+        cursor = rows[rows.length - 1].id as string;
+    }
+
+    return result;
+}
+
+async function main() {
+    console.log(`🔑 Rotating encrypted fields to key version ${activeKeyVersion()}${DRY_RUN ? ' (dry run)' : ''}\n`);
+
+    const results = {
+        studentProfile: await rotateModel('studentProfile', ENCRYPTED_FIELDS.studentProfile, decryptField),
+        application: await rotateModel('application', ENCRYPTED_FIELDS.application, decryptField),
+        user: await rotateModel('user', { twoFactorSecret: null }, decrypt),
+    };
+
+    for (const [model, result] of Object.entries(results)) {
+        console.log(`  ${model}: ${result.updated} of ${result.scanned} rows ${DRY_RUN ? 'to update' : 'updated'}, ${result.failed} failed`);
+    }
+
+    if (Object.values(results).some(result => result.failed > 0)) {
+        console.log('\n⚠️  Some rows failed. Keep the old keys configured until they are fixed and the rotation is run again.');
+        process.exitCode = 1;
+    }
+}
+
+main()
+    .catch(err => {
+        console.error('\n❌ Fatal error:', err);
+        process.exit(1);
+    })
+    .finally(() => prisma.$disconnect());
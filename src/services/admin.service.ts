@@ -1,9 +1,13 @@
-import prisma from '../config/database';
+import prisma, { TransactionClient } from '../config/database';
 import {
+    Application,
+    ApplicationPeriod,
     ApplicationStatus,
     EducationLevel,
     NotificationType,
-    Prisma
+    Prisma,
+    UserRole,
+    WorkflowTransition
 } from '@prisma/client';
 import {
     ApplicationFilterParams,
@@ -14,11 +18,46 @@ import {
     InstitutionAnalytics,
     DisbursementAnalytics,
     TimelineEvent,
-    isValidStatusTransition
+    ReturnForCorrectionRequest,
+    ScoreApplicationRequest,
+    AuditContext,
+    OrphanStatus
 } from '../types/api.types';
 import logger from '../config/logger';
 import notificationService from './notification.service';
 import emailService from './email.service';
+import budgetService from './budget.service';
+import workflowService from './workflow.service';
+import rubricService from './rubric.service';
+import reviewService from './review.service';
+import { unverifiedContacts } from './verification.service';
+import auditService from './audit.service';
+import permissionService from './permission.service';
+import { pickFormDataSnapshot, pickSnapshot } from '../utils/snapshot';
+import { redactApplication } from '../utils/redaction';
+import { blindIndex } from '../utils/encryption';
+
+// Profiles decrypted per query when counting orphan statuses
+const DEMOGRAPHICS_BATCH_SIZE = 1000;
+
+interface StatusChangeOptions {
+    awardedAmount?: number;
+    budgetOverrideReason?: string;
+    actorRole: UserRole;
+    context?: AuditContext;
+}
+
+/**
+ * A status change written by applyStatusChange, kept for announceStatusChange
+ */
+export interface StatusChange {
+    previous: Application;
+    updated: Application;
+    transition: WorkflowTransition;
+    adminId: string;
+    notes?: string;
+    budgetOverrideReason?: string;
+}
 
 export class AdminService {
     // ==================== APPLICATION LIST ====================
@@ -38,6 +77,7 @@ export class AdminService {
             search,
             sortBy = 'submittedAt',
             sortOrder = 'desc',
+            unverifiedContacts: unverifiedOnly,
         } = params;
 
         const pageNumber = Number(page) || 1;
@@ -86,12 +126,19 @@ export class AdminService {
         if (search) {
             where.OR = [
                 { snapshotFullName: { contains: search, mode: 'insensitive' } },
-                { snapshotNationalId: { contains: search, mode: 'insensitive' } },
+                { snapshotNationalIdHash: blindIndex(search) },
                 { snapshotInstitution: { contains: search, mode: 'insensitive' } },
                 { applicationNumber: { contains: search, mode: 'insensitive' } },
             ];
         }
 
+        // Applicants who have not verified their email address or phone number
+        if (String(unverifiedOnly) === 'true') {
+            where.studentProfile = {
+                user: { OR: [{ emailVerifiedAt: null }, { phoneVerifiedAt: null }] },
+            };
+        }
+
         // Build order by
         const orderBy: any = {};
         orderBy[sortBy] = sortOrder;
@@ -109,6 +156,9 @@ export class AdminService {
                             id: true,
                             fullName: true,
                             institutionType: true,
+                            user: {
+                                select: { emailVerifiedAt: true, phoneVerifiedAt: true },
+                            },
                         },
                     },
                     statusHistory: {
@@ -121,7 +171,10 @@ export class AdminService {
         ]);
 
         return {
-            data: applications,
+            data: applications.map(application => ({
+                ...application,
+                unverifiedContacts: unverifiedContacts(application.studentProfile.user),
+            })),
             pagination: {
                 page,
                 limit,
@@ -136,7 +189,7 @@ export class AdminService {
     /**
      * Get single application with full details
      */
-    async getApplication(applicationId: string) {
+    async getApplication(applicationId: string, viewer?: { id: string; role: UserRole }) {
         const application = await prisma.application.findUnique({
             where: { id: applicationId },
             include: {
@@ -146,7 +199,7 @@ export class AdminService {
                         subCounty: true,
                         ward: true,
                         user: {
-                            select: { email: true, phone: true },
+                            select: { email: true, phone: true, emailVerifiedAt: true, phoneVerifiedAt: true },
                         },
                     },
                 },
@@ -171,6 +224,19 @@ export class AdminService {
                         },
                     },
                 },
+                correctionRequests: {
+                    orderBy: { round: 'desc' },
+                },
+                appeals: {
+                    orderBy: { submittedAt: 'desc' },
+                    include: { documents: true },
+                },
+                reviewAssignments: {
+                    orderBy: { assignedAt: 'asc' },
+                    include: {
+                        reviewer: { select: { id: true, email: true, role: true } },
+                    },
+                },
             },
         });
 
@@ -178,77 +244,168 @@ export class AdminService {
             throw new Error('Application not found');
         }
 
+        // Assigned reviewers see blind-review applications without applicant identity
+        if (viewer && await reviewService.isBlindFor(applicationId, viewer.id, viewer.role)) {
+            return redactApplication(application);
+        }
+
         return application;
     }
 
     // ==================== STATUS UPDATE ====================
 
     /**
-     * Update application status with state machine validation
+     * Update application status, validated against the stored workflow definition.
+     * The transition's rules decide who may perform it, whether a reason is
+     * required, and which notifications are sent. Approvals commit an award against the period budget and are refused when
+     * the budget would be exceeded, unless a budget override reason is given.
      */
     async updateApplicationStatus(
         applicationId: string,
         adminId: string,
         newStatus: ApplicationStatus,
-        notes?: string,
-        disbursedAmount?: number
+        notes: string | undefined,
+        options: StatusChangeOptions
     ) {
-        const application = await prisma.application.findUnique({
+        // Update in transaction, with the budget check that guards it
+        const change = await prisma.$transaction(tx =>
+            this.applyStatusChange(tx, applicationId, adminId, newStatus, notes, options)
+        );
+
+        await this.announceStatusChange(change, options.context);
+        return change.updated;
+    }
+
+    /**
+     * Validate and write a status change with its history entry. Runs inside the
+     * caller's transaction, so a change can commit together with the records that
+     * depend on it. Call announceStatusChange once the transaction has committed.
+     */
+    async applyStatusChange(
+        tx: TransactionClient,
+        applicationId: string,
+        adminId: string,
+        newStatus: ApplicationStatus,
+        notes: string | undefined,
+        options: StatusChangeOptions
+    ): Promise<StatusChange> {
+        const application = await tx.application.findUnique({
             where: { id: applicationId },
+            include: {
+                applicationPeriod: {
+                    select: { totalBudget: true, _count: { select: { budgetCaps: true } } },
+                },
+            },
         });
 
         if (!application) {
             throw new Error('Application not found');
         }
 
-        // Validate state transition
-        if (!isValidStatusTransition(application.status, newStatus)) {
-            throw new Error(
-                `Invalid status transition from ${application.status} to ${newStatus}`
-            );
+        // Validate state transition against the workflow definition
+        const transition = await workflowService.assertTransition(
+            application.status,
+            newStatus,
+            options.actorRole,
+            notes
+        );
+
+        // Disbursement amounts live in the ledger; require at least one net-positive entry
+        if (newStatus === ApplicationStatus.DISBURSED) {
+            const ledger = await tx.disbursement.aggregate({
+                _sum: { amount: true },
+                where: { applicationId },
+            });
+            if (Number(ledger._sum.amount || 0) <= 0) {
+                throw new Error('A disbursement must be recorded in the ledger before marking the application DISBURSED');
+            }
+        }
+
+        if (options.awardedAmount !== undefined && newStatus !== ApplicationStatus.APPROVED) {
+            throw new Error('An awarded amount can only be set when approving an application');
+        }
+
+        const period = application.applicationPeriod;
+        const periodHasBudget = !!period && (period.totalBudget !== null || period._count.budgetCaps > 0);
+
+        if (
+            newStatus === ApplicationStatus.APPROVED &&
+            periodHasBudget &&
+            options.awardedAmount === undefined &&
+            application.awardedAmount === null
+        ) {
+            throw new Error('An awarded amount is required to approve an application in a budgeted period');
         }
 
-        // Handle disbursement
         const updateData: Prisma.ApplicationUpdateInput = {
             status: newStatus,
             reviewedAt: new Date(),
             reviewedBy: adminId,
         };
 
-        if (newStatus === ApplicationStatus.DISBURSED) {
-            if (!disbursedAmount) {
-                throw new Error('Disbursement amount is required for DISBURSED status');
-            }
-            updateData.disbursedAmount = disbursedAmount;
-            updateData.disbursedAt = new Date();
-            updateData.disbursementNotes = notes;
+        if (options.awardedAmount !== undefined) {
+            updateData.awardedAmount = options.awardedAmount;
         }
 
-        // Update in transaction
-        const updated = await prisma.$transaction(async (tx) => {
-            const result = await tx.application.update({
-                where: { id: applicationId },
-                data: updateData,
-            });
+        const budgetOverridden = (newStatus === ApplicationStatus.APPROVED || newStatus === ApplicationStatus.DISBURSED)
+            && await budgetService.assertWithinBudget(
+                tx,
+                applicationId,
+                { awardedAmount: options.awardedAmount },
+                options.budgetOverrideReason
+            );
 
-            // Create status history entry
-            await tx.applicationStatusHistory.create({
-                data: {
-                    applicationId,
-                    previousStatus: application.status,
-                    newStatus,
-                    changedBy: adminId,
-                    reason: notes,
-                    autoGenerated: false,
-                },
-            });
+        const updated = await tx.application.update({
+            where: { id: applicationId },
+            data: updateData,
+        });
 
-            return result;
+        // Create status history entry
+        await tx.applicationStatusHistory.create({
+            data: {
+                applicationId,
+                previousStatus: application.status,
+                newStatus,
+                changedBy: adminId,
+                reason: notes,
+                autoGenerated: false,
+                budgetOverrideReason: budgetOverridden ? options.budgetOverrideReason : null,
+            },
         });
 
-        logger.info(`Application ${applicationId} status changed from ${application.status} to ${newStatus} by admin ${adminId}`);
+        return {
+            previous: application,
+            updated,
+            transition,
+            adminId,
+            notes,
+            budgetOverrideReason: budgetOverridden ? options.budgetOverrideReason : undefined,
+        };
+    }
 
-        // Send in-app notification and email to the student (non-blocking)
+    /**
+     * Audit a committed status change and send the notifications configured on its transition
+     */
+    async announceStatusChange(change: StatusChange, context?: AuditContext): Promise<void> {
+        const { previous, updated, transition, adminId, notes, budgetOverrideReason } = change;
+        const applicationId = updated.id;
+        const newStatus = updated.status;
+
+        await auditService.record(context ?? { actorId: adminId }, {
+            action: 'application.status_change',
+            entityType: 'Application',
+            entityId: applicationId,
+            before: { status: previous.status, awardedAmount: previous.awardedAmount },
+            after: { status: updated.status, awardedAmount: updated.awardedAmount },
+            metadata: {
+                reason: notes,
+                ...(budgetOverrideReason && { budgetOverrideReason }),
+            },
+        });
+
+        logger.info(`Application ${applicationId} status changed from ${previous.status} to ${newStatus} by admin ${adminId}`);
+
+        // Send the notifications configured on the transition (non-blocking)
         try {
             const fullApp = await prisma.application.findUnique({
                 where: { id: applicationId },
@@ -262,29 +419,103 @@ export class AdminService {
             if (fullApp?.studentProfile?.user) {
                 const studentUser = fullApp.studentProfile.user;
                 const studentName = fullApp.snapshotFullName || 'Student';
+                const metadata = { applicationId, previousStatus: previous.status, newStatus };
 
                 // In-app notification
-                notificationService.createNotification(
-                    studentUser.id,
-                    NotificationType.STATUS_CHANGE,
-                    `Application ${fullApp.applicationNumber} Updated`,
-                    `Your application status has been changed to ${newStatus}.`,
-                    { applicationId, previousStatus: application.status, newStatus }
-                ).catch(err => logger.error('Notification send error', err));
+                if (transition.notifyStudent) {
+                    notificationService.createNotification(
+                        studentUser.id,
+                        NotificationType.STATUS_CHANGE,
+                        `Application ${fullApp.applicationNumber} Updated`,
+                        `Your application status has been changed to ${newStatus}.`,
+                        metadata
+                    ).catch(err => logger.error('Notification send error', err));
+                }
 
                 // Email notification
-                emailService.sendApplicationStatusEmail(
-                    studentUser.email,
-                    studentName,
-                    fullApp.applicationNumber,
-                    newStatus
-                ).catch(err => logger.error('Email send error', err));
+                if (transition.emailStudent) {
+                    emailService.sendApplicationStatusEmail(
+                        studentUser.email,
+                        studentName,
+                        fullApp.applicationNumber,
+                        newStatus,
+                        notes
+                    ).catch(err => logger.error('Email send error', err));
+                }
+
+                // Staff notification
+                if (transition.notifyAdmins) {
+                    notificationService.notifyAdmins(
+                        NotificationType.STATUS_CHANGE,
+                        `Application ${fullApp.applicationNumber} ${newStatus}`,
+                        `Application ${fullApp.applicationNumber} (${studentName}) moved from ${previous.status} to ${newStatus}.`,
+                        metadata
+                    ).catch(err => logger.error('Admin notification send error', err));
+                }
             }
         } catch (err) {
             logger.error('Failed to send status change notification', err);
         }
+    }
 
-        return updated;
+    // ==================== RETURN FOR CORRECTION ====================
+
+    /**
+     * Return a submitted application to the student with the fields and documents
+     * to correct. Each return opens a new correction round, resolved on resubmission.
+     * The status change and the correction round, with its before snapshot, commit together.
+     */
+    async returnForCorrection(
+        applicationId: string,
+        adminId: string,
+        request: ReturnForCorrectionRequest,
+        actorRole: UserRole,
+        context?: AuditContext
+    ) {
+        const flaggedFields = request.flaggedFields || [];
+        const flaggedDocuments = request.flaggedDocuments || [];
+
+        if (flaggedFields.length === 0 && flaggedDocuments.length === 0) {
+            throw new Error('At least one field or document must be flagged for correction');
+        }
+
+        const flagged = [
+            flaggedFields.length > 0 ? `fields: ${flaggedFields.join(', ')}` : null,
+            flaggedDocuments.length > 0 ? `documents: ${flaggedDocuments.join(', ')}` : null,
+        ].filter(Boolean).join('; ');
+
+        const { change, correctionRequest } = await prisma.$transaction(async (tx) => {
+            const round = (await tx.correctionRequest.count({ where: { applicationId } })) + 1;
+
+            const change = await this.applyStatusChange(
+                tx,
+                applicationId,
+                adminId,
+                ApplicationStatus.RETURNED_FOR_CORRECTION,
+                `Correction round ${round}: ${request.reason} (${flagged})`,
+                { actorRole }
+            );
+
+            const correctionRequest = await tx.correctionRequest.create({
+                data: {
+                    applicationId,
+                    round,
+                    reason: request.reason,
+                    flaggedFields,
+                    flaggedDocuments,
+                    requestedBy: adminId,
+                    formDataBefore: pickFormDataSnapshot(change.previous.formData) as Prisma.InputJsonValue,
+                    snapshotBefore: JSON.parse(JSON.stringify(pickSnapshot(change.previous))),
+                },
+            });
+
+            return { change, correctionRequest };
+        });
+
+        await this.announceStatusChange(change, context);
+
+        logger.info(`Application ${applicationId} returned for correction (round ${correctionRequest.round}) by admin ${adminId}`);
+        return { application: change.updated, correctionRequest };
     }
 
     // ==================== BULK UPDATE ====================
@@ -292,8 +523,13 @@ export class AdminService {
     /**
      * Bulk update application statuses
      */
-    async bulkUpdate(adminId: string, request: BulkUpdateRequest): Promise<BulkUpdateResponse> {
-        const { applicationIds, newStatus, note } = request;
+    async bulkUpdate(
+        adminId: string,
+        request: BulkUpdateRequest,
+        actorRole: UserRole,
+        context?: AuditContext
+    ): Promise<BulkUpdateResponse> {
+        const { applicationIds, newStatus, note, awardedAmount, budgetOverrideReason } = request;
 
         const results = {
             success: true,
@@ -304,7 +540,12 @@ export class AdminService {
 
         for (const applicationId of applicationIds) {
             try {
-                await this.updateApplicationStatus(applicationId, adminId, newStatus, note);
+                await this.updateApplicationStatus(applicationId, adminId, newStatus, note, {
+                    awardedAmount,
+                    budgetOverrideReason,
+                    actorRole,
+                    context,
+                });
                 results.updated++;
             } catch (error: any) {
                 results.failed++;
@@ -336,6 +577,8 @@ export class AdminService {
                     select: {
                         email: true,
                         phone: true,
+                        emailVerifiedAt: true,
+                        phoneVerifiedAt: true,
                         createdAt: true,
                         isActive: true,
                     },
@@ -498,7 +741,14 @@ export class AdminService {
     /**
      * Add admin note to application
      */
-    async addNote(applicationId: string, adminId: string, noteText: string, isPrivate: boolean = true, section?: string) {
+    async addNote(
+        applicationId: string,
+        adminId: string,
+        noteText: string,
+        isPrivate: boolean = true,
+        section?: string,
+        context: AuditContext = { actorId: adminId }
+    ) {
         const application = await prisma.application.findUnique({
             where: { id: applicationId },
         });
@@ -522,6 +772,13 @@ export class AdminService {
             },
         });
 
+        await auditService.record(context, {
+            action: 'note.create',
+            entityType: 'AdminNote',
+            entityId: note.id,
+            after: { applicationId, noteText, isPrivate, section: note.section },
+        });
+
         logger.info(`Note added to application ${applicationId} by admin ${adminId}`);
         return note;
     }
@@ -529,7 +786,7 @@ export class AdminService {
     /**
      * Update admin note
      */
-    async updateNote(noteId: string, adminId: string, noteText: string) {
+    async updateNote(noteId: string, adminId: string, noteText: string, context: AuditContext = { actorId: adminId }) {
         const note = await prisma.adminNote.findUnique({
             where: { id: noteId },
         });
@@ -551,6 +808,14 @@ export class AdminService {
             data: { noteText },
         });
 
+        await auditService.record(context, {
+            action: 'note.update',
+            entityType: 'AdminNote',
+            entityId: noteId,
+            before: { noteText: note.noteText },
+            after: { noteText: updated.noteText },
+        });
+
         logger.info(`Note ${noteId} updated by admin ${adminId}`);
         return updated;
     }
@@ -558,7 +823,7 @@ export class AdminService {
     /**
      * Delete admin note (soft delete)
      */
-    async deleteNote(noteId: string, adminId: string) {
+    async deleteNote(noteId: string, adminId: string, context: AuditContext = { actorId: adminId }) {
         const note = await prisma.adminNote.findUnique({
             where: { id: noteId },
         });
@@ -576,6 +841,14 @@ export class AdminService {
             data: { deletedAt: new Date() },
         });
 
+        await auditService.record(context, {
+            action: 'note.delete',
+            entityType: 'AdminNote',
+            entityId: noteId,
+            before: { applicationId: note.applicationId, noteText: note.noteText },
+            after: null,
+        });
+
         logger.info(`Note ${noteId} soft deleted by admin ${adminId}`);
         return { success: true };
     }
@@ -599,6 +872,11 @@ export class AdminService {
             APPROVED: 0,
             REJECTED: 0,
             DISBURSED: 0,
+            RETURNED_FOR_CORRECTION: 0,
+            SHORTLISTED: 0,
+            WAITLISTED: 0,
+            WITHDRAWN: 0,
+            APPEALED: 0,
         };
 
         for (const item of statusCounts) {
@@ -608,12 +886,11 @@ export class AdminService {
         // Total applications
         const totalApplications = Object.values(byStatus).reduce((a, b) => a + b, 0);
 
-        // Total disbursed amount
-        const disbursementResult = await prisma.application.aggregate({
-            _sum: { disbursedAmount: true },
-            where: { status: ApplicationStatus.DISBURSED },
+        // Total disbursed amount (net of reversals)
+        const disbursementResult = await prisma.disbursement.aggregate({
+            _sum: { amount: true },
         });
-        const totalDisbursed = Number(disbursementResult._sum.disbursedAmount || 0);
+        const totalDisbursed = Number(disbursementResult._sum.amount || 0);
 
         // Average fee balance for pending applications (now inside formData)
         const averageFeeBalance = 0;
@@ -665,8 +942,13 @@ export class AdminService {
                 SUM(CASE WHEN status = 'APPROVED' THEN 1 ELSE 0 END) as approved,
                 SUM(CASE WHEN status = 'REJECTED' THEN 1 ELSE 0 END) as rejected,
                 SUM(CASE WHEN status = 'DISBURSED' THEN 1 ELSE 0 END) as disbursed,
-                SUM(CASE WHEN status = 'DISBURSED' THEN "disbursedAmount" ELSE 0 END) as disbursed_amount
+                SUM(COALESCE(d.net_amount, 0)) as disbursed_amount
             FROM applications
+            LEFT JOIN (
+                SELECT "applicationId", SUM(amount) as net_amount
+                FROM disbursements
+                GROUP BY "applicationId"
+            ) d ON d."applicationId" = applications.id
             WHERE "snapshotCounty" IS NOT NULL
             GROUP BY "snapshotCounty"
             ORDER BY total DESC
@@ -700,8 +982,13 @@ export class AdminService {
                 "snapshotEducationLevel" as education_level,
                 COUNT(*) as total,
                 SUM(CASE WHEN status = 'APPROVED' OR status = 'DISBURSED' THEN 1 ELSE 0 END) as approved,
-                SUM(CASE WHEN status = 'DISBURSED' THEN "disbursedAmount" ELSE 0 END) as disbursed_amount
+                SUM(COALESCE(d.net_amount, 0)) as disbursed_amount
             FROM applications
+            LEFT JOIN (
+                SELECT "applicationId", SUM(amount) as net_amount
+                FROM disbursements
+                GROUP BY "applicationId"
+            ) d ON d."applicationId" = applications.id
             WHERE "snapshotInstitution" IS NOT NULL
             GROUP BY "snapshotInstitution", "snapshotEducationLevel"
             ORDER BY total DESC
@@ -718,16 +1005,31 @@ export class AdminService {
     }
 
     /**
-     * Get disbursement analytics
+     * Get disbursement analytics (computed from the disbursement ledger)
      */
     async getDisbursementAnalytics(): Promise<DisbursementAnalytics> {
-        // Total stats
-        const totals = await prisma.application.aggregate({
-            _sum: { disbursedAmount: true },
-            _count: { id: true },
-            _avg: { disbursedAmount: true },
-            where: { status: ApplicationStatus.DISBURSED },
-        });
+        // Ledger totals: reversal entries carry negative amounts
+        const [net, reversed, beneficiaries] = await Promise.all([
+            prisma.disbursement.aggregate({
+                _sum: { amount: true },
+            }),
+            prisma.disbursement.aggregate({
+                _sum: { amount: true },
+                where: { reversalOfId: { not: null } },
+            }),
+            prisma.$queryRaw<Array<{ count: bigint }>>`
+                SELECT COUNT(*) as count
+                FROM (
+                    SELECT "applicationId"
+                    FROM disbursements
+                    GROUP BY "applicationId"
+                    HAVING SUM(amount) > 0
+                ) b
+            `,
+        ]);
+
+        const totalDisbursed = Number(net._sum.amount || 0);
+        const totalBeneficiaries = Number(beneficiaries[0]?.count || 0);
 
         // By month (last 12 months)
         const twelveMonthsAgo = new Date();
@@ -740,21 +1042,29 @@ export class AdminService {
         }>>`
             SELECT 
                 TO_CHAR(DATE_TRUNC('month', "disbursedAt"), 'YYYY-MM') as month,
-                SUM("disbursedAmount")::numeric as amount,
-                COUNT(*) as count
-            FROM applications
-            WHERE status = 'DISBURSED' AND "disbursedAt" >= ${twelveMonthsAgo}
+                SUM(amount)::numeric as amount,
+                COUNT(*) FILTER (WHERE "reversalOfId" IS NULL) as count
+            FROM disbursements
+            WHERE "disbursedAt" >= ${twelveMonthsAgo}
             GROUP BY DATE_TRUNC('month', "disbursedAt")
             ORDER BY month ASC
         `;
 
         // By education level
-        const byLevelData = await prisma.application.groupBy({
-            by: ['snapshotEducationLevel'],
-            where: { status: ApplicationStatus.DISBURSED },
-            _sum: { disbursedAmount: true },
-            _count: { id: true },
-        });
+        const byLevelData = await prisma.$queryRaw<Array<{
+            education_level: EducationLevel;
+            amount: number | null;
+            count: bigint;
+        }>>`
+            SELECT
+                a."snapshotEducationLevel" as education_level,
+                SUM(d.amount)::numeric as amount,
+                COUNT(DISTINCT d."applicationId") as count
+            FROM disbursements d
+            JOIN applications a ON a.id = d."applicationId"
+            WHERE a."snapshotEducationLevel" IS NOT NULL
+            GROUP BY a."snapshotEducationLevel"
+        `;
 
         const byEducationLevel: Record<EducationLevel, { amount: number; count: number }> = {
             HIGH_SCHOOL: { amount: 0, count: 0 },
@@ -764,18 +1074,17 @@ export class AdminService {
         };
 
         for (const item of byLevelData) {
-            if (item.snapshotEducationLevel) {
-                byEducationLevel[item.snapshotEducationLevel] = {
-                    amount: Number(item._sum.disbursedAmount || 0),
-                    count: item._count.id,
-                };
-            }
+            byEducationLevel[item.education_level] = {
+                amount: Number(item.amount || 0),
+                count: Number(item.count),
+            };
         }
 
         return {
-            totalDisbursed: Number(totals._sum.disbursedAmount || 0),
-            totalBeneficiaries: totals._count.id,
-            averageDisbursement: Number(totals._avg.disbursedAmount || 0),
+            totalDisbursed,
+            totalReversed: Math.abs(Number(reversed._sum.amount || 0)),
+            totalBeneficiaries,
+            averageDisbursement: totalBeneficiaries > 0 ? totalDisbursed / totalBeneficiaries : 0,
             byMonth: monthlyData.map(item => ({
                 month: item.month,
                 amount: Number(item.amount || 0),
@@ -798,8 +1107,8 @@ export class AdminService {
                 where: {
                     OR: [
                         { fullName: { contains: query, mode: 'insensitive' } },
-                        { nationalIdNumber: { contains: query } },
-                        { passportNumber: { contains: query } },
+                        { nationalIdNumberHash: blindIndex(query) },
+                        { passportNumberHash: blindIndex(query) },
                         { institutionName: { contains: query, mode: 'insensitive' } },
                         { user: { email: { contains: query, mode: 'insensitive' } } },
                         { user: { phone: { contains: query } } },
@@ -809,7 +1118,7 @@ export class AdminService {
                 take: limit,
                 include: {
                     user: {
-                        select: { email: true, phone: true },
+                        select: { email: true, phone: true, emailVerifiedAt: true, phoneVerifiedAt: true },
                     },
                     _count: {
                         select: { applications: true },
@@ -820,8 +1129,8 @@ export class AdminService {
                 where: {
                     OR: [
                         { fullName: { contains: query, mode: 'insensitive' } },
-                        { nationalIdNumber: { contains: query } },
-                        { passportNumber: { contains: query } },
+                        { nationalIdNumberHash: blindIndex(query) },
+                        { passportNumberHash: blindIndex(query) },
                         { institutionName: { contains: query, mode: 'insensitive' } },
                         { user: { email: { contains: query, mode: 'insensitive' } } },
                         { user: { phone: { contains: query } } },
@@ -846,7 +1155,7 @@ export class AdminService {
     /**
      * Export applications to CSV format
      */
-    async exportApplications(filters: Partial<ApplicationFilterParams>) {
+    async exportApplications(filters: Partial<ApplicationFilterParams>, context: AuditContext) {
         const where: Prisma.ApplicationWhereInput = {};
 
         if (filters.status) {
@@ -871,6 +1180,7 @@ export class AdminService {
             where,
             orderBy: { submittedAt: 'desc' },
             select: {
+                id: true,
                 applicationNumber: true,
                 snapshotFullName: true,
                 snapshotNationalId: true,
@@ -883,11 +1193,18 @@ export class AdminService {
                 formData: true,
                 status: true,
                 submittedAt: true,
-                disbursedAmount: true,
-                disbursedAt: true,
             },
         });
 
+        // Net disbursed amount and latest payment date per application, from the ledger
+        const ledger = await prisma.disbursement.groupBy({
+            by: ['applicationId'],
+            where: { applicationId: { in: applications.map(app => app.id) } },
+            _sum: { amount: true },
+            _max: { disbursedAt: true },
+        });
+        const ledgerByApplication = new Map(ledger.map(entry => [entry.applicationId, entry]));
+
         // Generate CSV header
         const headers = [
             'Application Number',
@@ -922,38 +1239,47 @@ export class AdminService {
         const fd = (app: any, key: string): string =>
             app.formData && typeof app.formData === 'object' ? (app.formData[key] ?? '') : '';
 
-        const rows = applications.map(app => [
-            app.applicationNumber,
-            app.snapshotFullName || '',
-            app.snapshotNationalId || '',
-            app.snapshotEmail || '',
-            app.snapshotPhone || '',
-            app.snapshotInstitution || '',
-            app.snapshotProgramme || '',
-            app.snapshotEducationLevel || '',
-            app.snapshotCounty || '',
-            fd(app, 'outstandingFeesBalance'),   // now in formData
-            app.status,
-            app.submittedAt?.toISOString() || '',
-            app.disbursedAmount?.toString() || '',
-            app.disbursedAt?.toISOString() || '',
-            fd(app, 'guardianName'),
-            fd(app, 'guardianPhone'),
-            fd(app, 'householdIncomeRange'),
-            fd(app, 'orphanStatus'),
-            fd(app, 'disabilityStatus') === 'true' ? 'Yes' : 'No',
-            fd(app, 'whoLivesWith'),
-            fd(app, 'numberOfSiblings'),
-            fd(app, 'kcseGrade'),
-            fd(app, 'gpa'),
-            fd(app, 'totalAnnualFeeAmount'),
-            fd(app, 'careerAspirations'),
-        ]);
+        const rows = applications.map(app => {
+            const disbursed = ledgerByApplication.get(app.id);
+            return [
+                app.applicationNumber,
+                app.snapshotFullName || '',
+                app.snapshotNationalId || '',
+                app.snapshotEmail || '',
+                app.snapshotPhone || '',
+                app.snapshotInstitution || '',
+                app.snapshotProgramme || '',
+                app.snapshotEducationLevel || '',
+                app.snapshotCounty || '',
+                fd(app, 'outstandingFeesBalance'),   // now in formData
+                app.status,
+                app.submittedAt?.toISOString() || '',
+                disbursed?._sum.amount?.toString() || '',
+                disbursed?._max.disbursedAt?.toISOString() || '',
+                fd(app, 'guardianName'),
+                fd(app, 'guardianPhone'),
+                fd(app, 'householdIncomeRange'),
+                fd(app, 'orphanStatus'),
+                fd(app, 'disabilityStatus') === 'true' ? 'Yes' : 'No',
+                fd(app, 'whoLivesWith'),
+                fd(app, 'numberOfSiblings'),
+                fd(app, 'kcseGrade'),
+                fd(app, 'gpa'),
+                fd(app, 'totalAnnualFeeAmount'),
+                fd(app, 'careerAspirations'),
+            ];
+        });
 
         const csv = [headers.join(','), ...rows.map(row =>
             row.map(cell => `"${(cell || '').replace(/"/g, '""')}"`).join(',')
         )].join('\n');
 
+        await auditService.record(context, {
+            action: 'application.export',
+            entityType: 'Application',
+            metadata: { filters, count: applications.length },
+        });
+
         return {
             csv,
             count: applications.length,
@@ -981,16 +1307,29 @@ export class AdminService {
         description?: string;
         startDate: string;
         endDate: string;
-    }) {
-        return prisma.applicationPeriod.create({
+        appealWindowDays?: number;
+        blindReview?: boolean;
+    }, context: AuditContext) {
+        const period = await prisma.applicationPeriod.create({
             data: {
                 academicYear: data.academicYear,
                 title: data.title,
                 description: data.description,
                 startDate: new Date(data.startDate),
                 endDate: new Date(data.endDate),
+                appealWindowDays: data.appealWindowDays,
+                blindReview: data.blindReview,
             },
         });
+
+        await auditService.record(context, {
+            action: 'period.create',
+            entityType: 'ApplicationPeriod',
+            entityId: period.id,
+            after: this.auditedPeriod(period),
+        });
+
+        return period;
     }
 
     /**
@@ -1002,11 +1341,13 @@ export class AdminService {
         description?: string;
         startDate?: string;
         endDate?: string;
-    }) {
+        appealWindowDays?: number;
+        blindReview?: boolean;
+    }, context: AuditContext) {
         const period = await prisma.applicationPeriod.findUnique({ where: { id } });
         if (!period) throw new Error('Application period not found');
 
-        return prisma.applicationPeriod.update({
+        const updated = await prisma.applicationPeriod.update({
             where: { id },
             data: {
                 ...data,
@@ -1014,28 +1355,52 @@ export class AdminService {
                 endDate: data.endDate ? new Date(data.endDate) : undefined,
             },
         });
+
+        await auditService.record(context, {
+            action: 'period.update',
+            entityType: 'ApplicationPeriod',
+            entityId: id,
+            before: this.auditedPeriod(period),
+            after: this.auditedPeriod(updated),
+        });
+
+        return updated;
     }
 
     /**
      * Delete an application period
      */
-    async deleteApplicationPeriod(id: string) {
+    async deleteApplicationPeriod(id: string, context: AuditContext) {
         const period = await prisma.applicationPeriod.findUnique({ where: { id } });
         if (!period) throw new Error('Application period not found');
         if (period.isActive) throw new Error('Cannot delete an active application period');
 
         await prisma.applicationPeriod.delete({ where: { id } });
+
+        await auditService.record(context, {
+            action: 'period.delete',
+            entityType: 'ApplicationPeriod',
+            entityId: id,
+            before: this.auditedPeriod(period),
+            after: null,
+        });
+
         return { deleted: true };
     }
 
     /**
      * Activate an application period (deactivates all others)
      */
-    async activateApplicationPeriod(id: string) {
+    async activateApplicationPeriod(id: string, context: AuditContext) {
         const period = await prisma.applicationPeriod.findUnique({ where: { id } });
         if (!period) throw new Error('Application period not found');
 
-        return prisma.$transaction(async (tx) => {
+        const previouslyActive = await prisma.applicationPeriod.findMany({
+            where: { isActive: true, id: { not: id } },
+            select: { id: true },
+        });
+
+        const activated = await prisma.$transaction(async (tx) => {
             // Deactivate all periods
             await tx.applicationPeriod.updateMany({
                 where: { isActive: true },
@@ -1048,23 +1413,36 @@ export class AdminService {
                 data: { isActive: true },
             });
         });
+
+        await auditService.record(context, {
+            action: 'period.activate',
+            entityType: 'ApplicationPeriod',
+            entityId: id,
+            before: { isActive: period.isActive },
+            after: { isActive: true },
+            metadata: { deactivatedPeriodIds: previouslyActive.map(p => p.id) },
+        });
+
+        return activated;
+    }
+
+    // Period fields recorded in the audit log
+    private auditedPeriod(period: ApplicationPeriod) {
+        const { academicYear, title, description, startDate, endDate, isActive, appealWindowDays, blindReview } = period;
+        return { academicYear, title, description, startDate, endDate, isActive, appealWindowDays, blindReview };
     }
 
     // ==================== APPLICATION SCORING ====================
 
     /**
-     * Score an application (create or update)
+     * Score an application (create or update) against the rubric currently in force
+     * for its application period. Only assigned reviewers may score.
      */
     async scoreApplication(
         applicationId: string,
         reviewerId: string,
-        scores: {
-            financialNeed: number;
-            academicMerit: number;
-            communityImpact: number;
-            vulnerability: number;
-            comments?: string;
-        }
+        data: ScoreApplicationRequest,
+        context: AuditContext = { actorId: reviewerId }
     ) {
         const application = await prisma.application.findUnique({
             where: { id: applicationId },
@@ -1072,35 +1450,61 @@ export class AdminService {
 
         if (!application) throw new Error('Application not found');
 
-        const overallScore = (
-            scores.financialNeed +
-            scores.academicMerit +
-            scores.communityImpact +
-            scores.vulnerability
-        ) / 4;
+        await reviewService.assertAssigned(applicationId, reviewerId);
+
+        const rubric = await rubricService.getCurrentRubric(application.applicationPeriodId);
+        const overallScore = rubricService.calculateOverallScore(rubric.criteria, data.scores);
+
+        const previous = await prisma.reviewScore.findUnique({
+            where: { applicationId_reviewerId: { applicationId, reviewerId } },
+        });
+
+        const values = {
+            rubricId: rubric.id,
+            criterionScores: data.scores,
+            overallScore,
+            comments: data.comments,
+        };
 
-        return prisma.reviewScore.upsert({
+        const score = await prisma.reviewScore.upsert({
             where: {
                 applicationId_reviewerId: {
                     applicationId,
                     reviewerId,
                 },
             },
-            update: {
-                ...scores,
-                overallScore,
-            },
+            update: values,
             create: {
                 applicationId,
                 reviewerId,
-                ...scores,
-                overallScore,
+                ...values,
+            },
+            include: {
+                rubric: { select: { id: true, name: true, version: true } },
             },
         });
+
+        await reviewService.markCompleted(applicationId, reviewerId);
+
+        await auditService.record(context, {
+            action: previous ? 'score.update' : 'score.create',
+            entityType: 'ReviewScore',
+            entityId: score.id,
+            before: previous && {
+                rubricId: previous.rubricId,
+                criterionScores: previous.criterionScores,
+                overallScore: previous.overallScore,
+                comments: previous.comments,
+            },
+            after: values,
+            metadata: { applicationId },
+        });
+
+        return score;
     }
 
     /**
-     * Get all scores for an application
+     * Get all scores for an application, each with the rubric version it was recorded against
      */
     async getApplicationScores(applicationId: string) {
         const scores = await prisma.reviewScore.findMany({
@@ -1109,6 +1513,9 @@ export class AdminService {
                 reviewer: {
                     select: { email: true },
                 },
+                rubric: {
+                    include: { criteria: { orderBy: { sortOrder: 'asc' } } },
+                },
             },
             orderBy: { createdAt: 'desc' },
         });
@@ -1124,47 +1531,53 @@ export class AdminService {
         };
     }
 
+    // ==================== USER PERMISSIONS ====================
+
     /**
-     * Get scoring rubric definition
+     * Replace the permissions granted to a staff user on top of their role's.
+     * Nobody can change their own grants or grant a permission they do not hold.
      */
-    getScoringRubric() {
-        return {
-            criteria: [
-                {
-                    key: 'financialNeed',
-                    label: 'Financial Need',
-                    description: 'Level of financial hardship and need for bursary support',
-                    min: 1,
-                    max: 5,
-                    weight: 0.25,
-                },
-                {
-                    key: 'academicMerit',
-                    label: 'Academic Merit',
-                    description: 'Academic performance and potential',
-                    min: 1,
-                    max: 5,
-                    weight: 0.25,
-                },
-                {
-                    key: 'communityImpact',
-                    label: 'Community Impact',
-                    description: 'Community involvement and potential to give back',
-                    min: 1,
-                    max: 5,
-                    weight: 0.25,
-                },
-                {
-                    key: 'vulnerability',
-                    label: 'Vulnerability',
-                    description: 'Orphan status, disability, and social vulnerability',
-                    min: 1,
-                    max: 5,
-                    weight: 0.25,
-                },
-            ],
-            totalMaxScore: 5,
-        };
+    async setUserPermissions(userId: string, permissions: string[], adminId: string, context: AuditContext = { actorId: adminId }) {
+        if (userId === adminId) {
+            throw new Error('You cannot change your own permissions');
+        }
+
+        const [user, admin] = await Promise.all([
+            prisma.user.findFirst({ where: { id: userId, deletedAt: null } }),
+            prisma.user.findUnique({ where: { id: adminId }, select: { role: true } }),
+        ]);
+
+        if (!user) {
+            throw new Error('User not found');
+        }
+
+        if (user.role === UserRole.STUDENT) {
+            throw new Error('Permissions can only be granted to staff users');
+        }
+
+        const held: string[] = admin ? await permissionService.getUserPermissions(adminId, admin.role) : [];
+        const notHeld = permissions.filter(permission => !held.includes(permission));
+
+        if (notHeld.length > 0) {
+            throw new Error(`You cannot grant permissions you do not hold: ${notHeld.join(', ')}`);
+        }
+
+        const updated = await prisma.user.update({
+            where: { id: userId },
+            data: { permissions: Array.from(new Set(permissions)) },
+            select: { id: true, email: true, role: true, permissions: true },
+        });
+
+        await auditService.record(context, {
+            action: 'user.permissions_change',
+            entityType: 'User',
+            entityId: userId,
+            before: { permissions: user.permissions },
+            after: { permissions: updated.permissions },
+        });
+
+        logger.info(`Permissions of user ${userId} set to [${updated.permissions.join(', ')}] by admin ${adminId}`);
+        return updated;
     }
 
     // ==================== ENHANCED ANALYTICS ====================
@@ -1199,24 +1612,35 @@ export class AdminService {
      * Conversion funnel analytics
      */
     async getFunnelAnalytics() {
-        const [draft, pending, underReview, approved, disbursed] = await Promise.all([
+        const [draft, pending, underReview, shortlisted, waitlisted, approved, disbursed, withdrawn] = await Promise.all([
             prisma.application.count({ where: { status: 'DRAFT' } }),
             prisma.application.count({ where: { status: 'PENDING' } }),
             prisma.application.count({ where: { status: 'UNDER_REVIEW' } }),
+            prisma.application.count({ where: { status: 'SHORTLISTED' } }),
+            prisma.application.count({ where: { status: 'WAITLISTED' } }),
             prisma.application.count({ where: { status: 'APPROVED' } }),
             prisma.application.count({ where: { status: 'DISBURSED' } }),
+            prisma.application.count({ where: { status: 'WITHDRAWN' } }),
         ]);
 
-        const totalSubmitted = pending + underReview + approved + disbursed;
+        const inReview = underReview + shortlisted + waitlisted;
+        const totalSubmitted = pending + inReview + approved + disbursed;
+
+        // Withdrawn applications left the funnel; report them on their own
+        const submittedIncludingWithdrawn = totalSubmitted + withdrawn;
 
         return {
             stages: [
                 { stage: 'Draft', count: draft, percentage: 100 },
                 { stage: 'Submitted', count: totalSubmitted, percentage: draft > 0 ? Math.round((totalSubmitted / (draft + totalSubmitted)) * 100) : 0 },
-                { stage: 'Under Review', count: underReview + approved + disbursed, percentage: totalSubmitted > 0 ? Math.round(((underReview + approved + disbursed) / totalSubmitted) * 100) : 0 },
+                { stage: 'Under Review', count: inReview + approved + disbursed, percentage: totalSubmitted > 0 ? Math.round(((inReview + approved + disbursed) / totalSubmitted) * 100) : 0 },
                 { stage: 'Approved', count: approved + disbursed, percentage: totalSubmitted > 0 ? Math.round(((approved + disbursed) / totalSubmitted) * 100) : 0 },
                 { stage: 'Disbursed', count: disbursed, percentage: totalSubmitted > 0 ? Math.round((disbursed / totalSubmitted) * 100) : 0 },
             ],
+            withdrawn: {
+                count: withdrawn,
+                percentage: submittedIncludingWithdrawn > 0 ? Math.round((withdrawn / submittedIncludingWithdrawn) * 100) : 0,
+            },
         };
     }
 
@@ -1244,15 +1668,11 @@ export class AdminService {
     }
 
     /**
-     * Demographics analytics (orphan, disability, age, income)
+     * Demographics analytics (orphan, disability, income)
      */
     async getDemographicsAnalytics() {
-        const [orphanData, disabilityData, incomeData] = await Promise.all([
-            prisma.studentProfile.groupBy({
-                by: ['orphanStatus'],
-                _count: { id: true },
-                where: { orphanStatus: { not: null } },
-            }),
+        const [orphanStatus, disabilityData, incomeData] = await Promise.all([
+            this.countOrphanStatuses(),
             prisma.studentProfile.groupBy({
                 by: ['disabilityStatus'],
                 _count: { id: true },
@@ -1265,10 +1685,7 @@ export class AdminService {
         ]);
 
         return {
-            orphanStatus: orphanData.map(d => ({
-                status: d.orphanStatus,
-                count: d._count.id,
-            })),
+            orphanStatus,
             disability: disabilityData.map(d => ({
                 hasDisability: d.disabilityStatus,
                 count: d._count.id,
@@ -1279,6 +1696,37 @@ export class AdminService {
             })),
         };
     }
+
+    /**
+     * Orphan status is stored encrypted, so it cannot be grouped in the database.
+     * Count the decrypted values in batches instead.
+     */
+    private async countOrphanStatuses() {
+        const counts = new Map<string, number>();
+        let cursor: string | undefined;
+
+        for (;;) {
+            const profiles = await prisma.studentProfile.findMany({
+                where: { orphanStatus: { not: null } },
+                select: { id: true, orphanStatus: true },
+                orderBy: { id: 'asc' },
+                take: DEMOGRAPHICS_BATCH_SIZE,
+                ...(cursor ? { cursor: { id: cursor }, skip: 1 } : {}),
+            });
+
+            if (profiles.length === 0) break;
+
+            for (const { orphanStatus } of profiles) {
+                if (orphanStatus) {
+                    counts.set(orphanStatus, (counts.get(orphanStatus) ?? 0) + 1);
+                }
+            }
+
+            cursor = profiles[profiles.length - 1].id;
+        }
+
+        return Array.from(counts, ([status, count]) => ({ status: status as OrphanStatus, count }));
+    }
 }
 
 export default new AdminService();
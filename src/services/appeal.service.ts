@@ -0,0 +1,389 @@
+import prisma from '../config/database';
+import {
+    AppealStatus,
+    ApplicationStatus,
+    NotificationType,
+    Prisma,
+    UserRole
+} from '@prisma/client';
+import { AppealDecision, AppealFilterParams, AuditContext } from '../types/api.types';
+import logger from '../config/logger';
+import adminService from './admin.service';
+import workflowService from './workflow.service';
+import notificationService from './notification.service';
+import emailService from './email.service';
+
+// Used for applications that are not linked to an application period
+const DEFAULT_APPEAL_WINDOW_DAYS = 14;
+
+export class AppealService {
+    // ==================== STUDENT APPEALS ====================
+
+    /**
+     * Appeal a rejected application (REJECTED -> APPEALED).
+     * Must be submitted within the period's appeal window after the rejection.
+     */
+    async submitAppeal(userId: string, applicationId: string, statement: string) {
+        const profile = await prisma.studentProfile.findUnique({
+            where: { userId },
+            include: { user: { select: { email: true } } },
+        });
+
+        if (!profile) {
+            throw new Error('Profile not found');
+        }
+
+        const application = await prisma.application.findFirst({
+            where: {
+                id: applicationId,
+                studentProfileId: profile.id,
+            },
+            include: {
+                applicationPeriod: { select: { appealWindowDays: true } },
+                appeals: { select: { status: true } },
+            },
+        });
+
+        if (!application) {
+            throw new Error('Application not found');
+        }
+
+        if (application.status !== ApplicationStatus.REJECTED) {
+            throw new Error('Only rejected applications can be appealed');
+        }
+
+        const transition = await workflowService.assertTransition(
+            ApplicationStatus.REJECTED,
+            ApplicationStatus.APPEALED,
+            UserRole.STUDENT,
+            statement
+        );
+
+        // A dismissed or closed appeal is final; an upheld one re-opened the application
+        if (application.appeals.some(a => a.status === AppealStatus.DISMISSED || a.status === AppealStatus.CLOSED)) {
+            throw new Error('This application has already been appealed');
+        }
+
+        const rejection = await prisma.applicationStatusHistory.findFirst({
+            where: { applicationId, newStatus: ApplicationStatus.REJECTED },
+            orderBy: { changedAt: 'desc' },
+        });
+
+        const windowDays = application.applicationPeriod?.appealWindowDays ?? DEFAULT_APPEAL_WINDOW_DAYS;
+        const rejectedAt = rejection?.changedAt ?? application.reviewedAt ?? application.updatedAt;
+        const deadline = new Date(rejectedAt.getTime() + windowDays * 24 * 60 * 60 * 1000);
+
+        if (new Date() > deadline) {
+            throw new Error(`The appeal window for this application closed on ${deadline.toISOString().split('T')[0]}`);
+        }
+
+        const appeal = await prisma.$transaction(async (tx) => {
+            // Claim the rejection; a concurrent appeal or status change loses here
+            const claimed = await tx.application.updateMany({
+                where: { id: applicationId, status: ApplicationStatus.REJECTED },
+                data: { status: ApplicationStatus.APPEALED },
+            });
+
+            if (claimed.count === 0) {
+                throw new Error('Application status has changed');
+            }
+
+            const created = await tx.appeal.create({
+                data: {
+                    applicationId,
+                    statement,
+                    submittedBy: userId,
+                },
+            });
+
+            await tx.applicationStatusHistory.create({
+                data: {
+                    applicationId,
+                    previousStatus: ApplicationStatus.REJECTED,
+                    newStatus: ApplicationStatus.APPEALED,
+                    changedBy: userId,
+                    reason: 'Appeal submitted',
+                    autoGenerated: false,
+                },
+            });
+
+            return created;
+        });
+
+        if (transition.notifyAdmins) {
+            notificationService.notifyAdmins(
+                NotificationType.STATUS_CHANGE,
+                `Appeal Submitted for ${application.applicationNumber}`,
+                `The student appealed the rejection of application ${application.applicationNumber}.`,
+                { applicationId, appealId: appeal.id }
+            ).catch(err => logger.error('Admin notification send error', err));
+        }
+
+        emailService.sendAppealEmail(
+            profile.user.email,
+            profile.fullName,
+            application.applicationNumber,
+            'RECEIVED'
+        ).catch(err => logger.error('Email send error', err));
+
+        logger.info(`Appeal ${appeal.id} submitted for application ${application.applicationNumber} by user ${userId}`);
+        return appeal;
+    }
+
+    /**
+     * Attach a supporting document to a pending appeal
+     */
+    async uploadAppealDocument(
+        userId: string,
+        appealId: string,
+        file: {
+            originalname: string;
+            filename: string;
+            path: string;
+            size: number;
+            mimetype: string;
+        }
+    ) {
+        const appeal = await prisma.appeal.findFirst({
+            where: { id: appealId, submittedBy: userId },
+        });
+
+        if (!appeal) {
+            throw new Error('Appeal not found');
+        }
+
+        if (appeal.status !== AppealStatus.PENDING) {
+            throw new Error('Documents can only be added to pending appeals');
+        }
+
+        const document = await prisma.appealDocument.create({
+            data: {
+                appealId,
+                originalFilename: file.originalname,
+                storedFilename: file.filename,
+                filePath: file.path,
+                fileSize: file.size,
+                mimeType: file.mimetype,
+            },
+        });
+
+        logger.info(`Appeal document uploaded for appeal ${appealId}`);
+        return document;
+    }
+
+    /**
+     * Get the appeals of one of the student's applications
+     */
+    async getStudentAppeals(userId: string, applicationId: string) {
+        const application = await prisma.application.findFirst({
+            where: { id: applicationId, studentProfile: { userId } },
+            select: { id: true },
+        });
+
+        if (!application) {
+            throw new Error('Application not found');
+        }
+
+        return prisma.appeal.findMany({
+            where: { applicationId },
+            orderBy: { submittedAt: 'desc' },
+            include: { documents: true },
+        });
+    }
+
+    // ==================== ADMIN QUEUE ====================
+
+    /**
+     * List appeals, oldest pending first
+     */
+    async listAppeals(params: AppealFilterParams) {
+        const { page = 1, limit = 20, status } = params;
+
+        const pageNumber = Number(page) || 1;
+        const limitNumber = Number(limit) || 20;
+
+        const where: Prisma.AppealWhereInput = {};
+        if (status) {
+            where.status = status;
+        }
+
+        const [appeals, total] = await Promise.all([
+            prisma.appeal.findMany({
+                where,
+                skip: (pageNumber - 1) * limitNumber,
+                take: limitNumber,
+                orderBy: { submittedAt: 'asc' },
+                include: {
+                    application: {
+                        select: { applicationNumber: true, snapshotFullName: true, status: true },
+                    },
+                    _count: { select: { documents: true } },
+                },
+            }),
+            prisma.appeal.count({ where }),
+        ]);
+
+        return {
+            data: appeals,
+            pagination: {
+                page: pageNumber,
+                limit: limitNumber,
+                total,
+                totalPages: Math.ceil(total / limitNumber),
+            },
+        };
+    }
+
+    /**
+     * Get a single appeal with its documents
+     */
+    async getAppeal(appealId: string) {
+        const appeal = await prisma.appeal.findUnique({
+            where: { id: appealId },
+            include: {
+                application: {
+                    select: { id: true, applicationNumber: true, snapshotFullName: true, status: true },
+                },
+                documents: true,
+                decidedByUser: { select: { email: true } },
+            },
+        });
+
+        if (!appeal) {
+            throw new Error('Appeal not found');
+        }
+
+        return appeal;
+    }
+
+    /**
+     * Decide an appeal. Upheld appeals re-open the application for review;
+     * dismissed appeals restore the rejection.
+     */
+    async decideAppeal(
+        appealId: string,
+        adminId: string,
+        decision: AppealDecision,
+        notes: string,
+        actorRole: UserRole,
+        context: AuditContext = { actorId: adminId }
+    ) {
+        const newStatus = decision === AppealStatus.UPHELD
+            ? ApplicationStatus.UNDER_REVIEW
+            : ApplicationStatus.REJECTED;
+
+        return this.resolveAppeal(appealId, adminId, decision, newStatus, `Appeal ${decision.toLowerCase()}: ${notes}`, notes, actorRole, context);
+    }
+
+    /**
+     * Close an appeal without deciding it on its merits (e.g. out of scope or duplicate).
+     * The rejection stands.
+     */
+    async closeAppeal(
+        appealId: string,
+        adminId: string,
+        reason: string,
+        actorRole: UserRole,
+        context: AuditContext = { actorId: adminId }
+    ) {
+        return this.resolveAppeal(
+            appealId,
+            adminId,
+            AppealStatus.CLOSED,
+            ApplicationStatus.REJECTED,
+            `Appeal closed: ${reason}`,
+            reason,
+            actorRole,
+            context
+        );
+    }
+
+    // ==================== HELPERS ====================
+
+    private async resolveAppeal(
+        appealId: string,
+        adminId: string,
+        outcome: 'UPHELD' | 'DISMISSED' | 'CLOSED',
+        newStatus: ApplicationStatus,
+        historyReason: string,
+        notes: string,
+        actorRole: UserRole,
+        context: AuditContext
+    ) {
+        const appeal = await prisma.appeal.findUnique({
+            where: { id: appealId },
+            include: {
+                application: {
+                    include: {
+                        studentProfile: {
+                            include: { user: { select: { id: true, email: true } } },
+                        },
+                    },
+                },
+            },
+        });
+
+        if (!appeal) {
+            throw new Error('Appeal not found');
+        }
+
+        if (appeal.status !== AppealStatus.PENDING) {
+            throw new Error(`Appeal has already been resolved (${appeal.status})`);
+        }
+
+        const { change, resolved } = await prisma.$transaction(async (tx) => {
+            const change = await adminService.applyStatusChange(
+                tx,
+                appeal.applicationId,
+                adminId,
+                newStatus,
+                historyReason,
+                { actorRole }
+            );
+
+            // Claim the appeal; a concurrent decision on the same appeal loses here
+            const claimed = await tx.appeal.updateMany({
+                where: { id: appealId, status: AppealStatus.PENDING },
+                data: {
+                    status: outcome,
+                    decidedBy: adminId,
+                    decidedAt: new Date(),
+                    decisionNotes: notes,
+                },
+            });
+
+            if (claimed.count === 0) {
+                throw new Error('Appeal has already been resolved');
+            }
+
+            const resolved = await tx.appeal.findUniqueOrThrow({ where: { id: appealId } });
+            return { change, resolved };
+        });
+
+        await adminService.announceStatusChange(change, context);
+
+        const { application } = appeal;
+        const studentUser = application.studentProfile.user;
+
+        notificationService.createNotification(
+            studentUser.id,
+            NotificationType.STATUS_CHANGE,
+            `Appeal for ${application.applicationNumber} ${outcome.toLowerCase()}`,
+            `Your appeal for application ${application.applicationNumber} has been ${outcome.toLowerCase()}.`,
+            { applicationId: application.id, appealId, outcome }
+        ).catch(err => logger.error('Notification send error', err));
+
+        emailService.sendAppealEmail(
+            studentUser.email,
+            application.snapshotFullName || 'Student',
+            application.applicationNumber,
+            outcome,
+            notes
+        ).catch(err => logger.error('Email send error', err));
+
+        logger.info(`Appeal ${appealId} ${outcome} by admin ${adminId}`);
+        return resolved;
+    }
+}
+
+export default new AppealService();
@@ -0,0 +1,173 @@
+import prisma from '../config/database';
+import { Prisma } from '@prisma/client';
+import { AuditContext, AuditLogParams } from '../types/api.types';
+import logger from '../config/logger';
+
+export interface AuditEntry {
+    action: string;
+    entityType: string;
+    entityId?: string | null;
+    metadata?: Record<string, unknown>;
+    // State of the entity before and after the action; null for creations / deletions
+    before?: Record<string, unknown> | null;
+    after?: Record<string, unknown> | null;
+}
+
+type FieldChange = { from: unknown; to: unknown };
+
+// CSV exports are capped; narrow the filters to export more
+const MAX_EXPORT_ROWS = 10000;
+
+const CSV_HEADERS = ['Timestamp', 'Actor', 'Actor ID', 'Action', 'Entity Type', 'Entity ID', 'Changes', 'Metadata', 'IP Address', 'User Agent'];
+
+/**
+ * Top-level fields whose values differ, as { field: { from, to } }
+ */
+const diff = (
+    before: Record<string, unknown> | null | undefined,
+    after: Record<string, unknown> | null | undefined
+): Record<string, FieldChange> | null => {
+    const from = before ?? {};
+    const to = after ?? {};
+    const changes: Record<string, FieldChange> = {};
+
+    for (const key of new Set([...Object.keys(from), ...Object.keys(to)])) {
+        if (JSON.stringify(from[key]) !== JSON.stringify(to[key])) {
+            changes[key] = { from: from[key] ?? null, to: to[key] ?? null };
+        }
+    }
+
+    return Object.keys(changes).length > 0 ? changes : null;
+};
+
+const toJson = (value: unknown) => JSON.parse(JSON.stringify(value));
+
+const csvCell = (value: unknown): string => {
+    const text = value === null || value === undefined
+        ? ''
+        : typeof value === 'object' ? JSON.stringify(value) : String(value);
+    return `"${text.replace(/"/g, '""')}"`;
+};
+
+export class AuditService {
+    // ==================== RECORDING ====================
+
+    /**
+     * Record an administrative action.
+     * Fails silently — the action itself has already happened, so a failed
+     * audit write is logged rather than surfaced to the caller.
+     */
+    async record(context: AuditContext, entry: AuditEntry): Promise<void> {
+        try {
+            const changes = entry.before !== undefined || entry.after !== undefined
+                ? diff(entry.before, entry.after)
+                : null;
+
+            await prisma.auditLog.create({
+                data: {
+                    actorId: context.actorId,
+                    action: entry.action,
+                    entityType: entry.entityType,
+                    entityId: entry.entityId ?? null,
+                    metadata: entry.metadata ? toJson(entry.metadata) : undefined,
+                    changes: changes ? toJson(changes) : undefined,
+                    ipAddress: context.ipAddress,
+                    userAgent: context.userAgent?.slice(0, 500),
+                },
+            });
+        } catch (error) {
+            logger.error(`Failed to write audit log entry ${entry.action}`, error);
+        }
+    }
+
+    // ==================== QUERYING ====================
+
+    /**
+     * Audit log entries matching the filters, newest first
+     */
+    async list(params: AuditLogParams) {
+        const { page, limit } = params;
+        const where = this.buildWhere(params);
+
+        const [entries, total] = await Promise.all([
+            prisma.auditLog.findMany({
+                where,
+                include: { actor: { select: { email: true, role: true } } },
+                orderBy: { createdAt: 'desc' },
+                skip: (page - 1) * limit,
+                take: limit,
+            }),
+            prisma.auditLog.count({ where }),
+        ]);
+
+        return {
+            data: entries,
+            pagination: {
+                page,
+                limit,
+                total,
+                totalPages: Math.ceil(total / limit),
+            },
+        };
+    }
+
+    /**
+     * Audit log entries matching the filters as CSV, newest first
+     */
+    async exportCsv(params: Omit<AuditLogParams, 'page' | 'limit'>) {
+        const entries = await prisma.auditLog.findMany({
+            where: this.buildWhere(params),
+            include: { actor: { select: { email: true } } },
+            orderBy: { createdAt: 'desc' },
+            take: MAX_EXPORT_ROWS,
+        });
+
+        const rows = entries.map(entry => [
+            entry.createdAt.toISOString(),
+            entry.actor?.email,
+            entry.actorId,
+            entry.action,
+            entry.entityType,
+            entry.entityId,
+            entry.changes,
+            entry.metadata,
+            entry.ipAddress,
+            entry.userAgent,
+        ]);
+
+        const csv = [
+            CSV_HEADERS.join(','),
+            ...rows.map(row => row.map(csvCell).join(',')),
+        ].join('\n');
+
+        return {
+            csv,
+            count: entries.length,
+            truncated: entries.length === MAX_EXPORT_ROWS,
+            filename: `stf-audit-log-${new Date().toISOString().split('T')[0]}.csv`,
+        };
+    }
+
+    // ==================== HELPERS ====================
+
+    private buildWhere(params: Omit<AuditLogParams, 'page' | 'limit'>): Prisma.AuditLogWhereInput {
+        const where: Prisma.AuditLogWhereInput = {};
+
+        if (params.actorId) where.actorId = params.actorId;
+        // "application" matches application.status_change, application.export, ...
+        if (params.action) where.action = { startsWith: params.action };
+        if (params.entityType) where.entityType = params.entityType;
+        if (params.entityId) where.entityId = params.entityId;
+
+        if (params.from || params.to) {
+            where.createdAt = {
+                ...(params.from && { gte: params.from }),
+                ...(params.to && { lte: params.to }),
+            };
+        }
+
+        return where;
+    }
+}
+
+export default new AuditService();
@@ -1,12 +1,48 @@
 import bcrypt from 'bcrypt';
-import jwt from 'jsonwebtoken';
+import crypto from 'crypto';
 import prisma from '../config/database';
-import { UserRole } from '@prisma/client';
-import { JwtPayload, TokenResponse } from '../types/auth.types';
+import { ConsentPurpose, Prisma, UserRole, VerificationChannel } from '@prisma/client';
+import {
+    LoginResult,
+    SessionContext,
+    SessionInfo,
+    TokenResponse,
+    TwoFactorChallenge,
+    TwoFactorChallengePurpose,
+} from '../types/auth.types';
 import logger from '../config/logger';
+import sessionService from './session.service';
+import securityService from './security.service';
+import twoFactorService from './twoFactor.service';
+import verificationService from './verification.service';
+import emailService from './email.service';
+import consentService from './consent.service';
+import { hash } from '../utils/encryption';
 
 const SALT_ROUNDS = 12;
 
+// How long a password reset link stays valid
+export const PASSWORD_RESET_TTL_MINUTES = parseInt(process.env.PASSWORD_RESET_TTL_MINUTES || '30', 10);
+
+// User fields needed to check and complete a login
+const LOGIN_USER_SELECT = {
+    id: true,
+    email: true,
+    phone: true,
+    password: true,
+    role: true,
+    isActive: true,
+    deletedAt: true,
+    failedLoginAttempts: true,
+    lockedUntil: true,
+    twoFactorEnabled: true,
+    passwordResetRequired: true,
+} as const;
+
+type LoginUser = Prisma.UserGetPayload<{ select: typeof LOGIN_USER_SELECT }>;
+
+const PASSWORD_RESET_REQUESTED_MESSAGE = 'If your account exists, you will receive a password reset link';
+
 export class AuthService {
     /**
      * Register a new student user
@@ -16,7 +52,9 @@ export class AuthService {
         phone: string,
         password: string,
         consentVersion: string,
-        ipAddress: string
+        ipAddress: string,
+        context: SessionContext = {},
+        consentPurposes: ConsentPurpose[] = []
     ): Promise<{ user: any; tokens: TokenResponse }> {
         // Check if user already exists
         const existingUser = await prisma.user.findFirst({
@@ -29,6 +67,12 @@ export class AuthService {
             throw new Error('User with this email or phone already exists');
         }
 
+        // The client must show the notice currently in effect, once one is published
+        const consentDocument = await consentService.getCurrentDocument();
+        if (consentDocument && consentDocument.version !== consentVersion) {
+            throw new Error(`Please accept the current data protection notice (version ${consentDocument.version})`);
+        }
+
         // Hash password
         const hashedPassword = await bcrypt.hash(password, SALT_ROUNDS);
 
@@ -51,19 +95,34 @@ export class AuthService {
             });
 
             // Log consent
-            await tx.dataConsentLog.create({
-                data: {
-                    userId: newUser.id,
+            if (consentDocument) {
+                await consentService.recordAcceptance(tx, newUser.id, consentDocument, consentPurposes, {
                     ipAddress,
-                    consentVersion,
-                },
-            });
+                    userAgent: context.userAgent,
+                });
+            } else {
+                await tx.dataConsentLog.create({
+                    data: {
+                        userId: newUser.id,
+                        ipAddress,
+                        consentVersion,
+                        purposes: [ConsentPurpose.DATA_PROCESSING],
+                    },
+                });
+            }
 
             return newUser;
         });
 
-        // Generate tokens
-        const tokens = this.generateTokens(user.id, user.email, user.role);
+        // Start a session; the registering device becomes the first known device
+        const tokens = await sessionService.createSession(user, context);
+        await securityService.recordLoginEvent(user.email, user.id, context, true);
+
+        // Both contacts must be verified before the student can apply
+        for (const channel of [VerificationChannel.EMAIL, VerificationChannel.PHONE]) {
+            verificationService.sendCode(user.id, channel)
+                .catch(err => logger.error(`Failed to send ${channel} verification code`, err));
+        }
 
         logger.info(`New user registered: ${email}`);
 
@@ -71,112 +130,171 @@ export class AuthService {
     }
 
     /**
-     * Login user
+     * Login user. Accounts with two-factor enabled (or whose role requires it)
+     * get a challenge instead of tokens and finish with verifyTwoFactorLogin /
+     * completeTwoFactorEnrollment.
      */
-    async login(email: string, password: string): Promise<{ user: any; tokens: TokenResponse }> {
+    async login(email: string, password: string, context: SessionContext = {}): Promise<LoginResult> {
         // Find user
         const user = await prisma.user.findUnique({
             where: { email },
-            select: {
-                id: true,
-                email: true,
-                phone: true,
-                password: true,
-                role: true,
-                isActive: true,
-                deletedAt: true,
-            },
+            select: LOGIN_USER_SELECT,
         });
 
         if (!user || user.deletedAt) {
+            await securityService.recordLoginEvent(email, null, context, false, 'unknown_account');
             throw new Error('Invalid credentials');
         }
 
-        if (!user.isActive) {
-            throw new Error('Account is inactive');
-        }
+        await this.assertCanLogin(user, context);
 
         // Verify password
         const isPasswordValid = await bcrypt.compare(password, user.password);
 
         if (!isPasswordValid) {
-            throw new Error('Invalid credentials');
+            await this.failLogin(user, context, 'invalid_password', 'Invalid credentials');
         }
 
-        // Generate tokens
-        const tokens = this.generateTokens(user.id, user.email, user.role);
+        if (user.passwordResetRequired) {
+            throw new Error('Password reset required. Use the link sent to your email, or request a new one.');
+        }
 
-        // Remove password from response
-        const { password: _, ...userWithoutPassword } = user;
+        if (user.twoFactorEnabled) {
+            return { challenge: this.twoFactorChallenge(user, 'two_factor') };
+        }
 
-        logger.info(`User logged in: ${email}`);
+        if (twoFactorService.isRequiredFor(user.role)) {
+            return { challenge: this.twoFactorChallenge(user, 'two_factor_setup') };
+        }
 
-        return { user: userWithoutPassword, tokens };
+        return this.completeLogin(user, context);
     }
 
     /**
-     * Generate JWT tokens
+     * Second login step: exchange a challenge token and an authenticator (or
+     * recovery) code for tokens. Wrong codes count towards the lockout.
      */
-    generateTokens(userId: string, email: string, role: UserRole): TokenResponse {
-        const jwtSecret = process.env.JWT_SECRET;
-        const jwtRefreshSecret = process.env.JWT_REFRESH_SECRET;
-        const jwtExpiresIn = process.env.JWT_EXPIRES_IN || '1h';
-        const jwtRefreshExpiresIn = process.env.JWT_REFRESH_EXPIRES_IN || '7d';
-
-        if (!jwtSecret || !jwtRefreshSecret) {
-            throw new Error('JWT secrets not configured');
-        }
+    async verifyTwoFactorLogin(challengeToken: string, code: string, context: SessionContext = {}): Promise<LoginResult> {
+        const userId = twoFactorService.verifyChallenge(challengeToken, 'two_factor');
+        const user = await this.findLoginUser(userId);
 
-        const payload: JwtPayload = {
-            id: userId,
-            email,
-            role,
-        };
+        await this.assertCanLogin(user, context);
 
-        const accessToken = jwt.sign(payload, jwtSecret, { expiresIn: jwtExpiresIn } as jwt.SignOptions);
-        const refreshToken = jwt.sign(payload, jwtRefreshSecret, { expiresIn: jwtRefreshExpiresIn } as jwt.SignOptions);
+        if (!(await twoFactorService.verify(user.id, code))) {
+            await this.failLogin(user, context, 'invalid_two_factor', 'Invalid two-factor code');
+        }
 
-        return {
-            accessToken,
-            refreshToken,
-            expiresIn: jwtExpiresIn,
-        };
+        return this.completeLogin(user, context);
     }
 
     /**
-     * Refresh access token
+     * Start two-factor enrolment from a login challenge (roles that require two-factor)
      */
-    async refreshToken(refreshToken: string): Promise<TokenResponse> {
-        const jwtRefreshSecret = process.env.JWT_REFRESH_SECRET;
+    async startTwoFactorEnrollment(challengeToken: string) {
+        const userId = twoFactorService.verifyChallenge(challengeToken, 'two_factor_setup');
+        return twoFactorService.startEnrollment(userId);
+    }
+
+    /**
+     * Finish enrolment from a login challenge and log in. Returns the recovery codes.
+     */
+    async completeTwoFactorEnrollment(challengeToken: string, code: string, context: SessionContext = {}) {
+        const userId = twoFactorService.verifyChallenge(challengeToken, 'two_factor_setup');
+        const user = await this.findLoginUser(userId);
+
+        await this.assertCanLogin(user, context);
+
+        const recoveryCodes = await twoFactorService.confirmEnrollment(user.id, code);
+        const result = await this.completeLogin(user, context);
 
-        if (!jwtRefreshSecret) {
-            throw new Error('JWT refresh secret not configured');
+        return { ...result, recoveryCodes };
+    }
+
+    private async findLoginUser(userId: string) {
+        const user = await prisma.user.findUnique({
+            where: { id: userId },
+            select: LOGIN_USER_SELECT,
+        });
+
+        if (!user || user.deletedAt) {
+            throw new Error('Invalid credentials');
         }
 
-        try {
-            const decoded = jwt.verify(refreshToken, jwtRefreshSecret) as JwtPayload;
+        return user;
+    }
 
-            // Verify user still exists and is active
-            const user = await prisma.user.findUnique({
-                where: { id: decoded.id },
-                select: {
-                    id: true,
-                    email: true,
-                    role: true,
-                    isActive: true,
-                    deletedAt: true,
-                },
-            });
+    /**
+     * Reject locked and inactive accounts
+     */
+    private async assertCanLogin(user: LoginUser, context: SessionContext): Promise<void> {
+        // Locked accounts are rejected before any credential is checked
+        const lockedUntil = securityService.getLockedUntil(user);
+        if (lockedUntil) {
+            await securityService.recordLoginEvent(user.email, user.id, context, false, 'locked');
+            throw new Error(`Account is locked until ${lockedUntil.toISOString()}`);
+        }
 
-            if (!user || user.deletedAt || !user.isActive) {
-                throw new Error('User not found or inactive');
-            }
+        if (!user.isActive) {
+            await securityService.recordLoginEvent(user.email, user.id, context, false, 'inactive');
+            throw new Error('Account is inactive');
+        }
+    }
 
-            // Generate new tokens
-            return this.generateTokens(user.id, user.email, user.role);
-        } catch (error) {
-            throw new Error('Invalid refresh token');
+    /**
+     * Count a failed credential check and throw
+     */
+    private async failLogin(
+        user: LoginUser,
+        context: SessionContext,
+        reason: 'invalid_password' | 'invalid_two_factor',
+        message: string
+    ): Promise<never> {
+        const lockedNow = await securityService.recordFailedLogin(user, context, reason);
+        if (lockedNow) {
+            throw new Error(`Too many failed attempts. Account is locked until ${lockedNow.toISOString()}`);
         }
+        throw new Error(message);
+    }
+
+    private twoFactorChallenge(user: LoginUser, purpose: TwoFactorChallengePurpose): TwoFactorChallenge {
+        return {
+            twoFactorRequired: true,
+            setupRequired: purpose === 'two_factor_setup',
+            ...twoFactorService.createChallenge(user, purpose),
+        };
+    }
+
+    /**
+     * All credentials checked: record the login and start a session
+     */
+    private async completeLogin(user: LoginUser, context: SessionContext) {
+        await securityService.recordSuccessfulLogin(user, context);
+
+        // Start a session
+        const tokens = await sessionService.createSession(user, context);
+
+        logger.info(`User logged in: ${user.email}`);
+
+        return {
+            user: {
+                id: user.id,
+                email: user.email,
+                phone: user.phone,
+                role: user.role,
+                isActive: user.isActive,
+                deletedAt: user.deletedAt,
+                twoFactorEnabled: user.twoFactorEnabled || twoFactorService.isRequiredFor(user.role),
+            },
+            tokens,
+        };
+    }
+
+    /**
+     * Refresh access token. The refresh token is single-use: a new one is
+     * returned and replaying the old one revokes the session.
+     */
+    async refreshToken(refreshToken: string, context: SessionContext = {}): Promise<TokenResponse> {
+        return sessionService.rotate(refreshToken, context);
     }
 
     /**
@@ -200,83 +318,170 @@ export class AuthService {
 
         const hashedPassword = await bcrypt.hash(newPassword, SALT_ROUNDS);
 
-        await prisma.user.update({
-            where: { id: userId },
-            data: { password: hashedPassword },
-        });
+        await prisma.$transaction([
+            prisma.user.update({
+                where: { id: userId },
+                data: { password: hashedPassword },
+            }),
+            this.invalidateResetTokens(userId),
+        ]);
 
         logger.info(`Password changed for user: ${user.email}`);
     }
 
     /**
-     * Request password reset
-     * In a real app, this would send an email. For now we'll just log it.
+     * Request password reset: email a single-use reset link. Any earlier
+     * outstanding link for the account stops working.
      */
-    async requestPasswordReset(email: string): Promise<string> {
+    async requestPasswordReset(email: string, ipAddress?: string): Promise<string> {
         const user = await prisma.user.findUnique({
             where: { email },
         });
 
         if (!user || !user.isActive || user.deletedAt) {
             // Return success even if user not found to prevent enumeration
-            return 'If your account exists, you will receive a password reset link';
+            return PASSWORD_RESET_REQUESTED_MESSAGE;
         }
 
-        // Generate reset token (in production, use a separate table or Redis with short expiry)
-        const resetToken = jwt.sign(
-            { id: user.id, type: 'reset' },
-            process.env.JWT_SECRET!,
-            { expiresIn: '15m' }
-        );
+        const resetLink = await this.createPasswordResetLink(user.id, PASSWORD_RESET_TTL_MINUTES, ipAddress);
+
+        emailService.sendPasswordResetEmail(user.email, resetLink, PASSWORD_RESET_TTL_MINUTES)
+            .catch(err => logger.error('Failed to send password reset email', err));
 
-        // MOCK EMAIL SENDING
-        logger.info(`Password reset requested for ${email}. Token: ${resetToken}`);
+        logger.info(`Password reset requested for user: ${user.id}`);
 
-        return 'Password reset link has been sent to your email';
+        return PASSWORD_RESET_REQUESTED_MESSAGE;
     }
 
     /**
-     * Reset password with token
+     * Issue a single-use reset token and return the frontend link for it.
+     * Any earlier outstanding token for the account stops working.
+     */
+    async createPasswordResetLink(userId: string, ttlMinutes: number = PASSWORD_RESET_TTL_MINUTES, ipAddress?: string): Promise<string> {
+        const resetToken = crypto.randomBytes(32).toString('hex');
+
+        await prisma.$transaction([
+            this.invalidateResetTokens(userId),
+            prisma.passwordResetToken.create({
+                data: {
+                    userId,
+                    tokenHash: hash(resetToken),
+                    requestedIp: ipAddress,
+                    expiresAt: new Date(Date.now() + ttlMinutes * 60 * 1000),
+                },
+            }),
+        ]);
+
+        const baseUrl = process.env.FRONTEND_URL || 'http://localhost:5173';
+        return `${baseUrl.replace(/\/$/, '')}/reset-password?token=${resetToken}`;
+    }
+
+    /**
+     * Reset password with token. The token is consumed, and every session of
+     * the account is signed out. Also used by invited staff to set their first
+     * password, so a completed reset proves the email address.
      */
     async resetPassword(token: string, newPassword: string): Promise<void> {
-        try {
-            const decoded = jwt.verify(token, process.env.JWT_SECRET!) as any;
+        const resetToken = await prisma.passwordResetToken.findUnique({
+            where: { tokenHash: hash(token) },
+            include: {
+                user: { select: { id: true, email: true, isActive: true, deletedAt: true, emailVerifiedAt: true } },
+            },
+        });
 
-            if (decoded.type !== 'reset') {
-                throw new Error('Invalid token type');
-            }
+        if (
+            !resetToken ||
+            resetToken.usedAt ||
+            resetToken.invalidatedAt ||
+            resetToken.expiresAt <= new Date() ||
+            !resetToken.user.isActive ||
+            resetToken.user.deletedAt
+        ) {
+            throw new Error('Invalid or expired reset token');
+        }
+
+        const hashedPassword = await bcrypt.hash(newPassword, SALT_ROUNDS);
+        const { user } = resetToken;
 
-            const user = await prisma.user.findUnique({
-                where: { id: decoded.id },
+        await prisma.$transaction(async (tx) => {
+            // Claim the token; a concurrent reset with the same token loses here
+            const claimed = await tx.passwordResetToken.updateMany({
+                where: { id: resetToken.id, usedAt: null, invalidatedAt: null },
+                data: { usedAt: new Date() },
             });
 
-            if (!user || !user.isActive || user.deletedAt) {
-                throw new Error('User not found');
+            if (claimed.count === 0) {
+                throw new Error('Invalid or expired reset token');
             }
 
-            const hashedPassword = await bcrypt.hash(newPassword, SALT_ROUNDS);
-
-            await prisma.user.update({
+            await tx.user.update({
                 where: { id: user.id },
-                data: { password: hashedPassword },
+                data: {
+                    password: hashedPassword,
+                    passwordResetRequired: false,
+                    ...(!user.emailVerifiedAt && { emailVerifiedAt: new Date() }),
+                },
             });
 
-            logger.info(`Password reset completed for user: ${user.email}`);
+            await tx.passwordResetToken.updateMany({
+                where: { userId: user.id, usedAt: null, invalidatedAt: null },
+                data: { invalidatedAt: new Date() },
+            });
+        });
 
-        } catch (error) {
-            throw new Error('Invalid or expired reset token');
-        }
+        await sessionService.revokeAllSessions(user.id, 'password_reset');
+
+        logger.info(`Password reset completed for user: ${user.email}`);
+    }
+
+    /**
+     * Invalidate the user's outstanding reset tokens (after a password change or a newer request)
+     */
+    private invalidateResetTokens(userId: string) {
+        return prisma.passwordResetToken.updateMany({
+            where: { userId, usedAt: null, invalidatedAt: null },
+            data: { invalidatedAt: new Date() },
+        });
     }
 
     /**
-     * Logout
-     * In JWT stateless auth, client discards token. 
-     * We can optionally blacklist token in Redis if implemented.
+     * Logout: revoke the current session so its refresh token can no longer be used.
+     * The session is taken from the access token, or from the refresh token if given.
      */
-    async logout(userId: string): Promise<void> {
-        // Placeholder for token blacklisting
+    async logout(userId: string, sessionId?: string, refreshToken?: string): Promise<void> {
+        const targetSessionId = refreshToken
+            ? await sessionService.findSessionId(userId, refreshToken)
+            : sessionId;
+
+        if (targetSessionId) {
+            await sessionService.revokeSession(userId, targetSessionId, 'logout').catch(() => undefined);
+        }
+
         logger.info(`User logged out: ${userId}`);
     }
+
+    // ==================== SESSIONS ====================
+
+    /**
+     * List the user's active sessions (devices)
+     */
+    async getSessions(userId: string, currentSessionId?: string): Promise<SessionInfo[]> {
+        return sessionService.listSessions(userId, currentSessionId);
+    }
+
+    /**
+     * Sign out one of the user's sessions
+     */
+    async revokeSession(userId: string, sessionId: string): Promise<void> {
+        await sessionService.revokeSession(userId, sessionId);
+    }
+
+    /**
+     * Sign out every session except the current one
+     */
+    async revokeOtherSessions(userId: string, currentSessionId?: string): Promise<number> {
+        return sessionService.revokeAllSessions(userId, 'session_revoked', currentSessionId);
+    }
 }
 
 export default new AuthService();
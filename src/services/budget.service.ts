@@ -0,0 +1,341 @@
+import prisma, { TransactionClient } from '../config/database';
+import { ApplicationStatus, EducationLevel } from '@prisma/client';
+import {
+    AuditContext,
+    BudgetCheckChange,
+    BudgetLine,
+    PeriodBudgetReport,
+    SetPeriodBudgetRequest,
+} from '../types/api.types';
+import logger from '../config/logger';
+import auditService from './audit.service';
+
+// Applications in these statuses hold a commitment against their period budget
+const COMMITTED_STATUSES: ApplicationStatus[] = [
+    ApplicationStatus.APPROVED,
+    ApplicationStatus.DISBURSED,
+];
+
+interface UsageRow {
+    education_level: EducationLevel | null;
+    county: string | null;
+    applications: bigint;
+    committed: number | null;
+    disbursed: number | null;
+}
+
+interface Usage {
+    committed: number;
+    disbursed: number;
+    applications: number;
+}
+
+export class BudgetService {
+    // ==================== BUDGET REPORT ====================
+
+    /**
+     * Report the budget of a period: committed vs. disbursed vs. remaining,
+     * for the period total and for each education level / county cap
+     */
+    async getPeriodBudget(periodId: string): Promise<PeriodBudgetReport> {
+        const period = await prisma.applicationPeriod.findUnique({
+            where: { id: periodId },
+            include: {
+                budgetCaps: {
+                    include: { county: { select: { id: true, name: true } } },
+                },
+            },
+        });
+
+        if (!period) {
+            throw new Error('Application period not found');
+        }
+
+        const rows = await this.getUsageRows(periodId);
+
+        const total = this.sumUsage(rows);
+
+        // Levels and counties are reported when they carry a cap or have commitments
+        const levels = new Set<EducationLevel>();
+        const counties = new Set<string>();
+        for (const row of rows) {
+            if (row.education_level) levels.add(row.education_level);
+            if (row.county) counties.add(row.county);
+        }
+        for (const cap of period.budgetCaps) {
+            if (cap.educationLevel) levels.add(cap.educationLevel);
+            if (cap.county) counties.add(cap.county.name);
+        }
+
+        const byEducationLevel = Array.from(levels).map(level => {
+            const cap = period.budgetCaps.find(c => c.educationLevel === level);
+            return {
+                capId: cap?.id ?? null,
+                educationLevel: level,
+                ...this.toLine(
+                    cap ? Number(cap.amount) : null,
+                    this.sumUsage(rows.filter(r => r.education_level === level))
+                ),
+            };
+        });
+
+        const byCounty = Array.from(counties).map(countyName => {
+            const cap = period.budgetCaps.find(c => c.county?.name === countyName);
+            return {
+                capId: cap?.id ?? null,
+                countyId: cap?.countyId ?? null,
+                countyName,
+                ...this.toLine(
+                    cap ? Number(cap.amount) : null,
+                    this.sumUsage(rows.filter(r => r.county === countyName))
+                ),
+            };
+        });
+
+        return {
+            periodId: period.id,
+            title: period.title,
+            academicYear: period.academicYear,
+            total: this.toLine(period.totalBudget !== null ? Number(period.totalBudget) : null, total),
+            byEducationLevel,
+            byCounty,
+        };
+    }
+
+    // ==================== BUDGET CONFIGURATION ====================
+
+    /**
+     * Set the total budget of a period and replace its caps
+     */
+    async setPeriodBudget(periodId: string, data: SetPeriodBudgetRequest, context: AuditContext) {
+        const period = await prisma.applicationPeriod.findUnique({
+            where: { id: periodId },
+            include: { budgetCaps: { select: { educationLevel: true, countyId: true, amount: true } } },
+        });
+        if (!period) throw new Error('Application period not found');
+
+        const caps = data.caps || [];
+
+        const countyIds = caps.filter(c => c.countyId).map(c => c.countyId as string);
+        if (countyIds.length > 0) {
+            const found = await prisma.county.count({ where: { id: { in: countyIds } } });
+            if (found !== new Set(countyIds).size) {
+                throw new Error('County not found');
+            }
+        }
+
+        if (data.totalBudget !== null) {
+            const capped = caps.find(c => c.amount > (data.totalBudget as number));
+            if (capped) {
+                throw new Error('A budget cap cannot be larger than the total budget');
+            }
+        }
+
+        await prisma.$transaction(async (tx) => {
+            await tx.applicationPeriod.update({
+                where: { id: periodId },
+                data: { totalBudget: data.totalBudget },
+            });
+
+            await tx.periodBudgetCap.deleteMany({ where: { applicationPeriodId: periodId } });
+
+            if (caps.length > 0) {
+                await tx.periodBudgetCap.createMany({
+                    data: caps.map(cap => ({
+                        applicationPeriodId: periodId,
+                        educationLevel: cap.educationLevel ?? null,
+                        countyId: cap.countyId ?? null,
+                        amount: cap.amount,
+                    })),
+                });
+            }
+        });
+
+        await auditService.record(context, {
+            action: 'period.budget_change',
+            entityType: 'ApplicationPeriod',
+            entityId: periodId,
+            before: {
+                totalBudget: period.totalBudget === null ? null : Number(period.totalBudget),
+                caps: period.budgetCaps.map(cap => ({ ...cap, amount: Number(cap.amount) })),
+            },
+            after: {
+                totalBudget: data.totalBudget,
+                caps: caps.map(cap => ({
+                    educationLevel: cap.educationLevel ?? null,
+                    countyId: cap.countyId ?? null,
+                    amount: cap.amount,
+                })),
+            },
+        });
+
+        logger.info(`Budget for application period ${periodId} set to ${data.totalBudget} with ${caps.length} caps`);
+
+        return this.getPeriodBudget(periodId);
+    }
+
+    // ==================== OVER-COMMITMENT GUARD ====================
+
+    /**
+     * Check that a change to an application's award or disbursements stays within
+     * the budget of its period. Throws when a budget would be exceeded, unless an
+     * override reason is given. Returns true when the override was needed.
+     *
+     * Call it inside the transaction that writes the change: the period row stays
+     * locked until that transaction ends, so concurrent approvals and disbursements
+     * are checked one at a time and cannot both spend the same remainder.
+     */
+    async assertWithinBudget(
+        tx: TransactionClient,
+        applicationId: string,
+        change: BudgetCheckChange,
+        overrideReason?: string
+    ): Promise<boolean> {
+        const target = await tx.application.findUnique({
+            where: { id: applicationId },
+            select: { applicationPeriodId: true },
+        });
+
+        if (!target) {
+            throw new Error('Application not found');
+        }
+
+        if (target.applicationPeriodId) {
+            await tx.$queryRaw`SELECT id FROM application_periods WHERE id = ${target.applicationPeriodId} FOR UPDATE`;
+        }
+
+        const application = await tx.application.findUnique({
+            where: { id: applicationId },
+            include: {
+                applicationPeriod: {
+                    include: { budgetCaps: { include: { county: { select: { name: true } } } } },
+                },
+            },
+        });
+
+        if (!application) {
+            throw new Error('Application not found');
+        }
+
+        const period = application.applicationPeriod;
+        if (!period || (period.totalBudget === null && period.budgetCaps.length === 0)) {
+            return false;
+        }
+
+        const ledger = await tx.disbursement.aggregate({
+            _sum: { amount: true },
+            where: { applicationId },
+        });
+        const netDisbursed = Number(ledger._sum.amount || 0);
+        const awarded = application.awardedAmount !== null ? Number(application.awardedAmount) : 0;
+
+        const currentCommitment = COMMITTED_STATUSES.includes(application.status)
+            ? Math.max(awarded, netDisbursed)
+            : 0;
+        const newCommitment = Math.max(
+            change.awardedAmount ?? awarded,
+            netDisbursed + (change.additionalDisbursement ?? 0)
+        );
+        const delta = newCommitment - currentCommitment;
+
+        if (delta <= 0) {
+            return false;
+        }
+
+        const rows = await this.getUsageRows(period.id, tx);
+        const breaches: string[] = [];
+
+        const check = (label: string, budget: number, usage: Usage) => {
+            const remaining = budget - usage.committed;
+            if (delta > remaining) {
+                breaches.push(`${label} (remaining ${remaining.toFixed(2)}, requested ${delta.toFixed(2)})`);
+            }
+        };
+
+        if (period.totalBudget !== null) {
+            check('period total', Number(period.totalBudget), this.sumUsage(rows));
+        }
+
+        const levelCap = period.budgetCaps.find(
+            c => c.educationLevel && c.educationLevel === application.snapshotEducationLevel
+        );
+        if (levelCap) {
+            check(
+                `${levelCap.educationLevel} cap`,
+                Number(levelCap.amount),
+                this.sumUsage(rows.filter(r => r.education_level === levelCap.educationLevel))
+            );
+        }
+
+        const countyCap = period.budgetCaps.find(
+            c => c.county && c.county.name === application.snapshotCounty
+        );
+        if (countyCap) {
+            check(
+                `${countyCap.county!.name} county cap`,
+                Number(countyCap.amount),
+                this.sumUsage(rows.filter(r => r.county === countyCap.county!.name))
+            );
+        }
+
+        if (breaches.length === 0) {
+            return false;
+        }
+
+        if (!overrideReason) {
+            throw new Error(`Budget exceeded for ${period.title}: ${breaches.join('; ')}`);
+        }
+
+        logger.warn(`Budget override for application ${applicationId}: ${breaches.join('; ')} - ${overrideReason}`);
+        return true;
+    }
+
+    // ==================== HELPERS ====================
+
+    /**
+     * Commitments and net disbursements of a period, grouped by education level and county.
+     * An application's commitment is the larger of its award and what has been paid out.
+     */
+    private async getUsageRows(periodId: string, client: TransactionClient = prisma): Promise<UsageRow[]> {
+        return client.$queryRaw<UsageRow[]>`
+            SELECT
+                a."snapshotEducationLevel" as education_level,
+                a."snapshotCounty" as county,
+                COUNT(*) as applications,
+                SUM(GREATEST(COALESCE(a."awardedAmount", 0), COALESCE(d.net_amount, 0))) as committed,
+                SUM(COALESCE(d.net_amount, 0)) as disbursed
+            FROM applications a
+            LEFT JOIN (
+                SELECT "applicationId", SUM(amount) as net_amount
+                FROM disbursements
+                GROUP BY "applicationId"
+            ) d ON d."applicationId" = a.id
+            WHERE a."applicationPeriodId" = ${periodId}
+              AND a.status IN ('APPROVED', 'DISBURSED')
+            GROUP BY a."snapshotEducationLevel", a."snapshotCounty"
+        `;
+    }
+
+    private sumUsage(rows: UsageRow[]): Usage {
+        return rows.reduce<Usage>(
+            (acc, row) => ({
+                committed: acc.committed + Number(row.committed || 0),
+                disbursed: acc.disbursed + Number(row.disbursed || 0),
+                applications: acc.applications + Number(row.applications),
+            }),
+            { committed: 0, disbursed: 0, applications: 0 }
+        );
+    }
+
+    private toLine(budget: number | null, usage: Usage): BudgetLine {
+        return {
+            budget,
+            committed: usage.committed,
+            disbursed: usage.disbursed,
+            remaining: budget !== null ? budget - usage.committed : null,
+            applications: usage.applications,
+        };
+    }
+}
+
+export default new BudgetService();
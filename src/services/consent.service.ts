@@ -0,0 +1,348 @@
+import prisma, { TransactionClient } from '../config/database';
+import { ConsentAction, ConsentDocument, ConsentPurpose, Prisma, UserRole } from '@prisma/client';
+import { AuditContext, ConsentContext, ConsentDocumentCreate } from '../types/api.types';
+import logger from '../config/logger';
+import auditService from './audit.service';
+
+// Accepting the notice always grants these; the other purposes are opt-in
+export const REQUIRED_PURPOSES: ConsentPurpose[] = [ConsentPurpose.DATA_PROCESSING];
+
+// The current notice is read on every student request, so it is cached briefly.
+// Publishing through this service clears the cache straight away.
+const CACHE_TTL_MS = 60 * 1000;
+
+// Students counted in the compliance report
+const ACTIVE_STUDENT_WHERE: Prisma.UserWhereInput = {
+    role: UserRole.STUDENT,
+    deletedAt: null,
+    anonymisedAt: null,
+};
+
+export class ConsentService {
+    private currentCache: { document: ConsentDocument | null; expiresAt: number } | null = null;
+
+    // ==================== DOCUMENTS ====================
+
+    /**
+     * The notice in effect: the latest one whose effective date has passed.
+     * Null until the first notice is published.
+     */
+    async getCurrentDocument(): Promise<ConsentDocument | null> {
+        if (this.currentCache && this.currentCache.expiresAt > Date.now()) {
+            return this.currentCache.document;
+        }
+
+        const document = await prisma.consentDocument.findFirst({
+            where: { effectiveFrom: { lte: new Date() } },
+            orderBy: { effectiveFrom: 'desc' },
+        });
+
+        this.currentCache = { document, expiresAt: Date.now() + CACHE_TTL_MS };
+        return document;
+    }
+
+    async listDocuments() {
+        return prisma.consentDocument.findMany({
+            orderBy: { effectiveFrom: 'desc' },
+            include: { createdBy: { select: { email: true } } },
+        });
+    }
+
+    /**
+     * Publish a new version of the notice. Once it takes effect, students must
+     * accept it before using the student API again.
+     */
+    async createDocument(data: ConsentDocumentCreate, context: AuditContext) {
+        const purposes = Array.from(new Set(data.purposes));
+        const missing = REQUIRED_PURPOSES.filter(purpose => !purposes.includes(purpose));
+
+        if (missing.length > 0) {
+            throw new Error(`The notice must ask for consent to ${missing.join(', ')}`);
+        }
+
+        const existing = await prisma.consentDocument.findUnique({ where: { version: data.version } });
+        if (existing) {
+            throw new Error(`Consent document version ${data.version} already exists`);
+        }
+
+        const now = new Date();
+        const effectiveFrom = data.effectiveFrom ? new Date(data.effectiveFrom) : now;
+
+        // A minute of slack for clocks and slow clients
+        if (effectiveFrom.getTime() < now.getTime() - 60 * 1000) {
+            throw new Error('Effective date cannot be in the past');
+        }
+
+        const document = await prisma.consentDocument.create({
+            data: {
+                version: data.version,
+                title: data.title,
+                content: data.content,
+                purposes,
+                effectiveFrom,
+                createdById: context.actorId,
+            },
+        });
+
+        this.currentCache = null;
+
+        await auditService.record(context, {
+            action: 'consent_document.create',
+            entityType: 'ConsentDocument',
+            entityId: document.id,
+            after: { version: document.version, purposes: document.purposes, effectiveFrom: document.effectiveFrom },
+        });
+
+        logger.info(`Consent document ${document.version} published, effective ${effectiveFrom.toISOString()}`);
+        return document;
+    }
+
+    // ==================== USER CONSENT ====================
+
+    /**
+     * Whether the user has accepted the current notice. Always true while no notice is published.
+     */
+    async hasCurrentConsent(userId: string): Promise<boolean> {
+        const document = await this.getCurrentDocument();
+
+        if (!document) {
+            return true;
+        }
+
+        const accepted = await prisma.userConsent.count({
+            where: {
+                userId,
+                purpose: { in: REQUIRED_PURPOSES },
+                consentDocumentId: document.id,
+                withdrawnAt: null,
+            },
+        });
+
+        return accepted === REQUIRED_PURPOSES.length;
+    }
+
+    async getStatus(userId: string) {
+        const [currentDocument, consents] = await Promise.all([
+            this.getCurrentDocument(),
+            prisma.userConsent.findMany({
+                where: { userId },
+                include: { consentDocument: { select: { version: true } } },
+                orderBy: { purpose: 'asc' },
+            }),
+        ]);
+
+        return {
+            currentDocument,
+            upToDate: await this.hasCurrentConsent(userId),
+            consents: consents.map(consent => ({
+                purpose: consent.purpose,
+                version: consent.consentDocument.version,
+                grantedAt: consent.grantedAt,
+                withdrawnAt: consent.withdrawnAt,
+            })),
+        };
+    }
+
+    /**
+     * Accept the current notice, opting in to the listed optional purposes.
+     * Optional purposes of the notice that are left out are withdrawn.
+     */
+    async acceptDocument(userId: string, version: string, purposes: ConsentPurpose[], context: ConsentContext) {
+        const document = await this.getCurrentDocument();
+
+        if (!document) {
+            throw new Error('No data protection notice has been published');
+        }
+
+        if (document.version !== version) {
+            throw new Error(`Please accept the current data protection notice (version ${document.version})`);
+        }
+
+        await prisma.$transaction(tx => this.recordAcceptance(tx, userId, document, purposes, context));
+
+        logger.info(`User ${userId} accepted consent document ${document.version}`);
+        return this.getStatus(userId);
+    }
+
+    /**
+     * Write the consent rows and log entries for an acceptance. Runs inside the
+     * caller's transaction, so registration can record consent with the new account.
+     */
+    async recordAcceptance(
+        tx: TransactionClient,
+        userId: string,
+        document: ConsentDocument,
+        purposes: ConsentPurpose[],
+        context: ConsentContext
+    ): Promise<void> {
+        const granted = Array.from(new Set([
+            ...REQUIRED_PURPOSES,
+            ...purposes.filter(purpose => document.purposes.includes(purpose)),
+        ]));
+        const declined = document.purposes.filter(purpose => !granted.includes(purpose));
+        const now = new Date();
+
+        for (const purpose of granted) {
+            await tx.userConsent.upsert({
+                where: { userId_purpose: { userId, purpose } },
+                create: { userId, purpose, consentDocumentId: document.id, grantedAt: now },
+                update: { consentDocumentId: document.id, grantedAt: now, withdrawnAt: null },
+            });
+        }
+
+        const withdrawn = await tx.userConsent.findMany({
+            where: { userId, purpose: { in: declined }, withdrawnAt: null },
+            select: { purpose: true },
+        });
+
+        if (withdrawn.length > 0) {
+            await tx.userConsent.updateMany({
+                where: { userId, purpose: { in: withdrawn.map(w => w.purpose) } },
+                data: { withdrawnAt: now },
+            });
+        }
+
+        const log = {
+            userId,
+            ipAddress: context.ipAddress,
+            userAgent: context.userAgent,
+            consentVersion: document.version,
+            consentDocumentId: document.id,
+        };
+
+        await tx.dataConsentLog.create({
+            data: { ...log, purposes: granted, action: ConsentAction.GRANTED, consentedAt: now },
+        });
+
+        if (withdrawn.length > 0) {
+            await tx.dataConsentLog.create({
+                data: { ...log, purposes: withdrawn.map(w => w.purpose), action: ConsentAction.WITHDRAWN, consentedAt: now },
+            });
+        }
+    }
+
+    /**
+     * Withdraw optional purposes. Consent to data processing can only end with erasure.
+     */
+    async withdraw(userId: string, purposes: ConsentPurpose[], context: ConsentContext) {
+        const required = purposes.filter(purpose => REQUIRED_PURPOSES.includes(purpose));
+        if (required.length > 0) {
+            throw new Error(`Consent to ${required.join(', ')} cannot be withdrawn. Request erasure of your data instead.`);
+        }
+
+        const active = await prisma.userConsent.findMany({
+            where: { userId, purpose: { in: purposes }, withdrawnAt: null },
+            include: { consentDocument: { select: { version: true } } },
+        });
+
+        if (active.length === 0) {
+            throw new Error('You have not given consent for these purposes');
+        }
+
+        const now = new Date();
+        await prisma.$transaction([
+            prisma.userConsent.updateMany({
+                where: { userId, purpose: { in: active.map(consent => consent.purpose) } },
+                data: { withdrawnAt: now },
+            }),
+            prisma.dataConsentLog.createMany({
+                data: active.map(consent => ({
+                    userId,
+                    ipAddress: context.ipAddress,
+                    userAgent: context.userAgent,
+                    consentVersion: consent.consentDocument.version,
+                    consentDocumentId: consent.consentDocumentId,
+                    purposes: [consent.purpose],
+                    action: ConsentAction.WITHDRAWN,
+                    consentedAt: now,
+                })),
+            }),
+        ]);
+
+        logger.info(`User ${userId} withdrew consent for ${active.map(consent => consent.purpose).join(', ')}`);
+        return this.getStatus(userId);
+    }
+
+    // ==================== COMPLIANCE REPORT ====================
+
+    /**
+     * Consent coverage across active students: how many accepted the current notice,
+     * which versions the rest are on, and grants and withdrawals per purpose
+     */
+    async getComplianceReport() {
+        const [currentDocument, documents] = await Promise.all([
+            this.getCurrentDocument(),
+            prisma.consentDocument.findMany({
+                orderBy: { effectiveFrom: 'desc' },
+                select: { id: true, version: true, effectiveFrom: true },
+            }),
+        ]);
+
+        const consentWhere: Prisma.UserConsentWhereInput = { user: ACTIVE_STUDENT_WHERE };
+
+        const [total, upToDate, noRecordedConsent, byDocument, granted, withdrawn] = await Promise.all([
+            prisma.user.count({ where: ACTIVE_STUDENT_WHERE }),
+            currentDocument
+                ? prisma.user.count({
+                    where: {
+                        ...ACTIVE_STUDENT_WHERE,
+                        consents: {
+                            some: {
+                                purpose: ConsentPurpose.DATA_PROCESSING,
+                                consentDocumentId: currentDocument.id,
+                                withdrawnAt: null,
+                            },
+                        },
+                    },
+                })
+                : Promise.resolve(0),
+            // Students who consented before notices were stored
+            prisma.user.count({
+                where: { ...ACTIVE_STUDENT_WHERE, consents: { none: { purpose: ConsentPurpose.DATA_PROCESSING } } },
+            }),
+            prisma.userConsent.groupBy({
+                by: ['consentDocumentId'],
+                where: { ...consentWhere, purpose: ConsentPurpose.DATA_PROCESSING, withdrawnAt: null },
+                _count: { _all: true },
+            }),
+            prisma.userConsent.groupBy({
+                by: ['purpose'],
+                where: { ...consentWhere, withdrawnAt: null },
+                _count: { _all: true },
+            }),
+            prisma.userConsent.groupBy({
+                by: ['purpose'],
+                where: { ...consentWhere, withdrawnAt: { not: null } },
+                _count: { _all: true },
+            }),
+        ]);
+
+        const countFor = <T>(rows: (T & { _count: { _all: number } })[], match: (row: T) => boolean) =>
+            rows.find(match)?._count._all ?? 0;
+
+        return {
+            generatedAt: new Date(),
+            currentDocument: currentDocument
+                ? { id: currentDocument.id, version: currentDocument.version, effectiveFrom: currentDocument.effectiveFrom }
+                : null,
+            students: {
+                total,
+                upToDate,
+                outdated: total - upToDate - noRecordedConsent,
+                noRecordedConsent,
+            },
+            byVersion: documents.map(document => ({
+                version: document.version,
+                effectiveFrom: document.effectiveFrom,
+                students: countFor(byDocument, row => row.consentDocumentId === document.id),
+            })),
+            byPurpose: Object.values(ConsentPurpose).map(purpose => ({
+                purpose,
+                granted: countFor(granted, row => row.purpose === purpose),
+                withdrawn: countFor(withdrawn, row => row.purpose === purpose),
+            })),
+        };
+    }
+}
+
+export default new ConsentService();
@@ -0,0 +1,247 @@
+import path from 'path';
+import { Readable } from 'stream';
+import archiver, { Archiver } from 'archiver';
+import prisma from '../config/database';
+import { AuditContext } from '../types/api.types';
+import logger from '../config/logger';
+import auditService from './audit.service';
+import storageService from './storage.service';
+
+// Bumped whenever the layout of the export changes
+const EXPORT_FORMAT_VERSION = 1;
+
+interface ManifestDocument {
+    path: string | null; // null when the file is missing from storage
+    kind: 'profile' | 'application' | 'appeal';
+    documentId: string;
+    documentType: string | null;
+    originalFilename: string;
+    mimeType: string;
+    fileSize: number;
+    uploadedAt: Date;
+    applicationNumber?: string;
+}
+
+type DocumentMeta = Pick<ManifestDocument, 'kind' | 'documentType' | 'applicationNumber'>;
+
+interface StoredDocument {
+    id: string;
+    originalFilename: string;
+    filePath: string;
+    fileSize: number;
+    mimeType: string;
+    uploadedAt: Date;
+}
+
+/**
+ * Keep the original name readable but safe as a ZIP entry
+ */
+const entryName = (documentId: string, originalFilename: string): string =>
+    `${documentId}-${path.basename(originalFilename).replace(/[^\w.\-]+/g, '_')}`;
+
+/**
+ * Open a stored file only when the archive gets to it, so a large export does not
+ * hold a connection to the storage backend open for every document at once
+ */
+async function* openWhenRead(location: string): AsyncGenerator<Buffer> {
+    yield* await storageService.read(location);
+}
+
+export class DataExportService {
+    /**
+     * Build the student's data-subject access export (Kenya Data Protection Act, s.26):
+     * a ZIP of JSON files covering their account, profile, applications, status
+     * history, appeals, disbursements, notifications and consent logs, their uploaded
+     * documents, and a manifest.json describing every entry.
+     *
+     * The returned archive has not been finalized; the caller pipes it and calls finalize().
+     */
+    async createExport(userId: string, context: AuditContext): Promise<{ archive: Archiver; filename: string }> {
+        const user = await prisma.user.findUnique({
+            where: { id: userId },
+            select: {
+                id: true,
+                email: true,
+                phone: true,
+                role: true,
+                createdAt: true,
+                emailVerifiedAt: true,
+                phoneVerifiedAt: true,
+                twoFactorEnabled: true,
+            },
+        });
+
+        if (!user) {
+            throw new Error('User not found');
+        }
+
+        const [profile, notifications, consentLogs] = await Promise.all([
+            prisma.studentProfile.findUnique({
+                where: { userId },
+                include: {
+                    county: { select: { name: true } },
+                    subCounty: { select: { name: true } },
+                    ward: { select: { name: true } },
+                    institution: { select: { name: true } },
+                    profileDocuments: { orderBy: { uploadedAt: 'asc' } },
+                },
+            }),
+            prisma.notification.findMany({
+                where: { userId },
+                orderBy: { createdAt: 'asc' },
+                select: { id: true, type: true, title: true, message: true, isRead: true, metadata: true, createdAt: true },
+            }),
+            prisma.dataConsentLog.findMany({
+                where: { userId },
+                orderBy: { consentedAt: 'asc' },
+            }),
+        ]);
+
+        const applications = profile
+            ? await prisma.application.findMany({
+                where: { studentProfileId: profile.id },
+                orderBy: { createdAt: 'asc' },
+                include: {
+                    applicationPeriod: { select: { academicYear: true, title: true } },
+                    applicationDocuments: { orderBy: { uploadedAt: 'asc' } },
+                    statusHistory: {
+                        orderBy: { changedAt: 'asc' },
+                        select: { previousStatus: true, newStatus: true, changedAt: true, reason: true, autoGenerated: true },
+                    },
+                    correctionRequests: {
+                        orderBy: { round: 'asc' },
+                        select: { round: true, reason: true, flaggedFields: true, flaggedDocuments: true, requestedAt: true, resolvedAt: true },
+                    },
+                    appeals: {
+                        orderBy: { submittedAt: 'asc' },
+                        include: { documents: { orderBy: { uploadedAt: 'asc' } } },
+                    },
+                    disbursements: {
+                        orderBy: { disbursedAt: 'asc' },
+                        select: {
+                            id: true,
+                            amount: true,
+                            payeeInstitution: true,
+                            paymentMethod: true,
+                            paymentReference: true,
+                            term: true,
+                            disbursedAt: true,
+                            reversalOfId: true,
+                        },
+                    },
+                },
+            })
+            : [];
+
+        const archive = archiver('zip', { zlib: { level: 9 } });
+        // Files are checked and added once the JSON has been built
+        const pendingDocuments: { folder: string; document: StoredDocument; meta: DocumentMeta }[] = [];
+
+        const addDocument = (folder: string, document: StoredDocument, meta: DocumentMeta) => {
+            pendingDocuments.push({ folder, document, meta });
+        };
+
+        // Storage locations are internal and left out of the JSON files
+        const withoutStorage = <T extends StoredDocument & { storedFilename: string }>({ filePath, storedFilename, ...rest }: T) => rest;
+
+        let profileData = null;
+        if (profile) {
+            // Blind indexes are lookup keys, not the student's data
+            const { profileDocuments, nationalIdNumberHash, passportNumberHash, ...rest } = profile;
+            profileData = { ...rest, documents: profileDocuments.map(withoutStorage) };
+            profileDocuments.forEach(document =>
+                addDocument('documents/profile', document, { kind: 'profile', documentType: document.documentType })
+            );
+        }
+
+        const applicationData = applications.map(({ applicationDocuments, appeals, reviewedBy, snapshotNationalIdHash, ...application }) => {
+            applicationDocuments.forEach(document =>
+                addDocument(`documents/applications/${application.applicationNumber}`, document, {
+                    kind: 'application',
+                    documentType: document.documentType,
+                    applicationNumber: application.applicationNumber,
+                })
+            );
+
+            return {
+                ...application,
+                documents: applicationDocuments.map(withoutStorage),
+                appeals: appeals.map(({ documents: appealDocuments, decidedBy, ...appeal }) => {
+                    appealDocuments.forEach(document =>
+                        addDocument(`documents/appeals/${application.applicationNumber}`, document, {
+                            kind: 'appeal',
+                            documentType: null,
+                            applicationNumber: application.applicationNumber,
+                        })
+                    );
+                    return { ...appeal, documents: appealDocuments.map(withoutStorage) };
+                }),
+            };
+        });
+
+        const files = [
+            { path: 'account.json', description: 'Your account details', records: 1, content: user },
+            { path: 'profile.json', description: 'Your student profile', records: profileData ? 1 : 0, content: profileData },
+            {
+                path: 'applications.json',
+                description: 'Your applications with form data, snapshots, status history, correction requests, appeals and disbursements',
+                records: applicationData.length,
+                content: applicationData,
+            },
+            { path: 'notifications.json', description: 'Notifications sent to you', records: notifications.length, content: notifications },
+            { path: 'consent-logs.json', description: 'Your data processing consents', records: consentLogs.length, content: consentLogs },
+        ];
+
+        for (const file of files) {
+            archive.append(JSON.stringify(file.content, null, 2), { name: file.path });
+        }
+
+        const documents: ManifestDocument[] = [];
+        for (const { folder, document, meta } of pendingDocuments) {
+            const name = `${folder}/${entryName(document.id, document.originalFilename)}`;
+            const exists = await storageService.exists(document.filePath);
+
+            if (exists) {
+                archive.append(Readable.from(openWhenRead(document.filePath)), { name });
+            } else {
+                logger.error(`File missing from storage during data export: ${document.filePath}`);
+            }
+
+            documents.push({
+                path: exists ? name : null,
+                documentId: document.id,
+                originalFilename: document.originalFilename,
+                mimeType: document.mimeType,
+                fileSize: document.fileSize,
+                uploadedAt: document.uploadedAt,
+                ...meta,
+            });
+        }
+
+        const exportedAt = new Date();
+        const manifest = {
+            formatVersion: EXPORT_FORMAT_VERSION,
+            exportedAt,
+            subject: { userId: user.id, email: user.email },
+            files: files.map(({ content, ...file }) => ({ ...file, mimeType: 'application/json' })),
+            documents,
+        };
+        archive.append(JSON.stringify(manifest, null, 2), { name: 'manifest.json' });
+
+        await auditService.record(context, {
+            action: 'student.data_export',
+            entityType: 'User',
+            entityId: userId,
+            metadata: { applications: applicationData.length, documents: documents.length },
+        });
+
+        logger.info(`Data export generated for user ${userId}`);
+
+        return {
+            archive,
+            filename: `stf-data-export-${exportedAt.toISOString().split('T')[0]}.zip`,
+        };
+    }
+}
+
+export default new DataExportService();
@@ -0,0 +1,326 @@
+import prisma from '../config/database';
+import { ApplicationStatus, Disbursement, Prisma, UserRole } from '@prisma/client';
+import {
+    AuditContext,
+    CreateDisbursementRequest,
+    DisbursementFilterParams,
+    DisbursementLedgerSummary,
+} from '../types/api.types';
+import logger from '../config/logger';
+import adminService from './admin.service';
+import budgetService from './budget.service';
+import auditService from './audit.service';
+
+const DISBURSABLE_STATUSES: ApplicationStatus[] = [
+    ApplicationStatus.APPROVED,
+    ApplicationStatus.DISBURSED,
+];
+
+export class DisbursementService {
+    // ==================== LEDGER QUERIES ====================
+
+    /**
+     * Get the ledger entries and running totals for a single application
+     */
+    async getApplicationLedger(applicationId: string) {
+        const application = await prisma.application.findUnique({
+            where: { id: applicationId },
+            select: { id: true, applicationNumber: true, status: true },
+        });
+
+        if (!application) {
+            throw new Error('Application not found');
+        }
+
+        const entries = await prisma.disbursement.findMany({
+            where: { applicationId },
+            orderBy: { disbursedAt: 'asc' },
+            include: {
+                recordedByUser: {
+                    select: { email: true },
+                },
+            },
+        });
+
+        return {
+            application,
+            entries,
+            summary: this.summarise(entries),
+        };
+    }
+
+    /**
+     * List ledger entries across all applications (finance view)
+     */
+    async listLedger(params: DisbursementFilterParams) {
+        const {
+            page = 1,
+            limit = 20,
+            paymentMethod,
+            applicationPeriodId,
+            disbursedAfter,
+            disbursedBefore,
+            search,
+        } = params;
+
+        const pageNumber = Number(page) || 1;
+        const limitNumber = Number(limit) || 20;
+
+        const where: Prisma.DisbursementWhereInput = {};
+
+        if (paymentMethod) {
+            where.paymentMethod = paymentMethod;
+        }
+
+        if (applicationPeriodId) {
+            where.application = { applicationPeriodId };
+        }
+
+        if (disbursedAfter || disbursedBefore) {
+            where.disbursedAt = {};
+            if (disbursedAfter) {
+                where.disbursedAt.gte = new Date(disbursedAfter);
+            }
+            if (disbursedBefore) {
+                where.disbursedAt.lte = new Date(disbursedBefore);
+            }
+        }
+
+        if (search) {
+            where.OR = [
+                { paymentReference: { contains: search, mode: 'insensitive' } },
+                { payeeInstitution: { contains: search, mode: 'insensitive' } },
+                { application: { applicationNumber: { contains: search, mode: 'insensitive' } } },
+            ];
+        }
+
+        const [entries, total, totals] = await Promise.all([
+            prisma.disbursement.findMany({
+                where,
+                skip: (pageNumber - 1) * limitNumber,
+                take: limitNumber,
+                orderBy: { disbursedAt: 'desc' },
+                include: {
+                    application: {
+                        select: { applicationNumber: true, snapshotFullName: true, status: true },
+                    },
+                    recordedByUser: {
+                        select: { email: true },
+                    },
+                },
+            }),
+            prisma.disbursement.count({ where }),
+            prisma.disbursement.aggregate({
+                where,
+                _sum: { amount: true },
+            }),
+        ]);
+
+        return {
+            data: entries,
+            netAmount: Number(totals._sum.amount || 0),
+            pagination: {
+                page: pageNumber,
+                limit: limitNumber,
+                total,
+                totalPages: Math.ceil(total / limitNumber),
+            },
+        };
+    }
+
+    // ==================== LEDGER WRITES ====================
+
+    /**
+     * Record a disbursement tranche against an approved application.
+     * The first tranche moves the application from APPROVED to DISBURSED.
+     * Tranches that would exceed the period budget need an override reason.
+     */
+    async addEntry(
+        applicationId: string,
+        adminId: string,
+        data: CreateDisbursementRequest,
+        actorRole: UserRole,
+        context: AuditContext = { actorId: adminId }
+    ) {
+        const application = await prisma.application.findUnique({
+            where: { id: applicationId },
+        });
+
+        if (!application) {
+            throw new Error('Application not found');
+        }
+
+        if (!DISBURSABLE_STATUSES.includes(application.status)) {
+            throw new Error(
+                `Disbursements can only be recorded for APPROVED or DISBURSED applications (current status: ${application.status})`
+            );
+        }
+
+        const { entry, statusChange } = await prisma.$transaction(async (tx) => {
+            // Checked under the period lock, so concurrent tranches cannot over-commit the budget
+            const budgetOverridden = await budgetService.assertWithinBudget(
+                tx,
+                applicationId,
+                { additionalDisbursement: data.amount },
+                data.budgetOverrideReason
+            );
+
+            // Guard against the same payment being captured twice
+            const duplicate = await tx.disbursement.findFirst({
+                where: {
+                    paymentMethod: data.paymentMethod,
+                    paymentReference: data.paymentReference,
+                    reversalOfId: null,
+                    reversedBy: null,
+                },
+            });
+
+            if (duplicate) {
+                throw new Error(`Payment reference ${data.paymentReference} has already been recorded`);
+            }
+
+            const entry = await tx.disbursement.create({
+                data: {
+                    applicationId,
+                    amount: data.amount,
+                    payeeInstitution: data.payeeInstitution,
+                    paymentMethod: data.paymentMethod,
+                    paymentReference: data.paymentReference,
+                    term: data.term,
+                    notes: data.notes,
+                    disbursedAt: data.disbursedAt ? new Date(data.disbursedAt) : undefined,
+                    recordedBy: adminId,
+                    budgetOverrideReason: budgetOverridden ? data.budgetOverrideReason : null,
+                },
+            });
+
+            // The first tranche and the move to DISBURSED commit together
+            const statusChange = application.status === ApplicationStatus.APPROVED
+                ? await adminService.applyStatusChange(
+                    tx,
+                    applicationId,
+                    adminId,
+                    ApplicationStatus.DISBURSED,
+                    `First disbursement recorded (${data.paymentMethod} ${data.paymentReference})`,
+                    { actorRole }
+                )
+                : null;
+
+            return { entry, statusChange };
+        });
+
+        await auditService.record(context, {
+            action: 'disbursement.create',
+            entityType: 'Disbursement',
+            entityId: entry.id,
+            before: null,
+            after: this.auditState(entry),
+        });
+
+        logger.info(`Disbursement ${entry.id} of ${data.amount} recorded for application ${applicationId} by admin ${adminId}`);
+
+        if (statusChange) {
+            await adminService.announceStatusChange(statusChange, context);
+        }
+
+        return entry;
+    }
+
+    /**
+     * Reverse a ledger entry (e.g. a bounced payment) by posting an offsetting entry
+     */
+    async reverseEntry(
+        entryId: string,
+        adminId: string,
+        reason: string,
+        context: AuditContext = { actorId: adminId }
+    ) {
+        const entry = await prisma.disbursement.findUnique({
+            where: { id: entryId },
+            include: { reversedBy: true },
+        });
+
+        if (!entry) {
+            throw new Error('Disbursement entry not found');
+        }
+
+        if (entry.reversalOfId) {
+            throw new Error('Reversal entries cannot be reversed');
+        }
+
+        if (entry.reversedBy) {
+            throw new Error('Disbursement entry has already been reversed');
+        }
+
+        const reversal = await prisma.disbursement.create({
+            data: {
+                applicationId: entry.applicationId,
+                amount: entry.amount.negated(),
+                payeeInstitution: entry.payeeInstitution,
+                paymentMethod: entry.paymentMethod,
+                paymentReference: entry.paymentReference,
+                term: entry.term,
+                notes: reason,
+                recordedBy: adminId,
+                reversalOfId: entry.id,
+            },
+        });
+
+        await auditService.record(context, {
+            action: 'disbursement.reverse',
+            entityType: 'Disbursement',
+            entityId: entryId,
+            before: { ...this.auditState(entry), reversedById: null },
+            after: { ...this.auditState(entry), reversedById: reversal.id },
+            metadata: { reason, reversalId: reversal.id },
+        });
+
+        logger.info(`Disbursement ${entryId} reversed by admin ${adminId}: ${reason}`);
+        return reversal;
+    }
+
+    // ==================== HELPERS ====================
+
+    private auditState(entry: Disbursement) {
+        return {
+            applicationId: entry.applicationId,
+            amount: Number(entry.amount),
+            paymentMethod: entry.paymentMethod,
+            paymentReference: entry.paymentReference,
+            payeeInstitution: entry.payeeInstitution,
+            term: entry.term,
+            reversalOfId: entry.reversalOfId,
+            budgetOverrideReason: entry.budgetOverrideReason,
+        };
+    }
+
+    /**
+     * Compute ledger totals from a list of entries
+     */
+    private summarise(entries: Array<{ amount: Prisma.Decimal; reversalOfId: string | null }>): DisbursementLedgerSummary {
+        let totalDisbursed = 0;
+        let totalReversed = 0;
+        let tranches = 0;
+
+        for (const entry of entries) {
+            const amount = Number(entry.amount);
+            if (entry.reversalOfId) {
+                totalReversed += Math.abs(amount);
+            } else {
+                totalDisbursed += amount;
+                tranches++;
+            }
+        }
+
+        const reversedTranches = entries.filter(e => e.reversalOfId).length;
+
+        return {
+            totalDisbursed,
+            totalReversed,
+            netDisbursed: totalDisbursed - totalReversed,
+            tranches: tranches - reversedTranches,
+        };
+    }
+}
+
+export default new DisbursementService();
@@ -78,7 +78,8 @@ class EmailService {
         to: string,
         studentName: string,
         applicationNumber: string,
-        newStatus: string
+        newStatus: string,
+        reason?: string
     ): Promise<boolean> {
         const subject = `Application ${applicationNumber} Status Update`;
         const statusMessages: Record<string, string> = {
@@ -86,12 +87,18 @@ class EmailService {
             APPROVED: 'has been approved! Further instructions will follow.',
             REJECTED: 'was not approved at this time. Please contact us for more information.',
             DISBURSED: 'funds have been disbursed.',
+            RETURNED_FOR_CORRECTION: 'has been returned to you for corrections. Please update it and resubmit.',
+            SHORTLISTED: 'has been shortlisted for the board review.',
+            WAITLISTED: 'has been placed on the waitlist. We will contact you if funds become available.',
+            WITHDRAWN: 'has been withdrawn.',
+            APPEALED: 'has been appealed. Our team will review your appeal.',
         };
         const statusMsg = statusMessages[newStatus] || `status has been updated to ${newStatus}.`;
         const html = `
             <h2>Application Status Update</h2>
             <p>Dear ${studentName},</p>
             <p>Your application <strong>${applicationNumber}</strong> ${statusMsg}</p>
+            ${reason ? `<p><strong>Comments:</strong> ${reason}</p>` : ''}
             <p>You can log in to the portal to view more details.</p>
             <br/>
             <p>Best regards,<br/>Soipan Tuya Foundation</p>
@@ -118,6 +125,156 @@ class EmailService {
         `;
         return this.sendEmail(to, subject, html);
     }
+
+    /**
+     * Send an appeal acknowledgement or outcome email.
+     */
+    async sendAppealEmail(
+        to: string,
+        studentName: string,
+        applicationNumber: string,
+        outcome: 'RECEIVED' | 'UPHELD' | 'DISMISSED' | 'CLOSED',
+        notes?: string
+    ): Promise<boolean> {
+        const subject = `Appeal for Application ${applicationNumber}`;
+        const outcomeMessages: Record<string, string> = {
+            RECEIVED: 'has been received. Our team will review it and let you know the outcome.',
+            UPHELD: 'has been upheld. Your application has been re-opened for review.',
+            DISMISSED: 'has been reviewed and dismissed. The original decision stands.',
+            CLOSED: 'has been closed without a change to the original decision.',
+        };
+        const html = `
+            <h2>Appeal Update</h2>
+            <p>Dear ${studentName},</p>
+            <p>Your appeal for application <strong>${applicationNumber}</strong> ${outcomeMessages[outcome]}</p>
+            ${notes ? `<p><strong>Comments:</strong> ${notes}</p>` : ''}
+            <p>You can log in to the portal to view more details.</p>
+            <br/>
+            <p>Best regards,<br/>Soipan Tuya Foundation</p>
+        `;
+        return this.sendEmail(to, subject, html);
+    }
+
+    /**
+     * Send an email address verification code.
+     */
+    async sendVerificationCodeEmail(
+        to: string,
+        code: string,
+        expiresInMinutes: number
+    ): Promise<boolean> {
+        const subject = 'Verify Your Email Address';
+        const html = `
+            <h2>Email Verification</h2>
+            <p>Use this code to verify your email address on the Soipan Tuya Foundation portal:</p>
+            <p style="font-size: 24px; letter-spacing: 4px;"><strong>${code}</strong></p>
+            <p>The code expires in ${expiresInMinutes} minutes. If you did not create an account, you can ignore this email.</p>
+            <br/>
+            <p>Best regards,<br/>Soipan Tuya Foundation</p>
+        `;
+        return this.sendEmail(to, subject, html);
+    }
+
+    /**
+     * Send a password reset link.
+     */
+    async sendPasswordResetEmail(
+        to: string,
+        resetLink: string,
+        expiresInMinutes: number,
+        forcedByAdmin: boolean = false
+    ): Promise<boolean> {
+        const subject = 'Reset Your Password';
+        const intro = forcedByAdmin
+            ? 'An administrator has required a password reset for your Soipan Tuya Foundation portal account. You will not be able to log in until you choose a new password.'
+            : 'We received a request to reset the password for your Soipan Tuya Foundation portal account.';
+        const html = `
+            <h2>Password Reset</h2>
+            <p>${intro}</p>
+            <p><a href="${resetLink}">Reset your password</a></p>
+            <p>This link can be used once and expires in ${expiresInMinutes} minutes.</p>
+            <p>If you did not request a password reset, you can ignore this email; your password will not change.</p>
+            <br/>
+            <p>Best regards,<br/>Soipan Tuya Foundation</p>
+        `;
+        return this.sendEmail(to, subject, html);
+    }
+
+    /**
+     * Invite a staff member to the portal with a link to set their password.
+     */
+    async sendStaffInviteEmail(
+        to: string,
+        role: string,
+        setPasswordLink: string,
+        expiresInHours: number
+    ): Promise<boolean> {
+        const subject = 'You have been invited to the STF Portal';
+        const html = `
+            <h2>Welcome to the STF Portal</h2>
+            <p>You have been invited to the Soipan Tuya Foundation bursary portal as a <strong>${role}</strong> user.</p>
+            <p><a href="${setPasswordLink}">Set your password</a> to activate your account.</p>
+            <p>This link can be used once and expires in ${expiresInHours} hours.</p>
+            <br/>
+            <p>Best regards,<br/>Soipan Tuya Foundation</p>
+        `;
+        return this.sendEmail(to, subject, html);
+    }
+
+    /**
+     * Alert a user that their account was signed in to from a new device.
+     */
+    async sendNewDeviceLoginEmail(
+        to: string,
+        device: string,
+        ipAddress: string | undefined,
+        at: Date
+    ): Promise<boolean> {
+        const subject = 'New Sign-in to Your Account';
+        const html = `
+            <h2>New Sign-in Detected</h2>
+            <p>Your Soipan Tuya Foundation portal account was signed in to from a device we have not seen before.</p>
+            <p><strong>Device:</strong> ${device}<br/>
+            ${ipAddress ? `<strong>IP address:</strong> ${ipAddress}<br/>` : ''}
+            <strong>Time:</strong> ${at.toUTCString()}</p>
+            <p>If this was you, no action is needed. If not, reset your password and sign out your other sessions from the portal.</p>
+            <br/>
+            <p>Best regards,<br/>Soipan Tuya Foundation</p>
+        `;
+        return this.sendEmail(to, subject, html);
+    }
+
+    /**
+     * Confirm that a student's personal data has been erased. Sent to the address
+     * captured before the account was anonymised.
+     */
+    async sendErasureCompletedEmail(to: string): Promise<boolean> {
+        const subject = 'Your Data Has Been Erased';
+        const html = `
+            <h2>Data Erasure Complete</h2>
+            <p>As you requested, your personal data has been erased from the Soipan Tuya Foundation bursary portal and your account has been closed.</p>
+            <p>We keep anonymous records of past applications and awards for reporting. They no longer identify you.</p>
+            <br/>
+            <p>Best regards,<br/>Soipan Tuya Foundation</p>
+        `;
+        return this.sendEmail(to, subject, html);
+    }
+
+    /**
+     * Tell a student their erasure request was declined, and why.
+     */
+    async sendErasureRejectedEmail(to: string, reason: string): Promise<boolean> {
+        const subject = 'Your Data Erasure Request';
+        const html = `
+            <h2>Data Erasure Request Declined</h2>
+            <p>We could not erase your data at this time.</p>
+            <p><strong>Reason:</strong> ${reason}</p>
+            <p>If you have questions, please contact the foundation.</p>
+            <br/>
+            <p>Best regards,<br/>Soipan Tuya Foundation</p>
+        `;
+        return this.sendEmail(to, subject, html);
+    }
 }
 
 const emailService = new EmailService();
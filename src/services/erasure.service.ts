@@ -0,0 +1,404 @@
+import bcrypt from 'bcrypt';
+import crypto from 'crypto';
+import prisma from '../config/database';
+import { ApplicationStatus, ErasureRequestStatus, NotificationType, Prisma } from '@prisma/client';
+import { AuditContext, ErasureRequestListParams } from '../types/api.types';
+import logger from '../config/logger';
+import auditService from './audit.service';
+import emailService from './email.service';
+import fileService from './file.service';
+import notificationService from './notification.service';
+import { REDACTED, redactFormData } from '../utils/redaction';
+
+// Applications in any other status are still being processed, which blocks erasure
+const SETTLED_STATUSES: ApplicationStatus[] = [
+    ApplicationStatus.DRAFT,
+    ApplicationStatus.REJECTED,
+    ApplicationStatus.WITHDRAWN,
+    ApplicationStatus.DISBURSED,
+];
+
+const ERASED_NAME = 'Erased applicant';
+
+export type AnonymisationTrigger = 'erasure_request' | 'retention';
+
+/**
+ * Keep only the year of birth, so age-based analytics still work
+ */
+const yearOnly = (date: Date | null): Date | null =>
+    date ? new Date(Date.UTC(date.getUTCFullYear(), 0, 1)) : null;
+
+const redactJson = (value: Prisma.JsonValue | null): Prisma.InputJsonValue | typeof Prisma.DbNull =>
+    value === null ? Prisma.DbNull : redactFormData(value) as Prisma.InputJsonValue;
+
+export class ErasureService {
+    // ==================== STUDENT REQUESTS ====================
+
+    /**
+     * Ask for the student's personal data to be erased. An admin approves or rejects the request.
+     */
+    async requestErasure(userId: string, reason: string | undefined, context: AuditContext) {
+        const user = await prisma.user.findUnique({
+            where: { id: userId },
+            select: { anonymisedAt: true },
+        });
+
+        if (!user || user.anonymisedAt) {
+            throw new Error('User not found');
+        }
+
+        const pending = await prisma.erasureRequest.findFirst({
+            where: { userId, status: ErasureRequestStatus.PENDING },
+        });
+
+        if (pending) {
+            throw new Error('You already have a pending erasure request');
+        }
+
+        const request = await prisma.erasureRequest.create({
+            data: { userId, reason },
+        });
+
+        notificationService.notifyAdmins(
+            NotificationType.GENERAL,
+            'Data erasure requested',
+            `User ${userId} has asked for their personal data to be erased.`,
+            { erasureRequestId: request.id }
+        ).catch(err => logger.error('Admin notification send error', err));
+
+        await auditService.record(context, {
+            action: 'erasure.request',
+            entityType: 'ErasureRequest',
+            entityId: request.id,
+            metadata: { userId },
+        });
+
+        logger.info(`Erasure requested by user ${userId}`);
+        return request;
+    }
+
+    async getMyRequests(userId: string) {
+        return prisma.erasureRequest.findMany({
+            where: { userId },
+            orderBy: { requestedAt: 'desc' },
+            select: { id: true, status: true, reason: true, requestedAt: true, reviewedAt: true, reviewNotes: true, completedAt: true },
+        });
+    }
+
+    // ==================== ADMIN REVIEW ====================
+
+    async listRequests(params: ErasureRequestListParams) {
+        const { page, limit, status } = params;
+        const where: Prisma.ErasureRequestWhereInput = status ? { status } : {};
+
+        const [requests, total] = await Promise.all([
+            prisma.erasureRequest.findMany({
+                where,
+                include: {
+                    user: { select: { id: true, email: true, phone: true, anonymisedAt: true } },
+                    reviewedBy: { select: { email: true } },
+                },
+                orderBy: { requestedAt: 'desc' },
+                skip: (page - 1) * limit,
+                take: limit,
+            }),
+            prisma.erasureRequest.count({ where }),
+        ]);
+
+        return {
+            data: requests,
+            pagination: {
+                page,
+                limit,
+                total,
+                totalPages: Math.ceil(total / limit),
+            },
+        };
+    }
+
+    /**
+     * Approve a request and erase the student's data straight away. Refused while
+     * one of their applications is still being processed.
+     */
+    async approveRequest(requestId: string, notes: string | undefined, context: AuditContext) {
+        const request = await this.findPendingRequest(requestId);
+
+        const inProgress = await prisma.application.count({
+            where: {
+                studentProfile: { userId: request.userId },
+                status: { notIn: SETTLED_STATUSES },
+            },
+        });
+
+        if (inProgress > 0) {
+            throw new Error('Cannot erase data while an application is still being processed');
+        }
+
+        const email = request.user.email;
+        await this.anonymiseStudent(request.userId, context, 'erasure_request');
+
+        const now = new Date();
+        const updated = await prisma.erasureRequest.update({
+            where: { id: requestId },
+            data: {
+                status: ErasureRequestStatus.COMPLETED,
+                reviewedById: context.actorId,
+                reviewedAt: now,
+                reviewNotes: notes,
+                completedAt: now,
+            },
+        });
+
+        // The address is gone from the database, so the confirmation goes to the copy taken above
+        emailService.sendErasureCompletedEmail(email)
+            .catch(err => logger.error('Failed to send erasure confirmation email', err));
+
+        await auditService.record(context, {
+            action: 'erasure.approve',
+            entityType: 'ErasureRequest',
+            entityId: requestId,
+            before: { status: ErasureRequestStatus.PENDING },
+            after: { status: updated.status },
+        });
+
+        return updated;
+    }
+
+    async rejectRequest(requestId: string, notes: string, context: AuditContext) {
+        const request = await this.findPendingRequest(requestId);
+
+        const updated = await prisma.erasureRequest.update({
+            where: { id: requestId },
+            data: {
+                status: ErasureRequestStatus.REJECTED,
+                reviewedById: context.actorId,
+                reviewedAt: new Date(),
+                reviewNotes: notes,
+            },
+        });
+
+        notificationService.createNotification(
+            request.userId,
+            NotificationType.GENERAL,
+            'Data erasure request declined',
+            `Your request to erase your data was declined: ${notes}`,
+            { erasureRequestId: requestId }
+        ).catch(err => logger.error('Notification send error', err));
+
+        emailService.sendErasureRejectedEmail(request.user.email, notes)
+            .catch(err => logger.error('Failed to send erasure rejection email', err));
+
+        await auditService.record(context, {
+            action: 'erasure.reject',
+            entityType: 'ErasureRequest',
+            entityId: requestId,
+            before: { status: ErasureRequestStatus.PENDING },
+            after: { status: updated.status },
+            metadata: { notes },
+        });
+
+        return updated;
+    }
+
+    // ==================== ANONYMISATION ====================
+
+    /**
+     * Remove a student's personal data while keeping the records analytics rely on.
+     * Uploaded documents, notifications, login history and credentials are deleted.
+     * Names, ID numbers and contacts are cleared from the account, profile, application
+     * snapshots, formData, correction rounds, appeals, admin notes and status history reasons.
+     * The disability description is cleared. County, institution, education level, gender,
+     * household fields, disability status (yes/no), year of birth, statuses and amounts are kept.
+     */
+    async anonymiseStudent(userId: string, context: AuditContext, trigger: AnonymisationTrigger) {
+        const user = await prisma.user.findUnique({
+            where: { id: userId },
+            include: {
+                studentProfile: {
+                    include: {
+                        profileDocuments: { select: { id: true, filePath: true } },
+                        applications: {
+                            include: {
+                                applicationDocuments: { select: { id: true, filePath: true } },
+                                correctionRequests: true,
+                                appeals: { include: { documents: { select: { id: true, filePath: true } } } },
+                            },
+                        },
+                    },
+                },
+            },
+        });
+
+        if (!user) {
+            throw new Error('User not found');
+        }
+
+        if (user.anonymisedAt) {
+            throw new Error('User has already been anonymised');
+        }
+
+        const profile = user.studentProfile;
+        const applications = profile?.applications ?? [];
+        const documents = [
+            ...(profile?.profileDocuments ?? []),
+            ...applications.flatMap(a => a.applicationDocuments),
+            ...applications.flatMap(a => a.appeals.flatMap(appeal => appeal.documents)),
+        ];
+
+        const now = new Date();
+        const unusablePassword = await bcrypt.hash(crypto.randomBytes(32).toString('hex'), 10);
+
+        await prisma.$transaction(async (tx) => {
+            if (profile) {
+                await tx.profileDocument.deleteMany({ where: { studentProfileId: profile.id } });
+                await tx.applicationDocument.deleteMany({ where: { application: { studentProfileId: profile.id } } });
+                await tx.appealDocument.deleteMany({ where: { appeal: { application: { studentProfileId: profile.id } } } });
+
+                await tx.studentProfile.update({
+                    where: { id: profile.id },
+                    data: {
+                        fullName: ERASED_NAME,
+                        dateOfBirth: yearOnly(profile.dateOfBirth)!,
+                        nationalIdNumber: null,
+                        passportNumber: null,
+                        currentResidence: null,
+                        whoLivesWithOther: null,
+                        guardianName: null,
+                        guardianPhone: null,
+                        guardianOccupation: null,
+                        phoneNumber: null,
+                        emergencyContactName: null,
+                        emergencyContactPhone: null,
+                        previousScholarshipDetails: null,
+                        disabilityType: null,
+                        anonymisedAt: now,
+                    },
+                });
+            }
+
+            for (const application of applications) {
+                await tx.application.update({
+                    where: { id: application.id },
+                    data: {
+                        formData: redactFormData(application.formData) as Prisma.InputJsonValue,
+                        snapshotFullName: application.snapshotFullName ? ERASED_NAME : null,
+                        snapshotDateOfBirth: yearOnly(application.snapshotDateOfBirth),
+                        snapshotNationalId: null,
+                        snapshotPassportNumber: null,
+                        snapshotPhone: null,
+                        snapshotEmail: null,
+                    },
+                });
+
+                for (const round of application.correctionRequests) {
+                    await tx.correctionRequest.update({
+                        where: { id: round.id },
+                        data: {
+                            formDataBefore: redactFormData(round.formDataBefore) as Prisma.InputJsonValue,
+                            formDataAfter: redactJson(round.formDataAfter),
+                            snapshotBefore: redactFormData(round.snapshotBefore) as Prisma.InputJsonValue,
+                            snapshotAfter: redactJson(round.snapshotAfter),
+                        },
+                    });
+                }
+
+                await tx.appeal.updateMany({
+                    where: { applicationId: application.id },
+                    data: { statement: REDACTED },
+                });
+
+                await tx.appeal.updateMany({
+                    where: { applicationId: application.id, decisionNotes: { not: null } },
+                    data: { decisionNotes: REDACTED },
+                });
+
+                // Staff notes describe the student's circumstances
+                await tx.adminNote.updateMany({
+                    where: { applicationId: application.id },
+                    data: { noteText: REDACTED },
+                });
+
+                // So do withdrawal reasons and correction requests in the status history
+                await tx.applicationStatusHistory.updateMany({
+                    where: { applicationId: application.id, reason: { not: null } },
+                    data: { reason: REDACTED },
+                });
+            }
+
+            // Keep the record that consent was given, without where it was given from
+            await tx.dataConsentLog.updateMany({
+                where: { userId },
+                data: { ipAddress: REDACTED, userAgent: null },
+            });
+
+            await tx.notification.deleteMany({ where: { userId } });
+            await tx.loginEvent.deleteMany({ where: { OR: [{ userId }, { email: user.email }] } });
+            await tx.verificationCode.deleteMany({ where: { userId } });
+            await tx.passwordResetToken.deleteMany({ where: { userId } });
+            await tx.twoFactorRecoveryCode.deleteMany({ where: { userId } });
+            await tx.refreshToken.deleteMany({ where: { userId } });
+
+            await tx.user.update({
+                where: { id: userId },
+                data: {
+                    email: `erased-${userId}@erased.invalid`,
+                    phone: `erased-${userId}`,
+                    password: unusablePassword,
+                    isActive: false,
+                    deletedAt: user.deletedAt ?? now,
+                    anonymisedAt: now,
+                    permissions: [],
+                    emailVerifiedAt: null,
+                    phoneVerifiedAt: null,
+                    failedLoginAttempts: 0,
+                    lockedUntil: null,
+                    twoFactorEnabled: false,
+                    twoFactorSecret: null,
+                    twoFactorEnabledAt: null,
+                    twoFactorLastUsedStep: null,
+                    passwordResetRequired: false,
+                },
+            });
+        });
+
+        // Files go only once the rows are gone, so a failed transaction leaves nothing dangling
+        for (const document of documents) {
+            await fileService.deleteFile(document.filePath);
+        }
+
+        await auditService.record(context, {
+            action: 'student.anonymise',
+            entityType: 'User',
+            entityId: userId,
+            metadata: {
+                trigger,
+                applications: applications.length,
+                documentsDeleted: documents.length,
+            },
+        });
+
+        logger.info(`User ${userId} anonymised (${trigger}): ${applications.length} applications, ${documents.length} documents deleted`);
+        return { applications: applications.length, documentsDeleted: documents.length };
+    }
+
+    // ==================== HELPERS ====================
+
+    private async findPendingRequest(requestId: string) {
+        const request = await prisma.erasureRequest.findUnique({
+            where: { id: requestId },
+            include: { user: { select: { email: true } } },
+        });
+
+        if (!request) {
+            throw new Error('Erasure request not found');
+        }
+
+        if (request.status !== ErasureRequestStatus.PENDING) {
+            throw new Error(`Erasure request is already ${request.status.toLowerCase()}`);
+        }
+
+        return request;
+    }
+}
+
+export default new ErasureService();
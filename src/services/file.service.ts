@@ -1,20 +1,54 @@
-
-import fs from 'fs';
 import { UserRole } from '@prisma/client';
 import prisma from '../config/database';
 import logger from '../config/logger';
+import reviewService from './review.service';
+import auditService from './audit.service';
+import storageService from './storage.service';
+import { AuditContext, DocumentLinkKind, DocumentLinkParams } from '../types/api.types';
+import { IDENTITY_DOCUMENT_TYPES, IDENTITY_PROFILE_DOCUMENT_TYPES, redactFilename } from '../utils/redaction';
+import { linkTtlSeconds, signDocumentLink, verifyDocumentLink } from '../utils/documentLink';
+
+interface ResolvedDocument {
+    location: string;
+    filename: string;
+    mimeType: string;
+    entityType: string;
+    documentType: string;
+}
 
 export class FileService {
+    /**
+     * Get profile document location with access control
+     */
+    async getProfileDocumentPath(userId: string, role: string, documentId: string, context: AuditContext = { actorId: userId }) {
+        const fileInfo = await this.resolveProfileDocument(userId, role, documentId);
+        await this.recordStaffDownload(role, context, fileInfo.entityType, documentId, fileInfo.documentType);
+        return fileInfo;
+    }
 
+    /**
+     * Get application document location with access control
+     */
+    async getApplicationDocumentPath(userId: string, role: string, documentId: string, context: AuditContext = { actorId: userId }) {
+        const fileInfo = await this.resolveApplicationDocument(userId, role, documentId);
+        await this.recordStaffDownload(role, context, fileInfo.entityType, documentId, fileInfo.documentType);
+        return fileInfo;
+    }
 
     /**
-     * Get profile document path with access control
+     * Profile document the user may access, with its file still in storage.
+     * Staff are held to the rules of the student's applications: board members need
+     * an assignment to an application the document is linked to, and blind reviewers
+     * of any of the student's applications get a redacted filename.
      */
-    async getProfileDocumentPath(userId: string, role: string, documentId: string) {
+    private async resolveProfileDocument(userId: string, role: string, documentId: string): Promise<ResolvedDocument> {
         const document = await prisma.profileDocument.findUnique({
             where: { id: documentId },
             include: {
-                studentProfile: true,
+                studentProfile: {
+                    include: { applications: { select: { id: true } } },
+                },
+                applicationLinks: { select: { applicationId: true } },
             },
         });
 
@@ -29,30 +63,57 @@ export class FileService {
                 throw new Error('Access denied');
             }
         }
-        // Admins and Board can access all documents if authenticated
         else if (role !== UserRole.ADMIN && role !== UserRole.BOARD) {
             throw new Error('Access denied');
         }
 
-        const filePath = document.filePath;
+        // Board members only see documents linked to the applications assigned to them
+        if (role === UserRole.BOARD) {
+            const assigned = await prisma.reviewAssignment.count({
+                where: {
+                    reviewerId: userId,
+                    applicationId: { in: document.applicationLinks.map(link => link.applicationId) },
+                },
+            });
+            if (assigned === 0) {
+                logger.warn(`Access denied info: Reviewer ${userId} is not assigned to an application linking profile doc ${documentId}`);
+                throw new Error('Access denied');
+            }
+        }
+
+        let filename = document.originalFilename;
+
+        // Blind reviewers never receive identity documents or original filenames
+        if (role !== UserRole.STUDENT && await this.isBlindForStudent(document.studentProfile.applications, userId, role as UserRole)) {
+            if (IDENTITY_PROFILE_DOCUMENT_TYPES.includes(document.documentType)) {
+                logger.warn(`Access denied info: Blind reviewer ${userId} tried to access identity profile doc ${documentId}`);
+                throw new Error('Access denied');
+            }
+            filename = redactFilename(document.documentType, document.originalFilename);
+        }
+
+        const location = document.filePath;
 
-        // Verify file exists on disk
-        if (!fs.existsSync(filePath)) {
-            logger.error(`File missing on disk: ${filePath}`);
+        // Verify the file is still in storage
+        if (!(await storageService.exists(location))) {
+            logger.error(`File missing from storage: ${location}`);
             throw new Error('File not found on server');
         }
 
         return {
-            path: filePath,
-            filename: document.originalFilename,
+            location,
+            filename,
             mimeType: document.mimeType,
+            entityType: 'ProfileDocument',
+            documentType: document.documentType,
         };
     }
 
     /**
-     * Get application document path with access control
+     * Application document the user may access, with its file still in storage.
+     * Blind reviewers get a redacted filename.
      */
-    async getApplicationDocumentPath(userId: string, role: string, documentId: string) {
+    private async resolveApplicationDocument(userId: string, role: string, documentId: string): Promise<ResolvedDocument> {
         const document = await prisma.applicationDocument.findUnique({
             where: { id: documentId },
             include: {
@@ -79,33 +140,211 @@ export class FileService {
             throw new Error('Access denied');
         }
 
-        const filePath = document.filePath;
+        // Board members only see the applications assigned to them
+        if (role === UserRole.BOARD) {
+            const assignment = await prisma.reviewAssignment.findUnique({
+                where: { applicationId_reviewerId: { applicationId: document.applicationId, reviewerId: userId } },
+            });
+            if (!assignment) {
+                logger.warn(`Access denied info: Reviewer ${userId} is not assigned to app doc ${documentId}`);
+                throw new Error('Access denied');
+            }
+        }
+
+        let filename = document.originalFilename;
+
+        // Blind reviewers never receive identity documents or original filenames
+        if (role !== UserRole.STUDENT && await reviewService.isBlindFor(document.applicationId, userId, role as UserRole)) {
+            if (IDENTITY_DOCUMENT_TYPES.includes(document.documentType)) {
+                logger.warn(`Access denied info: Blind reviewer ${userId} tried to access identity doc ${documentId}`);
+                throw new Error('Access denied');
+            }
+            filename = redactFilename(document.documentType, document.originalFilename);
+        }
+
+        const location = document.filePath;
+
+        // Verify the file is still in storage
+        if (!(await storageService.exists(location))) {
+            logger.error(`File missing from storage: ${location}`);
+            throw new Error('File not found on server');
+        }
+
+        return {
+            location,
+            filename,
+            mimeType: document.mimeType,
+            entityType: 'ApplicationDocument',
+            documentType: document.documentType,
+        };
+    }
+
+    /**
+     * Get appeal document location with access control
+     */
+    async getAppealDocumentPath(userId: string, role: string, documentId: string, context: AuditContext = { actorId: userId }) {
+        const document = await prisma.appealDocument.findUnique({
+            where: { id: documentId },
+            include: {
+                appeal: true,
+            },
+        });
+
+        if (!document) {
+            throw new Error('Document not found');
+        }
+
+        // Access control
+        if (role === UserRole.STUDENT) {
+            if (document.appeal.submittedBy !== userId) {
+                logger.warn(`Access denied info: User ${userId} tried to access appeal doc ${documentId}`);
+                throw new Error('Access denied');
+            }
+        }
+        else if (role !== UserRole.ADMIN && role !== UserRole.BOARD) {
+            throw new Error('Access denied');
+        }
+
+        const location = document.filePath;
 
-        if (!fs.existsSync(filePath)) {
-            logger.error(`File missing on disk: ${filePath}`);
+        // Verify the file is still in storage
+        if (!(await storageService.exists(location))) {
+            logger.error(`File missing from storage: ${location}`);
             throw new Error('File not found on server');
         }
 
+        await this.recordStaffDownload(role, context, 'AppealDocument', documentId);
+
         return {
-            path: filePath,
+            location,
             filename: document.originalFilename,
             mimeType: document.mimeType,
         };
     }
 
+    // ==================== SIGNED LINKS ====================
+
+    /**
+     * Issue a short-lived link that downloads one document without a bearer token,
+     * so it can be opened in a new tab or a PDF viewer. The usual access checks run first.
+     */
+    async createDownloadLink(
+        userId: string,
+        role: string,
+        kind: DocumentLinkKind,
+        documentId: string,
+        context: AuditContext = { actorId: userId }
+    ) {
+        const fileInfo = await this.resolveDocument(kind, userId, role, documentId);
+
+        const expiresAt = new Date(Date.now() + linkTtlSeconds() * 1000);
+        const params = signDocumentLink(kind, documentId, userId, expiresAt);
+
+        if (role !== UserRole.STUDENT) {
+            await auditService.record(context, {
+                action: 'document.link_create',
+                entityType: fileInfo.entityType,
+                entityId: documentId,
+                metadata: { documentType: fileInfo.documentType, expiresAt },
+            });
+        }
+
+        const baseUrl = process.env.APP_URL || 'http://localhost:3000';
+
+        return {
+            url: `${baseUrl}/api/files/signed/${kind}/${documentId}?${new URLSearchParams({ ...params })}`,
+            expiresAt,
+        };
+    }
+
     /**
-     * Delete file from disk
+     * Resolve a signed link. Access is checked again for the user the link was issued to,
+     * so a link stops working when that user is deactivated or loses access. Every use
+     * is audited, students included, since a link works for whoever holds it.
+     */
+    async getSignedDocument(
+        kind: DocumentLinkKind,
+        documentId: string,
+        params: Partial<DocumentLinkParams>,
+        client: Omit<AuditContext, 'actorId'>
+    ) {
+        if (!verifyDocumentLink(kind, documentId, params)) {
+            logger.warn(`Rejected signed link for ${kind} doc ${documentId} from ${client.ipAddress}`);
+            throw new Error('Invalid or expired link');
+        }
+
+        const user = await prisma.user.findUnique({
+            where: { id: params.uid },
+            select: { id: true, role: true, isActive: true, deletedAt: true },
+        });
+
+        if (!user || !user.isActive || user.deletedAt) {
+            throw new Error('Invalid or expired link');
+        }
+
+        const fileInfo = await this.resolveDocument(kind, user.id, user.role, documentId);
+
+        await auditService.record({ ...client, actorId: user.id }, {
+            action: 'document.link_download',
+            entityType: fileInfo.entityType,
+            entityId: documentId,
+            metadata: { documentType: fileInfo.documentType, role: user.role },
+        });
+
+        return fileInfo;
+    }
+
+    /**
+     * Whether the user reviews any of the student's applications blind
+     */
+    private async isBlindForStudent(applications: Array<{ id: string }>, userId: string, role: UserRole): Promise<boolean> {
+        for (const application of applications) {
+            if (await reviewService.isBlindFor(application.id, userId, role)) {
+                return true;
+            }
+        }
+        return false;
+    }
+
+    private async resolveDocument(kind: DocumentLinkKind, userId: string, role: string, documentId: string) {
+        return kind === 'profile'
+            ? this.resolveProfileDocument(userId, role, documentId)
+            : this.resolveApplicationDocument(userId, role, documentId);
+    }
+
+    /**
+     * Delete a stored file
      */
     async deleteFile(filePath: string): Promise<void> {
         try {
-            if (fs.existsSync(filePath)) {
-                fs.unlinkSync(filePath);
-            }
+            await storageService.delete(filePath);
         } catch (error) {
             logger.error('Error deleting file:', error);
             // Don't throw, just log
         }
     }
+
+    /**
+     * Record a document download by staff. Students fetching their own files are not audited.
+     */
+    private async recordStaffDownload(
+        role: string,
+        context: AuditContext,
+        entityType: string,
+        documentId: string,
+        documentType?: string
+    ): Promise<void> {
+        if (role === UserRole.STUDENT) {
+            return;
+        }
+
+        await auditService.record(context, {
+            action: 'document.download',
+            entityType,
+            entityId: documentId,
+            metadata: documentType ? { documentType } : undefined,
+        });
+    }
 }
 
 export default new FileService();
@@ -1,5 +1,5 @@
 import prisma from '../config/database';
-import { NotificationType } from '@prisma/client';
+import { NotificationType, UserRole } from '@prisma/client';
 import logger from '../config/logger';
 
 class NotificationService {
@@ -32,6 +32,37 @@ class NotificationService {
         }
     }
 
+    /**
+     * Create the same notification for every active admin.
+     */
+    async notifyAdmins(
+        type: NotificationType,
+        title: string,
+        message: string,
+        metadata?: Record<string, any>
+    ) {
+        const admins = await prisma.user.findMany({
+            where: { role: UserRole.ADMIN, isActive: true, deletedAt: null },
+            select: { id: true },
+        });
+
+        if (admins.length === 0) {
+            return { count: 0 };
+        }
+
+        const result = await prisma.notification.createMany({
+            data: admins.map(admin => ({
+                userId: admin.id,
+                type,
+                title,
+                message,
+                metadata: metadata ? JSON.parse(JSON.stringify(metadata)) : undefined,
+            })),
+        });
+        logger.debug(`Notification sent to ${result.count} admins: ${title}`);
+        return { count: result.count };
+    }
+
     /**
      * Get paginated notifications for a user.
      */
@@ -0,0 +1,196 @@
+import prisma from '../config/database';
+import { UserRole } from '@prisma/client';
+import { ALL_PERMISSIONS, CONFIGURABLE_ROLES, Permission, isPermission } from '../config/permissions';
+import { AuditContext } from '../types/api.types';
+import logger from '../config/logger';
+import auditService from './audit.service';
+
+// Role permissions are read on every guarded request, so they are cached briefly.
+// Edits made through this service clear the cache straight away.
+const CACHE_TTL_MS = 60 * 1000;
+
+export class PermissionService {
+    private roleCache: { map: Map<UserRole, Permission[]>; expiresAt: number } | null = null;
+
+    // ==================== CHECKS ====================
+
+    /**
+     * Permissions a user holds: their role's, their personal grants, or all of
+     * them for a super-admin. Inactive and deleted users hold none.
+     */
+    async getUserPermissions(userId: string, role: UserRole): Promise<Permission[]> {
+        const user = await prisma.user.findFirst({
+            where: { id: userId, isActive: true, deletedAt: null },
+            select: { permissions: true, isSuperAdmin: true },
+        });
+
+        if (!user) {
+            return [];
+        }
+
+        if (user.isSuperAdmin) {
+            return [...ALL_PERMISSIONS];
+        }
+
+        const rolePermissions = await this.getRolePermissions(role);
+        const granted = user.permissions.filter(isPermission);
+        return Array.from(new Set([...rolePermissions, ...granted]));
+    }
+
+    async hasPermission(userId: string, role: UserRole, permission: Permission): Promise<boolean> {
+        const permissions = await this.getUserPermissions(userId, role);
+        return permissions.includes(permission);
+    }
+
+    async isSuperAdmin(userId: string): Promise<boolean> {
+        const user = await prisma.user.findFirst({
+            where: { id: userId, isActive: true, deletedAt: null },
+            select: { isSuperAdmin: true },
+        });
+
+        return user?.isSuperAdmin ?? false;
+    }
+
+    // ==================== ROLE PERMISSIONS ====================
+
+    async getRolePermissions(role: UserRole): Promise<Permission[]> {
+        const map = await this.loadRolePermissions();
+        return map.get(role) ?? [];
+    }
+
+    /**
+     * The permission catalogue and what each configurable role holds
+     */
+    async listRolePermissions() {
+        const map = await this.loadRolePermissions();
+
+        return {
+            permissions: ALL_PERMISSIONS,
+            roles: CONFIGURABLE_ROLES.map(role => ({
+                role,
+                permissions: map.get(role) ?? [],
+            })),
+        };
+    }
+
+    /**
+     * Replace the permissions held by every user of a role
+     */
+    async setRolePermissions(role: UserRole, permissions: Permission[], context: AuditContext) {
+        if (!CONFIGURABLE_ROLES.includes(role)) {
+            throw new Error(`Permissions of role ${role} cannot be changed`);
+        }
+
+        const previous = await this.getRolePermissions(role);
+        const next = Array.from(new Set(permissions));
+
+        await prisma.$transaction([
+            prisma.rolePermission.deleteMany({
+                where: { role, permission: { notIn: next } },
+            }),
+            prisma.rolePermission.createMany({
+                data: next.map(permission => ({ role, permission, grantedById: context.actorId })),
+                skipDuplicates: true,
+            }),
+        ]);
+
+        this.roleCache = null;
+
+        await auditService.record(context, {
+            action: 'role.permissions_change',
+            entityType: 'Role',
+            entityId: role,
+            before: { permissions: previous },
+            after: { permissions: next },
+        });
+
+        logger.info(`Permissions of role ${role} set to [${next.join(', ')}] by ${context.actorId}`);
+        return { role, permissions: await this.getRolePermissions(role) };
+    }
+
+    // ==================== SUPER-ADMINS ====================
+
+    /**
+     * Grant or revoke super-admin status. Only admins can be super-admins, and
+     * the last super-admin cannot be removed.
+     */
+    async setSuperAdmin(userId: string, isSuperAdmin: boolean, context: AuditContext) {
+        const user = await prisma.user.findFirst({
+            where: { id: userId, deletedAt: null },
+        });
+
+        if (!user) {
+            throw new Error('User not found');
+        }
+
+        if (isSuperAdmin && user.role !== UserRole.ADMIN) {
+            throw new Error('Only admins can be made super-admins');
+        }
+
+        if (user.isSuperAdmin === isSuperAdmin) {
+            throw new Error(`User is already ${isSuperAdmin ? 'a super-admin' : 'not a super-admin'}`);
+        }
+
+        if (!isSuperAdmin) {
+            await this.assertOtherSuperAdmin(userId);
+        }
+
+        const updated = await prisma.user.update({
+            where: { id: userId },
+            data: { isSuperAdmin },
+            select: { id: true, email: true, role: true, isSuperAdmin: true },
+        });
+
+        await auditService.record(context, {
+            action: isSuperAdmin ? 'user.super_admin_grant' : 'user.super_admin_revoke',
+            entityType: 'User',
+            entityId: userId,
+            before: { isSuperAdmin: user.isSuperAdmin },
+            after: { isSuperAdmin },
+        });
+
+        logger.info(`Super-admin status of user ${userId} set to ${isSuperAdmin} by ${context.actorId}`);
+        return updated;
+    }
+
+    /**
+     * Throw unless an active super-admin other than this user remains. Checked before
+     * anything that takes super-admin status away: revoking it, a role change,
+     * deactivation or deletion.
+     */
+    async assertOtherSuperAdmin(userId: string): Promise<void> {
+        const remaining = await prisma.user.count({
+            where: { isSuperAdmin: true, isActive: true, deletedAt: null, id: { not: userId } },
+        });
+
+        if (remaining === 0) {
+            throw new Error('At least one active super-admin is required');
+        }
+    }
+
+    // ==================== HELPERS ====================
+
+    private async loadRolePermissions(): Promise<Map<UserRole, Permission[]>> {
+        if (this.roleCache && this.roleCache.expiresAt > Date.now()) {
+            return this.roleCache.map;
+        }
+
+        const rows = await prisma.rolePermission.findMany({
+            orderBy: { permission: 'asc' },
+        });
+
+        const map = new Map<UserRole, Permission[]>();
+        for (const row of rows) {
+            // Rows for permissions no longer in the catalogue are ignored
+            if (!isPermission(row.permission)) {
+                continue;
+            }
+            map.set(row.role, [...(map.get(row.role) ?? []), row.permission]);
+        }
+
+        this.roleCache = { map, expiresAt: Date.now() + CACHE_TTL_MS };
+        return map;
+    }
+}
+
+export default new PermissionService();
@@ -0,0 +1,339 @@
+import prisma from '../config/database';
+import { ApplicationStatus, HouseholdIncomeRange, UserRole } from '@prisma/client';
+import {
+    AuditContext,
+    BulkUpdateResponse,
+    ConfirmShortlistRequest,
+    OrphanStatus,
+    RankedApplication,
+    RankingOptions,
+    RankingTieBreaker,
+    ScoreAggregation,
+    ShortlistProposal,
+} from '../types/api.types';
+import logger from '../config/logger';
+import adminService, { StatusChange } from './admin.service';
+import budgetService from './budget.service';
+import { mean, median, trimmedMean } from '../utils/statistics';
+
+const DEFAULT_TIE_BREAKERS: RankingTieBreaker[] = ['orphanStatus', 'disability', 'householdIncome'];
+
+const DEFAULT_TRIM_PERCENT = 20;
+
+// Higher value = higher priority when scores tie
+const ORPHAN_PRIORITY: Record<OrphanStatus, number> = {
+    [OrphanStatus.DOUBLE_ORPHAN]: 2,
+    [OrphanStatus.SINGLE_ORPHAN]: 1,
+    [OrphanStatus.BOTH_PARENTS_ALIVE]: 0,
+};
+
+const INCOME_PRIORITY: Record<HouseholdIncomeRange, number> = {
+    [HouseholdIncomeRange.BELOW_5K]: 3,
+    [HouseholdIncomeRange.FROM_5K_TO_15K]: 2,
+    [HouseholdIncomeRange.FROM_15K_TO_30K]: 1,
+    [HouseholdIncomeRange.ABOVE_30K]: 0,
+};
+
+type Candidate = Omit<RankedApplication, 'rank' | 'shortlisted' | 'reason'> & { submittedAt: Date | null };
+
+export class RankingService {
+    // ==================== RANKING ====================
+
+    /**
+     * Rank the UNDER_REVIEW applications of a period by aggregated review score,
+     * break ties on need, and propose a shortlist that fits the remaining budget.
+     * Nothing is changed until the shortlist is confirmed.
+     */
+    async proposeShortlist(periodId: string, options: RankingOptions = {}): Promise<ShortlistProposal> {
+        return this.rank(periodId, options);
+    }
+
+    /**
+     * Rank and fit to the budget, optionally only the given applications
+     */
+    private async rank(periodId: string, options: RankingOptions, onlyIds?: string[]): Promise<ShortlistProposal> {
+        const aggregation: ScoreAggregation = options.aggregation ?? 'mean';
+        const tieBreakers = options.tieBreakers ?? DEFAULT_TIE_BREAKERS;
+        const minReviews = options.minReviews ?? 1;
+
+        // Throws when the period does not exist
+        const budget = await budgetService.getPeriodBudget(periodId);
+
+        const applications = await prisma.application.findMany({
+            where: {
+                applicationPeriodId: periodId,
+                status: ApplicationStatus.UNDER_REVIEW,
+                ...(onlyIds && { id: { in: onlyIds } }),
+            },
+            select: {
+                id: true,
+                applicationNumber: true,
+                formData: true,
+                submittedAt: true,
+                snapshotFullName: true,
+                snapshotEducationLevel: true,
+                snapshotCounty: true,
+                studentProfile: {
+                    select: { orphanStatus: true, disabilityStatus: true, householdIncomeRange: true },
+                },
+                reviewScores: { select: { overallScore: true } },
+            },
+        });
+
+        const candidates: Candidate[] = [];
+        const insufficientReviews: ShortlistProposal['insufficientReviews'] = [];
+
+        for (const application of applications) {
+            const scores = application.reviewScores.map(s => s.overallScore);
+
+            if (scores.length === 0 || scores.length < minReviews) {
+                insufficientReviews.push({
+                    applicationId: application.id,
+                    applicationNumber: application.applicationNumber,
+                    reviewCount: scores.length,
+                });
+                continue;
+            }
+
+            candidates.push({
+                applicationId: application.id,
+                applicationNumber: application.applicationNumber,
+                fullName: application.snapshotFullName,
+                educationLevel: application.snapshotEducationLevel,
+                county: application.snapshotCounty,
+                aggregateScore: Math.round(this.aggregate(scores, aggregation, options.trimPercent) * 100) / 100,
+                reviewCount: scores.length,
+                orphanStatus: application.studentProfile.orphanStatus,
+                disabilityStatus: application.studentProfile.disabilityStatus,
+                householdIncomeRange: application.studentProfile.householdIncomeRange,
+                proposedAmount: this.proposeAmount(application.formData, options),
+                submittedAt: application.submittedAt,
+            });
+        }
+
+        candidates.sort((a, b) => this.compare(a, b, tieBreakers));
+
+        // Fit the shortlist to the period budget in rank order, skipping applications
+        // that would overrun the total or their education level / county cap
+        const remaining = {
+            total: budget.total.remaining,
+            level: new Map(budget.byEducationLevel.map(l => [l.educationLevel as string, l.remaining])),
+            county: new Map(budget.byCounty.map(c => [c.countyName, c.remaining])),
+        };
+        const budgeted = remaining.total !== null || budget.byEducationLevel.some(l => l.budget !== null) || budget.byCounty.some(c => c.budget !== null);
+
+        let shortlistedCount = 0;
+        let totalAmount = 0;
+
+        const ranked: RankedApplication[] = candidates.map(({ submittedAt: _submittedAt, ...candidate }, index) => {
+            const entry: RankedApplication = { ...candidate, rank: index + 1, shortlisted: false };
+            const amount = candidate.proposedAmount;
+
+            if (options.maxShortlisted !== undefined && shortlistedCount >= options.maxShortlisted) {
+                entry.reason = 'Shortlist size limit reached';
+                return entry;
+            }
+
+            if (budgeted) {
+                if (amount === null) {
+                    entry.reason = 'No award amount (set awardAmount or provide outstandingFeesBalance)';
+                    return entry;
+                }
+
+                const levelRemaining = candidate.educationLevel ? remaining.level.get(candidate.educationLevel) ?? null : null;
+                const countyRemaining = candidate.county ? remaining.county.get(candidate.county) ?? null : null;
+
+                if (remaining.total !== null && amount > remaining.total) {
+                    entry.reason = 'Exceeds remaining period budget';
+                    return entry;
+                }
+                if (levelRemaining !== null && amount > levelRemaining) {
+                    entry.reason = `Exceeds remaining ${candidate.educationLevel} budget`;
+                    return entry;
+                }
+                if (countyRemaining !== null && amount > countyRemaining) {
+                    entry.reason = `Exceeds remaining ${candidate.county} budget`;
+                    return entry;
+                }
+
+                if (remaining.total !== null) remaining.total -= amount;
+                if (levelRemaining !== null) remaining.level.set(candidate.educationLevel as string, levelRemaining - amount);
+                if (countyRemaining !== null) remaining.county.set(candidate.county as string, countyRemaining - amount);
+            }
+
+            entry.shortlisted = true;
+            shortlistedCount++;
+            totalAmount += amount ?? 0;
+            return entry;
+        });
+
+        return {
+            periodId,
+            aggregation,
+            tieBreakers,
+            budgetRemaining: budget.total.remaining,
+            ranked,
+            insufficientReviews,
+            shortlist: { count: shortlistedCount, totalAmount },
+        };
+    }
+
+    // ==================== CONFIRMATION ====================
+
+    /**
+     * Confirm a shortlist: move the chosen applications to SHORTLISTED (and,
+     * optionally, others to WAITLISTED) through the normal workflow. The chosen
+     * applications are ranked and fitted to the budget again with the proposal's
+     * options; every one must still fit. Their awards are kept on the application,
+     * and every change commits together or not at all.
+     */
+    async confirmShortlist(
+        periodId: string,
+        adminId: string,
+        request: ConfirmShortlistRequest,
+        actorRole: UserRole,
+        context: AuditContext = { actorId: adminId }
+    ): Promise<BulkUpdateResponse> {
+        const { applicationIds, waitlistIds = [], note, ...options } = request;
+
+        const overlap = applicationIds.filter(id => waitlistIds.includes(id));
+        if (overlap.length > 0) {
+            throw new Error('An application cannot be both shortlisted and waitlisted');
+        }
+
+        // Throws when the period does not exist
+        const proposal = await this.rank(periodId, options, applicationIds);
+
+        const refused = applicationIds
+            .map(applicationId => {
+                const entry = proposal.ranked.find(r => r.applicationId === applicationId);
+                if (!entry) {
+                    const pending = proposal.insufficientReviews.some(r => r.applicationId === applicationId);
+                    return `${applicationId}: ${pending ? 'not enough reviews' : 'not UNDER_REVIEW in this period'}`;
+                }
+                return entry.shortlisted ? null : `${entry.applicationNumber}: ${entry.reason}`;
+            })
+            .filter(Boolean);
+
+        if (refused.length > 0) {
+            throw new Error(`The shortlist cannot be confirmed: ${refused.join('; ')}`);
+        }
+
+        const waitlistable = await prisma.application.count({
+            where: { id: { in: waitlistIds }, applicationPeriodId: periodId, status: ApplicationStatus.UNDER_REVIEW },
+        });
+
+        if (waitlistable !== new Set(waitlistIds).size) {
+            throw new Error('Every waitlisted application must be UNDER_REVIEW in this period');
+        }
+
+        // Shortlist in rank order, so positions follow the ranking
+        const shortlisted = proposal.ranked.filter(r => r.shortlisted);
+
+        const changes = await prisma.$transaction(async (tx) => {
+            const written: StatusChange[] = [];
+
+            for (const [index, entry] of shortlisted.entries()) {
+                const change = await adminService.applyStatusChange(
+                    tx,
+                    entry.applicationId,
+                    adminId,
+                    ApplicationStatus.SHORTLISTED,
+                    note || `Shortlisted (position ${index + 1})`,
+                    { actorRole }
+                );
+
+                // Keep the ranked award, so approval is checked against it
+                if (entry.proposedAmount !== null) {
+                    change.updated = await tx.application.update({
+                        where: { id: entry.applicationId },
+                        data: { awardedAmount: entry.proposedAmount },
+                    });
+                }
+
+                written.push(change);
+            }
+
+            for (const [index, applicationId] of waitlistIds.entries()) {
+                written.push(await adminService.applyStatusChange(
+                    tx,
+                    applicationId,
+                    adminId,
+                    ApplicationStatus.WAITLISTED,
+                    note || `Waitlisted (position ${index + 1})`,
+                    { actorRole }
+                ));
+            }
+
+            return written;
+        });
+
+        for (const change of changes) {
+            await adminService.announceStatusChange(change, context);
+        }
+
+        logger.info(`Shortlist confirmed for period ${periodId} by admin ${adminId}: ${shortlisted.length} shortlisted, ${waitlistIds.length} waitlisted`);
+        return { success: true, updated: changes.length, failed: 0, errors: [] };
+    }
+
+    // ==================== HELPERS ====================
+
+    private aggregate(scores: number[], aggregation: ScoreAggregation, trimPercent = DEFAULT_TRIM_PERCENT): number {
+        switch (aggregation) {
+            case 'median':
+                return median(scores);
+            case 'trimmed_mean':
+                return trimmedMean(scores, trimPercent);
+            default:
+                return mean(scores);
+        }
+    }
+
+    /**
+     * Award proposed for an application: the flat award if given, otherwise the
+     * outstanding fee balance from the form, capped at maxAward
+     */
+    private proposeAmount(formData: unknown, options: RankingOptions): number | null {
+        if (options.awardAmount !== undefined) {
+            return options.awardAmount;
+        }
+
+        const balance = Number((formData as Record<string, unknown> | null)?.outstandingFeesBalance);
+        if (!Number.isFinite(balance) || balance <= 0) {
+            return null;
+        }
+
+        return options.maxAward !== undefined ? Math.min(balance, options.maxAward) : balance;
+    }
+
+    /**
+     * Order by score (desc), then each tie-breaker in turn, then earliest submission
+     */
+    private compare(a: Candidate, b: Candidate, tieBreakers: RankingTieBreaker[]): number {
+        if (a.aggregateScore !== b.aggregateScore) {
+            return b.aggregateScore - a.aggregateScore;
+        }
+
+        for (const tieBreaker of tieBreakers) {
+            const diff = this.priority(b, tieBreaker) - this.priority(a, tieBreaker);
+            if (diff !== 0) {
+                return diff;
+            }
+        }
+
+        return (a.submittedAt?.getTime() ?? Number.MAX_SAFE_INTEGER) - (b.submittedAt?.getTime() ?? Number.MAX_SAFE_INTEGER);
+    }
+
+    private priority(candidate: Candidate, tieBreaker: RankingTieBreaker): number {
+        switch (tieBreaker) {
+            case 'orphanStatus':
+                return candidate.orphanStatus ? ORPHAN_PRIORITY[candidate.orphanStatus] : -1;
+            case 'disability':
+                return candidate.disabilityStatus ? 1 : 0;
+            case 'householdIncome':
+                return candidate.householdIncomeRange ? INCOME_PRIORITY[candidate.householdIncomeRange] : -1;
+        }
+    }
+}
+
+export default new RankingService();
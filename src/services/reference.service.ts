@@ -47,7 +47,18 @@ export class ReferenceService {
      * Get application status options
      */
     getApplicationStatuses() {
-        return ['PENDING', 'UNDER_REVIEW', 'APPROVED', 'DISBURSED'];
+        return [
+            'PENDING',
+            'UNDER_REVIEW',
+            'RETURNED_FOR_CORRECTION',
+            'SHORTLISTED',
+            'WAITLISTED',
+            'APPROVED',
+            'DISBURSED',
+            'REJECTED',
+            'APPEALED',
+            'WITHDRAWN',
+        ];
     }
 
     /**
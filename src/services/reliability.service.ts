@@ -0,0 +1,134 @@
+import prisma from '../config/database';
+import { ApplicationStatus } from '@prisma/client';
+import { ReliabilityReport, ReviewerConsistency, ScoreDisagreement } from '../types/api.types';
+import {
+    intraclassCorrelation,
+    krippendorffAlpha,
+    mean,
+    standardDeviation,
+} from '../utils/statistics';
+
+// Default spread (in overall-score points, 0-100) above which reviewers are considered to disagree
+const DEFAULT_DISAGREEMENT_THRESHOLD = 20;
+
+const round = (value: number) => Math.round(value * 1000) / 1000;
+
+export class ReliabilityService {
+    // ==================== RELIABILITY REPORT ====================
+
+    /**
+     * Report scoring consistency for a period: per-reviewer mean and spread,
+     * inter-rater agreement (ICC(1) and Krippendorff's alpha on overall scores)
+     * across applications with more than one review, and the applications whose
+     * scores spread by more than `threshold` points
+     */
+    async getReliabilityReport(periodId: string, threshold: number = DEFAULT_DISAGREEMENT_THRESHOLD): Promise<ReliabilityReport> {
+        const period = await prisma.applicationPeriod.findUnique({ where: { id: periodId } });
+        if (!period) {
+            throw new Error('Application period not found');
+        }
+
+        const applications = await prisma.application.findMany({
+            where: {
+                applicationPeriodId: periodId,
+                reviewScores: { some: {} },
+            },
+            select: {
+                id: true,
+                applicationNumber: true,
+                status: true,
+                reviewScores: {
+                    select: {
+                        reviewerId: true,
+                        overallScore: true,
+                        reviewer: { select: { email: true } },
+                    },
+                },
+            },
+            orderBy: { applicationNumber: 'asc' },
+        });
+
+        const groups = applications.map(a => a.reviewScores.map(s => s.overallScore));
+
+        return {
+            periodId,
+            threshold,
+            applicationsScored: applications.length,
+            applicationsWithMultipleReviews: groups.filter(g => g.length >= 2).length,
+            icc: this.roundOrNull(intraclassCorrelation(groups)),
+            krippendorffAlpha: this.roundOrNull(krippendorffAlpha(groups)),
+            reviewers: this.summariseReviewers(applications),
+            disagreements: this.findDisagreements(applications, threshold),
+        };
+    }
+
+    // ==================== HELPERS ====================
+
+    private summariseReviewers(applications: Array<{
+        reviewScores: Array<{ reviewerId: string; overallScore: number; reviewer: { email: string } }>;
+    }>): ReviewerConsistency[] {
+        const byReviewer = new Map<string, { email: string; scores: number[]; deviations: number[] }>();
+
+        for (const application of applications) {
+            for (const score of application.reviewScores) {
+                const entry = byReviewer.get(score.reviewerId) ?? { email: score.reviewer.email, scores: [], deviations: [] };
+                entry.scores.push(score.overallScore);
+
+                const others = application.reviewScores
+                    .filter(s => s.reviewerId !== score.reviewerId)
+                    .map(s => s.overallScore);
+                if (others.length > 0) {
+                    entry.deviations.push(score.overallScore - mean(others));
+                }
+
+                byReviewer.set(score.reviewerId, entry);
+            }
+        }
+
+        return Array.from(byReviewer.entries())
+            .map(([reviewerId, { email, scores, deviations }]) => ({
+                reviewerId,
+                email,
+                reviewCount: scores.length,
+                mean: round(mean(scores)),
+                standardDeviation: round(standardDeviation(scores)),
+                min: Math.min(...scores),
+                max: Math.max(...scores),
+                meanDeviation: deviations.length > 0 ? round(mean(deviations)) : null,
+            }))
+            .sort((a, b) => b.reviewCount - a.reviewCount);
+    }
+
+    private findDisagreements(applications: Array<{
+        id: string;
+        applicationNumber: string;
+        status: ApplicationStatus;
+        reviewScores: Array<{ reviewerId: string; overallScore: number; reviewer: { email: string } }>;
+    }>, threshold: number): ScoreDisagreement[] {
+        return applications
+            .filter(a => a.reviewScores.length >= 2)
+            .map(application => {
+                const values = application.reviewScores.map(s => s.overallScore);
+                return {
+                    applicationId: application.id,
+                    applicationNumber: application.applicationNumber,
+                    status: application.status,
+                    range: round(Math.max(...values) - Math.min(...values)),
+                    standardDeviation: round(standardDeviation(values)),
+                    scores: application.reviewScores.map(s => ({
+                        reviewerId: s.reviewerId,
+                        email: s.reviewer.email,
+                        overallScore: s.overallScore,
+                    })),
+                };
+            })
+            .filter(d => d.range > threshold)
+            .sort((a, b) => b.range - a.range);
+    }
+
+    private roundOrNull(value: number | null): number | null {
+        return value === null ? null : round(value);
+    }
+}
+
+export default new ReliabilityService();
@@ -0,0 +1,216 @@
+import prisma from '../config/database';
+import { ApplicationStatus, Prisma, RetentionPolicy, RetentionTarget } from '@prisma/client';
+import { AuditContext, RetentionPolicyUpdate } from '../types/api.types';
+import logger from '../config/logger';
+import auditService from './audit.service';
+import erasureService from './erasure.service';
+import fileService from './file.service';
+
+// Upper bound on records purged per policy per run, so one run cannot hold the database for long
+const BATCH_SIZE = 200;
+
+// Targets whose eligibility depends on application statuses and period end dates
+const APPLICATION_TARGETS: RetentionTarget[] = [
+    RetentionTarget.APPLICATION_DOCUMENTS,
+    RetentionTarget.PROFILE_DOCUMENTS,
+    RetentionTarget.APPLICANT_PII,
+];
+
+export interface RetentionRunResult {
+    target: RetentionTarget;
+    cutoff: Date;
+    count: number;
+}
+
+const monthsAgo = (months: number): Date => {
+    const date = new Date();
+    date.setMonth(date.getMonth() - months);
+    return date;
+};
+
+export class RetentionService {
+    private running = false;
+
+    // ==================== POLICIES ====================
+
+    async listPolicies() {
+        return prisma.retentionPolicy.findMany({
+            orderBy: { target: 'asc' },
+            include: { updatedBy: { select: { email: true } } },
+        });
+    }
+
+    async updatePolicy(target: RetentionTarget, data: RetentionPolicyUpdate, context: AuditContext) {
+        const policy = await prisma.retentionPolicy.findUnique({ where: { target } });
+
+        if (!policy) {
+            throw new Error('Retention policy not found');
+        }
+
+        if (data.statuses && !APPLICATION_TARGETS.includes(target)) {
+            throw new Error(`Statuses do not apply to ${target}`);
+        }
+
+        if (APPLICATION_TARGETS.includes(target) && (data.statuses ?? policy.statuses).length === 0) {
+            throw new Error('At least one application status is required');
+        }
+
+        const updated = await prisma.retentionPolicy.update({
+            where: { target },
+            data: { ...data, updatedById: context.actorId },
+        });
+
+        await auditService.record(context, {
+            action: 'retention.policy_update',
+            entityType: 'RetentionPolicy',
+            entityId: target,
+            before: { retentionMonths: policy.retentionMonths, statuses: policy.statuses, isEnabled: policy.isEnabled },
+            after: { retentionMonths: updated.retentionMonths, statuses: updated.statuses, isEnabled: updated.isEnabled },
+        });
+
+        return updated;
+    }
+
+    // ==================== PURGE ====================
+
+    /**
+     * Apply every enabled policy. With dryRun, only counts what would be purged.
+     * Each policy that purges anything leaves an audit record; anonymised students
+     * get their own record as well.
+     */
+    async run(context: AuditContext, options: { dryRun?: boolean } = {}): Promise<RetentionRunResult[]> {
+        if (this.running) {
+            throw new Error('A retention run is already in progress');
+        }
+
+        this.running = true;
+        try {
+            const policies = await prisma.retentionPolicy.findMany({
+                where: { isEnabled: true },
+                orderBy: { target: 'asc' },
+            });
+
+            const results: RetentionRunResult[] = [];
+            for (const policy of policies) {
+                const cutoff = monthsAgo(policy.retentionMonths);
+                const count = await this.applyPolicy(policy, cutoff, context, !!options.dryRun);
+                results.push({ target: policy.target, cutoff, count });
+
+                if (count > 0 && !options.dryRun) {
+                    await auditService.record(context, {
+                        action: 'retention.purge',
+                        entityType: 'RetentionPolicy',
+                        entityId: policy.target,
+                        metadata: { count, cutoff, retentionMonths: policy.retentionMonths, statuses: policy.statuses },
+                    });
+                }
+            }
+
+            logger.info(`Retention run${options.dryRun ? ' (dry run)' : ''}: ${results.map(r => `${r.target}=${r.count}`).join(', ') || 'no enabled policies'}`);
+            return results;
+        } finally {
+            this.running = false;
+        }
+    }
+
+    // ==================== HELPERS ====================
+
+    private async applyPolicy(policy: RetentionPolicy, cutoff: Date, context: AuditContext, dryRun: boolean): Promise<number> {
+        switch (policy.target) {
+            case RetentionTarget.APPLICATION_DOCUMENTS: {
+                // Covers the documents attached to the application's appeals as well
+                const application: Prisma.ApplicationWhereInput = {
+                    status: { in: policy.statuses },
+                    OR: [
+                        { applicationPeriod: { endDate: { lt: cutoff } } },
+                        { applicationPeriodId: null, updatedAt: { lt: cutoff } },
+                    ],
+                };
+                const where: Prisma.ApplicationDocumentWhereInput = { application };
+                const appealWhere: Prisma.AppealDocumentWhereInput = { appeal: { application } };
+                if (dryRun) {
+                    return await prisma.applicationDocument.count({ where }) + await prisma.appealDocument.count({ where: appealWhere });
+                }
+
+                const documents = await prisma.applicationDocument.findMany({ where, select: { id: true, filePath: true }, take: BATCH_SIZE });
+                await prisma.applicationDocument.deleteMany({ where: { id: { in: documents.map(d => d.id) } } });
+
+                const appealDocuments = await prisma.appealDocument.findMany({ where: appealWhere, select: { id: true, filePath: true }, take: BATCH_SIZE });
+                await prisma.appealDocument.deleteMany({ where: { id: { in: appealDocuments.map(d => d.id) } } });
+
+                for (const document of [...documents, ...appealDocuments]) {
+                    await fileService.deleteFile(document.filePath);
+                }
+                return documents.length + appealDocuments.length;
+            }
+
+            case RetentionTarget.PROFILE_DOCUMENTS: {
+                const where: Prisma.ProfileDocumentWhereInput = {
+                    studentProfile: this.settledApplicantWhere(policy.statuses, cutoff),
+                };
+                if (dryRun) return prisma.profileDocument.count({ where });
+
+                const documents = await prisma.profileDocument.findMany({ where, select: { id: true, filePath: true }, take: BATCH_SIZE });
+                await prisma.profileDocument.deleteMany({ where: { id: { in: documents.map(d => d.id) } } });
+                for (const document of documents) {
+                    await fileService.deleteFile(document.filePath);
+                }
+                return documents.length;
+            }
+
+            case RetentionTarget.APPLICANT_PII: {
+                const where: Prisma.StudentProfileWhereInput = {
+                    ...this.settledApplicantWhere(policy.statuses, cutoff),
+                    anonymisedAt: null,
+                };
+                if (dryRun) return prisma.studentProfile.count({ where });
+
+                const profiles = await prisma.studentProfile.findMany({ where, select: { userId: true }, take: BATCH_SIZE });
+                let anonymised = 0;
+                for (const profile of profiles) {
+                    try {
+                        await erasureService.anonymiseStudent(profile.userId, context, 'retention');
+                        anonymised++;
+                    } catch (error) {
+                        logger.error(`Retention anonymisation failed for user ${profile.userId}`, error);
+                    }
+                }
+                return anonymised;
+            }
+
+            case RetentionTarget.NOTIFICATIONS: {
+                const where: Prisma.NotificationWhereInput = { createdAt: { lt: cutoff } };
+                if (dryRun) return prisma.notification.count({ where });
+                return (await prisma.notification.deleteMany({ where })).count;
+            }
+
+            case RetentionTarget.LOGIN_EVENTS: {
+                const where: Prisma.LoginEventWhereInput = { createdAt: { lt: cutoff } };
+                if (dryRun) return prisma.loginEvent.count({ where });
+                return (await prisma.loginEvent.deleteMany({ where })).count;
+            }
+        }
+    }
+
+    /**
+     * Students with no recent activity: their profile was last changed before the
+     * cutoff, and every application (drafts aside) is in one of the statuses and
+     * belongs to a period that closed before the cutoff
+     */
+    private settledApplicantWhere(statuses: ApplicationStatus[], cutoff: Date): Prisma.StudentProfileWhereInput {
+        return {
+            updatedAt: { lt: cutoff },
+            applications: {
+                none: {
+                    OR: [
+                        { status: { notIn: [...statuses, ApplicationStatus.DRAFT] } },
+                        { applicationPeriod: { endDate: { gte: cutoff } } },
+                        { applicationPeriodId: null, updatedAt: { gte: cutoff } },
+                    ],
+                },
+            },
+        };
+    }
+}
+
+export default new RetentionService();
@@ -0,0 +1,650 @@
+import prisma from '../config/database';
+import { ApplicationStatus, NotificationType, Prisma, ReviewerConflict, UserRole } from '@prisma/client';
+import {
+    AssignReviewersRequest,
+    AuditContext,
+    AutoAssignReviewersRequest,
+    ReviewerConflictRequest,
+    ReviewQueueParams,
+} from '../types/api.types';
+import logger from '../config/logger';
+import { Permissions } from '../config/permissions';
+import permissionService from './permission.service';
+import { redactApplication, redactDocuments } from '../utils/redaction';
+import notificationService from './notification.service';
+import auditService from './audit.service';
+
+// Reviewers get this long to score an application unless a due date is given
+const DEFAULT_REVIEW_DAYS = 14;
+
+// Applications in these statuses can be assigned to reviewers
+const REVIEWABLE_STATUSES: ApplicationStatus[] = [
+    ApplicationStatus.PENDING,
+    ApplicationStatus.UNDER_REVIEW,
+    ApplicationStatus.SHORTLISTED,
+    ApplicationStatus.WAITLISTED,
+    ApplicationStatus.APPEALED,
+];
+
+const REVIEWER_ROLES: UserRole[] = [UserRole.ADMIN, UserRole.BOARD];
+
+interface ReviewerCandidate {
+    id: string;
+    email: string;
+    role: UserRole;
+    openAssignments: number;
+    lastAssignedAt: number; // epoch ms, 0 when never assigned
+    conflicts: Array<{ countyId: string | null; institutionId: string | null; institutionName: string | null }>;
+}
+
+interface AssignmentTarget {
+    id: string;
+    applicationNumber: string;
+    status: ApplicationStatus;
+    snapshotInstitution: string | null;
+    studentProfile: { countyId: string; institutionId: string | null };
+    reviewAssignments: Array<{ reviewerId: string }>;
+}
+
+const assignmentTargetSelect = {
+    id: true,
+    applicationNumber: true,
+    status: true,
+    snapshotInstitution: true,
+    studentProfile: { select: { countyId: true, institutionId: true } },
+    reviewAssignments: { select: { reviewerId: true } },
+} satisfies Prisma.ApplicationSelect;
+
+export class ReviewService {
+    // ==================== ASSIGNMENT ====================
+
+    /**
+     * Assign reviewers to an application, either the given reviewers or the next
+     * `count` reviewers in round-robin order
+     */
+    async assignReviewers(
+        applicationId: string,
+        data: AssignReviewersRequest,
+        adminId: string,
+        context: AuditContext = { actorId: adminId }
+    ) {
+        const application = await prisma.application.findUnique({
+            where: { id: applicationId },
+            select: assignmentTargetSelect,
+        });
+
+        if (!application) {
+            throw new Error('Application not found');
+        }
+
+        this.assertReviewable(application);
+
+        const pool = await this.loadReviewerPool();
+        const alreadyAssigned = new Set(application.reviewAssignments.map(a => a.reviewerId));
+        let reviewers: ReviewerCandidate[];
+
+        if (data.reviewerIds && data.reviewerIds.length > 0) {
+            reviewers = data.reviewerIds.map(reviewerId => {
+                const reviewer = pool.find(c => c.id === reviewerId);
+                if (!reviewer) {
+                    throw new Error(`Reviewer ${reviewerId} not found or not an active admin/board member`);
+                }
+                if (alreadyAssigned.has(reviewerId)) {
+                    throw new Error(`Reviewer ${reviewer.email} is already assigned to this application`);
+                }
+                const conflict = this.findConflict(reviewer, application);
+                if (conflict) {
+                    throw new Error(`Reviewer ${reviewer.email} has a conflict of interest with this application (${conflict})`);
+                }
+                return reviewer;
+            });
+        } else {
+            const count = data.count ?? 1;
+            reviewers = this.pickReviewers(pool, application, count);
+            if (reviewers.length < count) {
+                throw new Error(`Only ${reviewers.length} eligible reviewer(s) available for this application`);
+            }
+        }
+
+        const dueDate = this.resolveDueDate(data.dueDate);
+        const assignments = await this.createAssignments(application, reviewers, dueDate, adminId, context);
+
+        logger.info(`Assigned ${assignments.length} reviewer(s) to application ${application.applicationNumber} by admin ${adminId}`);
+        return assignments;
+    }
+
+    /**
+     * Round-robin assign reviewers to many applications, topping each one up to
+     * `reviewersPerApplication` assigned reviewers. Reviewers with the fewest open
+     * reviews are picked first, so the workload stays balanced across the batch.
+     */
+    async autoAssignReviewers(
+        data: AutoAssignReviewersRequest,
+        adminId: string,
+        context: AuditContext = { actorId: adminId }
+    ) {
+        const applications = await prisma.application.findMany({
+            where: { id: { in: data.applicationIds } },
+            select: assignmentTargetSelect,
+        });
+
+        const pool = await this.loadReviewerPool();
+        const dueDate = this.resolveDueDate(data.dueDate);
+        const results: Array<{ applicationId: string; assigned: string[]; error?: string }> = [];
+
+        for (const applicationId of data.applicationIds) {
+            const application = applications.find(a => a.id === applicationId);
+
+            if (!application) {
+                results.push({ applicationId, assigned: [], error: 'Application not found' });
+                continue;
+            }
+
+            if (!REVIEWABLE_STATUSES.includes(application.status)) {
+                results.push({ applicationId, assigned: [], error: `Applications in status ${application.status} cannot be assigned for review` });
+                continue;
+            }
+
+            const needed = data.reviewersPerApplication - application.reviewAssignments.length;
+            if (needed <= 0) {
+                results.push({ applicationId, assigned: [] });
+                continue;
+            }
+
+            const reviewers = this.pickReviewers(pool, application, needed);
+            const assignments = await this.createAssignments(application, reviewers, dueDate, adminId, context);
+
+            results.push({
+                applicationId,
+                assigned: assignments.map(a => a.reviewerId),
+                ...(reviewers.length < needed && {
+                    error: `Only ${reviewers.length} of ${needed} reviewer(s) could be assigned`,
+                }),
+            });
+        }
+
+        const assigned = results.reduce((sum, r) => sum + r.assigned.length, 0);
+        logger.info(`Auto-assigned ${assigned} review(s) across ${data.applicationIds.length} application(s) by admin ${adminId}`);
+
+        return { assigned, results };
+    }
+
+    /**
+     * Remove a reviewer from an application. Completed reviews stay on record.
+     */
+    async unassignReviewer(applicationId: string, reviewerId: string, context: AuditContext) {
+        const assignment = await prisma.reviewAssignment.findUnique({
+            where: { applicationId_reviewerId: { applicationId, reviewerId } },
+        });
+
+        if (!assignment) {
+            throw new Error('Review assignment not found');
+        }
+
+        if (assignment.completedAt) {
+            throw new Error('Completed reviews cannot be unassigned');
+        }
+
+        await prisma.reviewAssignment.delete({ where: { id: assignment.id } });
+
+        await auditService.record(context, {
+            action: 'review.unassign',
+            entityType: 'ReviewAssignment',
+            entityId: assignment.id,
+            before: { applicationId, reviewerId, dueDate: assignment.dueDate },
+            after: null,
+        });
+
+        logger.info(`Reviewer ${reviewerId} unassigned from application ${applicationId}`);
+    }
+
+    /**
+     * List the reviewers assigned to an application
+     */
+    async getApplicationAssignments(applicationId: string) {
+        return prisma.reviewAssignment.findMany({
+            where: { applicationId },
+            orderBy: { assignedAt: 'asc' },
+            include: {
+                reviewer: { select: { id: true, email: true, role: true } },
+            },
+        });
+    }
+
+    /**
+     * List active reviewers with their open workload and declared conflicts
+     */
+    async listReviewers() {
+        const pool = await this.loadReviewerPool();
+        return pool.map(({ lastAssignedAt, ...reviewer }) => ({
+            ...reviewer,
+            lastAssignedAt: lastAssignedAt ? new Date(lastAssignedAt) : null,
+        }));
+    }
+
+    // ==================== REVIEW QUEUE ====================
+
+    /**
+     * The reviewer's own queue, earliest due date first
+     */
+    async getMyReviews(reviewerId: string, role: UserRole, params: ReviewQueueParams) {
+        const { page = 1, limit = 20, status = 'pending' } = params;
+
+        const pageNumber = Number(page) || 1;
+        const limitNumber = Number(limit) || 20;
+
+        const where: Prisma.ReviewAssignmentWhereInput = { reviewerId };
+        if (status === 'pending') {
+            where.completedAt = null;
+        } else if (status === 'completed') {
+            where.completedAt = { not: null };
+        }
+
+        const now = new Date();
+
+        const [assignments, total, pending, overdue, canReadPii] = await Promise.all([
+            prisma.reviewAssignment.findMany({
+                where,
+                skip: (pageNumber - 1) * limitNumber,
+                take: limitNumber,
+                orderBy: [{ dueDate: 'asc' }, { assignedAt: 'asc' }],
+                include: {
+                    application: {
+                        select: {
+                            id: true,
+                            applicationNumber: true,
+                            status: true,
+                            submittedAt: true,
+                            snapshotFullName: true,
+                            snapshotInstitution: true,
+                            snapshotCounty: true,
+                            snapshotEducationLevel: true,
+                            applicationPeriod: { select: { blindReview: true } },
+                        },
+                    },
+                },
+            }),
+            prisma.reviewAssignment.count({ where }),
+            prisma.reviewAssignment.count({ where: { reviewerId, completedAt: null } }),
+            prisma.reviewAssignment.count({ where: { reviewerId, completedAt: null, dueDate: { lt: now } } }),
+            permissionService.hasPermission(reviewerId, role, Permissions.PII_READ),
+        ]);
+
+        return {
+            data: assignments.map(({ application: { applicationPeriod, ...application }, ...assignment }) => ({
+                ...assignment,
+                application: applicationPeriod?.blindReview && !canReadPii
+                    ? redactApplication(application)
+                    : application,
+                isOverdue: !assignment.completedAt && assignment.dueDate < now,
+            })),
+            summary: { pending, overdue },
+            pagination: {
+                page: pageNumber,
+                limit: limitNumber,
+                total,
+                totalPages: Math.ceil(total / limitNumber),
+            },
+        };
+    }
+
+    /**
+     * Get an application assigned to the reviewer, with the reviewer's own score.
+     * Identity is redacted in blind-review periods unless the reviewer holds pii.read.
+     */
+    async getReviewApplication(reviewerId: string, role: UserRole, applicationId: string) {
+        const assignment = await this.assertAssigned(applicationId, reviewerId);
+
+        const application = await prisma.application.findUnique({
+            where: { id: applicationId },
+            include: {
+                applicationPeriod: { select: { id: true, title: true, academicYear: true } },
+                applicationDocuments: {
+                    select: {
+                        id: true,
+                        documentType: true,
+                        originalFilename: true,
+                        mimeType: true,
+                        fileSize: true,
+                        uploadedAt: true,
+                    },
+                },
+                reviewScores: { where: { reviewerId } },
+            },
+        });
+
+        if (!application) {
+            throw new Error('Application not found');
+        }
+
+        const { reviewScores, ...rest } = application;
+        const result = { ...rest, assignment, myScore: reviewScores[0] ?? null };
+
+        return await this.isBlindFor(applicationId, reviewerId, role)
+            ? redactApplication(result)
+            : result;
+    }
+
+    /**
+     * List the documents of an application assigned to the reviewer
+     */
+    async getReviewDocuments(reviewerId: string, role: UserRole, applicationId: string) {
+        await this.assertAssigned(applicationId, reviewerId);
+
+        const documents = await prisma.applicationDocument.findMany({
+            where: { applicationId },
+            orderBy: { uploadedAt: 'asc' },
+            select: {
+                id: true,
+                documentType: true,
+                originalFilename: true,
+                mimeType: true,
+                fileSize: true,
+                uploadedAt: true,
+            },
+        });
+
+        return await this.isBlindFor(applicationId, reviewerId, role)
+            ? redactDocuments(documents)
+            : documents;
+    }
+
+    /**
+     * Whether the user must see the application with identity redacted: its period
+     * runs blind review, the user is one of its assigned reviewers, and lacks pii.read
+     */
+    async isBlindFor(applicationId: string, userId: string, role: UserRole): Promise<boolean> {
+        const application = await prisma.application.findUnique({
+            where: { id: applicationId },
+            select: {
+                applicationPeriod: { select: { blindReview: true } },
+                reviewAssignments: { where: { reviewerId: userId }, select: { id: true } },
+            },
+        });
+
+        if (!application?.applicationPeriod?.blindReview || application.reviewAssignments.length === 0) {
+            return false;
+        }
+
+        return !(await permissionService.hasPermission(userId, role, Permissions.PII_READ));
+    }
+
+    /**
+     * Ensure the reviewer is assigned to the application
+     */
+    async assertAssigned(applicationId: string, reviewerId: string) {
+        const assignment = await prisma.reviewAssignment.findUnique({
+            where: { applicationId_reviewerId: { applicationId, reviewerId } },
+        });
+
+        if (!assignment) {
+            throw new Error('You are not assigned to review this application');
+        }
+
+        return assignment;
+    }
+
+    /**
+     * Mark the reviewer's assignment complete once a score is recorded
+     */
+    async markCompleted(applicationId: string, reviewerId: string) {
+        await prisma.reviewAssignment.updateMany({
+            where: { applicationId, reviewerId, completedAt: null },
+            data: { completedAt: new Date() },
+        });
+    }
+
+    // ==================== CONFLICTS OF INTEREST ====================
+
+    async listConflicts(reviewerId?: string) {
+        return prisma.reviewerConflict.findMany({
+            where: reviewerId ? { reviewerId } : {},
+            orderBy: { createdAt: 'desc' },
+            include: {
+                reviewer: { select: { id: true, email: true, role: true } },
+                county: { select: { id: true, name: true } },
+                institution: { select: { id: true, name: true } },
+            },
+        });
+    }
+
+    /**
+     * Declare a reviewer conflict of interest with a county or an institution
+     */
+    async addConflict(data: ReviewerConflictRequest, adminId: string, context: AuditContext = { actorId: adminId }) {
+        const reviewer = await prisma.user.findFirst({
+            where: { id: data.reviewerId, role: { in: REVIEWER_ROLES }, deletedAt: null },
+        });
+
+        if (!reviewer) {
+            throw new Error('Reviewer not found');
+        }
+
+        if (data.countyId) {
+            const county = await prisma.county.findUnique({ where: { id: data.countyId } });
+            if (!county) throw new Error('County not found');
+        }
+
+        if (data.institutionId) {
+            const institution = await prisma.institution.findUnique({ where: { id: data.institutionId } });
+            if (!institution) throw new Error('Institution not found');
+        }
+
+        const existing = await prisma.reviewerConflict.findFirst({
+            where: {
+                reviewerId: data.reviewerId,
+                countyId: data.countyId ?? null,
+                institutionId: data.institutionId ?? null,
+            },
+        });
+
+        if (existing) {
+            throw new Error('This conflict of interest is already recorded');
+        }
+
+        const conflict = await prisma.reviewerConflict.create({
+            data: {
+                reviewerId: data.reviewerId,
+                countyId: data.countyId,
+                institutionId: data.institutionId,
+                reason: data.reason,
+                createdBy: adminId,
+            },
+        });
+
+        await auditService.record(context, {
+            action: 'reviewer_conflict.create',
+            entityType: 'ReviewerConflict',
+            entityId: conflict.id,
+            before: null,
+            after: this.conflictState(conflict),
+        });
+
+        logger.info(`Conflict of interest recorded for reviewer ${data.reviewerId} by admin ${adminId}`);
+        return conflict;
+    }
+
+    async removeConflict(conflictId: string, context: AuditContext) {
+        const conflict = await prisma.reviewerConflict.findUnique({ where: { id: conflictId } });
+
+        if (!conflict) {
+            throw new Error('Reviewer conflict not found');
+        }
+
+        await prisma.reviewerConflict.delete({ where: { id: conflictId } });
+
+        await auditService.record(context, {
+            action: 'reviewer_conflict.delete',
+            entityType: 'ReviewerConflict',
+            entityId: conflictId,
+            before: this.conflictState(conflict),
+            after: null,
+        });
+
+        logger.info(`Conflict of interest ${conflictId} removed by ${context.actorId}`);
+    }
+
+    // ==================== HELPERS ====================
+
+    private conflictState(conflict: ReviewerConflict) {
+        return {
+            reviewerId: conflict.reviewerId,
+            countyId: conflict.countyId,
+            institutionId: conflict.institutionId,
+            reason: conflict.reason,
+        };
+    }
+
+    private assertReviewable(application: AssignmentTarget) {
+        if (!REVIEWABLE_STATUSES.includes(application.status)) {
+            throw new Error(`Applications in status ${application.status} cannot be assigned for review`);
+        }
+    }
+
+    private resolveDueDate(dueDate?: string): Date {
+        if (dueDate) {
+            return new Date(dueDate);
+        }
+        return new Date(Date.now() + DEFAULT_REVIEW_DAYS * 24 * 60 * 60 * 1000);
+    }
+
+    /**
+     * Load active ADMIN/BOARD users with their open workload and conflicts
+     */
+    private async loadReviewerPool(): Promise<ReviewerCandidate[]> {
+        const users = await prisma.user.findMany({
+            where: { role: { in: REVIEWER_ROLES }, isActive: true, deletedAt: null },
+            select: {
+                id: true,
+                email: true,
+                role: true,
+                reviewerConflicts: {
+                    select: {
+                        countyId: true,
+                        institutionId: true,
+                        institution: { select: { name: true } },
+                    },
+                },
+            },
+            orderBy: { createdAt: 'asc' },
+        });
+
+        const [open, latest] = await Promise.all([
+            prisma.reviewAssignment.groupBy({
+                by: ['reviewerId'],
+                where: { completedAt: null },
+                _count: { _all: true },
+            }),
+            prisma.reviewAssignment.groupBy({
+                by: ['reviewerId'],
+                _max: { assignedAt: true },
+            }),
+        ]);
+
+        return users.map(user => ({
+            id: user.id,
+            email: user.email,
+            role: user.role,
+            openAssignments: open.find(o => o.reviewerId === user.id)?._count._all ?? 0,
+            lastAssignedAt: latest.find(l => l.reviewerId === user.id)?._max.assignedAt?.getTime() ?? 0,
+            conflicts: user.reviewerConflicts.map(c => ({
+                countyId: c.countyId,
+                institutionId: c.institutionId,
+                institutionName: c.institution?.name ?? null,
+            })),
+        }));
+    }
+
+    /**
+     * Describe the reviewer's conflict with the application, if any
+     */
+    private findConflict(reviewer: ReviewerCandidate, application: AssignmentTarget): string | null {
+        const { countyId, institutionId } = application.studentProfile;
+        const institutionName = application.snapshotInstitution?.trim().toLowerCase();
+
+        for (const conflict of reviewer.conflicts) {
+            if (conflict.countyId && conflict.countyId === countyId) {
+                return 'county';
+            }
+            if (conflict.institutionId && (
+                conflict.institutionId === institutionId ||
+                (institutionName && conflict.institutionName?.toLowerCase() === institutionName)
+            )) {
+                return 'institution';
+            }
+        }
+
+        return null;
+    }
+
+    /**
+     * Pick up to `count` unconflicted reviewers not yet on the application, in
+     * round-robin order: fewest open reviews first, then least recently assigned
+     */
+    private pickReviewers(pool: ReviewerCandidate[], application: AssignmentTarget, count: number) {
+        const assigned = new Set(application.reviewAssignments.map(a => a.reviewerId));
+
+        return pool
+            .filter(c => !assigned.has(c.id) && !this.findConflict(c, application))
+            .sort((a, b) => a.openAssignments - b.openAssignments || a.lastAssignedAt - b.lastAssignedAt)
+            .slice(0, count);
+    }
+
+    private async createAssignments(
+        application: AssignmentTarget,
+        reviewers: ReviewerCandidate[],
+        dueDate: Date,
+        adminId: string,
+        context: AuditContext
+    ) {
+        if (reviewers.length === 0) {
+            return [];
+        }
+
+        const assignments = await prisma.$transaction(
+            reviewers.map(reviewer => prisma.reviewAssignment.create({
+                data: {
+                    applicationId: application.id,
+                    reviewerId: reviewer.id,
+                    assignedBy: adminId,
+                    dueDate,
+                },
+            }))
+        );
+
+        await auditService.record(context, {
+            action: 'review.assign',
+            entityType: 'Application',
+            entityId: application.id,
+            before: { reviewerIds: application.reviewAssignments.map(a => a.reviewerId) },
+            after: {
+                reviewerIds: [
+                    ...application.reviewAssignments.map(a => a.reviewerId),
+                    ...assignments.map(a => a.reviewerId),
+                ],
+            },
+            metadata: { dueDate },
+        });
+
+        // Keep the in-memory pool current so later picks in the same batch rotate
+        const now = Date.now();
+        reviewers.forEach((reviewer, index) => {
+            reviewer.openAssignments += 1;
+            reviewer.lastAssignedAt = now + index;
+        });
+
+        for (const reviewer of reviewers) {
+            notificationService.createNotification(
+                reviewer.id,
+                NotificationType.REVIEW_ASSIGNED,
+                `Review Assigned: ${application.applicationNumber}`,
+                `You have been assigned to review application ${application.applicationNumber}. Please submit your score by ${dueDate.toISOString().split('T')[0]}.`,
+                { applicationId: application.id, dueDate: dueDate.toISOString() }
+            ).catch(err => logger.error('Notification send error', err));
+        }
+
+        return assignments;
+    }
+}
+
+export default new ReviewService();
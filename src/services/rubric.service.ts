@@ -0,0 +1,223 @@
+import prisma from '../config/database';
+import { Prisma, RubricCriterion } from '@prisma/client';
+import { AuditContext, CreateRubricRequest, RubricCriterionInput } from '../types/api.types';
+import logger from '../config/logger';
+import auditService from './audit.service';
+
+const rubricInclude = {
+    criteria: { orderBy: { sortOrder: 'asc' } },
+} satisfies Prisma.ScoringRubricInclude;
+
+export type RubricWithCriteria = Prisma.ScoringRubricGetPayload<{ include: typeof rubricInclude }>;
+
+export class RubricService {
+    // ==================== RUBRIC LOOKUP ====================
+
+    /**
+     * Get the rubric currently used for a period: the latest version defined for the
+     * period, falling back to the latest global rubric
+     */
+    async getCurrentRubric(periodId?: string | null): Promise<RubricWithCriteria> {
+        if (periodId) {
+            const periodRubric = await prisma.scoringRubric.findFirst({
+                where: { applicationPeriodId: periodId },
+                orderBy: { version: 'desc' },
+                include: rubricInclude,
+            });
+
+            if (periodRubric) {
+                return periodRubric;
+            }
+        }
+
+        const globalRubric = await prisma.scoringRubric.findFirst({
+            where: { applicationPeriodId: null },
+            orderBy: { version: 'desc' },
+            include: rubricInclude,
+        });
+
+        if (!globalRubric) {
+            throw new Error('Scoring rubric not found');
+        }
+
+        return globalRubric;
+    }
+
+    /**
+     * Get a specific rubric version
+     */
+    async getRubric(rubricId: string): Promise<RubricWithCriteria> {
+        const rubric = await prisma.scoringRubric.findUnique({
+            where: { id: rubricId },
+            include: rubricInclude,
+        });
+
+        if (!rubric) {
+            throw new Error('Scoring rubric not found');
+        }
+
+        return rubric;
+    }
+
+    /**
+     * List rubric versions, newest first. Pass 'global' to list only the global rubrics.
+     */
+    async listRubrics(periodId?: string) {
+        const where: Prisma.ScoringRubricWhereInput = {};
+        if (periodId === 'global') {
+            where.applicationPeriodId = null;
+        } else if (periodId) {
+            where.applicationPeriodId = periodId;
+        }
+
+        return prisma.scoringRubric.findMany({
+            where,
+            orderBy: [{ applicationPeriodId: 'asc' }, { version: 'desc' }],
+            include: {
+                ...rubricInclude,
+                applicationPeriod: { select: { id: true, title: true, academicYear: true } },
+                _count: { select: { reviewScores: true } },
+            },
+        });
+    }
+
+    // ==================== RUBRIC VERSIONS ====================
+
+    /**
+     * Publish a new rubric version for a period (or the global default).
+     * Rubrics are never edited in place, so scores recorded against earlier
+     * versions keep their original criteria.
+     */
+    async createRubricVersion(
+        data: CreateRubricRequest,
+        adminId: string,
+        context: AuditContext = { actorId: adminId }
+    ): Promise<RubricWithCriteria> {
+        const periodId = data.applicationPeriodId ?? null;
+
+        if (periodId) {
+            const period = await prisma.applicationPeriod.findUnique({ where: { id: periodId } });
+            if (!period) {
+                throw new Error('Application period not found');
+            }
+        }
+
+        this.validateCriteria(data.criteria);
+
+        const rubric = await prisma.$transaction(async (tx) => {
+            const latest = await tx.scoringRubric.findFirst({
+                where: { applicationPeriodId: periodId },
+                orderBy: { version: 'desc' },
+                select: { version: true },
+            });
+
+            return tx.scoringRubric.create({
+                data: {
+                    applicationPeriodId: periodId,
+                    version: (latest?.version ?? 0) + 1,
+                    name: data.name,
+                    description: data.description,
+                    createdBy: adminId,
+                    criteria: {
+                        create: data.criteria.map((criterion, index) => ({
+                            key: criterion.key,
+                            label: criterion.label,
+                            description: criterion.description,
+                            minScore: criterion.minScore,
+                            maxScore: criterion.maxScore,
+                            weight: criterion.weight,
+                            anchors: JSON.parse(JSON.stringify(criterion.anchors ?? [])),
+                            sortOrder: index,
+                        })),
+                    },
+                },
+                include: rubricInclude,
+            });
+        });
+
+        await auditService.record(context, {
+            action: 'rubric.create',
+            entityType: 'ScoringRubric',
+            entityId: rubric.id,
+            before: null,
+            after: {
+                applicationPeriodId: rubric.applicationPeriodId,
+                version: rubric.version,
+                name: rubric.name,
+                criteria: rubric.criteria.map(c => ({
+                    key: c.key,
+                    minScore: c.minScore,
+                    maxScore: c.maxScore,
+                    weight: c.weight,
+                })),
+            },
+        });
+
+        logger.info(`Scoring rubric ${rubric.name} v${rubric.version} created for ${periodId ?? 'global'} by admin ${adminId}`);
+        return rubric;
+    }
+
+    // ==================== SCORE CALCULATION ====================
+
+    /**
+     * Validate per-criterion scores against a rubric and compute the overall score:
+     * the weighted mean of each criterion's position within its range, as 0-100
+     */
+    calculateOverallScore(criteria: RubricCriterion[], scores: Record<string, number>): number {
+        const keys = new Set(criteria.map(c => c.key));
+        const unknown = Object.keys(scores).filter(key => !keys.has(key));
+        if (unknown.length > 0) {
+            throw new Error(`Unknown rubric criteria: ${unknown.join(', ')}`);
+        }
+
+        let weighted = 0;
+        let totalWeight = 0;
+
+        for (const criterion of criteria) {
+            const value = scores[criterion.key];
+
+            if (value === undefined) {
+                throw new Error(`Score for ${criterion.label} is required`);
+            }
+
+            if (!Number.isInteger(value) || value < criterion.minScore || value > criterion.maxScore) {
+                throw new Error(`Score for ${criterion.label} must be a whole number between ${criterion.minScore} and ${criterion.maxScore}`);
+            }
+
+            weighted += criterion.weight * (value - criterion.minScore) / (criterion.maxScore - criterion.minScore);
+            totalWeight += criterion.weight;
+        }
+
+        return Math.round((weighted / totalWeight) * 10000) / 100;
+    }
+
+    // ==================== HELPERS ====================
+
+    private validateCriteria(criteria: RubricCriterionInput[]) {
+        const keys = new Set<string>();
+
+        for (const criterion of criteria) {
+            if (keys.has(criterion.key)) {
+                throw new Error(`Duplicate rubric criterion key: ${criterion.key}`);
+            }
+            keys.add(criterion.key);
+
+            if (criterion.minScore >= criterion.maxScore) {
+                throw new Error(`Criterion ${criterion.key}: minScore must be less than maxScore`);
+            }
+
+            const anchorScores = new Set<number>();
+            for (const anchor of criterion.anchors ?? []) {
+                if (anchor.score < criterion.minScore || anchor.score > criterion.maxScore) {
+                    throw new Error(`Criterion ${criterion.key}: anchor score ${anchor.score} is outside ${criterion.minScore}-${criterion.maxScore}`);
+                }
+                if (anchorScores.has(anchor.score)) {
+                    throw new Error(`Criterion ${criterion.key}: duplicate anchor for score ${anchor.score}`);
+                }
+                anchorScores.add(anchor.score);
+            }
+        }
+    }
+}
+
+export default new RubricService();
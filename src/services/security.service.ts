@@ -0,0 +1,237 @@
+import prisma from '../config/database';
+import { NotificationType } from '@prisma/client';
+import { SessionContext } from '../types/auth.types';
+import { AuditContext } from '../types/api.types';
+import logger from '../config/logger';
+import notificationService from './notification.service';
+import emailService from './email.service';
+import auditService from './audit.service';
+
+// Failed logins allowed before the account is locked
+const MAX_FAILED_LOGINS = parseInt(process.env.LOGIN_MAX_FAILED_ATTEMPTS || '5', 10);
+
+// First lock lasts this long; each further failure doubles it, up to the maximum
+const BASE_LOCKOUT_MINUTES = parseInt(process.env.LOGIN_LOCKOUT_MINUTES || '15', 10);
+const MAX_LOCKOUT_MINUTES = 24 * 60;
+
+export type LoginFailureReason = 'invalid_password' | 'invalid_two_factor' | 'locked' | 'inactive' | 'unknown_account';
+
+interface LoginUser {
+    id: string;
+    email: string;
+    failedLoginAttempts: number;
+    lockedUntil: Date | null;
+}
+
+export class SecurityService {
+    // ==================== LOCKOUT ====================
+
+    /**
+     * When the account is locked, the time the lock ends
+     */
+    getLockedUntil(user: Pick<LoginUser, 'lockedUntil'>): Date | null {
+        return user.lockedUntil && user.lockedUntil > new Date() ? user.lockedUntil : null;
+    }
+
+    /**
+     * Count a failed login and lock the account once the threshold is reached.
+     * Returns when the account is now locked until, if it is.
+     */
+    async recordFailedLogin(
+        user: LoginUser,
+        context: SessionContext,
+        reason: LoginFailureReason = 'invalid_password'
+    ): Promise<Date | null> {
+        // Increment in the database so concurrent attempts cannot overwrite each other's count
+        const { failedLoginAttempts: attempts } = await prisma.user.update({
+            where: { id: user.id },
+            data: { failedLoginAttempts: { increment: 1 } },
+            select: { failedLoginAttempts: true },
+        });
+
+        const lockedUntil = attempts >= MAX_FAILED_LOGINS
+            ? new Date(Date.now() + this.lockoutMinutes(attempts) * 60 * 1000)
+            : null;
+
+        if (lockedUntil) {
+            await prisma.user.update({
+                where: { id: user.id },
+                data: { lockedUntil },
+            });
+        }
+
+        await this.recordLoginEvent(user.email, user.id, context, false, reason);
+
+        if (lockedUntil) {
+            logger.warn(`Account ${user.id} locked until ${lockedUntil.toISOString()} after ${attempts} failed logins`);
+        }
+
+        return lockedUntil;
+    }
+
+    /**
+     * Clear the failed-login counter, record the login and alert the user
+     * when it came from a device they have not logged in from before
+     */
+    async recordSuccessfulLogin(user: LoginUser, context: SessionContext): Promise<void> {
+        if (user.failedLoginAttempts > 0 || user.lockedUntil) {
+            await prisma.user.update({
+                where: { id: user.id },
+                data: { failedLoginAttempts: 0, lockedUntil: null },
+            });
+        }
+
+        const newDevice = await this.isNewDevice(user.id, context.userAgent);
+        await this.recordLoginEvent(user.email, user.id, context, true, undefined, newDevice);
+
+        if (newDevice) {
+            this.notifyNewDevice(user, context);
+        }
+    }
+
+    /**
+     * Lift a lockout and reset the failed-login counter
+     */
+    async unlockAccount(userId: string, context: AuditContext) {
+        const user = await prisma.user.findFirst({
+            where: { id: userId, deletedAt: null },
+        });
+
+        if (!user) {
+            throw new Error('User not found');
+        }
+
+        const updated = await prisma.user.update({
+            where: { id: userId },
+            data: { failedLoginAttempts: 0, lockedUntil: null },
+            select: { id: true, email: true, role: true, failedLoginAttempts: true, lockedUntil: true },
+        });
+
+        await auditService.record(context, {
+            action: 'user.unlock',
+            entityType: 'User',
+            entityId: userId,
+            before: { failedLoginAttempts: user.failedLoginAttempts, lockedUntil: user.lockedUntil },
+            after: { failedLoginAttempts: updated.failedLoginAttempts, lockedUntil: updated.lockedUntil },
+        });
+
+        logger.info(`Account ${userId} unlocked by ${context.actorId}`);
+        return updated;
+    }
+
+    // ==================== LOGIN HISTORY ====================
+
+    /**
+     * Record a login attempt in the login history
+     */
+    async recordLoginEvent(
+        email: string,
+        userId: string | null,
+        context: SessionContext,
+        success: boolean,
+        failureReason?: LoginFailureReason,
+        newDevice: boolean = false
+    ): Promise<void> {
+        try {
+            await prisma.loginEvent.create({
+                data: {
+                    userId,
+                    email,
+                    ipAddress: context.ipAddress,
+                    userAgent: context.userAgent?.slice(0, 500),
+                    success,
+                    failureReason,
+                    newDevice,
+                },
+            });
+        } catch (error) {
+            // History is best-effort; never block a login on it
+            logger.error('Failed to record login event', error);
+        }
+    }
+
+    /**
+     * Get a user's paginated login history, newest first
+     */
+    async getLoginHistory(userId: string, page: number = 1, limit: number = 20) {
+        const user = await prisma.user.findUnique({
+            where: { id: userId },
+            select: { id: true, failedLoginAttempts: true, lockedUntil: true },
+        });
+
+        if (!user) {
+            throw new Error('User not found');
+        }
+
+        const where = { userId };
+        const [events, total] = await Promise.all([
+            prisma.loginEvent.findMany({
+                where,
+                orderBy: { createdAt: 'desc' },
+                skip: (page - 1) * limit,
+                take: limit,
+            }),
+            prisma.loginEvent.count({ where }),
+        ]);
+
+        return {
+            data: events,
+            summary: {
+                failedLoginAttempts: user.failedLoginAttempts,
+                lockedUntil: this.getLockedUntil(user),
+            },
+            pagination: {
+                page,
+                limit,
+                total,
+                totalPages: Math.ceil(total / limit),
+            },
+        };
+    }
+
+    // ==================== HELPERS ====================
+
+    /**
+     * Lock duration for the given failed-attempt count
+     */
+    private lockoutMinutes(attempts: number): number {
+        const doublings = Math.min(attempts - MAX_FAILED_LOGINS, 16);
+        return Math.min(BASE_LOCKOUT_MINUTES * 2 ** doublings, MAX_LOCKOUT_MINUTES);
+    }
+
+    /**
+     * A device is new when the user has logged in successfully before, but
+     * never with this user agent. The first login ever is not flagged.
+     */
+    private async isNewDevice(userId: string, userAgent?: string): Promise<boolean> {
+        const previous = await prisma.loginEvent.findMany({
+            where: { userId, success: true },
+            select: { userAgent: true },
+            distinct: ['userAgent'],
+        });
+
+        if (previous.length === 0) {
+            return false;
+        }
+
+        return !previous.some(event => event.userAgent === (userAgent?.slice(0, 500) ?? null));
+    }
+
+    private notifyNewDevice(user: Pick<LoginUser, 'id' | 'email'>, context: SessionContext): void {
+        const device = context.deviceLabel || 'an unrecognised device';
+        const when = new Date();
+
+        notificationService.createNotification(
+            user.id,
+            NotificationType.NEW_DEVICE_LOGIN,
+            'New sign-in to your account',
+            `Your account was signed in to from ${device}${context.ipAddress ? ` (IP ${context.ipAddress})` : ''}. If this was not you, change your password and sign out other sessions.`,
+            { deviceLabel: context.deviceLabel, ipAddress: context.ipAddress, at: when.toISOString() }
+        ).catch(err => logger.error('Failed to create new-device notification', err));
+
+        emailService.sendNewDeviceLoginEmail(user.email, device, context.ipAddress, when)
+            .catch(err => logger.error('Failed to send new-device email', err));
+    }
+}
+
+export default new SecurityService();
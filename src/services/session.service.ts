@@ -0,0 +1,246 @@
+import jwt from 'jsonwebtoken';
+import { v4 as uuidv4 } from 'uuid';
+import prisma from '../config/database';
+import { UserRole } from '@prisma/client';
+import { JwtPayload, SessionContext, SessionInfo, TokenResponse } from '../types/auth.types';
+import logger from '../config/logger';
+
+// Longest device label / user agent stored per session
+const MAX_LABEL_LENGTH = 100;
+const MAX_USER_AGENT_LENGTH = 500;
+
+export class SessionService {
+    // ==================== TOKEN ISSUANCE ====================
+
+    /**
+     * Start a new session (refresh token family) and issue its first tokens
+     */
+    async createSession(
+        user: { id: string; email: string; role: UserRole },
+        context: SessionContext = {}
+    ): Promise<TokenResponse> {
+        const familyId = uuidv4();
+        return this.issueTokens(user, familyId, new Date(), context);
+    }
+
+    /**
+     * Exchange a refresh token for a new token pair. The presented token is
+     * retired; presenting it again revokes every token of its session.
+     */
+    async rotate(refreshToken: string, context: SessionContext = {}): Promise<TokenResponse> {
+        const jwtRefreshSecret = process.env.JWT_REFRESH_SECRET;
+
+        if (!jwtRefreshSecret) {
+            throw new Error('JWT refresh secret not configured');
+        }
+
+        let decoded: JwtPayload;
+        try {
+            decoded = jwt.verify(refreshToken, jwtRefreshSecret) as JwtPayload;
+        } catch (error) {
+            throw new Error('Invalid refresh token');
+        }
+
+        if (!decoded.jti) {
+            throw new Error('Invalid refresh token');
+        }
+
+        const stored = await prisma.refreshToken.findUnique({
+            where: { id: decoded.jti },
+            include: {
+                user: {
+                    select: { id: true, email: true, role: true, isActive: true, deletedAt: true },
+                },
+            },
+        });
+
+        if (!stored || stored.userId !== decoded.id || stored.revokedAt) {
+            throw new Error('Invalid refresh token');
+        }
+
+        // Retire the token; if it was already retired, someone is replaying it
+        const retired = await prisma.refreshToken.updateMany({
+            where: { id: stored.id, rotatedAt: null, revokedAt: null },
+            data: { rotatedAt: new Date() },
+        });
+
+        if (retired.count === 0) {
+            await this.revokeFamily(stored.familyId, 'reuse_detected');
+            logger.warn(`Refresh token reuse detected for user ${stored.userId}; session ${stored.familyId} revoked`);
+            throw new Error('Invalid refresh token');
+        }
+
+        const { user } = stored;
+        if (!user || user.deletedAt || !user.isActive) {
+            await this.revokeFamily(stored.familyId, 'user_inactive');
+            throw new Error('Invalid refresh token');
+        }
+
+        return this.issueTokens(user, stored.familyId, stored.sessionStartedAt, {
+            deviceLabel: context.deviceLabel ?? stored.deviceLabel ?? undefined,
+            ipAddress: context.ipAddress ?? stored.ipAddress ?? undefined,
+            userAgent: context.userAgent ?? stored.userAgent ?? undefined,
+        });
+    }
+
+    // ==================== SESSIONS ====================
+
+    /**
+     * List the user's active sessions, most recently refreshed first
+     */
+    async listSessions(userId: string, currentSessionId?: string): Promise<SessionInfo[]> {
+        const heads = await prisma.refreshToken.findMany({
+            where: {
+                userId,
+                rotatedAt: null,
+                revokedAt: null,
+                expiresAt: { gt: new Date() },
+            },
+            orderBy: { createdAt: 'desc' },
+        });
+
+        return heads.map(token => ({
+            id: token.familyId,
+            deviceLabel: token.deviceLabel,
+            ipAddress: token.ipAddress,
+            userAgent: token.userAgent,
+            startedAt: token.sessionStartedAt,
+            lastRefreshedAt: token.createdAt,
+            expiresAt: token.expiresAt,
+            current: token.familyId === currentSessionId,
+        }));
+    }
+
+    /**
+     * Revoke one of the user's sessions
+     */
+    async revokeSession(userId: string, sessionId: string, reason: string = 'session_revoked'): Promise<void> {
+        const result = await prisma.refreshToken.updateMany({
+            where: { userId, familyId: sessionId, revokedAt: null },
+            data: { revokedAt: new Date(), revokedReason: reason },
+        });
+
+        if (result.count === 0) {
+            throw new Error('Session not found');
+        }
+
+        logger.info(`Session ${sessionId} of user ${userId} revoked (${reason})`);
+    }
+
+    /**
+     * Revoke all of the user's sessions, optionally keeping one (the caller's)
+     */
+    async revokeAllSessions(userId: string, reason: string, exceptSessionId?: string): Promise<number> {
+        const result = await prisma.refreshToken.updateMany({
+            where: {
+                userId,
+                revokedAt: null,
+                ...(exceptSessionId && { familyId: { not: exceptSessionId } }),
+            },
+            data: { revokedAt: new Date(), revokedReason: reason },
+        });
+
+        logger.info(`Revoked sessions of user ${userId} (${reason})`);
+        return result.count;
+    }
+
+    /**
+     * Find the session a refresh token belongs to, if it is the user's
+     */
+    async findSessionId(userId: string, refreshToken: string): Promise<string | null> {
+        const decoded = jwt.decode(refreshToken) as JwtPayload | null;
+        if (!decoded?.jti) {
+            return null;
+        }
+
+        const stored = await prisma.refreshToken.findUnique({
+            where: { id: decoded.jti },
+            select: { userId: true, familyId: true },
+        });
+
+        return stored && stored.userId === userId ? stored.familyId : null;
+    }
+
+    /**
+     * The user behind an access token, if its session is still live and the account
+     * is still active. Checked on every request, so logout, revocation, deactivation
+     * and role changes take effect before the access token expires.
+     */
+    async findActiveSessionUser(userId: string, sessionId: string): Promise<{ id: string; email: string; role: UserRole } | null> {
+        const head = await prisma.refreshToken.findFirst({
+            where: {
+                familyId: sessionId,
+                userId,
+                rotatedAt: null,
+                revokedAt: null,
+                expiresAt: { gt: new Date() },
+                user: { isActive: true, deletedAt: null },
+            },
+            select: { user: { select: { id: true, email: true, role: true } } },
+        });
+
+        return head?.user ?? null;
+    }
+
+    // ==================== HELPERS ====================
+
+    private async revokeFamily(familyId: string, reason: string) {
+        await prisma.refreshToken.updateMany({
+            where: { familyId, revokedAt: null },
+            data: { revokedAt: new Date(), revokedReason: reason },
+        });
+    }
+
+    /**
+     * Sign an access / refresh token pair for a session and store the refresh token
+     */
+    private async issueTokens(
+        user: { id: string; email: string; role: UserRole },
+        familyId: string,
+        sessionStartedAt: Date,
+        context: SessionContext
+    ): Promise<TokenResponse> {
+        const jwtSecret = process.env.JWT_SECRET;
+        const jwtRefreshSecret = process.env.JWT_REFRESH_SECRET;
+        const jwtExpiresIn = process.env.JWT_EXPIRES_IN || '1h';
+        const jwtRefreshExpiresIn = process.env.JWT_REFRESH_EXPIRES_IN || '7d';
+
+        if (!jwtSecret || !jwtRefreshSecret) {
+            throw new Error('JWT secrets not configured');
+        }
+
+        const tokenId = uuidv4();
+        const payload: JwtPayload = {
+            id: user.id,
+            email: user.email,
+            role: user.role,
+            sid: familyId,
+        };
+
+        const accessToken = jwt.sign(payload, jwtSecret, { expiresIn: jwtExpiresIn } as jwt.SignOptions);
+        const refreshToken = jwt.sign({ ...payload, jti: tokenId }, jwtRefreshSecret, { expiresIn: jwtRefreshExpiresIn } as jwt.SignOptions);
+
+        const { exp } = jwt.decode(refreshToken) as { exp: number };
+
+        await prisma.refreshToken.create({
+            data: {
+                id: tokenId,
+                userId: user.id,
+                familyId,
+                deviceLabel: context.deviceLabel?.slice(0, MAX_LABEL_LENGTH),
+                ipAddress: context.ipAddress,
+                userAgent: context.userAgent?.slice(0, MAX_USER_AGENT_LENGTH),
+                sessionStartedAt,
+                expiresAt: new Date(exp * 1000),
+            },
+        });
+
+        return {
+            accessToken,
+            refreshToken,
+            expiresIn: jwtExpiresIn,
+        };
+    }
+}
+
+export default new SessionService();
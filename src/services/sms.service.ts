@@ -0,0 +1,71 @@
+import logger from '../config/logger';
+
+/**
+ * An SMS gateway. Implement this to plug in a real provider (e.g. Africa's
+ * Talking, Twilio) and register it with smsService.registerProvider().
+ */
+export interface SmsProvider {
+    readonly name: string;
+    send(to: string, message: string): Promise<void>;
+}
+
+/**
+ * Stand-in provider for development: writes messages to the log instead of sending them
+ */
+export class ConsoleSmsProvider implements SmsProvider {
+    readonly name = 'console';
+
+    async send(to: string, message: string): Promise<void> {
+        logger.info(`[SMS to ${to}] ${message}`);
+    }
+}
+
+class SmsService {
+    private providers = new Map<string, SmsProvider>();
+
+    constructor() {
+        this.registerProvider(new ConsoleSmsProvider());
+    }
+
+    /**
+     * Make a provider available for selection through SMS_PROVIDER
+     */
+    registerProvider(provider: SmsProvider): void {
+        this.providers.set(provider.name, provider);
+    }
+
+    /**
+     * The provider named by SMS_PROVIDER, falling back to the console stand-in
+     */
+    private getProvider(): SmsProvider {
+        const name = process.env.SMS_PROVIDER || 'console';
+        const provider = this.providers.get(name);
+
+        if (!provider) {
+            logger.warn(`SMS provider "${name}" is not registered — using console`);
+            return this.providers.get('console')!;
+        }
+
+        return provider;
+    }
+
+    /**
+     * Send an SMS.
+     * Fails silently — logs error but does not throw.
+     */
+    async sendSms(to: string, message: string): Promise<boolean> {
+        const provider = this.getProvider();
+
+        try {
+            await provider.send(to, message);
+            logger.info(`SMS sent to ${to} via ${provider.name}`);
+            return true;
+        } catch (error) {
+            logger.error(`Failed to send SMS to ${to}`, error);
+            return false;
+        }
+    }
+}
+
+const smsService = new SmsService();
+export default smsService;
@@ -0,0 +1,79 @@
+import { Readable } from 'stream';
+import logger from '../config/logger';
+import { LocalDiskDriver } from '../storage/local.driver';
+import { S3Driver } from '../storage/s3.driver';
+import { StorageDriver, StorageDriverName, StoredFile } from '../types/storage.types';
+
+export const STORAGE_DRIVERS: StorageDriverName[] = ['local', 's3'];
+
+export class StorageService {
+    private drivers = new Map<StorageDriverName, StorageDriver>();
+
+    /**
+     * Backend new uploads are written to (STORAGE_DRIVER, local by default).
+     * Drivers are built on first use, after dotenv has loaded.
+     */
+    activeDriver(): StorageDriver {
+        const name = (process.env.STORAGE_DRIVER || 'local') as StorageDriverName;
+
+        if (!STORAGE_DRIVERS.includes(name)) {
+            throw new Error(`Unknown STORAGE_DRIVER "${name}". Use one of: ${STORAGE_DRIVERS.join(', ')}`);
+        }
+
+        return this.getDriver(name);
+    }
+
+    getDriver(name: StorageDriverName): StorageDriver {
+        let driver = this.drivers.get(name);
+
+        if (!driver) {
+            driver = name === 's3' ? this.createS3Driver() : new LocalDiskDriver(process.env.UPLOAD_DIR || './uploads');
+            this.drivers.set(name, driver);
+        }
+
+        return driver;
+    }
+
+    /**
+     * The backend a stored location belongs to, whichever backend is active
+     */
+    driverFor(location: string): StorageDriver {
+        const local = this.getDriver('local');
+        return local.owns(location) ? local : this.getDriver('s3');
+    }
+
+    async save(key: string, body: Readable, contentType: string): Promise<StoredFile> {
+        return this.activeDriver().put(key, body, contentType);
+    }
+
+    async read(location: string): Promise<Readable> {
+        return this.driverFor(location).get(location);
+    }
+
+    async exists(location: string): Promise<boolean> {
+        return this.driverFor(location).exists(location);
+    }
+
+    async delete(location: string): Promise<void> {
+        await this.driverFor(location).delete(location);
+        logger.debug(`Stored file deleted: ${location}`);
+    }
+
+    private createS3Driver(): S3Driver {
+        if (!process.env.S3_BUCKET) {
+            throw new Error('S3_BUCKET not configured');
+        }
+
+        return new S3Driver({
+            bucket: process.env.S3_BUCKET,
+            region: process.env.S3_REGION || 'us-east-1',
+            endpoint: process.env.S3_ENDPOINT || undefined,
+            accessKeyId: process.env.S3_ACCESS_KEY_ID || undefined,
+            secretAccessKey: process.env.S3_SECRET_ACCESS_KEY || undefined,
+            forcePathStyle: process.env.S3_FORCE_PATH_STYLE === 'true',
+            prefix: process.env.S3_PREFIX || '',
+        });
+    }
+}
+
+export default new StorageService();
@@ -6,8 +6,11 @@ import {
     ProfileDocumentType,
     ApplicationDocumentType,
     HouseholdIncomeRange,
-    OrphanStatus,
-    WhoLivesWith
+    WhoLivesWith,
+    UserRole,
+    NotificationType,
+    VerificationChannel,
+    Prisma
 } from '@prisma/client';
 
 import {
@@ -15,6 +18,7 @@ import {
     ProfileCompletenessResponse,
     CreateDraftRequest,
     UpdateDraftRequest,
+    OrphanStatus,
     ACTIVE_APPLICATION_STATUSES
 } from '../types/api.types';
 import {
@@ -23,6 +27,32 @@ import {
     generateApplicationNumber
 } from '../utils/validators';
 import logger from '../config/logger';
+import workflowService from './workflow.service';
+import notificationService from './notification.service';
+import { unverifiedContacts } from './verification.service';
+import { getChangedPaths, isPathFlagged } from '../utils/formDiff';
+import { pickFormDataSnapshot, pickSnapshot } from '../utils/snapshot';
+import { blindIndex } from '../utils/encryption';
+
+// A student cannot edit their profile or delete profile documents while an application
+// is in one of these statuses. A returned application only allows its flagged profile fields.
+const PROFILE_LOCKING_STATUSES: ApplicationStatus[] = [
+    ApplicationStatus.PENDING,
+    ApplicationStatus.UNDER_REVIEW,
+    ApplicationStatus.SHORTLISTED,
+    ApplicationStatus.WAITLISTED,
+    ApplicationStatus.APPEALED,
+    ApplicationStatus.RETURNED_FOR_CORRECTION,
+];
+
+type SubmissionProfile = Prisma.StudentProfileGetPayload<{
+    include: {
+        county: true;
+        subCounty: true;
+        ward: true;
+        user: { select: { email: true; phone: true } };
+    };
+}>;
 
 export class StudentService {
     // ==================== PROFILE MANAGEMENT ====================
@@ -95,7 +125,7 @@ export class StudentService {
         // Check if national ID is already used
         if (data.nationalIdNumber) {
             const existingNationalId = await prisma.studentProfile.findUnique({
-                where: { nationalIdNumber: data.nationalIdNumber },
+                where: { nationalIdNumberHash: blindIndex(data.nationalIdNumber) },
             });
 
             if (existingNationalId) {
@@ -106,7 +136,7 @@ export class StudentService {
         // Check if passport is already used
         if (data.passportNumber) {
             const existingPassport = await prisma.studentProfile.findUnique({
-                where: { passportNumber: data.passportNumber },
+                where: { passportNumberHash: blindIndex(data.passportNumber) },
             });
 
             if (existingPassport) {
@@ -183,24 +213,31 @@ export class StudentService {
         }
 
         // Check for active application - cannot update during review
-        const activeApplication = await prisma.application.findFirst({
+        const activeApplications = await prisma.application.findMany({
             where: {
                 studentProfileId: profile.id,
-                status: { in: ['PENDING', 'UNDER_REVIEW'] },
+                status: { in: PROFILE_LOCKING_STATUSES },
             },
+            select: { id: true, status: true },
         });
 
-        if (activeApplication) {
+        if (activeApplications.some(a => a.status !== ApplicationStatus.RETURNED_FOR_CORRECTION)) {
             throw new Error('Cannot update profile while application is under review');
         }
 
+        // Resubmission re-snapshots the profile, so a returned application only
+        // allows the profile fields flagged as profile.<field>
+        for (const returned of activeApplications) {
+            await this.assertProfileChangesFlagged(returned.id, profile, data);
+        }
+
         // Check if national ID is being changed and if it's already used
         if (data.nationalIdNumber && data.nationalIdNumber !== profile.nationalIdNumber) {
             const existingNationalId = await prisma.studentProfile.findUnique({
-                where: { nationalIdNumber: data.nationalIdNumber },
+                where: { nationalIdNumberHash: blindIndex(data.nationalIdNumber) },
             });
 
-            if (existingNationalId) {
+            if (existingNationalId && existingNationalId.id !== profile.id) {
                 throw new Error('National ID already registered');
             }
         }
@@ -208,10 +245,10 @@ export class StudentService {
         // Check if passport is being changed and if it's already used
         if (data.passportNumber && data.passportNumber !== profile.passportNumber) {
             const existingPassport = await prisma.studentProfile.findUnique({
-                where: { passportNumber: data.passportNumber },
+                where: { passportNumberHash: blindIndex(data.passportNumber) },
             });
 
-            if (existingPassport) {
+            if (existingPassport && existingPassport.id !== profile.id) {
                 throw new Error('Passport number already registered');
             }
         }
@@ -243,6 +280,29 @@ export class StudentService {
         return updatedProfile;
     }
 
+    /**
+     * Refuse profile changes that are not flagged in the open correction round
+     * of a returned application
+     */
+    private async assertProfileChangesFlagged(
+        applicationId: string,
+        profile: Record<string, unknown>,
+        data: Record<string, unknown>
+    ) {
+        const correction = await this.getOpenCorrection(applicationId);
+
+        const fields = Object.keys(data).filter(key => data[key] !== undefined);
+        const before = Object.fromEntries(fields.map(key => [key, profile[key] ?? null]));
+        const after = Object.fromEntries(fields.map(key => [key, data[key]]));
+
+        const unflagged = getChangedPaths(before, after, 'profile')
+            .filter(path => !isPathFlagged(path, correction.flaggedFields));
+
+        if (unflagged.length > 0) {
+            throw new Error(`Only fields flagged for correction can be changed (not flagged: ${unflagged.join(', ')})`);
+        }
+    }
+
     /**
      * Check if profile data is complete
      */
@@ -462,7 +522,7 @@ export class StudentService {
             where: {
                 profileDocumentId: documentId,
                 application: {
-                    status: { in: ['PENDING', 'UNDER_REVIEW'] },
+                    status: { in: PROFILE_LOCKING_STATUSES },
                 },
             },
         });
@@ -512,6 +572,18 @@ export class StudentService {
             };
         }
 
+        // Email and phone must be verified before applying
+        const unverified = await this.getUnverifiedContacts(userId);
+        if (unverified.length > 0) {
+            return {
+                canApply: false,
+                reason: `Please verify your ${unverified.join(' and ')} before applying.`,
+                profileCompleteness: 0,
+                missingFields: unverified.map(contact => `Verified ${contact}`),
+                hasActiveApplication: false,
+            };
+        }
+
         const profile = await prisma.studentProfile.findUnique({
             where: { userId },
             include: {
@@ -563,6 +635,33 @@ export class StudentService {
             };
         }
 
+        // A withdrawal frees the student to apply again, but only in a later period
+        const activePeriod = await prisma.applicationPeriod.findFirst({
+            where: { isActive: true },
+            select: { id: true },
+        });
+
+        if (activePeriod) {
+            const withdrawnThisPeriod = await prisma.application.findFirst({
+                where: {
+                    studentProfileId: profile.id,
+                    applicationPeriodId: activePeriod.id,
+                    status: ApplicationStatus.WITHDRAWN,
+                },
+                select: { id: true },
+            });
+
+            if (withdrawnThisPeriod) {
+                return {
+                    canApply: false,
+                    reason: 'You withdrew an application in the current application period. You can apply again in a later period.',
+                    profileCompleteness: completeness.completenessPercentage,
+                    missingFields: [],
+                    hasActiveApplication: false,
+                };
+            }
+        }
+
         return {
             canApply: true,
             reason: 'You are eligible to submit a new application.',
@@ -572,6 +671,24 @@ export class StudentService {
         };
     }
 
+    /**
+     * Contacts (email address / phone number) the user still has to verify
+     */
+    private async getUnverifiedContacts(userId: string): Promise<string[]> {
+        const user = await prisma.user.findUnique({
+            where: { id: userId },
+            select: { emailVerifiedAt: true, phoneVerifiedAt: true },
+        });
+
+        if (!user) {
+            return [];
+        }
+
+        return unverifiedContacts(user).map(channel =>
+            channel === VerificationChannel.EMAIL ? 'email address' : 'phone number'
+        );
+    }
+
     // ==================== APPLICATION DRAFT ====================
 
     /**
@@ -661,6 +778,10 @@ export class StudentService {
             throw new Error('Application not found');
         }
 
+        if (application.status === ApplicationStatus.RETURNED_FOR_CORRECTION) {
+            return this.updateCorrection(applicationId, application.formData, data);
+        }
+
         if (application.status !== ApplicationStatus.DRAFT) {
             throw new Error('Only draft applications can be updated');
         }
@@ -676,6 +797,39 @@ export class StudentService {
         return updated;
     }
 
+    /**
+     * Apply a student's corrections to a returned application.
+     * Only the paths flagged in the open correction round may change.
+     */
+    private async updateCorrection(
+        applicationId: string,
+        currentFormData: Prisma.JsonValue,
+        data: Partial<UpdateDraftRequest>
+    ) {
+        const correction = await this.getOpenCorrection(applicationId);
+
+        if (!data.formData) {
+            return prisma.application.findUniqueOrThrow({ where: { id: applicationId } });
+        }
+
+        const unflagged = getChangedPaths(currentFormData, data.formData)
+            .filter(path => !isPathFlagged(path, correction.flaggedFields));
+
+        if (unflagged.length > 0) {
+            throw new Error(`Only fields flagged for correction can be changed (not flagged: ${unflagged.join(', ')})`);
+        }
+
+        const updated = await prisma.application.update({
+            where: { id: applicationId },
+            data: {
+                formData: data.formData,
+            },
+        });
+
+        logger.info(`Returned application corrected: ${applicationId} (round ${correction.round})`);
+        return updated;
+    }
+
     /**
      * Get active application
      */
@@ -702,6 +856,16 @@ export class StudentService {
                     orderBy: { changedAt: 'desc' },
                     take: 5,
                 },
+                correctionRequests: {
+                    where: { resolvedAt: null },
+                    select: {
+                        round: true,
+                        reason: true,
+                        flaggedFields: true,
+                        flaggedDocuments: true,
+                        requestedAt: true,
+                    },
+                },
             },
             orderBy: { createdAt: 'desc' },
         });
@@ -745,7 +909,12 @@ export class StudentService {
             throw new Error('Application not found');
         }
 
-        if (application.status !== ApplicationStatus.DRAFT) {
+        if (application.status === ApplicationStatus.RETURNED_FOR_CORRECTION) {
+            const correction = await this.getOpenCorrection(applicationId);
+            if (!correction.flaggedDocuments.includes(documentType)) {
+                throw new Error(`Document type ${documentType} is not flagged for correction`);
+            }
+        } else if (application.status !== ApplicationStatus.DRAFT) {
             throw new Error('Can only upload documents to draft applications');
         }
 
@@ -866,7 +1035,8 @@ export class StudentService {
     // ==================== APPLICATION SUBMISSION ====================
 
     /**
-     * Submit application (DRAFT -> PENDING with snapshot)
+     * Submit application (DRAFT -> PENDING with snapshot).
+     * Returned applications are resubmitted through the same call.
      */
     async submitApplication(userId: string, applicationId: string) {
         const profile = await prisma.studentProfile.findUnique({
@@ -898,10 +1068,23 @@ export class StudentService {
             throw new Error('Application not found');
         }
 
+        if (application.status === ApplicationStatus.RETURNED_FOR_CORRECTION) {
+            return this.resubmitApplication(userId, profile, application);
+        }
+
         if (application.status !== ApplicationStatus.DRAFT) {
             throw new Error('Only draft applications can be submitted');
         }
 
+        // Drafts may predate verification, so check again at submission
+        const unverified = await this.getUnverifiedContacts(userId);
+        if (unverified.length > 0) {
+            throw new Error(`Please verify your ${unverified.join(' and ')} before submitting.`);
+        }
+
+        // Submission is itself a workflow transition and can be disabled there
+        await workflowService.assertTransition(ApplicationStatus.DRAFT, ApplicationStatus.PENDING, UserRole.STUDENT);
+
         // Validate minimum required documents — only BIRTH_CERTIFICATE_NID is mandatory
         const hasBirthCertificate = application.applicationDocuments.some(
             d => d.documentType === 'BIRTH_CERTIFICATE_NID'
@@ -918,20 +1101,7 @@ export class StudentService {
                 data: {
                     status: ApplicationStatus.PENDING,
                     submittedAt: new Date(),
-                    // Snapshot profile data
-                    snapshotFullName: profile.fullName,
-                    snapshotDateOfBirth: profile.dateOfBirth,
-                    snapshotGender: profile.gender,
-                    snapshotNationalId: profile.nationalIdNumber,
-                    snapshotPassportNumber: profile.passportNumber,
-                    snapshotInstitution: profile.institutionName,
-                    snapshotProgramme: profile.programmeOrCourse,
-                    snapshotCounty: profile.county.name,
-                    snapshotSubCounty: profile.subCounty.name,
-                    snapshotWard: profile.ward.name,
-                    snapshotPhone: profile.user.phone,
-                    snapshotEmail: profile.user.email,
-                    snapshotEducationLevel: profile.institutionType,
+                    ...this.buildSnapshot(profile),
                 },
             });
 
@@ -954,6 +1124,190 @@ export class StudentService {
         return submittedApplication;
     }
 
+    /**
+     * Resubmit a returned application (RETURNED_FOR_CORRECTION -> PENDING).
+     * Refreshes the snapshot and closes the open correction round.
+     */
+    private async resubmitApplication(
+        userId: string,
+        profile: SubmissionProfile,
+        application: Prisma.ApplicationGetPayload<{ include: { applicationDocuments: true } }>
+    ) {
+        const transition = await workflowService.assertTransition(
+            ApplicationStatus.RETURNED_FOR_CORRECTION,
+            ApplicationStatus.PENDING,
+            UserRole.STUDENT
+        );
+
+        const correction = await this.getOpenCorrection(application.id);
+
+        // Every flagged document needs a fresh upload in this round
+        const missingDocuments = correction.flaggedDocuments.filter(
+            type => !application.applicationDocuments.some(
+                d => d.documentType === type && d.uploadedAt >= correction.requestedAt
+            )
+        );
+
+        if (missingDocuments.length > 0) {
+            throw new Error(`Please upload corrected documents before resubmitting: ${missingDocuments.join(', ')}`);
+        }
+
+        const snapshot = this.buildSnapshot(profile);
+
+        const resubmitted = await prisma.$transaction(async (tx) => {
+            const updated = await tx.application.update({
+                where: { id: application.id },
+                data: {
+                    status: ApplicationStatus.PENDING,
+                    ...snapshot,
+                },
+            });
+
+            await tx.correctionRequest.update({
+                where: { id: correction.id },
+                data: {
+                    resolvedAt: new Date(),
+                    formDataAfter: pickFormDataSnapshot(updated.formData) as Prisma.InputJsonValue,
+                    snapshotAfter: JSON.parse(JSON.stringify(pickSnapshot(updated))),
+                },
+            });
+
+            await tx.applicationStatusHistory.create({
+                data: {
+                    applicationId: application.id,
+                    previousStatus: ApplicationStatus.RETURNED_FOR_CORRECTION,
+                    newStatus: ApplicationStatus.PENDING,
+                    changedBy: userId,
+                    reason: `Application resubmitted after correction round ${correction.round}`,
+                    autoGenerated: true,
+                },
+            });
+
+            return updated;
+        });
+
+        if (transition.notifyAdmins) {
+            notificationService.notifyAdmins(
+                NotificationType.STATUS_CHANGE,
+                `Application ${application.applicationNumber} Resubmitted`,
+                `Application ${application.applicationNumber} was resubmitted after correction round ${correction.round}.`,
+                { applicationId: application.id, round: correction.round }
+            ).catch(err => logger.error('Admin notification send error', err));
+        }
+
+        logger.info(`Application resubmitted: ${application.applicationNumber} (round ${correction.round}) for user ${userId}`);
+        return resubmitted;
+    }
+
+    /**
+     * Get the unresolved correction round of a returned application
+     */
+    private async getOpenCorrection(applicationId: string) {
+        const correction = await prisma.correctionRequest.findFirst({
+            where: { applicationId, resolvedAt: null },
+            orderBy: { round: 'desc' },
+        });
+
+        if (!correction) {
+            throw new Error('No open correction request found for this application');
+        }
+
+        return correction;
+    }
+
+    /**
+     * Build the profile snapshot stored on an application at (re)submission
+     */
+    private buildSnapshot(profile: SubmissionProfile) {
+        return {
+            snapshotFullName: profile.fullName,
+            snapshotDateOfBirth: profile.dateOfBirth,
+            snapshotGender: profile.gender,
+            snapshotNationalId: profile.nationalIdNumber,
+            snapshotPassportNumber: profile.passportNumber,
+            snapshotInstitution: profile.institutionName,
+            snapshotProgramme: profile.programmeOrCourse,
+            snapshotCounty: profile.county.name,
+            snapshotSubCounty: profile.subCounty.name,
+            snapshotWard: profile.ward.name,
+            snapshotPhone: profile.user.phone,
+            snapshotEmail: profile.user.email,
+            snapshotEducationLevel: profile.institutionType,
+        };
+    }
+
+    // ==================== APPLICATION WITHDRAWAL ====================
+
+    /**
+     * Withdraw an application that has not been decided yet.
+     * Allowed source statuses come from the workflow definition.
+     */
+    async withdrawApplication(userId: string, applicationId: string, reason: string) {
+        const profile = await prisma.studentProfile.findUnique({
+            where: { userId },
+        });
+
+        if (!profile) {
+            throw new Error('Profile not found');
+        }
+
+        const application = await prisma.application.findFirst({
+            where: {
+                id: applicationId,
+                studentProfileId: profile.id,
+            },
+        });
+
+        if (!application) {
+            throw new Error('Application not found');
+        }
+
+        const transition = await workflowService.assertTransition(
+            application.status,
+            ApplicationStatus.WITHDRAWN,
+            UserRole.STUDENT,
+            reason
+        );
+
+        const withdrawn = await prisma.$transaction(async (tx) => {
+            // Only withdraw from the status the transition was checked against;
+            // a concurrent status change loses here
+            const claimed = await tx.application.updateMany({
+                where: { id: applicationId, status: application.status },
+                data: { status: ApplicationStatus.WITHDRAWN },
+            });
+
+            if (claimed.count === 0) {
+                throw new Error('Application status has changed');
+            }
+
+            await tx.applicationStatusHistory.create({
+                data: {
+                    applicationId,
+                    previousStatus: application.status,
+                    newStatus: ApplicationStatus.WITHDRAWN,
+                    changedBy: userId,
+                    reason,
+                    autoGenerated: false,
+                },
+            });
+
+            return tx.application.findUniqueOrThrow({ where: { id: applicationId } });
+        });
+
+        if (transition.notifyAdmins) {
+            notificationService.notifyAdmins(
+                NotificationType.STATUS_CHANGE,
+                `Application ${application.applicationNumber} Withdrawn`,
+                `The student withdrew application ${application.applicationNumber} (was ${application.status}): ${reason}`,
+                { applicationId, previousStatus: application.status, newStatus: ApplicationStatus.WITHDRAWN }
+            ).catch(err => logger.error('Admin notification send error', err));
+        }
+
+        logger.info(`Application withdrawn: ${application.applicationNumber} by user ${userId}`);
+        return withdrawn;
+    }
+
     // ==================== APPLICATION HISTORY ====================
 
     /**
@@ -1015,6 +1369,17 @@ export class StudentService {
                     where: { isPrivate: false, deletedAt: null },
                     orderBy: { createdAt: 'desc' },
                 },
+                correctionRequests: {
+                    orderBy: { round: 'desc' },
+                    select: {
+                        round: true,
+                        reason: true,
+                        flaggedFields: true,
+                        flaggedDocuments: true,
+                        requestedAt: true,
+                        resolvedAt: true,
+                    },
+                },
             },
         });
 
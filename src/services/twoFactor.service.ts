@@ -0,0 +1,355 @@
+import bcrypt from 'bcrypt';
+import crypto from 'crypto';
+import jwt from 'jsonwebtoken';
+import prisma from '../config/database';
+import { UserRole } from '@prisma/client';
+import { JwtPayload, TwoFactorChallengePurpose } from '../types/auth.types';
+import { AuditContext } from '../types/api.types';
+import logger from '../config/logger';
+import auditService from './audit.service';
+import { encrypt, decrypt, hash } from '../utils/encryption';
+import { buildOtpAuthUrl, generateSecret, verifyCode } from '../utils/totp';
+
+const RECOVERY_CODE_COUNT = 10;
+
+// How long a login has to complete its second step (or enrolment)
+const CHALLENGE_EXPIRES_IN: Record<TwoFactorChallengePurpose, string> = {
+    two_factor: '5m',
+    two_factor_setup: '15m',
+};
+
+const ISSUER = process.env.TWO_FACTOR_ISSUER || 'STF Portal';
+
+export class TwoFactorService {
+    // ==================== ROLE ENFORCEMENT ====================
+
+    /**
+     * Whether accounts with this role must use two-factor authentication
+     * (TWO_FACTOR_REQUIRED_ROLES, comma-separated)
+     */
+    isRequiredFor(role: UserRole): boolean {
+        const required = (process.env.TWO_FACTOR_REQUIRED_ROLES || '')
+            .split(',')
+            .map(r => r.trim().toUpperCase())
+            .filter(Boolean);
+        return required.includes(role);
+    }
+
+    // ==================== CHALLENGES ====================
+
+    /**
+     * Short-lived token standing in for a login that still needs its second
+     * factor (or, for enforced roles, enrolment). It is not an access token.
+     */
+    createChallenge(user: { id: string; email: string; role: UserRole }, purpose: TwoFactorChallengePurpose) {
+        const jwtSecret = process.env.JWT_SECRET;
+
+        if (!jwtSecret) {
+            throw new Error('JWT secrets not configured');
+        }
+
+        const payload: JwtPayload = { id: user.id, email: user.email, role: user.role, purpose };
+        const expiresIn = CHALLENGE_EXPIRES_IN[purpose];
+
+        return {
+            challengeToken: jwt.sign(payload, jwtSecret, { expiresIn } as jwt.SignOptions),
+            expiresIn,
+        };
+    }
+
+    /**
+     * Verify a challenge token and return the user it was issued to
+     */
+    verifyChallenge(token: string, purpose: TwoFactorChallengePurpose): string {
+        try {
+            const decoded = jwt.verify(token, process.env.JWT_SECRET!) as JwtPayload;
+            if (decoded.purpose !== purpose) {
+                throw new Error('Wrong challenge purpose');
+            }
+            return decoded.id;
+        } catch (error) {
+            throw new Error('Invalid or expired two-factor challenge');
+        }
+    }
+
+    // ==================== ENROLMENT ====================
+
+    async getStatus(userId: string) {
+        const user = await prisma.user.findUnique({
+            where: { id: userId },
+            select: { role: true, twoFactorEnabled: true, twoFactorEnabledAt: true },
+        });
+
+        if (!user) {
+            throw new Error('User not found');
+        }
+
+        const recoveryCodesRemaining = user.twoFactorEnabled
+            ? await prisma.twoFactorRecoveryCode.count({ where: { userId, usedAt: null } })
+            : 0;
+
+        return {
+            enabled: user.twoFactorEnabled,
+            enabledAt: user.twoFactorEnabledAt,
+            required: this.isRequiredFor(user.role),
+            recoveryCodesRemaining,
+        };
+    }
+
+    /**
+     * Generate a new secret for the user to add to their authenticator app.
+     * Two-factor is not enabled until a code from the app is confirmed.
+     */
+    async startEnrollment(userId: string): Promise<{ secret: string; otpauthUrl: string }> {
+        const user = await prisma.user.findUnique({
+            where: { id: userId },
+            select: { email: true, twoFactorEnabled: true },
+        });
+
+        if (!user) {
+            throw new Error('User not found');
+        }
+
+        if (user.twoFactorEnabled) {
+            throw new Error('Two-factor authentication is already enabled');
+        }
+
+        const secret = generateSecret();
+
+        await prisma.user.update({
+            where: { id: userId },
+            data: { twoFactorSecret: encrypt(secret), twoFactorLastUsedStep: null },
+        });
+
+        return {
+            secret,
+            otpauthUrl: buildOtpAuthUrl(secret, user.email, ISSUER),
+        };
+    }
+
+    /**
+     * Confirm enrolment with a code from the authenticator app. Returns the
+     * recovery codes, which are only ever shown this once.
+     */
+    async confirmEnrollment(userId: string, code: string): Promise<string[]> {
+        const user = await prisma.user.findUnique({
+            where: { id: userId },
+            select: { twoFactorEnabled: true, twoFactorSecret: true },
+        });
+
+        if (!user) {
+            throw new Error('User not found');
+        }
+
+        if (user.twoFactorEnabled) {
+            throw new Error('Two-factor authentication is already enabled');
+        }
+
+        if (!user.twoFactorSecret) {
+            throw new Error('Two-factor enrolment has not been started');
+        }
+
+        const step = verifyCode(decrypt(user.twoFactorSecret), code);
+        if (step === null) {
+            throw new Error('Invalid two-factor code');
+        }
+
+        const recoveryCodes = this.generateRecoveryCodes();
+
+        await prisma.$transaction([
+            prisma.user.update({
+                where: { id: userId },
+                data: { twoFactorEnabled: true, twoFactorEnabledAt: new Date(), twoFactorLastUsedStep: step },
+            }),
+            prisma.twoFactorRecoveryCode.deleteMany({ where: { userId } }),
+            prisma.twoFactorRecoveryCode.createMany({
+                data: recoveryCodes.map(recoveryCode => ({ userId, codeHash: this.hashRecoveryCode(recoveryCode) })),
+            }),
+        ]);
+
+        logger.info(`Two-factor authentication enabled for user ${userId}`);
+        return recoveryCodes;
+    }
+
+    /**
+     * Turn two-factor off. Needs the password and a current code (or recovery
+     * code), and is refused for roles where two-factor is enforced.
+     */
+    async disable(userId: string, password: string, code: string): Promise<void> {
+        const user = await prisma.user.findUnique({
+            where: { id: userId },
+            select: { role: true, password: true, twoFactorEnabled: true },
+        });
+
+        if (!user) {
+            throw new Error('User not found');
+        }
+
+        if (!user.twoFactorEnabled) {
+            throw new Error('Two-factor authentication is not enabled');
+        }
+
+        if (this.isRequiredFor(user.role)) {
+            throw new Error('Two-factor authentication is required for your role and cannot be disabled');
+        }
+
+        const isPasswordValid = await bcrypt.compare(password, user.password);
+        if (!isPasswordValid) {
+            throw new Error('Invalid password');
+        }
+
+        if (!(await this.verify(userId, code))) {
+            throw new Error('Invalid two-factor code');
+        }
+
+        await this.clear(userId);
+        logger.info(`Two-factor authentication disabled for user ${userId}`);
+    }
+
+    /**
+     * Replace the user's recovery codes (all old codes stop working)
+     */
+    async regenerateRecoveryCodes(userId: string, code: string): Promise<string[]> {
+        const user = await prisma.user.findUnique({
+            where: { id: userId },
+            select: { twoFactorEnabled: true },
+        });
+
+        if (!user) {
+            throw new Error('User not found');
+        }
+
+        if (!user.twoFactorEnabled) {
+            throw new Error('Two-factor authentication is not enabled');
+        }
+
+        if (!(await this.verifyTotp(userId, code))) {
+            throw new Error('Invalid two-factor code');
+        }
+
+        const recoveryCodes = this.generateRecoveryCodes();
+
+        await prisma.$transaction([
+            prisma.twoFactorRecoveryCode.deleteMany({ where: { userId } }),
+            prisma.twoFactorRecoveryCode.createMany({
+                data: recoveryCodes.map(recoveryCode => ({ userId, codeHash: this.hashRecoveryCode(recoveryCode) })),
+            }),
+        ]);
+
+        logger.info(`Recovery codes regenerated for user ${userId}`);
+        return recoveryCodes;
+    }
+
+    /**
+     * Remove a user's two-factor setup (admin reset for a lost device)
+     */
+    async reset(userId: string, context: AuditContext): Promise<void> {
+        const user = await prisma.user.findFirst({
+            where: { id: userId, deletedAt: null },
+        });
+
+        if (!user) {
+            throw new Error('User not found');
+        }
+
+        await this.clear(userId);
+
+        await auditService.record(context, {
+            action: 'user.two_factor_reset',
+            entityType: 'User',
+            entityId: userId,
+            before: { twoFactorEnabled: user.twoFactorEnabled, twoFactorEnabledAt: user.twoFactorEnabledAt },
+            after: { twoFactorEnabled: false, twoFactorEnabledAt: null },
+        });
+
+        logger.info(`Two-factor authentication reset for user ${userId} by ${context.actorId}`);
+    }
+
+    // ==================== VERIFICATION ====================
+
+    /**
+     * Check a second factor: a 6-digit authenticator code or a recovery code
+     */
+    async verify(userId: string, code: string): Promise<boolean> {
+        const normalized = code.trim();
+        return /^\d{6}$/.test(normalized)
+            ? this.verifyTotp(userId, normalized)
+            : this.useRecoveryCode(userId, normalized);
+    }
+
+    /**
+     * Check an authenticator code. Each code is accepted once.
+     */
+    private async verifyTotp(userId: string, code: string): Promise<boolean> {
+        const user = await prisma.user.findUnique({
+            where: { id: userId },
+            select: { twoFactorSecret: true, twoFactorLastUsedStep: true },
+        });
+
+        if (!user?.twoFactorSecret) {
+            return false;
+        }
+
+        const step = verifyCode(decrypt(user.twoFactorSecret), code);
+        if (step === null) {
+            return false;
+        }
+
+        // Record the step; a concurrent or later replay of the same code loses here
+        const accepted = await prisma.user.updateMany({
+            where: {
+                id: userId,
+                OR: [{ twoFactorLastUsedStep: null }, { twoFactorLastUsedStep: { lt: step } }],
+            },
+            data: { twoFactorLastUsedStep: step },
+        });
+
+        return accepted.count > 0;
+    }
+
+    private async useRecoveryCode(userId: string, code: string): Promise<boolean> {
+        const used = await prisma.twoFactorRecoveryCode.updateMany({
+            where: { userId, codeHash: this.hashRecoveryCode(code), usedAt: null },
+            data: { usedAt: new Date() },
+        });
+
+        if (used.count > 0) {
+            logger.info(`Recovery code used by user ${userId}`);
+        }
+
+        return used.count > 0;
+    }
+
+    // ==================== HELPERS ====================
+
+    private async clear(userId: string) {
+        await prisma.$transaction([
+            prisma.user.update({
+                where: { id: userId },
+                data: {
+                    twoFactorEnabled: false,
+                    twoFactorSecret: null,
+                    twoFactorEnabledAt: null,
+                    twoFactorLastUsedStep: null,
+                },
+            }),
+            prisma.twoFactorRecoveryCode.deleteMany({ where: { userId } }),
+        ]);
+    }
+
+    /**
+     * Recovery codes look like `a1b2-c3d4-e5f6`
+     */
+    private generateRecoveryCodes(): string[] {
+        return Array.from({ length: RECOVERY_CODE_COUNT }, () =>
+            crypto.randomBytes(6).toString('hex').match(/.{4}/g)!.join('-')
+        );
+    }
+
+    // Codes are compared case-insensitively, with or without dashes
+    private hashRecoveryCode(code: string): string {
+        return hash(code.toLowerCase().replace(/[^a-f0-9]/g, ''));
+    }
+}
+
+export default new TwoFactorService();
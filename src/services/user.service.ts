@@ -0,0 +1,326 @@
+import bcrypt from 'bcrypt';
+import crypto from 'crypto';
+import prisma from '../config/database';
+import { Prisma, UserRole } from '@prisma/client';
+import { AuditContext, InviteStaffRequest, StaffRole, UserListParams } from '../types/api.types';
+import logger from '../config/logger';
+import authService, { PASSWORD_RESET_TTL_MINUTES } from './auth.service';
+import sessionService from './session.service';
+import auditService from './audit.service';
+import permissionService from './permission.service';
+import emailService from './email.service';
+
+// Invitation links stay valid longer than ordinary reset links
+const INVITE_TTL_HOURS = 72;
+
+const STAFF_ROLES: UserRole[] = [UserRole.ADMIN, UserRole.BOARD];
+
+// Fields returned for users in the admin API (never the password or 2FA secret)
+const USER_SELECT = {
+    id: true,
+    email: true,
+    phone: true,
+    role: true,
+    permissions: true,
+    isSuperAdmin: true,
+    isActive: true,
+    deletedAt: true,
+    createdAt: true,
+    updatedAt: true,
+    emailVerifiedAt: true,
+    phoneVerifiedAt: true,
+    failedLoginAttempts: true,
+    lockedUntil: true,
+    twoFactorEnabled: true,
+    passwordResetRequired: true,
+} as const;
+
+export class UserService {
+    // ==================== LISTING ====================
+
+    /**
+     * List users with role / status filters and search on email or phone
+     */
+    async listUsers(params: UserListParams) {
+        const { page, limit, role, status, search } = params;
+        const now = new Date();
+
+        const where: Prisma.UserWhereInput = {
+            deletedAt: status === 'deleted' ? { not: null } : null,
+        };
+
+        if (role) {
+            where.role = role;
+        }
+
+        if (status === 'active') {
+            where.isActive = true;
+        } else if (status === 'inactive') {
+            where.isActive = false;
+        } else if (status === 'locked') {
+            where.lockedUntil = { gt: now };
+        }
+
+        if (search) {
+            where.OR = [
+                { email: { contains: search, mode: 'insensitive' } },
+                { phone: { contains: search } },
+            ];
+        }
+
+        const [users, total] = await Promise.all([
+            prisma.user.findMany({
+                where,
+                select: USER_SELECT,
+                orderBy: { createdAt: 'desc' },
+                skip: (page - 1) * limit,
+                take: limit,
+            }),
+            prisma.user.count({ where }),
+        ]);
+
+        return {
+            data: users,
+            pagination: {
+                page,
+                limit,
+                total,
+                totalPages: Math.ceil(total / limit),
+            },
+        };
+    }
+
+    async getUser(userId: string) {
+        const user = await prisma.user.findUnique({
+            where: { id: userId },
+            select: USER_SELECT,
+        });
+
+        if (!user) {
+            throw new Error('User not found');
+        }
+
+        return user;
+    }
+
+    // ==================== INVITATIONS ====================
+
+    /**
+     * Create a staff account and email the invitee a link to set their password.
+     * The account cannot log in until the password is set.
+     */
+    async inviteStaff(data: InviteStaffRequest, context: AuditContext) {
+        const existing = await prisma.user.findFirst({
+            where: { OR: [{ email: data.email }, { phone: data.phone }] },
+        });
+
+        if (existing) {
+            throw new Error('User with this email or phone already exists');
+        }
+
+        // Unusable placeholder until the invitee sets a password
+        const placeholderPassword = await bcrypt.hash(crypto.randomBytes(32).toString('hex'), 12);
+
+        const user = await prisma.user.create({
+            data: {
+                email: data.email,
+                phone: data.phone,
+                password: placeholderPassword,
+                role: data.role,
+                passwordResetRequired: true,
+            },
+            select: USER_SELECT,
+        });
+
+        const link = await authService.createPasswordResetLink(user.id, INVITE_TTL_HOURS * 60);
+        emailService.sendStaffInviteEmail(user.email, user.role, link, INVITE_TTL_HOURS)
+            .catch(err => logger.error('Failed to send staff invite email', err));
+
+        await auditService.record(context, {
+            action: 'user.invite',
+            entityType: 'User',
+            entityId: user.id,
+            metadata: { email: user.email, role: user.role },
+        });
+
+        logger.info(`Staff user ${user.email} (${user.role}) invited by ${context.actorId}`);
+        return user;
+    }
+
+    /**
+     * Send a fresh invitation link to a staff user who has not set a password yet
+     */
+    async resendInvite(userId: string, context: AuditContext) {
+        const user = await this.findManageableUser(userId, context);
+
+        if (!user.passwordResetRequired || !STAFF_ROLES.includes(user.role)) {
+            throw new Error('User has no pending invitation');
+        }
+
+        const link = await authService.createPasswordResetLink(user.id, INVITE_TTL_HOURS * 60);
+        emailService.sendStaffInviteEmail(user.email, user.role, link, INVITE_TTL_HOURS)
+            .catch(err => logger.error('Failed to send staff invite email', err));
+
+        await auditService.record(context, {
+            action: 'user.invite_resend',
+            entityType: 'User',
+            entityId: user.id,
+        });
+    }
+
+    // ==================== ACCOUNT CHANGES ====================
+
+    /**
+     * Change a staff user's role. Their sessions are revoked so the new role
+     * applies immediately; super-admin status is dropped when leaving ADMIN.
+     */
+    async changeRole(userId: string, role: StaffRole, context: AuditContext) {
+        const user = await this.findManageableUser(userId, context);
+
+        if (!STAFF_ROLES.includes(user.role)) {
+            throw new Error('Only staff roles can be changed');
+        }
+
+        if (user.role === role) {
+            throw new Error(`User already has role ${role}`);
+        }
+
+        if (user.isSuperAdmin && role !== UserRole.ADMIN) {
+            await permissionService.assertOtherSuperAdmin(userId);
+        }
+
+        const updated = await prisma.user.update({
+            where: { id: userId },
+            data: { role, ...(role !== UserRole.ADMIN && { isSuperAdmin: false }) },
+            select: USER_SELECT,
+        });
+
+        await sessionService.revokeAllSessions(userId, 'role_changed');
+
+        await auditService.record(context, {
+            action: 'user.role_change',
+            entityType: 'User',
+            entityId: userId,
+            before: { role: user.role, isSuperAdmin: user.isSuperAdmin },
+            after: { role: updated.role, isSuperAdmin: updated.isSuperAdmin },
+        });
+
+        logger.info(`Role of user ${userId} changed from ${user.role} to ${role} by ${context.actorId}`);
+        return updated;
+    }
+
+    /**
+     * Activate or deactivate an account. Deactivation signs out every session.
+     */
+    async setActive(userId: string, isActive: boolean, context: AuditContext) {
+        const user = await this.findManageableUser(userId, context);
+
+        if (user.isActive === isActive) {
+            throw new Error(`User is already ${isActive ? 'active' : 'inactive'}`);
+        }
+
+        if (!isActive && user.isSuperAdmin) {
+            await permissionService.assertOtherSuperAdmin(userId);
+        }
+
+        const updated = await prisma.user.update({
+            where: { id: userId },
+            data: { isActive },
+            select: USER_SELECT,
+        });
+
+        if (!isActive) {
+            await sessionService.revokeAllSessions(userId, 'user_deactivated');
+        }
+
+        await auditService.record(context, {
+            action: isActive ? 'user.activate' : 'user.deactivate',
+            entityType: 'User',
+            entityId: userId,
+        });
+
+        logger.info(`User ${userId} ${isActive ? 'activated' : 'deactivated'} by ${context.actorId}`);
+        return updated;
+    }
+
+    /**
+     * Soft-delete an account and sign out every session
+     */
+    async deleteUser(userId: string, context: AuditContext): Promise<void> {
+        const user = await this.findManageableUser(userId, context);
+
+        if (user.isSuperAdmin) {
+            await permissionService.assertOtherSuperAdmin(userId);
+        }
+
+        await prisma.user.update({
+            where: { id: userId },
+            data: { deletedAt: new Date(), isActive: false },
+        });
+
+        await sessionService.revokeAllSessions(userId, 'user_deleted');
+
+        await auditService.record(context, {
+            action: 'user.delete',
+            entityType: 'User',
+            entityId: userId,
+        });
+
+        logger.info(`User ${userId} deleted by ${context.actorId}`);
+    }
+
+    /**
+     * Require a password reset: sign out every session, block password logins
+     * and email a reset link
+     */
+    async forcePasswordReset(userId: string, context: AuditContext): Promise<void> {
+        const user = await this.findManageableUser(userId, context);
+
+        await prisma.user.update({
+            where: { id: userId },
+            data: { passwordResetRequired: true },
+        });
+
+        await sessionService.revokeAllSessions(userId, 'password_reset_forced');
+
+        const link = await authService.createPasswordResetLink(user.id);
+        emailService.sendPasswordResetEmail(user.email, link, PASSWORD_RESET_TTL_MINUTES, true)
+            .catch(err => logger.error('Failed to send forced password reset email', err));
+
+        await auditService.record(context, {
+            action: 'user.force_password_reset',
+            entityType: 'User',
+            entityId: userId,
+        });
+
+        logger.info(`Password reset forced for user ${userId} by ${context.actorId}`);
+    }
+
+    // ==================== HELPERS ====================
+
+    /**
+     * A user an admin may act on: exists, not deleted, not the admin themself,
+     * and not a super-admin unless the admin is one too
+     */
+    private async findManageableUser(userId: string, context: AuditContext) {
+        if (userId === context.actorId) {
+            throw new Error('You cannot perform this action on your own account');
+        }
+
+        const user = await prisma.user.findFirst({
+            where: { id: userId, deletedAt: null },
+        });
+
+        if (!user) {
+            throw new Error('User not found');
+        }
+
+        if (user.isSuperAdmin && !(context.actorId && await permissionService.isSuperAdmin(context.actorId))) {
+            throw new Error('Only super-admins can manage a super-admin account');
+        }
+
+        return user;
+    }
+}
+
+export default new UserService();
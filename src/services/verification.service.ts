@@ -0,0 +1,170 @@
+import crypto from 'crypto';
+import prisma from '../config/database';
+import { VerificationChannel } from '@prisma/client';
+import logger from '../config/logger';
+import emailService from './email.service';
+import smsService from './sms.service';
+import { hash } from '../utils/encryption';
+
+const CODE_TTL_MINUTES = 15;
+const MAX_ATTEMPTS = 5;
+
+// Minimum wait before another code can be sent on the same channel
+const RESEND_COOLDOWN_SECONDS = 60;
+
+type ContactState = { emailVerifiedAt: Date | null; phoneVerifiedAt: Date | null };
+
+/**
+ * Channels the user has not verified yet
+ */
+export const unverifiedContacts = (user: ContactState): VerificationChannel[] => [
+    ...(user.emailVerifiedAt ? [] : [VerificationChannel.EMAIL]),
+    ...(user.phoneVerifiedAt ? [] : [VerificationChannel.PHONE]),
+];
+
+export class VerificationService {
+    // ==================== CODES ====================
+
+    /**
+     * Send a verification code to the user's email address or phone number.
+     * Any earlier code for the channel stops working.
+     */
+    async sendCode(userId: string, channel: VerificationChannel): Promise<{ channel: VerificationChannel; expiresAt: Date }> {
+        const user = await prisma.user.findUnique({
+            where: { id: userId },
+            select: { email: true, phone: true, emailVerifiedAt: true, phoneVerifiedAt: true },
+        });
+
+        if (!user) {
+            throw new Error('User not found');
+        }
+
+        if (!unverifiedContacts(user).includes(channel)) {
+            throw new Error(`Your ${this.describe(channel)} is already verified`);
+        }
+
+        const latest = await prisma.verificationCode.findFirst({
+            where: { userId, channel },
+            orderBy: { createdAt: 'desc' },
+        });
+
+        if (latest && Date.now() - latest.createdAt.getTime() < RESEND_COOLDOWN_SECONDS * 1000) {
+            throw new Error('Please wait a minute before requesting another code');
+        }
+
+        const target = channel === VerificationChannel.EMAIL ? user.email : user.phone;
+        const code = crypto.randomInt(0, 1_000_000).toString().padStart(6, '0');
+        const expiresAt = new Date(Date.now() + CODE_TTL_MINUTES * 60 * 1000);
+
+        await prisma.$transaction([
+            prisma.verificationCode.updateMany({
+                where: { userId, channel, consumedAt: null },
+                data: { consumedAt: new Date() },
+            }),
+            prisma.verificationCode.create({
+                data: { userId, channel, target, codeHash: this.hashCode(userId, code), expiresAt },
+            }),
+        ]);
+
+        if (channel === VerificationChannel.EMAIL) {
+            emailService.sendVerificationCodeEmail(target, code, CODE_TTL_MINUTES)
+                .catch(err => logger.error('Failed to send verification email', err));
+        } else {
+            smsService.sendSms(target, `Your STF Portal verification code is ${code}. It expires in ${CODE_TTL_MINUTES} minutes.`)
+                .catch(err => logger.error('Failed to send verification SMS', err));
+        }
+
+        logger.info(`Verification code sent to user ${userId} (${channel})`);
+        return { channel, expiresAt };
+    }
+
+    /**
+     * Check a code and mark the email address / phone number verified
+     */
+    async verifyCode(userId: string, channel: VerificationChannel, code: string) {
+        const user = await prisma.user.findUnique({
+            where: { id: userId },
+            select: { email: true, phone: true },
+        });
+
+        if (!user) {
+            throw new Error('User not found');
+        }
+
+        const pending = await prisma.verificationCode.findFirst({
+            where: { userId, channel, consumedAt: null, expiresAt: { gt: new Date() } },
+            orderBy: { createdAt: 'desc' },
+        });
+
+        // A code only proves the address / number it was sent to
+        const target = channel === VerificationChannel.EMAIL ? user.email : user.phone;
+        if (!pending || pending.target !== target) {
+            throw new Error('Verification code expired or not found. Please request a new code.');
+        }
+
+        if (pending.attempts >= MAX_ATTEMPTS) {
+            throw new Error('Too many incorrect attempts. Please request a new code.');
+        }
+
+        const expected = Buffer.from(pending.codeHash);
+        const actual = Buffer.from(this.hashCode(userId, code.trim()));
+        if (!crypto.timingSafeEqual(expected, actual)) {
+            await prisma.verificationCode.update({
+                where: { id: pending.id },
+                data: { attempts: { increment: 1 } },
+            });
+            throw new Error('Invalid verification code');
+        }
+
+        const now = new Date();
+        await prisma.$transaction([
+            prisma.verificationCode.update({
+                where: { id: pending.id },
+                data: { consumedAt: now },
+            }),
+            prisma.user.update({
+                where: { id: userId },
+                data: channel === VerificationChannel.EMAIL ? { emailVerifiedAt: now } : { phoneVerifiedAt: now },
+            }),
+        ]);
+
+        logger.info(`User ${userId} verified their ${this.describe(channel)}`);
+        return this.getStatus(userId);
+    }
+
+    // ==================== STATUS ====================
+
+    async getStatus(userId: string) {
+        const user = await prisma.user.findUnique({
+            where: { id: userId },
+            select: { email: true, phone: true, emailVerifiedAt: true, phoneVerifiedAt: true },
+        });
+
+        if (!user) {
+            throw new Error('User not found');
+        }
+
+        return {
+            email: user.email,
+            emailVerified: user.emailVerifiedAt !== null,
+            emailVerifiedAt: user.emailVerifiedAt,
+            phone: user.phone,
+            phoneVerified: user.phoneVerifiedAt !== null,
+            phoneVerifiedAt: user.phoneVerifiedAt,
+            unverified: unverifiedContacts(user),
+        };
+    }
+
+    // ==================== HELPERS ====================
+
+    private describe(channel: VerificationChannel): string {
+        return channel === VerificationChannel.EMAIL ? 'email address' : 'phone number';
+    }
+
+    // Salted with the user ID so equal codes for different users hash differently
+    private hashCode(userId: string, code: string): string {
+        return hash(`${userId}:${code}`);
+    }
+}
+
+export default new VerificationService();
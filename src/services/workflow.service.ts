@@ -0,0 +1,195 @@
+import prisma from '../config/database';
+import { ApplicationStatus, UserRole, WorkflowTransition } from '@prisma/client';
+import { AuditContext, WorkflowTransitionRequest } from '../types/api.types';
+import logger from '../config/logger';
+import auditService from './audit.service';
+
+// Transitions are read on every status change; keep them in memory briefly
+const CACHE_TTL_MS = 60 * 1000;
+
+export class WorkflowService {
+    private cache: WorkflowTransition[] | null = null;
+    private cacheLoadedAt = 0;
+
+    // ==================== EVALUATION ====================
+
+    /**
+     * Get the active transition definition between two statuses, if any
+     */
+    async getTransition(from: ApplicationStatus, to: ApplicationStatus): Promise<WorkflowTransition | null> {
+        const transitions = await this.getActiveTransitions();
+        return transitions.find(t => t.fromStatus === from && t.toStatus === to) ?? null;
+    }
+
+    /**
+     * Check a status transition against the stored workflow definition.
+     * When a role is given, the transition must also be allowed for that role.
+     */
+    async isValidStatusTransition(
+        from: ApplicationStatus,
+        to: ApplicationStatus,
+        role?: UserRole
+    ): Promise<boolean> {
+        const transition = await this.getTransition(from, to);
+        if (!transition) return false;
+        return role ? transition.allowedRoles.includes(role) : true;
+    }
+
+    /**
+     * Resolve and validate a transition, returning its definition.
+     * Throws when the transition is unknown, not allowed for the role, or missing a required reason.
+     */
+    async assertTransition(
+        from: ApplicationStatus,
+        to: ApplicationStatus,
+        role: UserRole,
+        reason?: string
+    ): Promise<WorkflowTransition> {
+        const transition = await this.getTransition(from, to);
+
+        if (!transition) {
+            throw new Error(`Invalid status transition from ${from} to ${to}`);
+        }
+
+        if (!transition.allowedRoles.includes(role)) {
+            throw new Error(`Role ${role} is not allowed to perform the status transition from ${from} to ${to}`);
+        }
+
+        if (transition.requiresReason && !reason?.trim()) {
+            throw new Error(`A reason is required for the status transition from ${from} to ${to}`);
+        }
+
+        return transition;
+    }
+
+    /**
+     * List the statuses reachable from a status, optionally for a given role
+     */
+    async getNextStatuses(from: ApplicationStatus, role?: UserRole): Promise<ApplicationStatus[]> {
+        const transitions = await this.getActiveTransitions();
+        return transitions
+            .filter(t => t.fromStatus === from && (!role || t.allowedRoles.includes(role)))
+            .map(t => t.toStatus);
+    }
+
+    // ==================== DEFINITION MANAGEMENT ====================
+
+    /**
+     * List all transitions, including inactive ones
+     */
+    async listTransitions() {
+        return prisma.workflowTransition.findMany({
+            orderBy: [{ fromStatus: 'asc' }, { toStatus: 'asc' }],
+        });
+    }
+
+    /**
+     * Add a transition to the workflow
+     */
+    async createTransition(data: WorkflowTransitionRequest, context: AuditContext) {
+        if (data.fromStatus === data.toStatus) {
+            throw new Error('A transition must change the status');
+        }
+
+        const existing = await prisma.workflowTransition.findUnique({
+            where: { fromStatus_toStatus: { fromStatus: data.fromStatus, toStatus: data.toStatus } },
+        });
+
+        if (existing) {
+            throw new Error(`A transition from ${data.fromStatus} to ${data.toStatus} already exists`);
+        }
+
+        const transition = await prisma.workflowTransition.create({ data });
+
+        this.invalidateCache();
+
+        await auditService.record(context, {
+            action: 'workflow_transition.create',
+            entityType: 'WorkflowTransition',
+            entityId: transition.id,
+            before: null,
+            after: this.auditState(transition),
+        });
+
+        logger.info(`Workflow transition ${data.fromStatus} -> ${data.toStatus} created`);
+        return transition;
+    }
+
+    /**
+     * Update the rules of a transition
+     */
+    async updateTransition(
+        id: string,
+        data: Partial<Omit<WorkflowTransitionRequest, 'fromStatus' | 'toStatus'>>,
+        context: AuditContext
+    ) {
+        const transition = await prisma.workflowTransition.findUnique({ where: { id } });
+        if (!transition) throw new Error('Workflow transition not found');
+
+        const updated = await prisma.workflowTransition.update({
+            where: { id },
+            data,
+        });
+
+        this.invalidateCache();
+
+        await auditService.record(context, {
+            action: 'workflow_transition.update',
+            entityType: 'WorkflowTransition',
+            entityId: id,
+            before: this.auditState(transition),
+            after: this.auditState(updated),
+        });
+
+        logger.info(`Workflow transition ${transition.fromStatus} -> ${transition.toStatus} updated`);
+        return updated;
+    }
+
+    /**
+     * Remove a transition from the workflow
+     */
+    async deleteTransition(id: string, context: AuditContext) {
+        const transition = await prisma.workflowTransition.findUnique({ where: { id } });
+        if (!transition) throw new Error('Workflow transition not found');
+
+        await prisma.workflowTransition.delete({ where: { id } });
+
+        this.invalidateCache();
+
+        await auditService.record(context, {
+            action: 'workflow_transition.delete',
+            entityType: 'WorkflowTransition',
+            entityId: id,
+            before: this.auditState(transition),
+            after: null,
+        });
+
+        logger.info(`Workflow transition ${transition.fromStatus} -> ${transition.toStatus} deleted`);
+        return { deleted: true };
+    }
+
+    // ==================== HELPERS ====================
+
+    private auditState(transition: WorkflowTransition) {
+        const { id, createdAt, updatedAt, ...rules } = transition;
+        return rules;
+    }
+
+    private async getActiveTransitions(): Promise<WorkflowTransition[]> {
+        if (this.cache && Date.now() - this.cacheLoadedAt < CACHE_TTL_MS) {
+            return this.cache;
+        }
+
+        this.cache = await prisma.workflowTransition.findMany({
+            where: { isActive: true },
+        });
+        this.cacheLoadedAt = Date.now();
+        return this.cache;
+    }
+
+    private invalidateCache() {
+        this.cache = null;
+    }
+}
+
+export default new WorkflowService();
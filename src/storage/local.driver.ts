@@ -0,0 +1,64 @@
+import fs from 'fs';
+import path from 'path';
+import { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
+import { StorageDriver, StoredFile } from '../types/storage.types';
+
+// Locations of other backends are URLs ("s3://bucket/key"); local ones are plain paths
+const URL_PATTERN = /^[a-z][a-z0-9+.-]*:\/\//i;
+
+/**
+ * Files on the local disk under UPLOAD_DIR. Locations are filesystem paths,
+ * which is what filePath held before storage backends existed.
+ */
+export class LocalDiskDriver implements StorageDriver {
+    readonly name = 'local';
+
+    constructor(private readonly directory: string) {}
+
+    owns(location: string): boolean {
+        return !URL_PATTERN.test(location);
+    }
+
+    async put(key: string, body: Readable, _contentType: string): Promise<StoredFile> {
+        await fs.promises.mkdir(this.directory, { recursive: true });
+        const location = path.join(this.directory, key);
+
+        try {
+            await pipeline(body, fs.createWriteStream(location));
+        } catch (error) {
+            await this.delete(location);
+            throw error;
+        }
+
+        const { size } = await fs.promises.stat(location);
+        return { location, size };
+    }
+
+    async get(location: string): Promise<Readable> {
+        if (!(await this.exists(location))) {
+            throw new Error('File not found on server');
+        }
+
+        return fs.createReadStream(location);
+    }
+
+    async exists(location: string): Promise<boolean> {
+        try {
+            await fs.promises.access(location, fs.constants.R_OK);
+            return true;
+        } catch {
+            return false;
+        }
+    }
+
+    async delete(location: string): Promise<void> {
+        try {
+            await fs.promises.unlink(location);
+        } catch (error: any) {
+            if (error.code !== 'ENOENT') {
+                throw error;
+            }
+        }
+    }
+}
@@ -0,0 +1,110 @@
+import { Readable, Transform } from 'stream';
+import { pipeline } from 'stream/promises';
+import { DeleteObjectCommand, GetObjectCommand, HeadObjectCommand, S3Client } from '@aws-sdk/client-s3';
+import { Upload } from '@aws-sdk/lib-storage';
+import { StorageDriver, StoredFile } from '../types/storage.types';
+
+const LOCATION_PATTERN = /^s3:\/\/([^/]+)\/(.+)$/;
+
+export interface S3DriverOptions {
+    bucket: string;
+    region: string;
+    endpoint?: string; // MinIO or another S3-compatible service
+    accessKeyId?: string; // Falls back to the SDK's default credential chain
+    secretAccessKey?: string;
+    forcePathStyle: boolean; // Needed by MinIO
+    prefix: string; // Prepended to every object key
+}
+
+const isNotFound = (error: any): boolean =>
+    error?.name === 'NoSuchKey' || error?.name === 'NotFound' || error?.$metadata?.httpStatusCode === 404;
+
+/**
+ * Files in an S3 bucket, or any S3-compatible object store. Locations look like
+ * "s3://<bucket>/<key>". Uploads are streamed as multipart uploads, so a file is
+ * never buffered whole in memory.
+ */
+export class S3Driver implements StorageDriver {
+    readonly name = 's3';
+    private readonly client: S3Client;
+
+    constructor(private readonly options: S3DriverOptions) {
+        this.client = new S3Client({
+            region: options.region,
+            endpoint: options.endpoint,
+            forcePathStyle: options.forcePathStyle,
+            credentials: options.accessKeyId && options.secretAccessKey
+                ? { accessKeyId: options.accessKeyId, secretAccessKey: options.secretAccessKey }
+                : undefined,
+        });
+    }
+
+    owns(location: string): boolean {
+        return LOCATION_PATTERN.test(location);
+    }
+
+    async put(key: string, body: Readable, contentType: string): Promise<StoredFile> {
+        const objectKey = `${this.options.prefix}${key}`;
+        let size = 0;
+
+        // The upload does not know the length up front, so count the bytes on the way through
+        const counter = new Transform({
+            transform(chunk: Buffer, _encoding, callback) {
+                size += chunk.length;
+                callback(null, chunk);
+            },
+        });
+
+        const upload = new Upload({
+            client: this.client,
+            params: {
+                Bucket: this.options.bucket,
+                Key: objectKey,
+                Body: counter,
+                ContentType: contentType,
+            },
+        });
+
+        await Promise.all([pipeline(body, counter), upload.done()]);
+
+        return { location: `s3://${this.options.bucket}/${objectKey}`, size };
+    }
+
+    async get(location: string): Promise<Readable> {
+        try {
+            const object = await this.client.send(new GetObjectCommand(this.parse(location)));
+            return object.Body as Readable;
+        } catch (error) {
+            if (isNotFound(error)) {
+                throw new Error('File not found on server');
+            }
+            throw error;
+        }
+    }
+
+    async exists(location: string): Promise<boolean> {
+        try {
+            await this.client.send(new HeadObjectCommand(this.parse(location)));
+            return true;
+        } catch (error) {
+            if (isNotFound(error)) {
+                return false;
+            }
+            throw error;
+        }
+    }
+
+    async delete(location: string): Promise<void> {
+        await this.client.send(new DeleteObjectCommand(this.parse(location)));
+    }
+
+    private parse(location: string): { Bucket: string; Key: string } {
+        const match = LOCATION_PATTERN.exec(location);
+
+        if (!match) {
+            throw new Error(`Not an S3 location: ${location}`);
+        }
+
+        return { Bucket: match[1], Key: match[2] };
+    }
+}
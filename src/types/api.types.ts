@@ -1,4 +1,4 @@
-import { ApplicationStatus, EducationLevel, ProfileDocumentType, ApplicationDocumentType, HouseholdIncomeRange, OrphanStatus, WhoLivesWith } from '@prisma/client';
+import { ApplicationStatus, AppealStatus, UserRole, EducationLevel, ProfileDocumentType, ApplicationDocumentType, HouseholdIncomeRange, WhoLivesWith, PaymentMethod, ErasureRequestStatus, ConsentPurpose } from '@prisma/client';
 
 // ==================== GENERIC API RESPONSES ====================
 
@@ -34,6 +34,8 @@ export enum ErrorCode {
     APPLICATION_NOT_ELIGIBLE = 'APPLICATION_NOT_ELIGIBLE',
     INVALID_STATE_TRANSITION = 'INVALID_STATE_TRANSITION',
     FILE_UPLOAD_FAILED = 'FILE_UPLOAD_FAILED',
+    BUDGET_EXCEEDED = 'BUDGET_EXCEEDED',
+    CONSENT_REQUIRED = 'CONSENT_REQUIRED',
     INTERNAL_SERVER_ERROR = 'INTERNAL_SERVER_ERROR',
 }
 
@@ -70,6 +72,7 @@ export interface ApplicationFilterParams extends PaginationParams {
     search?: string;
     sortBy?: string;
     sortOrder?: 'asc' | 'desc';
+    unverifiedContacts?: boolean; // Only applicants with an unverified email or phone
 }
 
 // ==================== ELIGIBILITY ====================
@@ -103,6 +106,15 @@ export interface CreateDraftRequest {
 
 export interface UpdateDraftRequest extends Partial<CreateDraftRequest> { }
 
+// ==================== ORPHAN STATUS ====================
+
+// Stored encrypted on student profiles, so it is no longer a database enum
+export enum OrphanStatus {
+    BOTH_PARENTS_ALIVE = 'BOTH_PARENTS_ALIVE',
+    SINGLE_ORPHAN = 'SINGLE_ORPHAN',
+    DOUBLE_ORPHAN = 'DOUBLE_ORPHAN',
+}
+
 // ==================== PROFILE UPDATE ====================
 
 export interface UpdateProfileRequest {
@@ -193,6 +205,8 @@ export interface BulkUpdateRequest {
     applicationIds: string[];
     newStatus: ApplicationStatus;
     note?: string;
+    awardedAmount?: number;
+    budgetOverrideReason?: string;
 }
 
 export interface BulkUpdateResponse {
@@ -205,9 +219,300 @@ export interface BulkUpdateResponse {
     }>;
 }
 
+export interface ReturnForCorrectionRequest {
+    reason: string;
+    flaggedFields?: string[];
+    flaggedDocuments?: ApplicationDocumentType[];
+}
+
 export interface StatusUpdateRequest {
     status: ApplicationStatus;
     notes?: string;
+    awardedAmount?: number;
+    budgetOverrideReason?: string;
+}
+
+// ==================== DISBURSEMENT LEDGER ====================
+
+export interface CreateDisbursementRequest {
+    amount: number;
+    payeeInstitution: string;
+    paymentMethod: PaymentMethod;
+    paymentReference: string;
+    term?: string;
+    notes?: string;
+    disbursedAt?: string;
+    budgetOverrideReason?: string;
+}
+
+export interface DisbursementFilterParams extends PaginationParams {
+    paymentMethod?: PaymentMethod;
+    applicationPeriodId?: string;
+    disbursedAfter?: Date;
+    disbursedBefore?: Date;
+    search?: string;
+}
+
+export interface DisbursementLedgerSummary {
+    totalDisbursed: number;
+    totalReversed: number;
+    netDisbursed: number;
+    tranches: number;
+}
+
+// ==================== APPEALS ====================
+
+export type AppealDecision = Extract<AppealStatus, 'UPHELD' | 'DISMISSED'>;
+
+export interface AppealFilterParams extends PaginationParams {
+    status?: AppealStatus;
+}
+
+// ==================== PERIOD BUDGETS ====================
+
+export interface PeriodBudgetCapInput {
+    educationLevel?: EducationLevel;
+    countyId?: string;
+    amount: number;
+}
+
+export interface SetPeriodBudgetRequest {
+    totalBudget: number | null;
+    caps?: PeriodBudgetCapInput[];
+}
+
+export interface BudgetLine {
+    budget: number | null;
+    committed: number;
+    disbursed: number;
+    remaining: number | null;
+    applications: number;
+}
+
+export interface PeriodBudgetReport {
+    periodId: string;
+    title: string;
+    academicYear: string;
+    total: BudgetLine;
+    byEducationLevel: Array<BudgetLine & { capId: string | null; educationLevel: EducationLevel }>;
+    byCounty: Array<BudgetLine & { capId: string | null; countyId: string | null; countyName: string }>;
+}
+
+export interface BudgetCheckChange {
+    awardedAmount?: number;
+    additionalDisbursement?: number;
+}
+
+// ==================== SCORING RUBRICS ====================
+
+export interface RubricAnchor {
+    score: number;
+    label: string;
+    description?: string;
+}
+
+export interface RubricCriterionInput {
+    key: string;
+    label: string;
+    description?: string;
+    minScore: number;
+    maxScore: number;
+    weight: number;
+    anchors?: RubricAnchor[];
+}
+
+export interface CreateRubricRequest {
+    applicationPeriodId?: string | null;
+    name: string;
+    description?: string;
+    criteria: RubricCriterionInput[];
+}
+
+export interface ScoreApplicationRequest {
+    scores: Record<string, number>;
+    comments?: string;
+}
+
+// ==================== REVIEWER ASSIGNMENT ====================
+
+export interface AssignReviewersRequest {
+    reviewerIds?: string[]; // Manual assignment
+    count?: number; // Round-robin assignment of this many additional reviewers
+    dueDate?: string;
+}
+
+export interface AutoAssignReviewersRequest {
+    applicationIds: string[];
+    reviewersPerApplication: number;
+    dueDate?: string;
+}
+
+export interface ReviewerConflictRequest {
+    reviewerId: string;
+    countyId?: string;
+    institutionId?: string;
+    reason?: string;
+}
+
+export interface ReviewQueueParams extends PaginationParams {
+    status?: 'pending' | 'completed' | 'all';
+}
+
+// ==================== RANKING & SHORTLIST ====================
+
+export type ScoreAggregation = 'mean' | 'trimmed_mean' | 'median';
+
+export type RankingTieBreaker = 'orphanStatus' | 'disability' | 'householdIncome';
+
+export interface RankingOptions {
+    aggregation?: ScoreAggregation;
+    trimPercent?: number; // For trimmed_mean: share dropped from each end
+    tieBreakers?: RankingTieBreaker[];
+    minReviews?: number;
+    awardAmount?: number; // Flat award per application; otherwise the outstanding fee balance
+    maxAward?: number; // Cap on the fee-balance based award
+    maxShortlisted?: number;
+}
+
+export interface RankedApplication {
+    rank: number;
+    applicationId: string;
+    applicationNumber: string;
+    fullName: string | null;
+    educationLevel: EducationLevel | null;
+    county: string | null;
+    aggregateScore: number;
+    reviewCount: number;
+    orphanStatus: OrphanStatus | null;
+    disabilityStatus: boolean;
+    householdIncomeRange: HouseholdIncomeRange | null;
+    proposedAmount: number | null;
+    shortlisted: boolean;
+    reason?: string; // Why a ranked application was left off the shortlist
+}
+
+export interface ShortlistProposal {
+    periodId: string;
+    aggregation: ScoreAggregation;
+    tieBreakers: RankingTieBreaker[];
+    budgetRemaining: number | null;
+    ranked: RankedApplication[];
+    insufficientReviews: Array<{ applicationId: string; applicationNumber: string; reviewCount: number }>;
+    shortlist: { count: number; totalAmount: number };
+}
+
+// Carries the ranking options of the proposal, so the awards can be computed again
+export interface ConfirmShortlistRequest extends Omit<RankingOptions, 'maxShortlisted'> {
+    applicationIds: string[];
+    waitlistIds?: string[];
+    note?: string;
+}
+
+// ==================== SCORING RELIABILITY ====================
+
+export interface ReviewerConsistency {
+    reviewerId: string;
+    email: string;
+    reviewCount: number;
+    mean: number;
+    standardDeviation: number;
+    min: number;
+    max: number;
+    // Average difference from the other reviewers' mean on shared applications (+ lenient, - severe)
+    meanDeviation: number | null;
+}
+
+export interface ScoreDisagreement {
+    applicationId: string;
+    applicationNumber: string;
+    status: ApplicationStatus;
+    range: number;
+    standardDeviation: number;
+    scores: Array<{ reviewerId: string; email: string; overallScore: number }>;
+}
+
+export interface ReliabilityReport {
+    periodId: string;
+    threshold: number;
+    applicationsScored: number;
+    applicationsWithMultipleReviews: number;
+    icc: number | null;
+    krippendorffAlpha: number | null;
+    reviewers: ReviewerConsistency[];
+    disagreements: ScoreDisagreement[];
+}
+
+// ==================== USER MANAGEMENT ====================
+
+// Who performed an administrative action, and from where. actorId is null for scheduled jobs.
+export interface AuditContext {
+    actorId: string | null;
+    ipAddress?: string;
+    userAgent?: string;
+}
+
+export type StaffRole = typeof UserRole.ADMIN | typeof UserRole.BOARD;
+
+export interface InviteStaffRequest {
+    email: string;
+    phone: string;
+    role: StaffRole;
+}
+
+export interface UserListParams extends PaginationParams {
+    role?: UserRole;
+    status?: 'active' | 'inactive' | 'locked' | 'deleted';
+    search?: string;
+}
+
+// ==================== AUDIT LOG ====================
+
+export interface AuditLogParams extends PaginationParams {
+    actorId?: string;
+    action?: string;
+    entityType?: string;
+    entityId?: string;
+    from?: Date;
+    to?: Date;
+}
+
+// ==================== DATA RETENTION & ERASURE ====================
+
+export interface RetentionPolicyUpdate {
+    retentionMonths?: number;
+    statuses?: ApplicationStatus[];
+    isEnabled?: boolean;
+}
+
+export interface ErasureRequestListParams extends PaginationParams {
+    status?: ErasureRequestStatus;
+}
+
+// ==================== CONSENT ====================
+
+export interface ConsentDocumentCreate {
+    version: string;
+    title: string;
+    content: string;
+    purposes: ConsentPurpose[];
+    effectiveFrom?: string; // Defaults to now
+}
+
+// Where a consent was given from, kept in the consent log
+export interface ConsentContext {
+    ipAddress: string;
+    userAgent?: string;
+}
+
+// ==================== DOCUMENT LINKS ====================
+
+export type DocumentLinkKind = 'profile' | 'application';
+
+// The query parameters of a signed download link
+export interface DocumentLinkParams {
+    uid: string; // User the link was issued to
+    exp: string; // Expiry, Unix seconds
+    sig: string;
 }
 
 // ==================== ANALYTICS ====================
@@ -244,6 +549,7 @@ export interface InstitutionAnalytics {
 
 export interface DisbursementAnalytics {
     totalDisbursed: number;
+    totalReversed: number;
     totalBeneficiaries: number;
     averageDisbursement: number;
     byMonth: {
@@ -266,19 +572,18 @@ export interface TimelineEvent {
     metadata?: Record<string, any>;
 }
 
-// ==================== APPLICATION STATE MACHINE ====================
-
-export const VALID_STATUS_TRANSITIONS: Record<ApplicationStatus, ApplicationStatus[]> = {
-    DRAFT: ['PENDING'],
-    PENDING: ['UNDER_REVIEW'],
-    UNDER_REVIEW: ['APPROVED', 'REJECTED'],
-    APPROVED: ['DISBURSED'],
-    REJECTED: [],
-    DISBURSED: [],
-};
-
-export function isValidStatusTransition(from: ApplicationStatus, to: ApplicationStatus): boolean {
-    return VALID_STATUS_TRANSITIONS[from]?.includes(to) ?? false;
+// ==================== APPLICATION WORKFLOW ====================
+
+export interface WorkflowTransitionRequest {
+    fromStatus: ApplicationStatus;
+    toStatus: ApplicationStatus;
+    allowedRoles: UserRole[];
+    requiresReason?: boolean;
+    notifyStudent?: boolean;
+    emailStudent?: boolean;
+    notifyAdmins?: boolean;
+    isActive?: boolean;
+    description?: string;
 }
 
 // ==================== ACTIVE STATUSES ====================
@@ -287,4 +592,8 @@ export const ACTIVE_APPLICATION_STATUSES: ApplicationStatus[] = [
     'DRAFT',
     'PENDING',
     'UNDER_REVIEW',
+    'RETURNED_FOR_CORRECTION',
+    'SHORTLISTED',
+    'WAITLISTED',
+    'APPEALED',
 ];
@@ -1,7 +1,12 @@
+import { ConsentPurpose } from '@prisma/client';
+
 export interface JwtPayload {
     id: string;
     email: string;
     role: string;
+    sid?: string; // Session (refresh token family) the token belongs to
+    jti?: string; // Refresh tokens only: ID of the stored token row
+    purpose?: TwoFactorChallengePurpose; // Two-factor challenge tokens only; never accepted as access tokens
 }
 
 export interface TokenResponse {
@@ -20,5 +25,40 @@ export interface RegisterRequest {
     phone: string;
     password: string;
     consentVersion: string;
+    consentPurposes?: ConsentPurpose[];
     ipAddress: string;
 }
+
+// Where a session was started or refreshed from
+export interface SessionContext {
+    deviceLabel?: string;
+    ipAddress?: string;
+    userAgent?: string;
+}
+
+export interface SessionInfo {
+    id: string;
+    deviceLabel: string | null;
+    ipAddress: string | null;
+    userAgent: string | null;
+    startedAt: Date;
+    lastRefreshedAt: Date;
+    expiresAt: Date;
+    current: boolean;
+}
+
+// ==================== TWO-FACTOR ====================
+
+// two_factor: enter a code to finish logging in; two_factor_setup: enrol first (role requires two-factor)
+export type TwoFactorChallengePurpose = 'two_factor' | 'two_factor_setup';
+
+export interface TwoFactorChallenge {
+    twoFactorRequired: true;
+    setupRequired: boolean;
+    challengeToken: string;
+    expiresIn: string;
+}
+
+export type LoginResult =
+    | { user: any; tokens: TokenResponse }
+    | { challenge: TwoFactorChallenge };
@@ -4,6 +4,7 @@ export interface AuthUser {
     id: string;
     email: string;
     role: UserRole;
+    sessionId?: string;
 }
 
 declare global {
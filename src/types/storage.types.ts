@@ -0,0 +1,36 @@
+import { Readable } from 'stream';
+
+export type StorageDriverName = 'local' | 's3';
+
+export interface StoredFile {
+    location: string; // Saved as filePath on the document row
+    size: number;
+}
+
+/**
+ * A backend that document files are kept in. Each stored file is identified by
+ * its location, which tells the backends apart, so rows can point at different
+ * backends while files are being migrated.
+ */
+export interface StorageDriver {
+    readonly name: StorageDriverName;
+
+    /**
+     * Whether a location belongs to this backend
+     */
+    owns(location: string): boolean;
+
+    put(key: string, body: Readable, contentType: string): Promise<StoredFile>;
+
+    /**
+     * Throws 'File not found on server' when nothing is stored at the location
+     */
+    get(location: string): Promise<Readable>;
+
+    exists(location: string): Promise<boolean>;
+
+    /**
+     * Does nothing when the file is already gone
+     */
+    delete(location: string): Promise<void>;
+}
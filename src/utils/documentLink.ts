@@ -0,0 +1,82 @@
+import crypto from 'crypto';
+import { DocumentLinkKind, DocumentLinkParams } from '../types/api.types';
+
+/**
+ * Signed, expiring download links for a single document. The signature covers the
+ * document, the user the link was issued to and the expiry, so none of them can be
+ * changed without invalidating the link.
+ */
+
+const DEFAULT_TTL_SECONDS = 300;
+const MAX_TTL_SECONDS = 24 * 60 * 60;
+
+// Read on use, after dotenv has loaded. A key of its own, so a leaked link
+// secret cannot be used to sign access tokens and vice versa.
+const getSecret = (): string => {
+    const secret = process.env.FILE_LINK_SECRET;
+
+    if (!secret) {
+        throw new Error('FILE_LINK_SECRET not configured');
+    }
+
+    if (secret === process.env.JWT_SECRET || secret === process.env.JWT_REFRESH_SECRET) {
+        throw new Error('FILE_LINK_SECRET must differ from the JWT secrets');
+    }
+
+    return secret;
+};
+
+const sign = (kind: DocumentLinkKind, documentId: string, userId: string, expires: number): string =>
+    crypto
+        .createHmac('sha256', getSecret())
+        .update(`${kind}:${documentId}:${userId}:${expires}`)
+        .digest('base64url');
+
+/**
+ * How long links stay valid (FILE_LINK_TTL_SECONDS, 5 minutes by default).
+ * Anything other than a whole number of seconds up to a day uses the default.
+ */
+export const linkTtlSeconds = (): number => {
+    const value = process.env.FILE_LINK_TTL_SECONDS?.trim();
+    const ttl = value && /^\d+$/.test(value) ? Number(value) : NaN;
+
+    return ttl > 0 && ttl <= MAX_TTL_SECONDS ? ttl : DEFAULT_TTL_SECONDS;
+};
+
+export const signDocumentLink = (
+    kind: DocumentLinkKind,
+    documentId: string,
+    userId: string,
+    expiresAt: Date
+): DocumentLinkParams => {
+    const expires = Math.floor(expiresAt.getTime() / 1000);
+
+    return {
+        uid: userId,
+        exp: String(expires),
+        sig: sign(kind, documentId, userId, expires),
+    };
+};
+
+/**
+ * Whether the link parameters were issued for this document and have not expired
+ */
+export const verifyDocumentLink = (
+    kind: DocumentLinkKind,
+    documentId: string,
+    params: Partial<DocumentLinkParams>
+): boolean => {
+    if (!params.uid || !params.exp || !params.sig || !/^\d+$/.test(params.exp)) {
+        return false;
+    }
+
+    const expires = Number(params.exp);
+    if (expires * 1000 < Date.now()) {
+        return false;
+    }
+
+    const expected = Buffer.from(sign(kind, documentId, params.uid, expires));
+    const actual = Buffer.from(params.sig);
+
+    return expected.length === actual.length && crypto.timingSafeEqual(expected, actual);
+};
@@ -1,30 +1,127 @@
 import crypto from 'crypto';
 
-const algorithm = 'aes-256-cbc';
-const key = Buffer.from(process.env.ENCRYPTION_KEY || 'your-32-character-encryption-key', 'utf-8').slice(0, 32);
+const algorithm = 'aes-256-gcm';
+const legacyAlgorithm = 'aes-256-cbc';
+
+// "v<keyVersion>:<iv>:<authTag>:<ciphertext>", base64 parts
+const ENCRYPTED_PATTERN = /^v(\d+):([A-Za-z0-9+/=]+):([A-Za-z0-9+/=]+):([A-Za-z0-9+/=]*)$/;
+
+interface KeyRing {
+    keys: Map<number, Buffer>;
+    activeVersion: number;
+    legacyKey: Buffer; // Values written by the first version of encrypt() (AES-256-CBC, "iv:ciphertext" in hex)
+    blindIndexKey: Buffer;
+}
+
+let keyRing: KeyRing | null = null;
+
+/**
+ * Key ring from ENCRYPTION_KEYS ("1:<64 hex chars>,2:<64 hex chars>"). Version 0 is
+ * derived from ENCRYPTION_KEY, so a deployment without ENCRYPTION_KEYS still works
+ * and its values stay readable once versioned keys are added. New values use
+ * ENCRYPTION_KEY_VERSION, or the highest version. Loaded on first use, after dotenv.
+ */
+const getKeyRing = (): KeyRing => {
+    if (keyRing) {
+        return keyRing;
+    }
+
+    if (process.env.NODE_ENV === 'production' && !process.env.ENCRYPTION_KEYS && !process.env.ENCRYPTION_KEY) {
+        throw new Error('ENCRYPTION_KEYS not configured');
+    }
+
+    const secret = process.env.ENCRYPTION_KEY || 'your-32-character-encryption-key';
+    const keys = new Map<number, Buffer>();
+    keys.set(0, crypto.createHash('sha256').update(secret).digest());
+
+    for (const entry of (process.env.ENCRYPTION_KEYS || '').split(',').map(e => e.trim()).filter(Boolean)) {
+        const [version, hexKey] = entry.split(':');
+
+        if (!/^\d+$/.test(version) || !/^[0-9a-fA-F]{64}$/.test(hexKey || '')) {
+            throw new Error('ENCRYPTION_KEYS entries must look like "<version>:<64 hex characters>"');
+        }
+
+        keys.set(Number(version), Buffer.from(hexKey, 'hex'));
+    }
+
+    if (process.env.BLIND_INDEX_KEY && !/^[0-9a-fA-F]{64}$/.test(process.env.BLIND_INDEX_KEY)) {
+        throw new Error('BLIND_INDEX_KEY must be 64 hex characters');
+    }
+
+    const activeVersion = process.env.ENCRYPTION_KEY_VERSION
+        ? Number(process.env.ENCRYPTION_KEY_VERSION)
+        : Math.max(...keys.keys());
+
+    if (!keys.has(activeVersion)) {
+        throw new Error(`ENCRYPTION_KEY_VERSION ${activeVersion} is not in ENCRYPTION_KEYS`);
+    }
+
+    keyRing = {
+        keys,
+        activeVersion,
+        legacyKey: Buffer.from(secret, 'utf-8').slice(0, 32),
+        blindIndexKey: process.env.BLIND_INDEX_KEY
+            ? Buffer.from(process.env.BLIND_INDEX_KEY, 'hex')
+            : crypto.createHash('sha256').update(`blind-index:${secret}`).digest(),
+    };
+    return keyRing;
+};
+
+/**
+ * Key version new values are encrypted with
+ */
+export const activeKeyVersion = (): number => getKeyRing().activeVersion;
 
 /**
- * Encrypts sensitive data
+ * Encrypts sensitive data (AES-256-GCM with the active key version)
  */
 export const encrypt = (text: string): string => {
-    const iv = crypto.randomBytes(16);
-    const cipher = crypto.createCipheriv(algorithm, key, iv);
-    let encrypted = cipher.update(text, 'utf8', 'hex');
-    encrypted += cipher.final('hex');
-    return `${iv.toString('hex')}:${encrypted}`;
+    const { keys, activeVersion } = getKeyRing();
+    const iv = crypto.randomBytes(12);
+    const cipher = crypto.createCipheriv(algorithm, keys.get(activeVersion)!, iv);
+    const encrypted = Buffer.concat([cipher.update(text, 'utf8'), cipher.final()]);
+    const tag = cipher.getAuthTag();
+    return `v${activeVersion}:${iv.toString('base64')}:${tag.toString('base64')}:${encrypted.toString('base64')}`;
 };
 
 /**
- * Decrypts sensitive data
+ * Decrypts sensitive data. Also reads values written before key versions existed.
  */
 export const decrypt = (encryptedText: string): string => {
-    const parts = encryptedText.split(':');
-    const iv = Buffer.from(parts[0], 'hex');
-    const encrypted = parts[1];
-    const decipher = crypto.createDecipheriv(algorithm, key, iv);
-    let decrypted = decipher.update(encrypted, 'hex', 'utf8');
-    decrypted += decipher.final('utf8');
-    return decrypted;
+    const match = ENCRYPTED_PATTERN.exec(encryptedText);
+
+    if (!match) {
+        const parts = encryptedText.split(':');
+        const iv = Buffer.from(parts[0], 'hex');
+        const decipher = crypto.createDecipheriv(legacyAlgorithm, getKeyRing().legacyKey, iv);
+        let decrypted = decipher.update(parts[1], 'hex', 'utf8');
+        decrypted += decipher.final('utf8');
+        return decrypted;
+    }
+
+    const [, version, iv, tag, encrypted] = match;
+    const key = getKeyRing().keys.get(Number(version));
+
+    if (!key) {
+        throw new Error(`Encryption key version ${version} is not configured`);
+    }
+
+    const decipher = crypto.createDecipheriv(algorithm, key, Buffer.from(iv, 'base64'));
+    decipher.setAuthTag(Buffer.from(tag, 'base64'));
+    return Buffer.concat([decipher.update(Buffer.from(encrypted, 'base64')), decipher.final()]).toString('utf8');
+};
+
+/**
+ * Whether a value is in the current encrypted format
+ */
+export const isEncrypted = (value: string): boolean => ENCRYPTED_PATTERN.test(value);
+
+/**
+ * Whether a value still has to be encrypted, or re-encrypted with the active key
+ */
+export const needsRotation = (value: string): boolean => {
+    const match = ENCRYPTED_PATTERN.exec(value);
+    return !match || Number(match[1]) !== getKeyRing().activeVersion;
 };
 
 /**
@@ -33,3 +130,13 @@ export const decrypt = (encryptedText: string): string => {
 export const hash = (text: string): string => {
     return crypto.createHash('sha256').update(text).digest('hex');
 };
+
+/**
+ * Keyed hash of an encrypted field for exact-match lookups and unique constraints.
+ * Unlike hash(), it cannot be reversed by hashing every possible ID number.
+ * Case and whitespace are ignored.
+ */
+export const blindIndex = (value: string): string => {
+    const normalized = value.replace(/\s+/g, '').toUpperCase();
+    return crypto.createHmac('sha256', getKeyRing().blindIndexKey).update(normalized).digest('hex');
+};
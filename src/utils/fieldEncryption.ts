@@ -0,0 +1,144 @@
+import { Prisma } from '@prisma/client';
+import { OrphanStatus } from '../types/api.types';
+import { blindIndex, decrypt, encrypt, isEncrypted } from './encryption';
+
+/**
+ * Encrypted columns per model, with the blind-index column kept alongside (if any)
+ */
+export const ENCRYPTED_FIELDS = {
+    studentProfile: {
+        nationalIdNumber: 'nationalIdNumberHash',
+        passportNumber: 'passportNumberHash',
+        guardianPhone: null,
+        disabilityType: null,
+        orphanStatus: null, // Three possible values: a blind index would be trivially reversible
+    },
+    application: {
+        snapshotNationalId: 'snapshotNationalIdHash',
+        snapshotPassportNumber: null,
+    },
+} as const;
+
+type FieldMap = Record<string, string | null>;
+
+/**
+ * Rows written before encryption was introduced hold plaintext until the
+ * rotation script has run, so anything not in the encrypted format is returned as is
+ */
+export const decryptField = (value: string | null): string | null =>
+    value !== null && isEncrypted(value) ? decrypt(value) : value;
+
+/**
+ * Rows with a value in an indexed column but no blind index: written before field
+ * encryption and not yet processed by `npm run encryption:rotate`. Uniqueness checks
+ * and exact-match searches on the blind indexes would miss them.
+ */
+export const countMissingBlindIndexes = async (client: Record<string, any>): Promise<number> => {
+    let missing = 0;
+
+    for (const [model, fields] of Object.entries(ENCRYPTED_FIELDS)) {
+        for (const [field, hashField] of Object.entries(fields as FieldMap)) {
+            if (!hashField) continue;
+            missing += await client[model].count({ where: { [field]: { not: null }, [hashField]: null } });
+        }
+    }
+
+    return missing;
+};
+
+const encryptData = (fields: FieldMap, data: Record<string, any> | undefined): void => {
+    if (!data) return;
+
+    for (const [field, hashField] of Object.entries(fields)) {
+        let value = data[field];
+
+        if (value !== null && typeof value === 'object' && 'set' in value) {
+            value = value.set;
+        }
+
+        if (value === undefined) continue;
+
+        data[field] = value === null ? null : encrypt(String(value));
+        if (hashField) {
+            data[hashField] = value === null ? null : blindIndex(String(value));
+        }
+    }
+};
+
+const encryptArgs = (fields: FieldMap, operation: string, args: any): void => {
+    switch (operation) {
+        case 'create':
+        case 'update':
+        case 'updateMany':
+        case 'createMany':
+        case 'createManyAndReturn':
+            for (const data of Array.isArray(args.data) ? args.data : [args.data]) {
+                encryptData(fields, data);
+            }
+            break;
+        case 'upsert':
+            encryptData(fields, args.create);
+            encryptData(fields, args.update);
+            break;
+    }
+};
+
+/**
+ * Transparent field-level encryption for the columns in ENCRYPTED_FIELDS.
+ * Writes to these models are encrypted and their blind indexes filled in;
+ * reads, including through include/select, come back decrypted.
+ *
+ * Filter on the blind-index columns with blindIndex(value) for exact matches.
+ * Nested writes through another model's relation are not covered.
+ */
+export const fieldEncryption = Prisma.defineExtension({
+    name: 'fieldEncryption',
+    query: {
+        studentProfile: {
+            async $allOperations({ operation, args, query }) {
+                encryptArgs(ENCRYPTED_FIELDS.studentProfile, operation, args);
+                return query(args);
+            },
+        },
+        application: {
+            async $allOperations({ operation, args, query }) {
+                encryptArgs(ENCRYPTED_FIELDS.application, operation, args);
+                return query(args);
+            },
+        },
+    },
+    result: {
+        studentProfile: {
+            nationalIdNumber: {
+                needs: { nationalIdNumber: true },
+                compute: (profile) => decryptField(profile.nationalIdNumber),
+            },
+            passportNumber: {
+                needs: { passportNumber: true },
+                compute: (profile) => decryptField(profile.passportNumber),
+            },
+            guardianPhone: {
+                needs: { guardianPhone: true },
+                compute: (profile) => decryptField(profile.guardianPhone),
+            },
+            disabilityType: {
+                needs: { disabilityType: true },
+                compute: (profile) => decryptField(profile.disabilityType),
+            },
+            orphanStatus: {
+                needs: { orphanStatus: true },
+                compute: (profile) => decryptField(profile.orphanStatus) as OrphanStatus | null,
+            },
+        },
+        application: {
+            snapshotNationalId: {
+                needs: { snapshotNationalId: true },
+                compute: (application) => decryptField(application.snapshotNationalId),
+            },
+            snapshotPassportNumber: {
+                needs: { snapshotPassportNumber: true },
+                compute: (application) => decryptField(application.snapshotPassportNumber),
+            },
+        },
+    },
+});
@@ -0,0 +1,35 @@
+/**
+ * Helpers for comparing application formData between correction rounds
+ */
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * List the dot-separated paths whose values differ between two formData objects.
+ * Nested objects are compared key by key; arrays and scalars are compared as a whole.
+ */
+export function getChangedPaths(before: unknown, after: unknown, prefix: string = ''): string[] {
+    if (isPlainObject(before) && isPlainObject(after)) {
+        const keys = new Set([...Object.keys(before), ...Object.keys(after)]);
+        const changed: string[] = [];
+        for (const key of keys) {
+            const path = prefix ? `${prefix}.${key}` : key;
+            changed.push(...getChangedPaths(before[key], after[key], path));
+        }
+        return changed;
+    }
+
+    if (JSON.stringify(before) === JSON.stringify(after)) {
+        return [];
+    }
+
+    return [prefix];
+}
+
+/**
+ * Check whether a path is covered by a flagged path (the path itself or one of its parents)
+ */
+export function isPathFlagged(path: string, flaggedPaths: string[]): boolean {
+    return flaggedPaths.some(flagged => path === flagged || path.startsWith(`${flagged}.`));
+}
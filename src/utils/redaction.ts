@@ -0,0 +1,117 @@
+import { ApplicationDocumentType, ProfileDocumentType } from '@prisma/client';
+import path from 'path';
+
+/**
+ * Helpers for blind review: strip applicant identity from what reviewers see
+ */
+
+export const REDACTED = '[REDACTED]';
+
+// Documents that exist to prove identity and are withheld from blind reviewers entirely
+export const IDENTITY_DOCUMENT_TYPES: ApplicationDocumentType[] = [
+    ApplicationDocumentType.BIRTH_CERTIFICATE_NID,
+    ApplicationDocumentType.GUARDIAN_ID,
+];
+
+// The profile documents withheld from blind reviewers for the same reason
+export const IDENTITY_PROFILE_DOCUMENT_TYPES: ProfileDocumentType[] = [
+    ProfileDocumentType.NATIONAL_ID,
+    ProfileDocumentType.PASSPORT,
+    ProfileDocumentType.STUDENT_ID,
+];
+
+// formData / profile keys holding names, IDs, contacts or guardian data
+const IDENTIFYING_KEY_PATTERNS = [
+    /guardian/i,
+    /(full|first|last|middle|sur|given|family|other|father|mother|parent)_?name$/i,
+    /national_?id|id_?(no|number)$|passport|birth_?cert/i,
+    /phone|mobile|telephone|email|address|residence/i,
+    /date_?of_?birth|^dob$/i,
+];
+
+// Application snapshot columns that identify the applicant
+const IDENTIFYING_SNAPSHOT_FIELDS = [
+    'snapshotFullName',
+    'snapshotNationalId',
+    'snapshotNationalIdHash',
+    'snapshotPassportNumber',
+    'snapshotPhone',
+    'snapshotEmail',
+] as const;
+
+export const isIdentifyingKey = (key: string): boolean =>
+    IDENTIFYING_KEY_PATTERNS.some(pattern => pattern.test(key));
+
+/**
+ * Replace identifying values in a formData object (recursively), keeping its shape
+ */
+export function redactFormData(value: unknown): unknown {
+    if (Array.isArray(value)) {
+        return value.map(redactFormData);
+    }
+
+    if (typeof value === 'object' && value !== null && !(value instanceof Date)) {
+        return Object.fromEntries(
+            Object.entries(value).map(([key, entry]) => [
+                key,
+                isIdentifyingKey(key) && entry !== null && entry !== undefined ? REDACTED : redactFormData(entry),
+            ])
+        );
+    }
+
+    return value;
+}
+
+/**
+ * Redact an application for a blind reviewer: identifying snapshots, formData
+ * identity fields, the student profile and identity documents
+ */
+export function redactApplication<T extends Record<string, any>>(application: T): T {
+    const redacted: Record<string, any> = { ...application, identityRedacted: true };
+
+    for (const field of IDENTIFYING_SNAPSHOT_FIELDS) {
+        if (redacted[field] !== null && redacted[field] !== undefined) {
+            redacted[field] = REDACTED;
+        }
+    }
+
+    if ('snapshotDateOfBirth' in redacted) {
+        redacted.snapshotDateOfBirth = null;
+    }
+
+    if ('formData' in redacted) {
+        redacted.formData = redactFormData(redacted.formData);
+    }
+
+    if (redacted.studentProfile) {
+        const { user: _user, ...profile } = redacted.studentProfile;
+        redacted.studentProfile = redactFormData(profile);
+    }
+
+    if (Array.isArray(redacted.applicationDocuments)) {
+        redacted.applicationDocuments = redactDocuments(redacted.applicationDocuments);
+    }
+
+    // Profile documents are identity / enrolment records uploaded under the student's name
+    if ('profileDocumentLinks' in redacted) {
+        redacted.profileDocumentLinks = [];
+    }
+
+    return redacted as T;
+}
+
+/**
+ * Withhold identity documents and replace original filenames (which often carry
+ * the applicant's name) with the document type
+ */
+export function redactDocuments<T extends { documentType: ApplicationDocumentType; originalFilename: string }>(documents: T[]): T[] {
+    return documents
+        .filter(document => !IDENTITY_DOCUMENT_TYPES.includes(document.documentType))
+        .map(document => ({
+            ...document,
+            originalFilename: redactFilename(document.documentType, document.originalFilename),
+        }));
+}
+
+export const redactFilename = (documentType: string, originalFilename: string): string =>
+    `${documentType}${path.extname(originalFilename)}`;
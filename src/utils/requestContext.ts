@@ -0,0 +1,19 @@
+import { Request } from 'express';
+import { AuditContext, ConsentContext } from '../types/api.types';
+
+/**
+ * The authenticated user and the client they acted from, for audit log entries
+ */
+export const auditContext = (req: Request): AuditContext => ({
+    actorId: req.user!.id,
+    ipAddress: req.ip || req.socket.remoteAddress || undefined,
+    userAgent: req.get('user-agent') || undefined,
+});
+
+/**
+ * The client a consent was given or withdrawn from, for the consent log
+ */
+export const consentContext = (req: Request): ConsentContext => ({
+    ipAddress: req.ip || req.socket.remoteAddress || 'unknown',
+    userAgent: req.get('user-agent') || undefined,
+});
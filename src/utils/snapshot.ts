@@ -0,0 +1,49 @@
+import { Application } from '@prisma/client';
+
+// formData keys holding the same data as encrypted profile fields
+const SENSITIVE_FORM_KEY_PATTERNS = [
+    /national_?id|passport/i,
+    /guardian_?(phone|mobile|contact)/i,
+    /orphan/i,
+    /disab/i,
+];
+
+/**
+ * Extract the profile snapshot captured on an application at submission, for the
+ * plain JSON copies kept on correction requests. The encrypted ID snapshots are left out.
+ */
+export function pickSnapshot(application: Application) {
+    return {
+        snapshotFullName: application.snapshotFullName,
+        snapshotDateOfBirth: application.snapshotDateOfBirth,
+        snapshotGender: application.snapshotGender,
+        snapshotInstitution: application.snapshotInstitution,
+        snapshotProgramme: application.snapshotProgramme,
+        snapshotCounty: application.snapshotCounty,
+        snapshotSubCounty: application.snapshotSubCounty,
+        snapshotWard: application.snapshotWard,
+        snapshotPhone: application.snapshotPhone,
+        snapshotEmail: application.snapshotEmail,
+        snapshotEducationLevel: application.snapshotEducationLevel,
+    };
+}
+
+/**
+ * Copy of formData for correction requests without the values that are encrypted
+ * on the profile (ID numbers, guardian phone, orphan status, disability details)
+ */
+export function pickFormDataSnapshot(value: unknown): unknown {
+    if (Array.isArray(value)) {
+        return value.map(pickFormDataSnapshot);
+    }
+
+    if (typeof value === 'object' && value !== null && !(value instanceof Date)) {
+        return Object.fromEntries(
+            Object.entries(value)
+                .filter(([key]) => !SENSITIVE_FORM_KEY_PATTERNS.some(pattern => pattern.test(key)))
+                .map(([key, entry]) => [key, pickFormDataSnapshot(entry)])
+        );
+    }
+
+    return value;
+}
@@ -0,0 +1,116 @@
+/**
+ * Descriptive statistics used to aggregate reviewer scores
+ */
+
+export const mean = (values: number[]): number =>
+    values.reduce((sum, v) => sum + v, 0) / values.length;
+
+export function median(values: number[]): number {
+    const sorted = [...values].sort((a, b) => a - b);
+    const middle = Math.floor(sorted.length / 2);
+    return sorted.length % 2 === 0
+        ? (sorted[middle - 1] + sorted[middle]) / 2
+        : sorted[middle];
+}
+
+/**
+ * Mean after dropping `trimPercent` of the values from each end (rounded down).
+ * With too few values to trim, this is the plain mean.
+ */
+export function trimmedMean(values: number[], trimPercent: number): number {
+    const sorted = [...values].sort((a, b) => a - b);
+    const trim = Math.floor(sorted.length * trimPercent / 100);
+    return mean(sorted.slice(trim, sorted.length - trim));
+}
+
+/**
+ * Sample standard deviation (n - 1); 0 for fewer than two values
+ */
+export function standardDeviation(values: number[]): number {
+    if (values.length < 2) {
+        return 0;
+    }
+    const m = mean(values);
+    return Math.sqrt(values.reduce((sum, v) => sum + (v - m) ** 2, 0) / (values.length - 1));
+}
+
+/**
+ * One-way random-effects intraclass correlation, ICC(1), for groups of ratings
+ * (one group per rated item). Handles unequal group sizes using the adjusted
+ * average group size k0. Groups with fewer than two ratings are ignored.
+ * Returns null when there is too little data or no variance.
+ */
+export function intraclassCorrelation(groups: number[][]): number | null {
+    const rated = groups.filter(g => g.length >= 2);
+    const g = rated.length;
+    const n = rated.reduce((sum, group) => sum + group.length, 0);
+
+    if (g < 2 || n - g < 1) {
+        return null;
+    }
+
+    const grandMean = mean(rated.flat());
+    let ssBetween = 0;
+    let ssWithin = 0;
+
+    for (const group of rated) {
+        const groupMean = mean(group);
+        ssBetween += group.length * (groupMean - grandMean) ** 2;
+        ssWithin += group.reduce((sum, v) => sum + (v - groupMean) ** 2, 0);
+    }
+
+    const msBetween = ssBetween / (g - 1);
+    const msWithin = ssWithin / (n - g);
+    const k0 = (n - rated.reduce((sum, group) => sum + group.length ** 2, 0) / n) / (g - 1);
+
+    const denominator = msBetween + (k0 - 1) * msWithin;
+    if (denominator === 0) {
+        return null;
+    }
+
+    return (msBetween - msWithin) / denominator;
+}
+
+/**
+ * Krippendorff's alpha for interval data. Each group holds the ratings of one
+ * item; items rated only once are not pairable and are ignored, so missing
+ * ratings are handled naturally. Returns null when there is too little data
+ * or no variance.
+ */
+export function krippendorffAlpha(groups: number[][]): number | null {
+    const units = groups.filter(g => g.length >= 2);
+    const values = units.flat();
+    const n = values.length;
+
+    if (units.length < 2 || n < 3) {
+        return null;
+    }
+
+    // Observed disagreement: squared differences within each item
+    let observed = 0;
+    for (const unit of units) {
+        let unitSum = 0;
+        for (let i = 0; i < unit.length; i++) {
+            for (let j = 0; j < unit.length; j++) {
+                if (i !== j) unitSum += (unit[i] - unit[j]) ** 2;
+            }
+        }
+        observed += unitSum / (unit.length - 1);
+    }
+    observed /= n;
+
+    // Expected disagreement: squared differences across all pairable values
+    let expected = 0;
+    for (let i = 0; i < n; i++) {
+        for (let j = 0; j < n; j++) {
+            if (i !== j) expected += (values[i] - values[j]) ** 2;
+        }
+    }
+    expected /= n * (n - 1);
+
+    if (expected === 0) {
+        return null;
+    }
+
+    return 1 - observed / expected;
+}
@@ -1,5 +1,6 @@
 import { z } from 'zod';
-import { ApplicationStatus, EducationLevel } from '@prisma/client';
+import { ApplicationStatus, ApplicationDocumentType, EducationLevel } from '@prisma/client';
+import { ALL_PERMISSIONS } from '../config/permissions';
 
 
 // ==================== APPLICATION LIST SCHEMA ====================
@@ -24,6 +25,7 @@ export const listApplicationsSchema = z.object({
         submittedAfter: z.string().optional().transform((val) => (val ? new Date(val) : undefined)),
         submittedBefore: z.string().optional().transform((val) => (val ? new Date(val) : undefined)),
         hasBeenSentHome: z.string().optional().transform((val) => val === 'true'),
+        unverifiedContacts: z.enum(['true', 'false']).optional(),
         search: z.string().optional(),
         sortBy: z.enum([
             'submittedAt',
@@ -45,10 +47,25 @@ export const updateApplicationStatusSchema = z.object({
     body: z.object({
         status: z.nativeEnum(ApplicationStatus),
         notes: z.string().max(1000).optional(),
-        disbursedAmount: z.number().positive().optional(),
+        awardedAmount: z.number().positive('Awarded amount must be greater than zero').max(10000000).optional(),
+        budgetOverrideReason: z.string().min(3, 'A budget override reason must be at least 3 characters').max(1000).optional(),
     }),
 });
 
+export const returnForCorrectionSchema = z.object({
+    params: z.object({
+        id: z.string().uuid('Invalid application ID'),
+    }),
+    body: z.object({
+        reason: z.string().min(3, 'A reason is required').max(1000),
+        flaggedFields: z.array(z.string().min(1).max(200)).max(50).optional().default([]),
+        flaggedDocuments: z.array(z.nativeEnum(ApplicationDocumentType)).optional().default([]),
+    }).refine(
+        (data) => data.flaggedFields.length > 0 || data.flaggedDocuments.length > 0,
+        { message: 'At least one field or document must be flagged for correction', path: ['flaggedFields'] }
+    ),
+});
+
 // ==================== BULK UPDATE SCHEMA ====================
 
 export const bulkUpdateSchema = z.object({
@@ -56,6 +73,8 @@ export const bulkUpdateSchema = z.object({
         applicationIds: z.array(z.string().uuid()).min(1, 'At least one application ID is required').max(100, 'Maximum 100 applications per batch'),
         newStatus: z.nativeEnum(ApplicationStatus),
         note: z.string().max(500).optional(),
+        awardedAmount: z.number().positive('Awarded amount must be greater than zero').max(10000000).optional(),
+        budgetOverrideReason: z.string().min(3, 'A budget override reason must be at least 3 characters').max(1000).optional(),
     }),
 });
 
@@ -157,10 +176,74 @@ export const scoreApplicationSchema = z.object({
         id: z.string().uuid('Invalid application ID'),
     }),
     body: z.object({
-        financialNeed: z.number().int().min(1).max(5),
-        academicMerit: z.number().int().min(1).max(5),
-        communityImpact: z.number().int().min(1).max(5),
-        vulnerability: z.number().int().min(1).max(5),
+        // Keyed by rubric criterion; ranges are checked against the rubric in force
+        scores: z.record(z.string(), z.number().int()).refine(
+            (scores) => Object.keys(scores).length > 0,
+            'At least one criterion score is required'
+        ),
         comments: z.string().max(2000).optional(),
     }),
 });
+
+// ==================== USER PERMISSIONS SCHEMA ====================
+
+export const setUserPermissionsSchema = z.object({
+    params: z.object({
+        id: z.string().uuid('Invalid user ID'),
+    }),
+    body: z.object({
+        permissions: z.array(
+            z.string().refine(
+                (val) => (ALL_PERMISSIONS as string[]).includes(val),
+                (val) => ({ message: `Unknown permission: ${val}` })
+            )
+        ).max(50),
+    }),
+});
+
+// ==================== ACCOUNT SECURITY SCHEMAS ====================
+
+export const unlockUserSchema = z.object({
+    params: z.object({
+        id: z.string().uuid('Invalid user ID'),
+    }),
+});
+
+export const resetTwoFactorSchema = z.object({
+    params: z.object({
+        id: z.string().uuid('Invalid user ID'),
+    }),
+});
+
+export const loginHistorySchema = z.object({
+    params: z.object({
+        id: z.string().uuid('Invalid user ID'),
+    }),
+    query: z.object({
+        page: z.string().regex(/^\d+$/, 'Page must be a positive integer').optional(),
+        limit: z.string().regex(/^\d+$/, 'Limit must be a positive integer').optional(),
+    }),
+});
+
+// ==================== AUDIT LOG SCHEMAS ====================
+
+const auditLogFilters = {
+    actorId: z.string().uuid('Invalid actor ID').optional(),
+    action: z.string().max(100).optional(),
+    entityType: z.string().max(100).optional(),
+    entityId: z.string().max(100).optional(),
+    from: z.string().refine((val) => !isNaN(Date.parse(val)), 'Invalid from date').optional(),
+    to: z.string().refine((val) => !isNaN(Date.parse(val)), 'Invalid to date').optional(),
+};
+
+export const listAuditLogSchema = z.object({
+    query: z.object({
+        ...auditLogFilters,
+        page: z.string().regex(/^\d+$/, 'Page must be a positive integer').optional(),
+        limit: z.string().regex(/^\d+$/, 'Limit must be a positive integer').optional(),
+    }),
+});
+
+export const exportAuditLogSchema = z.object({
+    query: z.object(auditLogFilters),
+});
@@ -0,0 +1,65 @@
+import { z } from 'zod';
+import { AppealStatus } from '@prisma/client';
+
+// ==================== STUDENT APPEAL SCHEMAS ====================
+
+export const submitAppealSchema = z.object({
+    params: z.object({
+        id: z.string().uuid('Invalid application ID'),
+    }),
+    body: z.object({
+        statement: z.string().trim().min(50, 'Appeal statement must be at least 50 characters').max(5000),
+    }),
+});
+
+export const getApplicationAppealsSchema = z.object({
+    params: z.object({
+        id: z.string().uuid('Invalid application ID'),
+    }),
+});
+
+export const uploadAppealDocumentSchema = z.object({
+    params: z.object({
+        appealId: z.string().uuid('Invalid appeal ID'),
+    }),
+});
+
+// ==================== ADMIN APPEAL SCHEMAS ====================
+
+export const listAppealsSchema = z.object({
+    query: z.object({
+        page: z.string().optional().transform((val) => (val ? parseInt(val) : 1)),
+        limit: z.string().optional().transform((val) => {
+            const parsed = val ? parseInt(val) : 20;
+            return Math.min(parsed, 100);
+        }),
+        status: z.nativeEnum(AppealStatus).optional(),
+    }),
+});
+
+export const getAppealSchema = z.object({
+    params: z.object({
+        id: z.string().uuid('Invalid appeal ID'),
+    }),
+});
+
+export const decideAppealSchema = z.object({
+    params: z.object({
+        id: z.string().uuid('Invalid appeal ID'),
+    }),
+    body: z.object({
+        decision: z.enum([AppealStatus.UPHELD, AppealStatus.DISMISSED], {
+            errorMap: () => ({ message: 'Decision must be UPHELD or DISMISSED' })
+        }),
+        notes: z.string().min(3, 'Decision notes are required').max(2000),
+    }),
+});
+
+export const closeAppealSchema = z.object({
+    params: z.object({
+        id: z.string().uuid('Invalid appeal ID'),
+    }),
+    body: z.object({
+        reason: z.string().min(3, 'A reason is required').max(2000),
+    }),
+});
@@ -1,6 +1,10 @@
 import { z } from 'zod';
+import { ConsentPurpose, VerificationChannel } from '@prisma/client';
 import { validateKenyanPhone, normalizeKenyanPhone } from '../utils/validators';
 
+// Optional name the client gives its device, shown in the session list
+const deviceLabelSchema = z.string().trim().min(1).max(100).optional();
+
 // ==================== PASSWORD VALIDATION ====================
 
 const passwordSchema = z.string()
@@ -20,6 +24,8 @@ export const registerSchema = z.object({
         ).transform((val) => normalizeKenyanPhone(val)),
         password: passwordSchema,
         consentVersion: z.string().min(1, 'Consent version is required'),
+        consentPurposes: z.array(z.nativeEnum(ConsentPurpose)).max(10).optional(),
+        deviceLabel: deviceLabelSchema,
     }),
 });
 
@@ -29,6 +35,7 @@ export const loginSchema = z.object({
     body: z.object({
         email: z.string().email('Invalid email format').toLowerCase(),
         password: z.string().min(1, 'Password is required'),
+        deviceLabel: deviceLabelSchema,
     }),
 });
 
@@ -37,6 +44,7 @@ export const loginSchema = z.object({
 export const refreshTokenSchema = z.object({
     body: z.object({
         refreshToken: z.string().min(1, 'Refresh token is required'),
+        deviceLabel: deviceLabelSchema,
     }),
 });
 
@@ -71,3 +79,68 @@ export const logoutSchema = z.object({
         refreshToken: z.string().optional(),
     }),
 });
+
+// ==================== SESSION SCHEMAS ====================
+
+export const revokeSessionSchema = z.object({
+    params: z.object({
+        id: z.string().uuid('Invalid session ID'),
+    }),
+});
+
+// ==================== TWO-FACTOR SCHEMAS ====================
+
+const totpCodeSchema = z.string().trim().regex(/^\d{6}$/, 'Code must be 6 digits');
+
+// Authenticator code or recovery code
+const secondFactorSchema = z.string().trim().min(6, 'Code is required').max(20);
+
+export const verifyTwoFactorSchema = z.object({
+    body: z.object({
+        challengeToken: z.string().min(1, 'Challenge token is required'),
+        code: secondFactorSchema,
+        deviceLabel: deviceLabelSchema,
+    }),
+});
+
+export const twoFactorEnrollSchema = z.object({
+    body: z.object({
+        challengeToken: z.string().min(1, 'Challenge token is required'),
+    }),
+});
+
+export const twoFactorEnrollConfirmSchema = z.object({
+    body: z.object({
+        challengeToken: z.string().min(1, 'Challenge token is required'),
+        code: totpCodeSchema,
+        deviceLabel: deviceLabelSchema,
+    }),
+});
+
+export const twoFactorConfirmSchema = z.object({
+    body: z.object({
+        code: totpCodeSchema,
+    }),
+});
+
+export const twoFactorDisableSchema = z.object({
+    body: z.object({
+        password: z.string().min(1, 'Password is required'),
+        code: secondFactorSchema,
+    }),
+});
+
+// ==================== CONTACT VERIFICATION SCHEMAS ====================
+
+export const sendVerificationCodeSchema = z.object({
+    body: z.object({
+        channel: z.nativeEnum(VerificationChannel),
+    }),
+});
+
+export const verifyContactSchema = z.object({
+    body: z.object({
+        channel: z.nativeEnum(VerificationChannel),
+        code: z.string().trim().regex(/^\d{6}$/, 'Code must be 6 digits'),
+    }),
+});
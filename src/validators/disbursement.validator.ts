@@ -0,0 +1,52 @@
+import { z } from 'zod';
+import { PaymentMethod } from '@prisma/client';
+
+// ==================== DISBURSEMENT LEDGER SCHEMAS ====================
+
+export const listDisbursementsSchema = z.object({
+    query: z.object({
+        page: z.string().optional().transform((val) => (val ? parseInt(val) : 1)),
+        limit: z.string().optional().transform((val) => {
+            const parsed = val ? parseInt(val) : 20;
+            return Math.min(parsed, 100);
+        }),
+        paymentMethod: z.nativeEnum(PaymentMethod).optional(),
+        applicationPeriodId: z.string().uuid('Invalid period ID').optional(),
+        disbursedAfter: z.string().optional().transform((val) => (val ? new Date(val) : undefined)),
+        disbursedBefore: z.string().optional().transform((val) => (val ? new Date(val) : undefined)),
+        search: z.string().optional(),
+    }),
+});
+
+export const getApplicationDisbursementsSchema = z.object({
+    params: z.object({
+        id: z.string().uuid('Invalid application ID'),
+    }),
+});
+
+export const createDisbursementSchema = z.object({
+    params: z.object({
+        id: z.string().uuid('Invalid application ID'),
+    }),
+    body: z.object({
+        amount: z.number().positive('Amount must be greater than zero').max(10000000),
+        payeeInstitution: z.string().min(2, 'Payee institution is required').max(200),
+        paymentMethod: z.nativeEnum(PaymentMethod, {
+            errorMap: () => ({ message: 'Invalid payment method. Allowed: BANK_TRANSFER, MPESA, CHEQUE, OTHER' })
+        }),
+        paymentReference: z.string().min(3, 'Payment reference is required').max(100).trim(),
+        term: z.string().max(50).optional(),
+        notes: z.string().max(1000).optional(),
+        disbursedAt: z.string().refine((val) => !isNaN(Date.parse(val)), 'Invalid disbursement date').optional(),
+        budgetOverrideReason: z.string().min(3, 'A budget override reason must be at least 3 characters').max(1000).optional(),
+    }),
+});
+
+export const reverseDisbursementSchema = z.object({
+    params: z.object({
+        id: z.string().uuid('Invalid disbursement ID'),
+    }),
+    body: z.object({
+        reason: z.string().min(3, 'A reversal reason is required').max(1000),
+    }),
+});
@@ -1,4 +1,5 @@
 import { z } from 'zod';
+import { EducationLevel } from '@prisma/client';
 
 // ==================== APPLICATION PERIOD SCHEMAS ====================
 
@@ -9,6 +10,8 @@ export const createPeriodSchema = z.object({
         startDate: z.string().refine((val) => !isNaN(Date.parse(val)), 'Invalid start date'),
         endDate: z.string().refine((val) => !isNaN(Date.parse(val)), 'Invalid end date'),
         description: z.string().max(500).optional(),
+        appealWindowDays: z.number().int().min(0).max(365).optional(),
+        blindReview: z.boolean().optional(),
     }).refine(
         (data) => new Date(data.startDate) < new Date(data.endDate),
         { message: 'Start date must be before end date', path: ['endDate'] }
@@ -25,6 +28,8 @@ export const updatePeriodSchema = z.object({
         startDate: z.string().refine((val) => !isNaN(Date.parse(val)), 'Invalid start date').optional(),
         endDate: z.string().refine((val) => !isNaN(Date.parse(val)), 'Invalid end date').optional(),
         description: z.string().max(500).optional(),
+        appealWindowDays: z.number().int().min(0).max(365).optional(),
+        blindReview: z.boolean().optional(),
     }),
 });
 
@@ -39,3 +44,36 @@ export const activatePeriodSchema = z.object({
         id: z.string().uuid('Invalid period ID'),
     }),
 });
+
+// ==================== PERIOD BUDGET SCHEMAS ====================
+
+export const getPeriodBudgetSchema = z.object({
+    params: z.object({
+        id: z.string().uuid('Invalid period ID'),
+    }),
+});
+
+export const setPeriodBudgetSchema = z.object({
+    params: z.object({
+        id: z.string().uuid('Invalid period ID'),
+    }),
+    body: z.object({
+        totalBudget: z.number().positive('Total budget must be greater than zero').nullable(),
+        caps: z.array(
+            z.object({
+                educationLevel: z.nativeEnum(EducationLevel).optional(),
+                countyId: z.string().uuid('Invalid county ID').optional(),
+                amount: z.number().positive('Cap amount must be greater than zero'),
+            }).refine(
+                (cap) => !!cap.educationLevel !== !!cap.countyId,
+                { message: 'Each cap must target exactly one of educationLevel or countyId' }
+            )
+        ).max(100).optional().default([]),
+    }).refine(
+        (data) => {
+            const keys = data.caps.map(c => c.educationLevel || c.countyId);
+            return new Set(keys).size === keys.length;
+        },
+        { message: 'Each education level or county may only be capped once', path: ['caps'] }
+    ),
+});
@@ -0,0 +1,86 @@
+import { z } from 'zod';
+import { ApplicationStatus, ConsentPurpose, ErasureRequestStatus, RetentionTarget } from '@prisma/client';
+
+const erasureRequestParams = z.object({
+    id: z.string().uuid('Invalid erasure request ID'),
+});
+
+// ==================== RETENTION SCHEMAS ====================
+
+export const updateRetentionPolicySchema = z.object({
+    params: z.object({
+        target: z.nativeEnum(RetentionTarget),
+    }),
+    body: z.object({
+        retentionMonths: z.number().int().min(1, 'Retention must be at least 1 month').max(600).optional(),
+        statuses: z.array(z.nativeEnum(ApplicationStatus)).max(20).optional(),
+        isEnabled: z.boolean().optional(),
+    }).refine(
+        (body) => Object.keys(body).length > 0,
+        'At least one field must be provided'
+    ),
+});
+
+export const runRetentionSchema = z.object({
+    body: z.object({
+        dryRun: z.boolean().optional().default(true),
+    }),
+});
+
+// ==================== ERASURE REQUEST SCHEMAS ====================
+
+export const createErasureRequestSchema = z.object({
+    body: z.object({
+        reason: z.string().max(2000).optional(),
+    }),
+});
+
+export const listErasureRequestsSchema = z.object({
+    query: z.object({
+        page: z.string().regex(/^\d+$/, 'Page must be a positive integer').optional(),
+        limit: z.string().regex(/^\d+$/, 'Limit must be a positive integer').optional(),
+        status: z.nativeEnum(ErasureRequestStatus).optional(),
+    }),
+});
+
+export const approveErasureRequestSchema = z.object({
+    params: erasureRequestParams,
+    body: z.object({
+        notes: z.string().max(2000).optional(),
+    }),
+});
+
+export const rejectErasureRequestSchema = z.object({
+    params: erasureRequestParams,
+    body: z.object({
+        notes: z.string().min(5, 'A reason is required').max(2000),
+    }),
+});
+
+// ==================== CONSENT SCHEMAS ====================
+
+export const createConsentDocumentSchema = z.object({
+    body: z.object({
+        version: z.string().trim().min(1, 'Version is required').max(50),
+        title: z.string().trim().min(1, 'Title is required').max(200),
+        content: z.string().min(50, 'Content must be at least 50 characters').max(100000),
+        purposes: z.array(z.nativeEnum(ConsentPurpose)).min(1, 'At least one purpose is required'),
+        effectiveFrom: z.string().refine(
+            (val) => !isNaN(Date.parse(val)),
+            { message: 'Invalid date format' }
+        ).optional(),
+    }),
+});
+
+export const acceptConsentSchema = z.object({
+    body: z.object({
+        version: z.string().min(1, 'Consent version is required'),
+        purposes: z.array(z.nativeEnum(ConsentPurpose)).max(10).optional().default([]),
+    }),
+});
+
+export const withdrawConsentSchema = z.object({
+    body: z.object({
+        purposes: z.array(z.nativeEnum(ConsentPurpose)).min(1, 'At least one purpose is required'),
+    }),
+});
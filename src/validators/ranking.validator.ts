@@ -0,0 +1,54 @@
+import { z } from 'zod';
+
+// ==================== RANKING & SHORTLIST SCHEMAS ====================
+
+// Options that rank applications and compute their awards; confirmation re-runs them
+const rankingOptions = {
+    aggregation: z.enum(['mean', 'trimmed_mean', 'median']).optional(),
+    trimPercent: z.number().min(0).max(49).optional(),
+    tieBreakers: z.array(z.enum(['orphanStatus', 'disability', 'householdIncome']))
+        .max(3)
+        .refine((list) => new Set(list).size === list.length, 'Each tie-breaker may only be listed once')
+        .optional(),
+    minReviews: z.number().int().min(1).max(20).optional(),
+    awardAmount: z.number().positive('Award amount must be greater than zero').optional(),
+    maxAward: z.number().positive('Maximum award must be greater than zero').optional(),
+};
+
+export const proposeShortlistSchema = z.object({
+    params: z.object({
+        id: z.string().uuid('Invalid period ID'),
+    }),
+    body: z.object({
+        ...rankingOptions,
+        maxShortlisted: z.number().int().min(1).optional(),
+    }),
+});
+
+export const confirmShortlistSchema = z.object({
+    params: z.object({
+        id: z.string().uuid('Invalid period ID'),
+    }),
+    body: z.object({
+        applicationIds: z.array(z.string().uuid('Invalid application ID'))
+            .min(1, 'At least one application ID is required')
+            .max(1000),
+        waitlistIds: z.array(z.string().uuid('Invalid application ID')).max(1000).optional(),
+        note: z.string().max(1000).optional(),
+        ...rankingOptions,
+    }),
+});
+
+// ==================== SCORING RELIABILITY SCHEMA ====================
+
+export const reliabilityReportSchema = z.object({
+    params: z.object({
+        id: z.string().uuid('Invalid period ID'),
+    }),
+    query: z.object({
+        threshold: z.string()
+            .regex(/^\d+(\.\d+)?$/, 'Threshold must be a number of score points')
+            .refine((val) => Number(val) <= 100, 'Threshold cannot exceed 100')
+            .optional(),
+    }),
+});
@@ -0,0 +1,92 @@
+import { z } from 'zod';
+
+const futureDate = z.string()
+    .refine((val) => !isNaN(Date.parse(val)), 'Invalid due date')
+    .refine((val) => new Date(val) > new Date(), 'Due date must be in the future');
+
+// ==================== REVIEWER ASSIGNMENT SCHEMAS ====================
+
+export const assignReviewersSchema = z.object({
+    params: z.object({
+        id: z.string().uuid('Invalid application ID'),
+    }),
+    body: z.object({
+        reviewerIds: z.array(z.string().uuid('Invalid reviewer ID')).min(1).max(20).optional(),
+        count: z.number().int().min(1).max(20).optional(),
+        dueDate: futureDate.optional(),
+    }).refine(
+        (data) => !(data.reviewerIds && data.count),
+        { message: 'Provide either reviewerIds or count, not both' }
+    ).refine(
+        (data) => !data.reviewerIds || new Set(data.reviewerIds).size === data.reviewerIds.length,
+        { message: 'Each reviewer may only be listed once', path: ['reviewerIds'] }
+    ),
+});
+
+export const autoAssignReviewersSchema = z.object({
+    body: z.object({
+        applicationIds: z.array(z.string().uuid('Invalid application ID'))
+            .min(1, 'At least one application ID is required')
+            .max(500, 'Cannot assign more than 500 applications at once'),
+        reviewersPerApplication: z.number().int().min(1).max(20),
+        dueDate: futureDate.optional(),
+    }),
+});
+
+export const getApplicationReviewersSchema = z.object({
+    params: z.object({
+        id: z.string().uuid('Invalid application ID'),
+    }),
+});
+
+export const unassignReviewerSchema = z.object({
+    params: z.object({
+        id: z.string().uuid('Invalid application ID'),
+        reviewerId: z.string().uuid('Invalid reviewer ID'),
+    }),
+});
+
+// ==================== REVIEW QUEUE SCHEMAS ====================
+
+export const myReviewsSchema = z.object({
+    query: z.object({
+        page: z.string().optional().transform((val) => (val ? parseInt(val) : 1)),
+        limit: z.string().optional().transform((val) => {
+            const parsed = val ? parseInt(val) : 20;
+            return Math.min(parsed, 100);
+        }),
+        status: z.enum(['pending', 'completed', 'all']).optional(),
+    }),
+});
+
+export const getReviewApplicationSchema = z.object({
+    params: z.object({
+        applicationId: z.string().uuid('Invalid application ID'),
+    }),
+});
+
+// ==================== CONFLICT OF INTEREST SCHEMAS ====================
+
+export const listConflictsSchema = z.object({
+    query: z.object({
+        reviewerId: z.string().uuid('Invalid reviewer ID').optional(),
+    }),
+});
+
+export const createConflictSchema = z.object({
+    body: z.object({
+        reviewerId: z.string().uuid('Invalid reviewer ID'),
+        countyId: z.string().uuid('Invalid county ID').optional(),
+        institutionId: z.string().uuid('Invalid institution ID').optional(),
+        reason: z.string().max(500).optional(),
+    }).refine(
+        (data) => !!data.countyId !== !!data.institutionId,
+        { message: 'A conflict must name exactly one of countyId or institutionId' }
+    ),
+});
+
+export const deleteConflictSchema = z.object({
+    params: z.object({
+        id: z.string().uuid('Invalid conflict ID'),
+    }),
+});
@@ -0,0 +1,46 @@
+import { z } from 'zod';
+
+// ==================== SCORING RUBRIC SCHEMAS ====================
+
+const anchorSchema = z.object({
+    score: z.number().int(),
+    label: z.string().min(1).max(100),
+    description: z.string().max(500).optional(),
+});
+
+const criterionSchema = z.object({
+    key: z.string().regex(/^[a-zA-Z][a-zA-Z0-9_]{0,49}$/, 'Criterion key must start with a letter and contain only letters, digits and underscores'),
+    label: z.string().min(1).max(100),
+    description: z.string().max(1000).optional(),
+    minScore: z.number().int().min(0),
+    maxScore: z.number().int().max(100),
+    weight: z.number().positive('Weight must be greater than zero'),
+    anchors: z.array(anchorSchema).max(101).optional(),
+});
+
+export const getCurrentRubricSchema = z.object({
+    query: z.object({
+        periodId: z.string().uuid('Invalid period ID').optional(),
+    }),
+});
+
+export const listRubricsSchema = z.object({
+    query: z.object({
+        periodId: z.union([z.literal('global'), z.string().uuid('Invalid period ID')]).optional(),
+    }),
+});
+
+export const getRubricSchema = z.object({
+    params: z.object({
+        id: z.string().uuid('Invalid rubric ID'),
+    }),
+});
+
+export const createRubricSchema = z.object({
+    body: z.object({
+        applicationPeriodId: z.string().uuid('Invalid period ID').nullable().optional(),
+        name: z.string().min(3).max(100),
+        description: z.string().max(1000).optional(),
+        criteria: z.array(criterionSchema).min(1, 'A rubric needs at least one criterion').max(20),
+    }),
+});
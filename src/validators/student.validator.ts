@@ -1,5 +1,6 @@
 import { z } from 'zod';
-import { EducationLevel, ProfileDocumentType, ApplicationDocumentType, HouseholdIncomeRange, OrphanStatus, WhoLivesWith } from '@prisma/client';
+import { EducationLevel, ProfileDocumentType, ApplicationDocumentType, HouseholdIncomeRange, WhoLivesWith } from '@prisma/client';
+import { OrphanStatus } from '../types/api.types';
 import {
     validateKenyanPhone,
 } from '../utils/validators';
@@ -163,6 +164,15 @@ export const submitApplicationSchema = z.object({
     }),
 });
 
+export const withdrawApplicationSchema = z.object({
+    params: z.object({
+        id: z.string().uuid('Invalid application ID'),
+    }),
+    body: z.object({
+        reason: z.string().trim().min(3, 'A withdrawal reason is required').max(1000),
+    }),
+});
+
 // ==================== APPLICATION VIEW SCHEMAS ====================
 
 export const getApplicationSchema = z.object({
@@ -0,0 +1,76 @@
+import { z } from 'zod';
+import { UserRole } from '@prisma/client';
+import { validateKenyanPhone, normalizeKenyanPhone } from '../utils/validators';
+import { ALL_PERMISSIONS } from '../config/permissions';
+
+const userIdParams = z.object({
+    id: z.string().uuid('Invalid user ID'),
+});
+
+const staffRoleSchema = z.enum([UserRole.ADMIN, UserRole.BOARD], {
+    errorMap: () => ({ message: 'Role must be ADMIN or BOARD' }),
+});
+
+// ==================== USER MANAGEMENT SCHEMAS ====================
+
+export const listUsersSchema = z.object({
+    query: z.object({
+        page: z.string().regex(/^\d+$/, 'Page must be a positive integer').optional(),
+        limit: z.string().regex(/^\d+$/, 'Limit must be a positive integer').optional(),
+        role: z.nativeEnum(UserRole).optional(),
+        status: z.enum(['active', 'inactive', 'locked', 'deleted']).optional(),
+        search: z.string().max(100).optional(),
+    }),
+});
+
+export const getUserSchema = z.object({
+    params: userIdParams,
+});
+
+export const inviteStaffSchema = z.object({
+    body: z.object({
+        email: z.string().email('Invalid email format').toLowerCase(),
+        phone: z.string().refine(
+            (val) => validateKenyanPhone(val),
+            { message: 'Invalid Kenyan phone number format. Use 07XXXXXXXX or 01XXXXXXXX' }
+        ).transform((val) => normalizeKenyanPhone(val)),
+        role: staffRoleSchema,
+    }),
+});
+
+export const changeUserRoleSchema = z.object({
+    params: userIdParams,
+    body: z.object({
+        role: staffRoleSchema,
+    }),
+});
+
+export const setUserStatusSchema = z.object({
+    params: userIdParams,
+    body: z.object({
+        isActive: z.boolean(),
+    }),
+});
+
+export const setSuperAdminSchema = z.object({
+    params: userIdParams,
+    body: z.object({
+        isSuperAdmin: z.boolean(),
+    }),
+});
+
+// ==================== ROLE PERMISSION SCHEMAS ====================
+
+export const setRolePermissionsSchema = z.object({
+    params: z.object({
+        role: staffRoleSchema,
+    }),
+    body: z.object({
+        permissions: z.array(
+            z.string().refine(
+                (val) => (ALL_PERMISSIONS as string[]).includes(val),
+                (val) => ({ message: `Unknown permission: ${val}` })
+            )
+        ).max(50),
+    }),
+});
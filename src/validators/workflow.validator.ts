@@ -0,0 +1,52 @@
+import { z } from 'zod';
+import { ApplicationStatus, UserRole } from '@prisma/client';
+
+// ==================== WORKFLOW TRANSITION SCHEMAS ====================
+
+const transitionRules = {
+    allowedRoles: z.array(z.nativeEnum(UserRole)).min(1, 'At least one role is required'),
+    requiresReason: z.boolean(),
+    notifyStudent: z.boolean(),
+    emailStudent: z.boolean(),
+    notifyAdmins: z.boolean(),
+    isActive: z.boolean(),
+    description: z.string().max(200),
+};
+
+export const createTransitionSchema = z.object({
+    body: z.object({
+        fromStatus: z.nativeEnum(ApplicationStatus),
+        toStatus: z.nativeEnum(ApplicationStatus),
+        allowedRoles: transitionRules.allowedRoles,
+        requiresReason: transitionRules.requiresReason.optional(),
+        notifyStudent: transitionRules.notifyStudent.optional(),
+        emailStudent: transitionRules.emailStudent.optional(),
+        notifyAdmins: transitionRules.notifyAdmins.optional(),
+        isActive: transitionRules.isActive.optional(),
+        description: transitionRules.description.optional(),
+    }).refine(
+        (data) => data.fromStatus !== data.toStatus,
+        { message: 'A transition must change the status', path: ['toStatus'] }
+    ),
+});
+
+export const updateTransitionSchema = z.object({
+    params: z.object({
+        id: z.string().uuid('Invalid transition ID'),
+    }),
+    body: z.object({
+        allowedRoles: transitionRules.allowedRoles.optional(),
+        requiresReason: transitionRules.requiresReason.optional(),
+        notifyStudent: transitionRules.notifyStudent.optional(),
+        emailStudent: transitionRules.emailStudent.optional(),
+        notifyAdmins: transitionRules.notifyAdmins.optional(),
+        isActive: transitionRules.isActive.optional(),
+        description: transitionRules.description.optional(),
+    }),
+});
+
+export const deleteTransitionSchema = z.object({
+    params: z.object({
+        id: z.string().uuid('Invalid transition ID'),
+    }),
+});